@@ -9,6 +9,7 @@ import { logger } from '../utils/logger';
 export class DatabaseConfig {
   private pgPool!: Pool;
   private redisClient!: IORedis;
+  private redisSubscriber?: IORedis;
   private adminPool!: Pool;
 
   constructor() {
@@ -108,6 +109,21 @@ export class DatabaseConfig {
     return this.redisClient;
   }
 
+  /**
+   * Get the dedicated Redis connection used for pub/sub subscriptions
+   */
+  public getRedisSubscriber(): IORedis {
+    if (!this.redisSubscriber) {
+      this.redisSubscriber = this.redisClient.duplicate();
+
+      this.redisSubscriber.on('error', (err) => {
+        logger.logError(null, err, { context: 'Redis subscriber connection error' });
+      });
+    }
+
+    return this.redisSubscriber;
+  }
+
   /**
    * Create database if it doesn't exist
    */
@@ -160,12 +176,66 @@ export class DatabaseConfig {
             created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
             updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
             execution_data JSONB,
-            user_id VARCHAR(255)
+            user_id VARCHAR(255),
+            limit_price DECIMAL(20, 8),
+            max_entry_price DECIMAL(20, 8),
+            expires_at TIMESTAMP,
+            client_order_id VARCHAR(255),
+            notional DECIMAL(20, 8),
+            quote_id VARCHAR(255),
+            quoted_amount_out DECIMAL(20, 8),
+            quote_expires_at TIMESTAMP,
+            slices INTEGER,
+            duration_ms INTEGER,
+            parent_order_id VARCHAR(255),
+            trigger_price DECIMAL(20, 8),
+            group_id VARCHAR(255),
+            group_role VARCHAR(20),
+            time_in_force VARCHAR(3),
+            last_sequence INTEGER NOT NULL DEFAULT 0
           );
 
+          ALTER TABLE orders ADD COLUMN IF NOT EXISTS limit_price DECIMAL(20, 8);
+          ALTER TABLE orders ADD COLUMN IF NOT EXISTS max_entry_price DECIMAL(20, 8);
+          ALTER TABLE orders ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP;
+          ALTER TABLE orders ADD COLUMN IF NOT EXISTS client_order_id VARCHAR(255);
+          ALTER TABLE orders ADD COLUMN IF NOT EXISTS notional DECIMAL(20, 8);
+          ALTER TABLE orders ADD COLUMN IF NOT EXISTS quote_id VARCHAR(255);
+          ALTER TABLE orders ADD COLUMN IF NOT EXISTS quoted_amount_out DECIMAL(20, 8);
+          ALTER TABLE orders ADD COLUMN IF NOT EXISTS quote_expires_at TIMESTAMP;
+          ALTER TABLE orders ADD COLUMN IF NOT EXISTS slices INTEGER;
+          ALTER TABLE orders ADD COLUMN IF NOT EXISTS duration_ms INTEGER;
+          ALTER TABLE orders ADD COLUMN IF NOT EXISTS parent_order_id VARCHAR(255);
+          ALTER TABLE orders ADD COLUMN IF NOT EXISTS trigger_price DECIMAL(20, 8);
+          ALTER TABLE orders ADD COLUMN IF NOT EXISTS group_id VARCHAR(255);
+          ALTER TABLE orders ADD COLUMN IF NOT EXISTS group_role VARCHAR(20);
+          ALTER TABLE orders ADD COLUMN IF NOT EXISTS time_in_force VARCHAR(3);
+          ALTER TABLE orders ADD COLUMN IF NOT EXISTS last_sequence INTEGER NOT NULL DEFAULT 0;
+
           CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status);
           CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders(created_at);
           CREATE INDEX IF NOT EXISTS idx_orders_user_id ON orders(user_id);
+          CREATE INDEX IF NOT EXISTS idx_orders_client_order_id ON orders(client_order_id);
+          CREATE INDEX IF NOT EXISTS idx_orders_parent_order_id ON orders(parent_order_id);
+          CREATE INDEX IF NOT EXISTS idx_orders_group_id ON orders(group_id);
+          CREATE INDEX IF NOT EXISTS idx_orders_expires_at ON orders(expires_at);
+
+          CREATE TABLE IF NOT EXISTS order_groups (
+            id VARCHAR(255) PRIMARY KEY,
+            type VARCHAR(20) NOT NULL,
+            status VARCHAR(20) NOT NULL,
+            user_id VARCHAR(255),
+            token_in VARCHAR(255) NOT NULL,
+            token_out VARCHAR(255) NOT NULL,
+            amount_in DECIMAL(20, 8) NOT NULL,
+            take_profit_price DECIMAL(20, 8),
+            stop_loss_price DECIMAL(20, 8),
+            triggered_order_id VARCHAR(255),
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+          );
+
+          CREATE INDEX IF NOT EXISTS idx_order_groups_user_id ON order_groups(user_id);
 
           CREATE TABLE IF NOT EXISTS order_events (
             id SERIAL PRIMARY KEY,
@@ -173,10 +243,35 @@ export class DatabaseConfig {
             status VARCHAR(50) NOT NULL,
             data JSONB,
             timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            sequence INTEGER,
             FOREIGN KEY (order_id) REFERENCES orders(id)
           );
 
+          ALTER TABLE order_events ADD COLUMN IF NOT EXISTS sequence INTEGER;
+
+          -- One-time backfill: number events recorded before sequences existed after any already
+          -- numbered events of the same order, so existing sequences (and their gaps) are left alone
+          DO $$
+          BEGIN
+            IF EXISTS (SELECT 1 FROM order_events WHERE sequence IS NULL) THEN
+              UPDATE order_events e SET sequence = numbered.seq
+              FROM (
+                SELECT id, ROW_NUMBER() OVER (PARTITION BY order_id ORDER BY timestamp, id)
+                  + COALESCE((SELECT MAX(sequence) FROM order_events sequenced WHERE sequenced.order_id = unsequenced.order_id), 0) AS seq
+                FROM order_events unsequenced
+                WHERE sequence IS NULL
+              ) numbered
+              WHERE e.id = numbered.id;
+
+              -- Sequences are handed out by orders.last_sequence; start each order after its recorded events
+              UPDATE orders o SET last_sequence = recorded.max_sequence
+              FROM (SELECT order_id, MAX(sequence) AS max_sequence FROM order_events GROUP BY order_id) recorded
+              WHERE o.id = recorded.order_id AND o.last_sequence < recorded.max_sequence;
+            END IF;
+          END $$;
+
           CREATE INDEX IF NOT EXISTS idx_order_events_order_id ON order_events(order_id);
+          CREATE UNIQUE INDEX IF NOT EXISTS uq_order_events_order_sequence ON order_events(order_id, sequence);
           CREATE INDEX IF NOT EXISTS idx_order_events_timestamp ON order_events(timestamp);
 
           CREATE TABLE IF NOT EXISTS routing_decisions (
@@ -187,12 +282,71 @@ export class DatabaseConfig {
             fee DECIMAL(10, 8) NOT NULL,
             reason TEXT,
             alternatives JSONB,
+            legs JSONB,
+            path JSONB,
             timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
             FOREIGN KEY (order_id) REFERENCES orders(id)
           );
 
+          ALTER TABLE routing_decisions ADD COLUMN IF NOT EXISTS legs JSONB;
+          ALTER TABLE routing_decisions ADD COLUMN IF NOT EXISTS path JSONB;
+
           CREATE INDEX IF NOT EXISTS idx_routing_decisions_order_id ON routing_decisions(order_id);
           CREATE INDEX IF NOT EXISTS idx_routing_decisions_dex ON routing_decisions(selected_dex);
+
+          CREATE TABLE IF NOT EXISTS api_keys (
+            id SERIAL PRIMARY KEY,
+            key_hash VARCHAR(64) NOT NULL UNIQUE,
+            user_id VARCHAR(255) NOT NULL,
+            name VARCHAR(255),
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            last_used_at TIMESTAMP,
+            revoked_at TIMESTAMP
+          );
+
+          CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON api_keys(user_id);
+
+          CREATE TABLE IF NOT EXISTS order_quota_reservations (
+            id SERIAL PRIMARY KEY,
+            user_id VARCHAR(255) NOT NULL,
+            notional DECIMAL(20, 8),
+            expires_at TIMESTAMP NOT NULL
+          );
+
+          CREATE INDEX IF NOT EXISTS idx_order_quota_reservations_user_id ON order_quota_reservations(user_id, expires_at);
+
+          CREATE TABLE IF NOT EXISTS balances (
+            user_id VARCHAR(255) NOT NULL,
+            token VARCHAR(255) NOT NULL,
+            available DECIMAL(20, 8) NOT NULL DEFAULT 0 CHECK (available >= 0),
+            reserved DECIMAL(20, 8) NOT NULL DEFAULT 0 CHECK (reserved >= 0),
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY (user_id, token)
+          );
+
+          CREATE TABLE IF NOT EXISTS balance_reservations (
+            order_id VARCHAR(255) PRIMARY KEY,
+            user_id VARCHAR(255) NOT NULL,
+            token VARCHAR(255) NOT NULL,
+            amount DECIMAL(20, 8) NOT NULL,
+            status VARCHAR(20) NOT NULL DEFAULT 'held',
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+          );
+
+          CREATE TABLE IF NOT EXISTS balance_ledger (
+            id SERIAL PRIMARY KEY,
+            user_id VARCHAR(255) NOT NULL,
+            token VARCHAR(255) NOT NULL,
+            kind VARCHAR(20) NOT NULL,
+            available_change DECIMAL(20, 8) NOT NULL DEFAULT 0,
+            reserved_change DECIMAL(20, 8) NOT NULL DEFAULT 0,
+            order_id VARCHAR(255),
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+          );
+
+          CREATE INDEX IF NOT EXISTS idx_balance_ledger_user_id ON balance_ledger(user_id, created_at);
+          CREATE INDEX IF NOT EXISTS idx_balance_ledger_order_id ON balance_ledger(order_id);
         `);
 
         logger.getLogger().info('Database tables initialized successfully');
@@ -214,6 +368,7 @@ export class DatabaseConfig {
   public async close(): Promise<void> {
     try {
       await this.pgPool.end();
+      await this.redisSubscriber?.quit();
       await this.redisClient.quit();
       logger.getLogger().info('Database connections closed');
     } catch (error) {
@@ -0,0 +1,34 @@
+import { PoolInfo } from '../types/dex';
+
+type PoolSeed = Omit<PoolInfo, 'lastUpdate'>;
+
+/**
+ * Seed reserves for the simulated venues
+ * Prices are reserveOut / reserveIn; venues are deliberately offset a little
+ * so routing has something to choose between
+ */
+const POOL_SEEDS: PoolSeed[] = [
+  // Raydium constant-product pools
+  { dex: 'raydium', poolId: 'raydium-sol-usdc', tokenIn: 'SOL', tokenOut: 'USDC', reserveIn: 50000, reserveOut: 5000000, fee: 0.0025 },
+  { dex: 'raydium', poolId: 'raydium-sol-usdt', tokenIn: 'SOL', tokenOut: 'USDT', reserveIn: 40000, reserveOut: 3996000, fee: 0.0025 },
+  { dex: 'raydium', poolId: 'raydium-eth-usdc', tokenIn: 'ETH', tokenOut: 'USDC', reserveIn: 2000, reserveOut: 6000000, fee: 0.0025 },
+  { dex: 'raydium', poolId: 'raydium-eth-usdt', tokenIn: 'ETH', tokenOut: 'USDT', reserveIn: 1500, reserveOut: 4500000, fee: 0.0025 },
+  { dex: 'raydium', poolId: 'raydium-bonk-sol', tokenIn: 'BONK', tokenOut: 'SOL', reserveIn: 10000000000, reserveOut: 2000, fee: 0.0025 },
+
+  // Meteora concentrated-liquidity pools
+  { dex: 'meteora', poolId: 'meteora-sol-usdc', tokenIn: 'SOL', tokenOut: 'USDC', reserveIn: 30000, reserveOut: 3009000, fee: 0.002 },
+  { dex: 'meteora', poolId: 'meteora-sol-usdt', tokenIn: 'SOL', tokenOut: 'USDT', reserveIn: 20000, reserveOut: 2002000, fee: 0.002 },
+  { dex: 'meteora', poolId: 'meteora-eth-usdc', tokenIn: 'ETH', tokenOut: 'USDC', reserveIn: 1000, reserveOut: 3003000, fee: 0.002 },
+  { dex: 'meteora', poolId: 'meteora-jup-usdc', tokenIn: 'JUP', tokenOut: 'USDC', reserveIn: 2000000, reserveOut: 1600000, fee: 0.002 }
+];
+
+/**
+ * Get fresh seed PoolInfo for a venue
+ * @param dex - DEX name
+ * @returns PoolInfo[] - Seed pools for the venue
+ */
+export function getDefaultPools(dex: string): PoolInfo[] {
+  return POOL_SEEDS
+    .filter(seed => seed.dex === dex)
+    .map(seed => ({ ...seed, lastUpdate: new Date() }));
+}
@@ -0,0 +1,82 @@
+// src/config/risk.ts
+
+/**
+ * Pre-trade risk limits (0 or empty disables a check)
+ * - allowedTokens: tokens that may be traded on either side
+ * - maxOrderSize: largest amountIn per tokenIn
+ * - maxPriceImpact: largest shortfall of the order's expected price against the reference price
+ * - maxDailyNotional: largest notional a user may submit per UTC day
+ * - maxPriceDeviation: largest distance of a limit price from the reference price
+ */
+export interface RiskLimits {
+  allowedTokens: string[];
+  maxOrderSize: Record<string, number>;
+  maxPriceImpact: number;
+  maxDailyNotional: number;
+  maxPriceDeviation: number;
+}
+
+/**
+ * Read risk limits from the environment
+ * @param env - Environment variables
+ * @returns RiskLimits - Validated limits
+ */
+export function getRiskLimits(env: NodeJS.ProcessEnv = process.env): RiskLimits {
+  return {
+    allowedTokens: parseList(env.RISK_ALLOWED_TOKENS),
+    maxOrderSize: parseTokenAmounts('RISK_MAX_ORDER_SIZE', env.RISK_MAX_ORDER_SIZE),
+    maxPriceImpact: parseNumber('RISK_MAX_PRICE_IMPACT', env.RISK_MAX_PRICE_IMPACT || '0.1'),
+    maxDailyNotional: parseNumber('RISK_MAX_DAILY_NOTIONAL', env.RISK_MAX_DAILY_NOTIONAL || '0'),
+    maxPriceDeviation: parseNumber('RISK_MAX_PRICE_DEVIATION', env.RISK_MAX_PRICE_DEVIATION || '0.5')
+  };
+}
+
+/**
+ * Parse a comma-separated list
+ * @param value - Raw value, e.g. "SOL,USDC"
+ * @returns string[] - Trimmed, non-empty entries
+ */
+function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0);
+}
+
+/**
+ * Parse per-token amounts
+ * @param name - Variable name for error messages
+ * @param value - Raw value, e.g. "SOL:1000,ETH:50"
+ * @returns Record<string, number> - Amount per token
+ */
+function parseTokenAmounts(name: string, value: string | undefined): Record<string, number> {
+  const amounts: Record<string, number> = {};
+
+  for (const entry of parseList(value)) {
+    const [token, amount] = entry.split(':').map(part => part.trim());
+
+    if (!token || amount === undefined) {
+      throw new Error(`Invalid ${name} entry "${entry}" (expected TOKEN:amount)`);
+    }
+
+    amounts[token] = parseNumber(name, amount);
+  }
+
+  return amounts;
+}
+
+/**
+ * Parse a non-negative number
+ * @param name - Variable name for error messages
+ * @param value - Raw value
+ * @returns number - Parsed value
+ */
+function parseNumber(name: string, value: string): number {
+  const parsed = Number(value);
+
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`Invalid ${name} "${value}" (expected a non-negative number)`);
+  }
+
+  return parsed;
+}
@@ -0,0 +1,26 @@
+// src/config/runMode.ts
+
+/**
+ * Process roles
+ * - api: HTTP/WebSocket server that enqueues orders but does not execute them
+ * - worker: executes queued orders and publishes status events, no HTTP server
+ * - all: both in one process (default, convenient for development)
+ */
+export type RunMode = 'api' | 'worker' | 'all';
+
+const RUN_MODES: RunMode[] = ['api', 'worker', 'all'];
+
+/**
+ * Resolve the process role from the MODE environment variable
+ * @param value - Raw mode value
+ * @returns RunMode - Validated mode
+ */
+export function getRunMode(value: string = process.env.MODE || 'all'): RunMode {
+  const mode = value.trim().toLowerCase();
+
+  if (!RUN_MODES.includes(mode as RunMode)) {
+    throw new Error(`Invalid MODE "${value}" (expected one of: ${RUN_MODES.join(', ')})`);
+  }
+
+  return mode as RunMode;
+}
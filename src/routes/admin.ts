@@ -0,0 +1,115 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { ApiKeyService } from '../services/apiKeyService';
+import { logger } from '../utils/logger';
+
+/**
+ * Register admin routes with Fastify (authenticated with ADMIN_API_KEY)
+ * @param fastify - Fastify instance
+ * @param options - Route options containing services
+ */
+export async function adminRoutes(
+  fastify: FastifyInstance,
+  options: {
+    apiKeyService: ApiKeyService;
+  }
+): Promise<void> {
+  const { apiKeyService } = options;
+
+  /**
+   * POST /api/admin/api-keys
+   * Issue an API key for a user (the key is only returned in this response)
+   */
+  fastify.post<{ Body: { userId: string; name?: string } }>('/api-keys', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['userId'],
+        properties: {
+          userId: { type: 'string', minLength: 1, maxLength: 255 },
+          name: { type: 'string', maxLength: 255 }
+        }
+      }
+    }
+  }, async (request: FastifyRequest<{ Body: { userId: string; name?: string } }>, reply: FastifyReply) => {
+    try {
+      const issued = await apiKeyService.createKey(request.body.userId, request.body.name);
+
+      return reply.status(201).send(issued);
+    } catch (error) {
+      logger.logError(null, error, { context: 'Create API key endpoint' });
+
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to create API key'
+      });
+    }
+  });
+
+  /**
+   * GET /api/admin/api-keys?userId=
+   * List a user's API keys
+   */
+  fastify.get<{ Querystring: { userId: string } }>('/api-keys', {
+    schema: {
+      querystring: {
+        type: 'object',
+        required: ['userId'],
+        properties: {
+          userId: { type: 'string', minLength: 1 }
+        }
+      }
+    }
+  }, async (request: FastifyRequest<{ Querystring: { userId: string } }>, reply: FastifyReply) => {
+    try {
+      return reply.status(200).send({
+        keys: await apiKeyService.listKeys(request.query.userId)
+      });
+    } catch (error) {
+      logger.logError(null, error, { context: 'List API keys endpoint' });
+
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to list API keys'
+      });
+    }
+  });
+
+  /**
+   * DELETE /api/admin/api-keys/:keyId
+   * Revoke an API key
+   */
+  fastify.delete<{ Params: { keyId: number } }>('/api-keys/:keyId', {
+    schema: {
+      params: {
+        type: 'object',
+        required: ['keyId'],
+        properties: {
+          keyId: { type: 'integer', minimum: 1 }
+        }
+      }
+    }
+  }, async (request: FastifyRequest<{ Params: { keyId: number } }>, reply: FastifyReply) => {
+    try {
+      const revoked = await apiKeyService.revokeKey(request.params.keyId);
+
+      if (!revoked) {
+        return reply.status(404).send({
+          error: 'API key not found',
+          message: `No active API key with ID ${request.params.keyId}`
+        });
+      }
+
+      return reply.status(200).send({
+        message: 'API key revoked',
+        keyId: request.params.keyId
+      });
+    } catch (error) {
+      logger.logError(null, error, { context: 'Revoke API key endpoint' });
+
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to revoke API key'
+      });
+    }
+  });
+}
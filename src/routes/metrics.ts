@@ -1,5 +1,6 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { OrderProcessor } from '../services/orderProcessor';
+import { dexRegistry } from '../services/dexRegistry';
 import { logger } from '../utils/logger';
 
 /**
@@ -10,11 +11,11 @@ interface MetricsResponse {
     total: number;
     successful: number;
     failed: number;
+    slippageExceeded: number;
     successRate: number;
   };
   routing: {
-    raydium: number;
-    meteora: number;
+    [dex: string]: number;
     totalRouted: number;
   };
   performance: {
@@ -87,21 +88,25 @@ export async function metricsRoutes(
         GROUP BY selected_dex
       `);
 
-      const raydiumCount = routingStats.rows.find((row: any) => row.selected_dex === 'raydium')?.count || 0;
-      const meteoraCount = routingStats.rows.find((row: any) => row.selected_dex === 'meteora')?.count || 0;
+      // Every registered venue is reported, even before its first routed order
+      const routing: MetricsResponse['routing'] = { totalRouted: 0 };
+      for (const dex of dexRegistry.getNames()) {
+        routing[dex] = 0;
+      }
+      for (const row of routingStats.rows) {
+        routing[row.selected_dex] = parseInt(row.count);
+        routing.totalRouted += parseInt(row.count);
+      }
 
       const response: MetricsResponse = {
         orders: {
           total: basicMetrics.totalOrders,
           successful: basicMetrics.successfulOrders,
           failed: basicMetrics.failedOrders,
+          slippageExceeded: basicMetrics.slippageExceeded,
           successRate: basicMetrics.successRate
         },
-        routing: {
-          raydium: parseInt(raydiumCount),
-          meteora: parseInt(meteoraCount),
-          totalRouted: parseInt(raydiumCount) + parseInt(meteoraCount)
-        },
+        routing,
         performance: {
           averageProcessingTime: parseFloat(avgTimeResult.rows[0]?.avg_time || '0'),
           queueSize: queueStats.waiting + queueStats.active + queueStats.delayed,
@@ -280,6 +285,8 @@ export async function metricsRoutes(
         orderProcessor['queue'].getJobCounts()
       ]);
 
+      const dexHealth = await orderProcessor.getDexHealth();
+
       const redisHealthy = healthChecks[0].status === 'fulfilled';
       const postgresHealthy = healthChecks[1].status === 'fulfilled';
       const queueHealthy = healthChecks[2].status === 'fulfilled';
@@ -301,7 +308,13 @@ export async function metricsRoutes(
           queue: {
             status: queueHealthy ? 'healthy' : 'unhealthy',
             error: healthChecks[2].status === 'rejected' ? (healthChecks[2] as any).reason?.message : null
-          }
+          },
+          dexes: dexHealth.map(health => ({
+            dex: health.dex,
+            status: health.healthy ? 'healthy' : 'unhealthy',
+            latencyMs: health.latencyMs,
+            error: health.error || null
+          }))
         },
         uptime: process.uptime(),
         memory: process.memoryUsage()
@@ -0,0 +1,366 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { v4 as uuidv4 } from 'uuid';
+import { Order } from '../types/order';
+import { OrderGroup, OrderGroupType } from '../types/orderGroup';
+import { OrderProcessor } from '../services/orderProcessor';
+import { RateLimiter } from '../services/rateLimiter';
+import { OrderQuotas } from '../services/orderQuotas';
+import { RiskEngine } from '../services/riskEngine';
+import { logger } from '../utils/logger';
+import { getAuthenticatedUserId } from '../utils/auth';
+import { InsufficientBalanceError } from '../utils/errors';
+
+/**
+ * OCO leg request interface
+ */
+interface OcoLegRequest {
+  type: 'limit' | 'stop_loss' | 'take_profit';
+  limitPrice?: number;
+  triggerPrice?: number;
+}
+
+/**
+ * Order group request interface
+ */
+interface OrderGroupRequest {
+  type: OrderGroupType;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: number;
+  slippage: number;
+  legs?: OcoLegRequest[];
+  entry?: {
+    type: 'market' | 'limit';
+    limitPrice?: number;
+  };
+  takeProfitPrice?: number;
+  stopLossPrice?: number;
+}
+
+const groupParamsSchema = {
+  type: 'object',
+  required: ['groupId'],
+  properties: {
+    groupId: { type: 'string', format: 'uuid' }
+  }
+};
+
+/**
+ * Register order group routes with Fastify
+ * @param fastify - Fastify instance
+ * @param options - Route options containing services
+ */
+export async function orderGroupRoutes(
+  fastify: FastifyInstance,
+  options: {
+    orderProcessor: OrderProcessor;
+    rateLimiter: RateLimiter;
+    orderQuotas: OrderQuotas;
+    riskEngine: RiskEngine;
+  }
+): Promise<void> {
+  const { orderProcessor, rateLimiter, orderQuotas, riskEngine } = options;
+
+  /**
+   * POST /api/order-groups
+   * Submit an OCO pair or a bracket (entry + take-profit + stop-loss)
+   */
+  fastify.post<{ Body: OrderGroupRequest }>('/', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['type', 'tokenIn', 'tokenOut', 'amountIn', 'slippage'],
+        properties: {
+          type: { type: 'string', enum: ['oco', 'bracket'] },
+          tokenIn: { type: 'string', minLength: 1 },
+          tokenOut: { type: 'string', minLength: 1 },
+          amountIn: { type: 'number', minimum: 0.000001 },
+          slippage: { type: 'number', minimum: 0.001, maximum: 0.5 },
+          legs: {
+            type: 'array',
+            minItems: 2,
+            maxItems: 2,
+            items: {
+              type: 'object',
+              required: ['type'],
+              properties: {
+                type: { type: 'string', enum: ['limit', 'stop_loss', 'take_profit'] },
+                limitPrice: { type: 'number', minimum: 0.000001 },
+                triggerPrice: { type: 'number', minimum: 0.000001 }
+              }
+            }
+          },
+          entry: {
+            type: 'object',
+            required: ['type'],
+            properties: {
+              type: { type: 'string', enum: ['market', 'limit'] },
+              limitPrice: { type: 'number', minimum: 0.000001 }
+            }
+          },
+          takeProfitPrice: { type: 'number', minimum: 0.000001 },
+          stopLossPrice: { type: 'number', minimum: 0.000001 }
+        }
+      }
+    }
+  }, async (request: FastifyRequest<{ Body: OrderGroupRequest }>, reply: FastifyReply) => {
+    let quotaReservationId: number | undefined;
+
+    try {
+      const { type, tokenIn, tokenOut, slippage, legs, entry, takeProfitPrice, stopLossPrice } = request.body;
+      const userId = getAuthenticatedUserId(request);
+      // Reservations are held with 8 decimals; every leg must match the group's amount exactly
+      const amountIn = Math.round(request.body.amountIn * 1e8) / 1e8;
+
+      const rateLimit = await rateLimiter.consume(`key:${request.auth!.keyId}`);
+      if (!rateLimit.allowed) {
+        return reply.status(429).header('Retry-After', Math.ceil(rateLimit.retryAfterMs / 1000)).send({
+          error: 'Too Many Requests',
+          message: `Rate limit exceeded, retry in ${Math.ceil(rateLimit.retryAfterMs / 1000)}s`
+        });
+      }
+
+      if (tokenIn === tokenOut) {
+        return reply.status(400).send({
+          error: 'Invalid pair',
+          message: 'tokenIn and tokenOut must be different'
+        });
+      }
+
+      if (type === 'oco') {
+        const invalidLeg = !legs || legs.find(leg => (leg.type === 'limit' ? leg.limitPrice : leg.triggerPrice) === undefined);
+
+        if (invalidLeg) {
+          return reply.status(400).send({
+            error: 'Invalid OCO',
+            message: 'OCO groups require two legs, each with a limitPrice (limit) or triggerPrice (stop_loss, take_profit)'
+          });
+        }
+
+        // One leg exits on the way up and the other on the way down, like a bracket's exits
+        const upside = legs!.find(leg => leg.type !== 'stop_loss');
+        const stopLoss = legs!.find(leg => leg.type === 'stop_loss');
+
+        if (!upside || !stopLoss) {
+          return reply.status(400).send({
+            error: 'Invalid OCO',
+            message: 'OCO groups require one limit or take_profit leg and one stop_loss leg'
+          });
+        }
+
+        if ((upside.type === 'limit' ? upside.limitPrice! : upside.triggerPrice!) <= stopLoss.triggerPrice!) {
+          return reply.status(400).send({
+            error: 'Invalid OCO',
+            message: 'The limit or take_profit price must be above the stop_loss triggerPrice'
+          });
+        }
+      } else {
+        if (!entry || takeProfitPrice === undefined || stopLossPrice === undefined) {
+          return reply.status(400).send({
+            error: 'Invalid bracket',
+            message: 'Bracket groups require entry, takeProfitPrice and stopLossPrice'
+          });
+        }
+
+        if (entry.type === 'limit' && entry.limitPrice === undefined) {
+          return reply.status(400).send({
+            error: 'Invalid bracket',
+            message: 'Limit entries require a limitPrice'
+          });
+        }
+
+        if (takeProfitPrice <= stopLossPrice) {
+          return reply.status(400).send({
+            error: 'Invalid bracket',
+            message: 'takeProfitPrice must be above stopLossPrice'
+          });
+        }
+      }
+
+      // Held until the group is persisted so concurrent submissions count against each other
+      const quota = await orderQuotas.reserve(userId, tokenIn, amountIn);
+      if (!quota.allowed) {
+        return reply.status(429).send({
+          error: 'Quota exceeded',
+          message: quota.message,
+          limit: quota.limit,
+          max: quota.max,
+          current: quota.current
+        });
+      }
+
+      quotaReservationId = quota.reservationId;
+
+      const group: OrderGroup = {
+        id: uuidv4(),
+        type,
+        status: type === 'oco' ? 'active' : 'pending',
+        userId,
+        tokenIn,
+        tokenOut,
+        amountIn,
+        takeProfitPrice: type === 'bracket' ? takeProfitPrice : undefined,
+        stopLossPrice: type === 'bracket' ? stopLossPrice : undefined,
+        createdAt: new Date()
+      };
+
+      const orderOf = (order: Pick<Order, 'type' | 'limitPrice' | 'triggerPrice' | 'groupRole'>): Order => ({
+        ...order,
+        id: uuidv4(),
+        tokenIn,
+        tokenOut,
+        amountIn,
+        slippage,
+        status: 'pending',
+        createdAt: new Date(),
+        userId,
+        notional: quota.notional,
+        groupId: group.id
+      });
+
+      const orders: Order[] = type === 'oco'
+        ? legs!.map(leg => orderOf({
+          type: leg.type,
+          limitPrice: leg.type === 'limit' ? leg.limitPrice : undefined,
+          triggerPrice: leg.type === 'limit' ? undefined : leg.triggerPrice,
+          groupRole: 'exit'
+        }))
+        : [orderOf({ type: entry!.type, limitPrice: entry!.limitPrice, groupRole: 'entry' })];
+
+      const assessments = [];
+      for (const order of orders) {
+        assessments.push(await riskEngine.evaluate(order));
+      }
+
+      if (type === 'bracket') {
+        assessments.push(await riskEngine.evaluateBracketExits(orders[0], takeProfitPrice!, stopLossPrice!));
+      }
+
+      const rejected = assessments.find(assessment => !assessment.approved);
+      if (rejected) {
+        await orderQuotas.release(quotaReservationId);
+
+        return reply.status(422).send({
+          error: 'Risk check failed',
+          message: rejected.rejections.map(rejection => rejection.message).join('; '),
+          reasons: rejected.rejections
+        });
+      }
+
+      await orderProcessor.submitOrderGroup(group, orders);
+      await orderQuotas.release(quotaReservationId);
+
+      logger.getLogger().info('Order group request processed', {
+        groupId: group.id,
+        type,
+        userId,
+        orderIds: orders.map(order => order.id)
+      });
+
+      return reply.status(200).send({
+        groupId: group.id,
+        type,
+        status: group.status,
+        orderIds: orders.map(order => order.id),
+        message: type === 'oco'
+          ? 'OCO orders armed; the first to trigger cancels the other'
+          : 'Bracket entry submitted; exits are armed once it fills'
+      });
+
+    } catch (error) {
+      await orderQuotas.release(quotaReservationId);
+
+      if (error instanceof InsufficientBalanceError) {
+        return reply.status(422).send({
+          error: 'Insufficient balance',
+          message: error.message,
+          token: error.token,
+          requested: error.requested,
+          available: error.available
+        });
+      }
+
+      logger.logError(null, error, { context: 'Order group endpoint' });
+
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to submit order group'
+      });
+    }
+  });
+
+  /**
+   * GET /api/order-groups/:groupId
+   * Get a group with the status of every order in it
+   */
+  fastify.get<{ Params: { groupId: string } }>('/:groupId', {
+    schema: { params: groupParamsSchema }
+  }, async (request: FastifyRequest<{ Params: { groupId: string } }>, reply: FastifyReply) => {
+    try {
+      const group = await orderProcessor.getOrderGroupDetails(request.params.groupId);
+
+      if (!group || group.userId !== getAuthenticatedUserId(request)) {
+        return reply.status(404).send({
+          error: 'Group not found',
+          message: `Order group with ID ${request.params.groupId} does not exist`
+        });
+      }
+
+      return reply.status(200).send(group);
+    } catch (error) {
+      logger.logError(null, error, { context: 'Get order group endpoint' });
+
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve order group'
+      });
+    }
+  });
+
+  /**
+   * DELETE /api/order-groups/:groupId
+   * Cancel a group whose exits have not been triggered
+   */
+  fastify.delete<{ Params: { groupId: string } }>('/:groupId', {
+    schema: { params: groupParamsSchema }
+  }, async (request: FastifyRequest<{ Params: { groupId: string } }>, reply: FastifyReply) => {
+    try {
+      const { groupId } = request.params;
+
+      const group = await orderProcessor.getOrderGroup(groupId);
+      const result = group && group.userId === getAuthenticatedUserId(request)
+        ? await orderProcessor.cancelOrderGroup(groupId)
+        : { outcome: 'not_found' as const };
+
+      if (result.outcome === 'not_found') {
+        return reply.status(404).send({
+          error: 'Group not found',
+          message: `Order group with ID ${groupId} does not exist`
+        });
+      }
+
+      // Once an exit has been triggered the group runs to completion
+      if (result.outcome === 'not_cancellable') {
+        return reply.status(400).send({
+          error: 'Cannot cancel group',
+          message: `Order group is in ${result.status} status and cannot be cancelled`
+        });
+      }
+
+      logger.getLogger().info('Order group cancelled', { groupId });
+
+      return reply.status(200).send({
+        message: 'Order group cancelled successfully',
+        groupId,
+        status: 'cancelled'
+      });
+    } catch (error) {
+      logger.logError(null, error, { context: 'Cancel order group endpoint' });
+
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to cancel order group'
+      });
+    }
+  });
+}
@@ -1,9 +1,16 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { v4 as uuidv4 } from 'uuid';
-import { Order, OrderType } from '../types/order';
+import { Order, OrderType, TimeInForce } from '../types/order';
+import { SubscribeMessage } from '../types/websocket';
 import { OrderProcessor } from '../services/orderProcessor';
-import { WebSocketManager } from '../services/websocketManager';
+import { IdempotencyStore } from '../services/idempotencyStore';
+import { RateLimiter } from '../services/rateLimiter';
+import { OrderQuotas } from '../services/orderQuotas';
+import { RiskEngine } from '../services/riskEngine';
+import { QuoteService } from '../services/quoteService';
 import { logger } from '../utils/logger';
+import { getAuthenticatedUserId } from '../utils/auth';
+import { InsufficientBalanceError } from '../utils/errors';
 
 /**
  * Order execution request interface
@@ -15,6 +22,15 @@ interface OrderExecutionRequest {
   amountIn: number;
   slippage: number;
   userId?: string;
+  limitPrice?: number;
+  triggerPrice?: number;
+  maxEntryPrice?: number;
+  timeInForce?: TimeInForce;
+  expiresAt?: string;
+  clientOrderId?: string;
+  quoteId?: string;
+  slices?: number;
+  durationMs?: number;
 }
 
 /**
@@ -25,6 +41,7 @@ interface OrderExecutionResponse {
   status: string;
   message: string;
   websocketUrl: string;
+  subscribe: SubscribeMessage; // Send on websocketUrl to follow the order
 }
 
 /**
@@ -36,9 +53,34 @@ interface OrderStatusResponse {
   createdAt: Date;
   updatedAt?: Date;
   executionData?: any;
+  limitPrice?: number;
+  triggerPrice?: number;
+  maxEntryPrice?: number;
+  timeInForce?: string;
+  expiresAt?: Date;
+  clientOrderId?: string;
+  quoteId?: string;
+  slices?: number;
+  durationMs?: number;
+  parentOrderId?: string;
+  groupId?: string;
+  groupRole?: string;
+  childOrders?: Array<ChildOrderSummary>;
   events?: Array<any>;
 }
 
+/**
+ * TWAP slice as linked from its parent's status response
+ */
+interface ChildOrderSummary {
+  orderId: string;
+  status: string;
+  amountIn: number;
+  amountOut?: number;
+  executedPrice?: number;
+  url: string;
+}
+
 /**
  * Register order routes with Fastify
  * @param fastify - Fastify instance
@@ -48,10 +90,14 @@ export async function orderRoutes(
   fastify: FastifyInstance,
   options: {
     orderProcessor: OrderProcessor;
-    wsManager: WebSocketManager;
+    idempotencyStore: IdempotencyStore;
+    rateLimiter: RateLimiter;
+    orderQuotas: OrderQuotas;
+    riskEngine: RiskEngine;
+    quoteService: QuoteService;
   }
 ): Promise<void> {
-  const { orderProcessor, wsManager } = options;
+  const { orderProcessor, idempotencyStore, rateLimiter, orderQuotas, riskEngine, quoteService } = options;
 
   /**
    * POST /api/orders/execute
@@ -63,18 +109,44 @@ export async function orderRoutes(
         type: 'object',
         required: ['type', 'tokenIn', 'tokenOut', 'amountIn', 'slippage'],
         properties: {
-          type: { type: 'string', enum: ['market', 'limit', 'sniper'] },
+          type: { type: 'string', enum: ['market', 'limit', 'sniper', 'twap', 'stop_loss', 'take_profit'] },
           tokenIn: { type: 'string', minLength: 1 },
           tokenOut: { type: 'string', minLength: 1 },
           amountIn: { type: 'number', minimum: 0.000001 },
           slippage: { type: 'number', minimum: 0.001, maximum: 0.5 },
-          userId: { type: 'string' }
+          userId: { type: 'string' },
+          limitPrice: { type: 'number', minimum: 0.000001 },
+          triggerPrice: { type: 'number', minimum: 0.000001 },
+          maxEntryPrice: { type: 'number', minimum: 0.000001 },
+          timeInForce: { type: 'string', enum: ['GTC', 'GTT', 'IOC', 'FOK'] },
+          expiresAt: { type: 'string', format: 'date-time' },
+          clientOrderId: { type: 'string', minLength: 1, maxLength: 255 },
+          quoteId: { type: 'string', format: 'uuid' },
+          slices: { type: 'integer', minimum: 2, maximum: 100 },
+          durationMs: { type: 'integer', minimum: 1000, maximum: 86400000 }
         }
       }
     }
   }, async (request: FastifyRequest<{ Body: OrderExecutionRequest }>, reply: FastifyReply) => {
+    let idempotencyKey: string | undefined;
+    let quotaReservationId: number | undefined;
+
     try {
-      const { type, tokenIn, tokenOut, amountIn, slippage, userId } = request.body;
+      const { type, tokenIn, tokenOut, amountIn, slippage, limitPrice, triggerPrice, maxEntryPrice, quoteId, slices, durationMs } = request.body;
+      const conditional = type === 'stop_loss' || type === 'take_profit';
+      // GTT when an expiry is given (sniper orders always get one), GTC otherwise
+      const timeInForce: TimeInForce = request.body.timeInForce
+        ?? (request.body.expiresAt !== undefined || type === 'sniper' ? 'GTT' : 'GTC');
+      const immediate = timeInForce === 'IOC' || timeInForce === 'FOK';
+
+      // Orders belong to the API key's user; userId in the body is only accepted if it matches
+      const userId = getAuthenticatedUserId(request);
+      if (request.body.userId !== undefined && request.body.userId !== userId) {
+        return reply.status(403).send({
+          error: 'Forbidden',
+          message: 'userId does not match the authenticated user'
+        });
+      }
 
       // Validate order parameters
       if (amountIn <= 0) {
@@ -91,6 +163,164 @@ export async function orderRoutes(
         });
       }
 
+      if (type === 'limit' && (limitPrice === undefined || limitPrice <= 0)) {
+        return reply.status(400).send({
+          error: 'Invalid limit price',
+          message: 'Limit orders require a limitPrice greater than 0'
+        });
+      }
+
+      if (conditional && (triggerPrice === undefined || triggerPrice <= 0)) {
+        return reply.status(400).send({
+          error: 'Invalid trigger price',
+          message: 'Stop-loss and take-profit orders require a triggerPrice greater than 0'
+        });
+      }
+
+      if (type === 'twap' && (slices === undefined || durationMs === undefined)) {
+        return reply.status(400).send({
+          error: 'Invalid TWAP',
+          message: 'TWAP orders require slices and durationMs'
+        });
+      }
+
+      if (quoteId && type !== 'market') {
+        return reply.status(400).send({
+          error: 'Invalid quote',
+          message: 'Only market orders can be executed at a firm quote'
+        });
+      }
+
+      if (type === 'twap' && timeInForce !== 'GTC') {
+        return reply.status(400).send({
+          error: 'Invalid time in force',
+          message: 'TWAP orders only support GTC'
+        });
+      }
+
+      if (type === 'sniper' && immediate) {
+        return reply.status(400).send({
+          error: 'Invalid time in force',
+          message: 'Sniper orders wait for a pool launch and only support GTT or GTC'
+        });
+      }
+
+      if (request.body.expiresAt !== undefined && timeInForce !== 'GTT') {
+        return reply.status(400).send({
+          error: 'Invalid expiry',
+          message: 'expiresAt is only valid with timeInForce GTT'
+        });
+      }
+
+      if (timeInForce === 'GTT' && request.body.expiresAt === undefined && type !== 'sniper') {
+        return reply.status(400).send({
+          error: 'Invalid expiry',
+          message: 'GTT orders require expiresAt'
+        });
+      }
+
+      // GTT orders stay open until expiresAt (sniper orders default to SNIPER_DEFAULT_TTL_MS)
+      let expiresAt: Date | undefined;
+      if (timeInForce === 'GTT') {
+        expiresAt = request.body.expiresAt
+          ? new Date(request.body.expiresAt)
+          : new Date(Date.now() + parseInt(process.env.SNIPER_DEFAULT_TTL_MS || '3600000'));
+
+        if (expiresAt.getTime() <= Date.now()) {
+          return reply.status(400).send({
+            error: 'Invalid expiry',
+            message: 'expiresAt must be in the future'
+          });
+        }
+      }
+
+      // Retries carrying the same key return the original response instead of a new order
+      const headerKey = request.headers['idempotency-key'];
+      const keyFromHeader = Array.isArray(headerKey) ? headerKey[0] : headerKey;
+      const { clientOrderId } = request.body;
+
+      if (keyFromHeader && clientOrderId && keyFromHeader !== clientOrderId) {
+        return reply.status(400).send({
+          error: 'Invalid idempotency key',
+          message: 'Idempotency-Key header and clientOrderId must match when both are provided'
+        });
+      }
+
+      if (keyFromHeader !== undefined && (keyFromHeader.length === 0 || keyFromHeader.length > 255)) {
+        return reply.status(400).send({
+          error: 'Invalid idempotency key',
+          message: 'Idempotency-Key must be between 1 and 255 characters'
+        });
+      }
+
+      const requestKey = keyFromHeader || clientOrderId;
+      const fingerprint = IdempotencyStore.fingerprint({
+        type, tokenIn, tokenOut, amountIn, slippage, limitPrice, triggerPrice, maxEntryPrice,
+        timeInForce: request.body.timeInForce, expiresAt: request.body.expiresAt, quoteId, slices, durationMs
+      });
+
+      if (requestKey) {
+        const reservation = await idempotencyStore.reserve(requestKey, fingerprint, userId);
+
+        if (reservation.outcome === 'completed') {
+          logger.getLogger().info('Replaying idempotent order submission', {
+            orderId: reservation.response.orderId,
+            idempotencyKey: requestKey,
+            userId
+          });
+
+          return reply.status(200).header('Idempotent-Replayed', 'true').send(reservation.response);
+        }
+
+        if (reservation.outcome === 'in_progress') {
+          return reply.status(409).send({
+            error: 'Request in progress',
+            message: `An order with idempotency key ${requestKey} is still being submitted`
+          });
+        }
+
+        if (reservation.outcome === 'mismatch') {
+          return reply.status(422).send({
+            error: 'Idempotency key reused',
+            message: `Idempotency key ${requestKey} was already used for a different order`
+          });
+        }
+
+        idempotencyKey = requestKey;
+      }
+
+      // Checked after the idempotency lookup so replayed retries never use up the limit.
+      // Each API key has its own bucket so one noisy client cannot starve the others
+      const rateLimit = await rateLimiter.consume(`key:${request.auth!.keyId}`);
+      if (!rateLimit.allowed) {
+        if (idempotencyKey) {
+          await idempotencyStore.release(idempotencyKey, userId);
+        }
+
+        return reply.status(429).header('Retry-After', Math.ceil(rateLimit.retryAfterMs / 1000)).send({
+          error: 'Too Many Requests',
+          message: `Rate limit exceeded, retry in ${Math.ceil(rateLimit.retryAfterMs / 1000)}s`
+        });
+      }
+
+      // Held until the order is persisted so concurrent submissions count against each other
+      const quota = await orderQuotas.reserve(userId, tokenIn, amountIn);
+      if (!quota.allowed) {
+        if (idempotencyKey) {
+          await idempotencyStore.release(idempotencyKey, userId);
+        }
+
+        return reply.status(429).send({
+          error: 'Quota exceeded',
+          message: quota.message,
+          limit: quota.limit,
+          max: quota.max,
+          current: quota.current
+        });
+      }
+
+      quotaReservationId = quota.reservationId;
+
       // Generate unique order ID
       const orderId = uuidv4();
 
@@ -104,32 +334,131 @@ export async function orderRoutes(
         slippage,
         status: 'pending',
         createdAt: new Date(),
-        userId
+        userId,
+        limitPrice: type === 'limit' ? limitPrice : undefined,
+        triggerPrice: conditional ? triggerPrice : undefined,
+        maxEntryPrice: type === 'sniper' ? maxEntryPrice : undefined,
+        timeInForce,
+        expiresAt,
+        clientOrderId: idempotencyKey,
+        notional: quota.notional,
+        slices: type === 'twap' ? slices : undefined,
+        durationMs: type === 'twap' ? durationMs : undefined
       };
 
-      // Submit order for processing
+      // Pre-trade risk checks run before the order is persisted or enqueued
+      const assessment = await riskEngine.evaluate(order);
+      if (!assessment.approved) {
+        if (idempotencyKey) {
+          await idempotencyStore.release(idempotencyKey, userId);
+        }
+        await orderQuotas.release(quotaReservationId);
+
+        return reply.status(422).send({
+          error: 'Risk check failed',
+          message: assessment.rejections.map(rejection => rejection.message).join('; '),
+          reasons: assessment.rejections
+        });
+      }
+
+      // Claim the firm quote only after the quota and risk checks so orders they reject keep it
+      if (quoteId) {
+        const quote = await quoteService.redeem(quoteId, userId);
+
+        if (!quote) {
+          if (idempotencyKey) {
+            await idempotencyStore.release(idempotencyKey, userId);
+          }
+          await orderQuotas.release(quotaReservationId);
+
+          return reply.status(422).send({
+            error: 'Quote expired',
+            code: 'QUOTE_EXPIRED',
+            message: `Quote ${quoteId} has expired, was already used or does not exist`
+          });
+        }
+
+        if (quote.tokenIn !== tokenIn || quote.tokenOut !== tokenOut || quote.amountIn !== amountIn) {
+          if (idempotencyKey) {
+            await idempotencyStore.release(idempotencyKey, userId);
+          }
+          await orderQuotas.release(quotaReservationId);
+
+          return reply.status(400).send({
+            error: 'Invalid quote',
+            message: `Quote ${quoteId} is for ${quote.amountIn} ${quote.tokenIn} → ${quote.tokenOut}`
+          });
+        }
+
+        order.quoteId = quoteId;
+        order.quotedAmountOut = quote.expectedAmountOut;
+        order.quoteExpiresAt = quote.expiresAt;
+      }
+
+      // Submit order for processing; once persisted the order itself counts towards the quotas
       await orderProcessor.submitOrder(order);
+      await orderQuotas.release(quotaReservationId);
+
+      const restingMessages: Partial<Record<OrderType, string>> = {
+        limit: 'Limit order submitted and waiting for price',
+        sniper: 'Sniper order armed and waiting for pool launch',
+        stop_loss: 'Stop-loss order armed and waiting for the price to fall to triggerPrice',
+        take_profit: 'Take-profit order armed and waiting for the price to rise to triggerPrice',
+        twap: `TWAP order scheduled in ${slices} slices over ${durationMs}ms`
+      };
 
-      // Register WebSocket route for this order
-      wsManager.registerWebSocketRoute(orderId);
+      // IOC and FOK orders never rest; they are already queued or expired
+      const restingMessage = immediate ? undefined : restingMessages[type];
 
       const response: OrderExecutionResponse = {
         orderId,
-        status: 'pending',
-        message: 'Order submitted successfully',
-        websocketUrl: `/ws/orders/${orderId}`
+        status: restingMessage ? 'waiting' : 'pending',
+        message: restingMessage || (immediate
+          ? `${timeInForce} order submitted; it expires if it cannot execute immediately`
+          : 'Order submitted successfully'),
+        websocketUrl: '/ws',
+        subscribe: { type: 'subscribe', orderIds: [orderId] }
       };
 
+      if (idempotencyKey) {
+        await idempotencyStore.complete(idempotencyKey, fingerprint, response, userId);
+      }
+
       logger.getLogger().info('Order execution request processed', {
         orderId,
         type,
         amountIn,
-        userId
+        limitPrice,
+        triggerPrice,
+        maxEntryPrice,
+        timeInForce,
+        expiresAt,
+        userId,
+        clientOrderId: idempotencyKey,
+        quoteId,
+        slices,
+        durationMs
       });
 
       return reply.status(200).send(response);
 
     } catch (error) {
+      // Let the client retry with the same key after a failed submission
+      if (idempotencyKey) {
+        await idempotencyStore.release(idempotencyKey, request.auth?.userId).catch(() => undefined);
+      }
+      await orderQuotas.release(quotaReservationId);
+
+      if (error instanceof InsufficientBalanceError) {
+        return reply.status(422).send({
+          error: 'Insufficient balance',
+          message: error.message,
+          token: error.token,
+          requested: error.requested,
+          available: error.available
+        });
+      }
+
       logger.logError(null, error, { context: 'Order execution endpoint' });
       
       return reply.status(500).send({
@@ -157,10 +486,10 @@ export async function orderRoutes(
     try {
       const { orderId } = request.params;
 
-      // Get order from database
+      // Get order from database (other users' orders are reported as missing)
       const order = await orderProcessor.getOrder(orderId);
 
-      if (!order) {
+      if (!order || order.userId !== getAuthenticatedUserId(request)) {
         return reply.status(404).send({
           error: 'Order not found',
           message: `Order with ID ${orderId} does not exist`
@@ -170,12 +499,37 @@ export async function orderRoutes(
       // Get order events for timeline
       const events = await orderProcessor.getOrderEvents(orderId);
 
+      // TWAP parents link to their slices
+      const childOrders = order.type === 'twap'
+        ? (await orderProcessor.getChildOrders(orderId)).map(child => ({
+          orderId: child.id,
+          status: child.status,
+          amountIn: child.amountIn,
+          amountOut: child.executionData?.amountOut,
+          executedPrice: child.executionData?.executedPrice,
+          url: `/api/orders/${child.id}`
+        }))
+        : undefined;
+
       const response: OrderStatusResponse = {
         orderId: order.id,
         status: order.status,
         createdAt: order.createdAt,
         updatedAt: order.updatedAt,
         executionData: order.executionData,
+        limitPrice: order.limitPrice,
+        triggerPrice: order.triggerPrice,
+        maxEntryPrice: order.maxEntryPrice,
+        timeInForce: order.timeInForce,
+        expiresAt: order.expiresAt,
+        clientOrderId: order.clientOrderId,
+        quoteId: order.quoteId,
+        slices: order.slices,
+        durationMs: order.durationMs,
+        parentOrderId: order.parentOrderId,
+        groupId: order.groupId,
+        groupRole: order.groupRole,
+        childOrders,
         events
       };
 
@@ -202,16 +556,25 @@ export async function orderRoutes(
         properties: {
           page: { type: 'number', minimum: 1, default: 1 },
           limit: { type: 'number', minimum: 1, maximum: 100, default: 20 },
-          status: { type: 'string', enum: ['pending', 'routing', 'building', 'submitted', 'confirmed', 'failed'] },
+          status: { type: 'string', enum: ['pending', 'waiting', 'triggered', 'routing', 'building', 'submitted', 'confirmed', 'failed', 'cancelled', 'expired'] },
           userId: { type: 'string' }
         }
       }
     }
   }, async (request: FastifyRequest<{ Querystring: { page?: number; limit?: number; status?: string; userId?: string } }>, reply: FastifyReply) => {
     try {
-      const { page = 1, limit = 20, status, userId } = request.query;
+      const { page = 1, limit = 20, status } = request.query;
       const offset = (page - 1) * limit;
 
+      // Listing is always scoped to the caller's own orders
+      const userId = getAuthenticatedUserId(request);
+      if (request.query.userId !== undefined && request.query.userId !== userId) {
+        return reply.status(403).send({
+          error: 'Forbidden',
+          message: 'Cannot list orders of another user'
+        });
+      }
+
       // Build query with filters
       let query = 'SELECT * FROM orders WHERE 1=1';
       const params: any[] = [];
@@ -265,7 +628,19 @@ export async function orderRoutes(
         createdAt: row.created_at,
         updatedAt: row.updated_at,
         executionData: row.execution_data,
-        userId: row.user_id
+        userId: row.user_id,
+        limitPrice: row.limit_price != null ? parseFloat(row.limit_price) : undefined,
+        triggerPrice: row.trigger_price != null ? parseFloat(row.trigger_price) : undefined,
+        maxEntryPrice: row.max_entry_price != null ? parseFloat(row.max_entry_price) : undefined,
+        timeInForce: row.time_in_force ?? undefined,
+        expiresAt: row.expires_at ?? undefined,
+        clientOrderId: row.client_order_id ?? undefined,
+        quoteId: row.quote_id ?? undefined,
+        slices: row.slices ?? undefined,
+        durationMs: row.duration_ms ?? undefined,
+        parentOrderId: row.parent_order_id ?? undefined,
+        groupId: row.group_id ?? undefined,
+        groupRole: row.group_role ?? undefined
       }));
 
       return reply.status(200).send({
@@ -306,9 +681,9 @@ export async function orderRoutes(
     try {
       const { orderId } = request.params;
 
-      // Verify order exists
+      // Verify order exists and belongs to the caller
       const order = await orderProcessor.getOrder(orderId);
-      if (!order) {
+      if (!order || order.userId !== getAuthenticatedUserId(request)) {
         return reply.status(404).send({
           error: 'Order not found',
           message: `Order with ID ${orderId} does not exist`
@@ -335,7 +710,7 @@ export async function orderRoutes(
 
   /**
    * DELETE /api/orders/:orderId
-   * Cancel an order (only if it's still pending)
+   * Cancel an order that has not been submitted to a venue yet
    */
   fastify.delete<{ Params: { orderId: string } }>('/:orderId', {
     schema: {
@@ -351,9 +726,12 @@ export async function orderRoutes(
     try {
       const { orderId } = request.params;
 
-      // Get order status
       const order = await orderProcessor.getOrder(orderId);
-      if (!order) {
+      const result = order && order.userId === getAuthenticatedUserId(request)
+        ? await orderProcessor.cancelOrder(orderId)
+        : { outcome: 'not_found' as const };
+
+      if (result.outcome === 'not_found') {
         return reply.status(404).send({
           error: 'Order not found',
           message: `Order with ID ${orderId} does not exist`
@@ -361,30 +739,28 @@ export async function orderRoutes(
       }
 
       // Check if order can be cancelled
-      if (order.status !== 'pending') {
+      if (result.outcome === 'not_cancellable') {
         return reply.status(400).send({
           error: 'Cannot cancel order',
-          message: `Order is in ${order.status} status and cannot be cancelled`
+          message: `Order is in ${result.status} status and cannot be cancelled`
         });
       }
 
-      // Update order status to cancelled
-      await orderProcessor['pgPool'].query(
-        'UPDATE orders SET status = $1, updated_at = $2 WHERE id = $3',
-        ['cancelled', new Date(), orderId]
-      );
-
-      // Log cancellation event
-      await orderProcessor['pgPool'].query(
-        'INSERT INTO order_events (order_id, status, data) VALUES ($1, $2, $3)',
-        [orderId, 'cancelled', JSON.stringify({ reason: 'User cancelled' })]
-      );
+      // A worker is processing the order; it aborts at its next checkpoint unless its swap is already under way
+      if (result.outcome === 'cancelling') {
+        return reply.status(202).send({
+          message: 'Cancellation requested; the order stops at its next checkpoint but may still fill if its swap is already being submitted',
+          orderId,
+          status: result.status
+        });
+      }
 
       logger.getLogger().info('Order cancelled', { orderId });
 
       return reply.status(200).send({
         message: 'Order cancelled successfully',
-        orderId
+        orderId,
+        status: 'cancelled'
       });
 
     } catch (error) {
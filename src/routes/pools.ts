@@ -0,0 +1,117 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { PoolLaunchFeed, PoolLaunchParams } from '../services/poolLaunchFeed';
+import { OrderProcessor } from '../services/orderProcessor';
+import { PoolStateSync } from '../services/poolStateSync';
+import { dexRegistry } from '../services/dexRegistry';
+import { logger } from '../utils/logger';
+
+/**
+ * Register simulated pool launch routes with Fastify
+ * @param fastify - Fastify instance
+ * @param options - Route options containing services
+ */
+export async function poolRoutes(
+  fastify: FastifyInstance,
+  options: {
+    poolLaunchFeed: PoolLaunchFeed;
+    poolStateSync: PoolStateSync;
+    orderProcessor: OrderProcessor;
+  }
+): Promise<void> {
+  const { poolLaunchFeed, poolStateSync, orderProcessor } = options;
+
+  /**
+   * POST /api/pools/launch
+   * Simulate a new pool going live in every process (fires armed sniper orders for the pair)
+   */
+  fastify.post<{ Body: PoolLaunchParams }>('/launch', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['dex', 'tokenIn', 'tokenOut', 'reserveIn', 'reserveOut'],
+        properties: {
+          dex: { type: 'string', minLength: 1 },
+          tokenIn: { type: 'string', minLength: 1 },
+          tokenOut: { type: 'string', minLength: 1 },
+          reserveIn: { type: 'number', minimum: 0.000001 },
+          reserveOut: { type: 'number', minimum: 0.000001 },
+          fee: { type: 'number', minimum: 0, maximum: 0.1 },
+          poolId: { type: 'string', minLength: 1 }
+        }
+      }
+    }
+  }, async (request: FastifyRequest<{ Body: PoolLaunchParams }>, reply: FastifyReply) => {
+    try {
+      if (!dexRegistry.has(request.body.dex)) {
+        return reply.status(400).send({
+          error: 'Unknown DEX',
+          message: `DEX ${request.body.dex} is not registered (available: ${dexRegistry.getNames().join(', ')})`
+        });
+      }
+
+      if (request.body.tokenIn === request.body.tokenOut) {
+        return reply.status(400).send({
+          error: 'Invalid pool',
+          message: 'tokenIn and tokenOut must be different'
+        });
+      }
+
+      const existingPools = [...poolLaunchFeed.listPools(), ...orderProcessor.getPoolState()];
+      if (request.body.poolId && existingPools.some(pool => pool.poolId === request.body.poolId)) {
+        return reply.status(409).send({
+          error: 'Pool already exists',
+          message: `Pool with ID ${request.body.poolId} already exists`
+        });
+      }
+
+      // Another instance may have launched the same pool ID
+      const pool = await poolStateSync.launchPool(request.body);
+
+      if (!pool) {
+        return reply.status(409).send({
+          error: 'Pool already exists',
+          message: `Pool with ID ${request.body.poolId} already exists`
+        });
+      }
+
+      return reply.status(201).send(pool);
+
+    } catch (error) {
+      logger.logError(null, error, { context: 'Pool launch endpoint' });
+
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to launch pool'
+      });
+    }
+  });
+
+  /**
+   * GET /api/pools
+   * List pools launched through the simulated feed
+   */
+  fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    return reply.status(200).send({
+      pools: poolLaunchFeed.listPools()
+    });
+  });
+
+  /**
+   * GET /api/pools/state
+   * Current reserves of every simulated venue pool (moves as swaps execute)
+   */
+  fastify.get('/state', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      return reply.status(200).send({
+        pools: orderProcessor.getPoolState()
+      });
+    } catch (error) {
+      logger.logError(null, error, { context: 'Pool state endpoint' });
+
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve pool state'
+      });
+    }
+  });
+}
@@ -0,0 +1,64 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { QuoteService } from '../services/quoteService';
+import { QuoteRequest } from '../types/quote';
+import { logger } from '../utils/logger';
+import { getAuthenticatedUserId } from '../utils/auth';
+import { QuoteUnavailableError } from '../utils/errors';
+
+/**
+ * Register quote routes with Fastify
+ * @param fastify - Fastify instance
+ * @param options - Route options containing services
+ */
+export async function quoteRoutes(
+  fastify: FastifyInstance,
+  options: {
+    quoteService: QuoteService;
+  }
+): Promise<void> {
+  const { quoteService } = options;
+
+  /**
+   * POST /api/quotes
+   * Preview how an order would be routed and get a firm quote the user can execute by quoteId until it expires
+   */
+  fastify.post<{ Body: QuoteRequest }>('/', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['tokenIn', 'tokenOut', 'amountIn'],
+        properties: {
+          tokenIn: { type: 'string', minLength: 1 },
+          tokenOut: { type: 'string', minLength: 1 },
+          amountIn: { type: 'number', minimum: 0.000001 },
+          slippage: { type: 'number', minimum: 0.001, maximum: 0.5 }
+        }
+      }
+    }
+  }, async (request: FastifyRequest<{ Body: QuoteRequest }>, reply: FastifyReply) => {
+    try {
+      if (request.body.tokenIn === request.body.tokenOut) {
+        return reply.status(400).send({
+          error: 'Invalid pair',
+          message: 'tokenIn and tokenOut must be different'
+        });
+      }
+
+      return reply.status(200).send(await quoteService.getQuote(request.body, getAuthenticatedUserId(request)));
+    } catch (error) {
+      if (error instanceof QuoteUnavailableError) {
+        return reply.status(422).send({
+          error: 'No route',
+          message: error.message
+        });
+      }
+
+      logger.logError(null, error, { context: 'Quote endpoint' });
+
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to quote swap'
+      });
+    }
+  });
+}
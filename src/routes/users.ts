@@ -0,0 +1,211 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { BalanceLedger } from '../services/balanceLedger';
+import { PositionService } from '../services/positionService';
+import { logger } from '../utils/logger';
+import { getAuthenticatedUserId } from '../utils/auth';
+import { InsufficientBalanceError } from '../utils/errors';
+
+/**
+ * Deposit or withdrawal request interface
+ */
+interface BalanceChangeRequest {
+  token: string;
+  amount: number;
+}
+
+const userParamsSchema = {
+  type: 'object',
+  required: ['userId'],
+  properties: {
+    userId: { type: 'string', minLength: 1 }
+  }
+};
+
+const balanceChangeSchema = {
+  params: userParamsSchema,
+  body: {
+    type: 'object',
+    required: ['token', 'amount'],
+    properties: {
+      token: { type: 'string', minLength: 1 },
+      amount: { type: 'number', exclusiveMinimum: 0 }
+    }
+  }
+};
+
+/**
+ * Register user routes with Fastify
+ * Users may only access their own resources
+ * @param fastify - Fastify instance
+ * @param options - Route options containing services
+ */
+export async function userRoutes(
+  fastify: FastifyInstance,
+  options: {
+    balanceLedger: BalanceLedger;
+    positionService: PositionService;
+  }
+): Promise<void> {
+  const { balanceLedger, positionService } = options;
+
+  /**
+   * Reject requests for another user's resources
+   * @param request - Authenticated request
+   * @param reply - Fastify reply
+   * @returns boolean - Whether the request targets the authenticated user
+   */
+  const ensureOwnUser = (request: FastifyRequest<{ Params: { userId: string } }>, reply: FastifyReply): boolean => {
+    if (request.params.userId === getAuthenticatedUserId(request)) {
+      return true;
+    }
+
+    reply.status(403).send({
+      error: 'Forbidden',
+      message: 'Cannot access resources of another user'
+    });
+    return false;
+  };
+
+  /**
+   * GET /api/users/:userId/balances
+   * Get available and reserved balances per token
+   */
+  fastify.get<{ Params: { userId: string } }>('/:userId/balances', {
+    schema: { params: userParamsSchema }
+  }, async (request: FastifyRequest<{ Params: { userId: string } }>, reply: FastifyReply) => {
+    try {
+      if (!ensureOwnUser(request, reply)) {
+        return reply;
+      }
+
+      return reply.status(200).send({
+        userId: request.params.userId,
+        balances: await balanceLedger.getBalances(request.params.userId)
+      });
+    } catch (error) {
+      logger.logError(null, error, { context: 'Get balances endpoint' });
+
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve balances'
+      });
+    }
+  });
+
+  /**
+   * POST /api/users/:userId/deposits
+   * Credit simulated funds
+   */
+  fastify.post<{ Params: { userId: string }; Body: BalanceChangeRequest }>('/:userId/deposits', {
+    schema: balanceChangeSchema
+  }, async (request: FastifyRequest<{ Params: { userId: string }; Body: BalanceChangeRequest }>, reply: FastifyReply) => {
+    try {
+      if (!ensureOwnUser(request, reply)) {
+        return reply;
+      }
+
+      const balance = await balanceLedger.deposit(request.params.userId, request.body.token, request.body.amount);
+
+      return reply.status(200).send({ balance });
+    } catch (error) {
+      logger.logError(null, error, { context: 'Deposit endpoint' });
+
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to deposit funds'
+      });
+    }
+  });
+
+  /**
+   * POST /api/users/:userId/withdrawals
+   * Debit available funds (reserved funds cannot be withdrawn)
+   */
+  fastify.post<{ Params: { userId: string }; Body: BalanceChangeRequest }>('/:userId/withdrawals', {
+    schema: balanceChangeSchema
+  }, async (request: FastifyRequest<{ Params: { userId: string }; Body: BalanceChangeRequest }>, reply: FastifyReply) => {
+    try {
+      if (!ensureOwnUser(request, reply)) {
+        return reply;
+      }
+
+      const balance = await balanceLedger.withdraw(request.params.userId, request.body.token, request.body.amount);
+
+      return reply.status(200).send({ balance });
+    } catch (error) {
+      if (error instanceof InsufficientBalanceError) {
+        return reply.status(422).send({
+          error: 'Insufficient balance',
+          message: error.message,
+          token: error.token,
+          requested: error.requested,
+          available: error.available
+        });
+      }
+
+      logger.logError(null, error, { context: 'Withdrawal endpoint' });
+
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to withdraw funds'
+      });
+    }
+  });
+
+  /**
+   * GET /api/users/:userId/ledger
+   * Get recent balance changes for reconciliation
+   */
+  fastify.get<{ Params: { userId: string }; Querystring: { limit?: number } }>('/:userId/ledger', {
+    schema: {
+      params: userParamsSchema,
+      querystring: {
+        type: 'object',
+        properties: {
+          limit: { type: 'number', minimum: 1, maximum: 1000, default: 100 }
+        }
+      }
+    }
+  }, async (request: FastifyRequest<{ Params: { userId: string }; Querystring: { limit?: number } }>, reply: FastifyReply) => {
+    try {
+      if (!ensureOwnUser(request, reply)) {
+        return reply;
+      }
+
+      return reply.status(200).send({
+        userId: request.params.userId,
+        entries: await balanceLedger.getLedger(request.params.userId, request.query.limit)
+      });
+    } catch (error) {
+      logger.logError(null, error, { context: 'Get ledger endpoint' });
+
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve ledger'
+      });
+    }
+  });
+
+  /**
+   * GET /api/users/:userId/positions
+   * Get holdings, average entry and P&L built from confirmed orders
+   */
+  fastify.get<{ Params: { userId: string } }>('/:userId/positions', {
+    schema: { params: userParamsSchema }
+  }, async (request: FastifyRequest<{ Params: { userId: string } }>, reply: FastifyReply) => {
+    try {
+      if (!ensureOwnUser(request, reply)) {
+        return reply;
+      }
+
+      return reply.status(200).send(await positionService.getPositions(request.params.userId));
+    } catch (error) {
+      logger.logError(null, error, { context: 'Get positions endpoint' });
+
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve positions'
+      });
+    }
+  });
+}
@@ -0,0 +1,43 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { WebSocketManager } from '../services/websocketManager';
+import { logger } from '../utils/logger';
+
+/**
+ * Register WebSocket routes with Fastify
+ * @param fastify - Fastify instance
+ * @param options - Route options containing services
+ */
+export async function websocketRoutes(
+  fastify: FastifyInstance,
+  options: {
+    wsManager: WebSocketManager;
+  }
+): Promise<void> {
+  const { wsManager } = options;
+
+  /**
+   * GET /ws
+   * Single subscription endpoint; clients send subscribe/unsubscribe messages
+   */
+  fastify.get('/ws', { websocket: true }, (connection, request) => {
+    wsManager.handleConnection(connection, request);
+  });
+
+  /**
+   * GET /ws/orders/:orderId?lastSequence=N
+   * @deprecated Connect to /ws and send a subscribe message instead; kept for clients of the per-order endpoint
+   */
+  fastify.get('/ws/orders/:orderId', { websocket: true }, (connection, request) => {
+    const { params, query } = request as FastifyRequest<{
+      Params: { orderId: string };
+      Querystring: { lastSequence?: string };
+    }>;
+    const lastSequence = parseInt(query.lastSequence || '0');
+
+    logger.getLogger().warn('Deprecated per-order WebSocket endpoint used', { orderId: params.orderId });
+
+    wsManager.handleConnection(connection, request, [params.orderId], {
+      [params.orderId]: Number.isInteger(lastSequence) && lastSequence > 0 ? lastSequence : 0
+    });
+  });
+}
@@ -5,10 +5,30 @@ import cors from '@fastify/cors';
 import { config } from 'dotenv';
 import { OrderProcessor } from './services/orderProcessor';
 import { WebSocketManager } from './services/websocketManager';
+import { PoolLaunchFeed } from './services/poolLaunchFeed';
+import { PoolStateSync } from './services/poolStateSync';
+import { LeaderElection } from './services/leaderElection';
+import { IdempotencyStore } from './services/idempotencyStore';
+import { RateLimiter } from './services/rateLimiter';
+import { OrderQuotas } from './services/orderQuotas';
+import { RiskEngine } from './services/riskEngine';
+import { BalanceLedger } from './services/balanceLedger';
+import { PositionService } from './services/positionService';
+import { QuoteService } from './services/quoteService';
+import { OrderEventBus } from './services/orderEventBus';
+import { ApiKeyService } from './services/apiKeyService';
 import { orderRoutes } from './routes/orders';
 import { metricsRoutes } from './routes/metrics';
+import { poolRoutes } from './routes/pools';
+import { websocketRoutes } from './routes/websocket';
+import { adminRoutes } from './routes/admin';
+import { userRoutes } from './routes/users';
+import { quoteRoutes } from './routes/quotes';
+import { orderGroupRoutes } from './routes/orderGroups';
 import { databaseConfig } from './config/database';
+import { RunMode, getRunMode } from './config/runMode';
 import { logger } from './utils/logger';
+import { createAuthHook } from './utils/auth';
 
 // Load environment variables
 config();
@@ -16,13 +36,28 @@ config();
 /**
  * Order Execution Server
  * Main application server with order processing, WebSocket support, and API endpoints
+ * MODE=api|worker|all selects whether this process serves HTTP, executes orders, or both
  */
 class OrderExecutionServer {
+  private mode: RunMode;
   private fastify: FastifyInstance;
   private orderProcessor: OrderProcessor;
   private wsManager: WebSocketManager;
+  private poolLaunchFeed: PoolLaunchFeed;
+  private poolStateSync: PoolStateSync;
+  private leaderElection: LeaderElection;
+  private idempotencyStore: IdempotencyStore;
+  private rateLimiter: RateLimiter;
+  private orderQuotas: OrderQuotas;
+  private riskEngine: RiskEngine;
+  private balanceLedger: BalanceLedger;
+  private positionService: PositionService;
+  private quoteService: QuoteService;
+  private eventBus: OrderEventBus;
+  private apiKeyService: ApiKeyService;
 
   constructor() {
+    this.mode = getRunMode();
     this.fastify = Fastify({ 
       logger: {
         level: process.env.LOG_LEVEL || 'info'
@@ -30,11 +65,43 @@ class OrderExecutionServer {
     });
     
     this.wsManager = new WebSocketManager();
-    this.orderProcessor = new OrderProcessor(this.wsManager);
+    this.poolLaunchFeed = new PoolLaunchFeed();
+    this.poolStateSync = new PoolStateSync(this.poolLaunchFeed);
+    this.leaderElection = new LeaderElection();
+    this.eventBus = new OrderEventBus();
+    this.balanceLedger = new BalanceLedger();
+    // Resting orders are watched only by the elected leader (see start)
+    this.orderProcessor = this.mode === 'api'
+      ? new OrderProcessor(this.eventBus, this.poolLaunchFeed, null, this.balanceLedger, false)
+      : new OrderProcessor(this.eventBus, this.poolLaunchFeed, undefined, this.balanceLedger, false);
+    this.wsManager.setHistoryProvider((orderId, afterSequence) =>
+      this.orderProcessor.getOrderHistory(orderId, afterSequence)
+    );
+    this.wsManager.setAccessChecker((userId, orderIds) =>
+      this.orderProcessor.filterOwnedOrders(userId, orderIds)
+    );
+    this.idempotencyStore = new IdempotencyStore(databaseConfig.getRedisClient());
+    this.rateLimiter = new RateLimiter(databaseConfig.getRedisClient());
+    this.orderQuotas = new OrderQuotas((tokenIn, tokenOut, amount) =>
+      this.orderProcessor.quoteAmountOut(tokenIn, tokenOut, amount)
+    );
+    this.riskEngine = new RiskEngine((tokenIn, tokenOut, amount) =>
+      this.orderProcessor.quoteAmountOut(tokenIn, tokenOut, amount)
+    );
+    this.positionService = new PositionService((tokenIn, tokenOut, amount) =>
+      this.orderProcessor.quoteAmountOut(tokenIn, tokenOut, amount)
+    );
+    this.quoteService = new QuoteService((tokenIn, tokenOut, amount) =>
+      this.orderProcessor.previewRoute(tokenIn, tokenOut, amount)
+    );
+    this.apiKeyService = new ApiKeyService();
     
-    this.setupPlugins();
-    this.setupRoutes();
-    this.setupGlobalErrorHandler();
+    // Worker processes execute queued orders only and serve no HTTP traffic
+    if (this.mode !== 'worker') {
+      this.setupPlugins();
+      this.setupRoutes();
+      this.setupGlobalErrorHandler();
+    }
   }
 
   /**
@@ -55,21 +122,60 @@ class OrderExecutionServer {
    * Setup API routes
    */
   private setupRoutes(): void {
-    // Set WebSocket manager's Fastify instance
-    this.wsManager.setFastifyInstance(this.fastify);
-    
+    // Every /api route and WebSocket upgrade requires an API key
+    this.fastify.addHook('onRequest', createAuthHook(this.apiKeyService));
+
     // Register route modules
+    this.fastify.register(websocketRoutes, {
+      wsManager: this.wsManager
+    });
+
     this.fastify.register(orderRoutes, { 
       prefix: '/api/orders',
       orderProcessor: this.orderProcessor,
-      wsManager: this.wsManager
+      idempotencyStore: this.idempotencyStore,
+      rateLimiter: this.rateLimiter,
+      orderQuotas: this.orderQuotas,
+      riskEngine: this.riskEngine,
+      quoteService: this.quoteService
     });
     
+    this.fastify.register(orderGroupRoutes, {
+      prefix: '/api/order-groups',
+      orderProcessor: this.orderProcessor,
+      rateLimiter: this.rateLimiter,
+      orderQuotas: this.orderQuotas,
+      riskEngine: this.riskEngine
+    });
+
+    this.fastify.register(quoteRoutes, {
+      prefix: '/api/quotes',
+      quoteService: this.quoteService
+    });
+
     this.fastify.register(metricsRoutes, { 
       prefix: '/api/metrics',
       orderProcessor: this.orderProcessor
     });
 
+    this.fastify.register(userRoutes, {
+      prefix: '/api/users',
+      balanceLedger: this.balanceLedger,
+      positionService: this.positionService
+    });
+
+    this.fastify.register(adminRoutes, {
+      prefix: '/api/admin',
+      apiKeyService: this.apiKeyService
+    });
+
+    this.fastify.register(poolRoutes, { 
+      prefix: '/api/pools',
+      poolLaunchFeed: this.poolLaunchFeed,
+      poolStateSync: this.poolStateSync,
+      orderProcessor: this.orderProcessor
+    });
+
     // Health check endpoint
     this.fastify.get('/health', async () => {
       return { 
@@ -88,9 +194,13 @@ class OrderExecutionServer {
         description: 'DEX Order Execution Engine with WebSocket support',
         endpoints: {
           orders: '/api/orders',
+          orderGroups: '/api/order-groups',
+          quotes: '/api/quotes',
           metrics: '/api/metrics',
+          pools: '/api/pools',
+          users: '/api/users',
           health: '/health',
-          websocket: '/ws/orders/:orderId'
+          websocket: '/ws'
         },
         documentation: 'See README.md for API documentation'
       };
@@ -125,6 +235,27 @@ class OrderExecutionServer {
       await databaseConfig.initializeTables();
       logger.getLogger().info('Database initialized successfully');
 
+      // Quote and swap against the same pools as every other API and worker process
+      await this.poolStateSync.start();
+
+      if (this.mode === 'worker') {
+        logger.getLogger().info('Order execution worker started', { mode: this.mode });
+        console.log('\n⚙️  Order Execution Worker Started (MODE=worker)\n');
+        return;
+      }
+
+      // Deliver status events published by any worker to this instance's WebSocket clients
+      await this.eventBus.subscribe(event => {
+        this.wsManager.emitToOrder(event.orderId, event.status, event.data, event.userId, event.sequence);
+      });
+
+      // One instance re-arms and watches resting orders and expires good-till-time orders;
+      // another takes over if it stops renewing its lease
+      this.leaderElection.start(
+        () => this.orderProcessor.startWatching(),
+        () => this.orderProcessor.stopWatching()
+      );
+
       const port = parseInt(process.env.PORT || '3000');
       const host = process.env.HOST || '0.0.0.0';
       
@@ -158,6 +289,9 @@ class OrderExecutionServer {
       
       // Close WebSocket connections
       this.wsManager.closeAllConnections();
+      await this.leaderElection.stop();
+      await this.eventBus.close();
+      await this.poolStateSync.close();
       
       // Close order processor
       await this.orderProcessor.close();
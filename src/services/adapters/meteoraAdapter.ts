@@ -0,0 +1,34 @@
+import { PoolInfo, SimulatedPool } from '../../types/dex';
+import { MockDexAdapter } from './mockDexAdapter';
+import { BinPool } from '../pools/binPool';
+
+/**
+ * Meteora venue adapter (simulated)
+ * Meteora might have different pricing due to concentrated liquidity
+ * Backed by bin-based (DLMM) pools
+ */
+export class MeteoraAdapter extends MockDexAdapter {
+  public readonly name = 'meteora';
+  protected readonly gasUsed = 0.00008;
+
+  constructor() {
+    super();
+    this.seedDefaultPools();
+  }
+
+  /**
+   * Build a bin-based concentrated-liquidity pool
+   * @param pool - Pool seed
+   * @returns SimulatedPool - DLMM-style pool
+   */
+  protected createPool(pool: PoolInfo): SimulatedPool {
+    return new BinPool(pool);
+  }
+
+  /**
+   * Simulate network delay (180-300ms)
+   */
+  protected quoteDelay(): number {
+    return 180 + Math.random() * 120;
+  }
+}
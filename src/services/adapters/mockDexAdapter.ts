@@ -0,0 +1,239 @@
+import { DexAdapter, DexHealth, DexName, DexQuote, PoolInfo, PoolStateStore, SimulatedPool, SwapProtection, SwapResult } from '../../types/dex';
+import { Order } from '../../types/order';
+import { getDefaultPools } from '../../config/pools';
+import { logger } from '../../utils/logger';
+import { SlippageExceededError } from '../../utils/errors';
+
+/**
+ * Base class for simulated DEX venues
+ * Quotes and executes against stateful simulated pools seeded from PoolInfo,
+ * so every executed swap moves the pool reserves; subclasses pick the pool model
+ */
+export abstract class MockDexAdapter implements DexAdapter {
+  public abstract readonly name: DexName;
+  protected abstract readonly gasUsed: number;
+  private pools: Map<string, SimulatedPool> = new Map();
+  private poolStateStore?: PoolStateStore;
+
+  /**
+   * Build the venue's pool model from seed reserves
+   * @param pool - Pool seed
+   * @returns SimulatedPool - Stateful pool
+   */
+  protected abstract createPool(pool: PoolInfo): SimulatedPool;
+
+  /**
+   * Simulated quote round trip in milliseconds
+   */
+  protected abstract quoteDelay(): number;
+
+  /**
+   * Seed the venue with its default pools
+   * Called by subclasses once their fields are initialized
+   */
+  protected seedDefaultPools(): void {
+    getDefaultPools(this.name).forEach(pool => this.addPool(pool));
+  }
+
+  /**
+   * Add a pool to this venue
+   * @param pool - Pool seed (must belong to this venue)
+   */
+  public addPool(pool: PoolInfo): void {
+    if (pool.dex !== this.name) {
+      throw new Error(`Pool ${pool.poolId} belongs to ${pool.dex}, not ${this.name}`);
+    }
+
+    if (this.pools.has(pool.poolId)) {
+      throw new Error(`Pool ${pool.poolId} already exists on ${this.name}`);
+    }
+
+    this.pools.set(pool.poolId, this.createPool(pool));
+
+    logger.getLogger().debug('Simulated pool added', {
+      dex: this.name,
+      poolId: pool.poolId,
+      tokenIn: pool.tokenIn,
+      tokenOut: pool.tokenOut
+    });
+  }
+
+  /**
+   * Get a pool on this venue
+   * @param poolId - Pool identifier
+   * @returns SimulatedPool | undefined - Pool, if the venue has it
+   */
+  public getPool(poolId: string): SimulatedPool | undefined {
+    return this.pools.get(poolId);
+  }
+
+  /**
+   * Share pool state with other processes
+   * Swaps then run against the latest shared state and publish the state they leave
+   * @param store - Shared pool state store
+   */
+  public setPoolStateStore(store: PoolStateStore): void {
+    this.poolStateStore = store;
+  }
+
+  /**
+   * List current pool state on this venue
+   * @returns PoolInfo[] - Pool snapshots
+   */
+  public listPools(): PoolInfo[] {
+    return Array.from(this.pools.values()).map(pool => pool.getPoolInfo());
+  }
+
+  /**
+   * Get a quote from this venue
+   * @param tokenIn - Input token address
+   * @param tokenOut - Output token address
+   * @param amount - Amount to swap
+   * @returns Promise<DexQuote> - Quote with pricing details
+   */
+  public async getQuote(tokenIn: string, tokenOut: string, amount: number): Promise<DexQuote> {
+    await this.sleep(this.quoteDelay());
+
+    const pool = this.findPool(tokenIn, tokenOut);
+    const result = pool.quote(tokenIn, amount);
+
+    logger.getLogger().debug('Pool quote generated', {
+      dex: this.name,
+      poolId: pool.poolId,
+      tokenIn,
+      tokenOut,
+      amount,
+      price: result.spotPrice,
+      fee: result.fee,
+      amountOut: result.amountOut,
+      priceImpact: result.priceImpact
+    });
+
+    return {
+      dex: this.name,
+      price: result.spotPrice,
+      fee: result.fee,
+      liquidity: pool.getLiquidity(tokenIn),
+      estimatedGas: this.gasUsed,
+      timestamp: new Date(),
+      amountOut: result.amountOut,
+      priceImpact: result.priceImpact
+    };
+  }
+
+  /**
+   * Execute swap on this venue
+   * Simulates transaction execution delay, then swaps against the pool
+   * @param order - Order details
+   * @param protection - Optional minimum-output guard; the swap reverts without touching the pool if breached
+   * @returns Promise<SwapResult> - Execution result with transaction hash
+   */
+  public async executeSwap(order: Order, protection?: SwapProtection): Promise<SwapResult> {
+    logger.getLogger().info('Starting swap execution', {
+      dex: this.name,
+      orderId: order.id,
+      amount: order.amountIn
+    });
+    
+    // Simulate execution time (2-3 seconds)
+    await this.sleep(2000 + Math.random() * 1000);
+
+    // Pool state may have moved since the quote; the swap fills at the current curve
+    const pool = this.findPool(order.tokenIn, order.tokenOut);
+
+    const applySwap = () => {
+      if (protection) {
+        const { amountOut } = pool.quote(order.tokenIn, order.amountIn);
+
+        if (amountOut < protection.minAmountOut) {
+          throw new SlippageExceededError({ stage: 'execution', ...protection, actualAmountOut: amountOut });
+        }
+      }
+
+      return pool.swap(order.tokenIn, order.amountIn);
+    };
+
+    const swap = this.poolStateStore ? await this.poolStateStore.commitSwap(pool, applySwap) : applySwap();
+
+    const result: SwapResult = {
+      txHash: this.generateMockTxHash(),
+      executedPrice: swap.executionPrice,
+      gasUsed: this.gasUsed,
+      slippageImpact: 1 - swap.priceImpact,
+      dex: this.name,
+      timestamp: new Date(),
+      amountOut: swap.amountOut
+    };
+    
+    logger.getLogger().info('Swap execution completed', {
+      orderId: order.id,
+      dex: this.name,
+      poolId: pool.poolId,
+      txHash: result.txHash,
+      executedPrice: result.executedPrice,
+      amountOut: result.amountOut,
+      slippageImpact: result.slippageImpact
+    });
+    
+    return result;
+  }
+
+  /**
+   * Report venue health
+   * @returns Promise<DexHealth> - Health status with response latency
+   */
+  public async health(): Promise<DexHealth> {
+    const startTime = Date.now();
+
+    // Simulate a lightweight RPC round trip
+    await this.sleep(10 + Math.random() * 20);
+
+    const healthy = this.pools.size > 0;
+
+    return {
+      dex: this.name,
+      healthy,
+      latencyMs: Date.now() - startTime,
+      checkedAt: new Date(),
+      ...(healthy ? {} : { error: 'No pools available' })
+    };
+  }
+
+  /**
+   * Find the pool for a pair, preferring the deepest one
+   * @param tokenIn - Input token address
+   * @param tokenOut - Output token address
+   * @returns SimulatedPool - Matching pool
+   */
+  protected findPool(tokenIn: string, tokenOut: string): SimulatedPool {
+    const candidates = Array.from(this.pools.values()).filter(pool => pool.hasPair(tokenIn, tokenOut));
+
+    if (candidates.length === 0) {
+      throw new Error(`No ${this.name} pool for ${tokenIn}/${tokenOut}`);
+    }
+
+    return candidates.reduce((deepest, pool) =>
+      pool.getLiquidity(tokenIn) > deepest.getLiquidity(tokenIn) ? pool : deepest
+    );
+  }
+
+  /**
+   * Utility method to simulate network delays
+   * @param ms - Delay in milliseconds
+   * @returns Promise<void>
+   */
+  protected sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+  
+  /**
+   * Generate mock transaction hash for simulation
+   * Creates a realistic 64-character hex string
+   * @returns string - Mock transaction hash
+   */
+  protected generateMockTxHash(): string {
+    return Array.from({ length: 64 }, () => 
+      Math.floor(Math.random() * 16).toString(16)
+    ).join('');
+  }
+}
@@ -0,0 +1,34 @@
+import { PoolInfo, SimulatedPool } from '../../types/dex';
+import { MockDexAdapter } from './mockDexAdapter';
+import { ConstantProductPool } from '../pools/constantProductPool';
+
+/**
+ * Raydium venue adapter (simulated)
+ * Raydium typically has higher liquidity but slightly higher fees
+ * Backed by constant-product (x * y = k) pools
+ */
+export class RaydiumAdapter extends MockDexAdapter {
+  public readonly name = 'raydium';
+  protected readonly gasUsed = 0.0001;
+
+  constructor() {
+    super();
+    this.seedDefaultPools();
+  }
+
+  /**
+   * Build a constant-product pool
+   * @param pool - Pool seed
+   * @returns SimulatedPool - x * y = k pool
+   */
+  protected createPool(pool: PoolInfo): SimulatedPool {
+    return new ConstantProductPool(pool);
+  }
+
+  /**
+   * Simulate network delay (150-250ms)
+   */
+  protected quoteDelay(): number {
+    return 150 + Math.random() * 100;
+  }
+}
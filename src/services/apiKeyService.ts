@@ -0,0 +1,126 @@
+// src/services/apiKeyService.ts
+import { createHash, randomBytes } from 'crypto';
+import { ApiKeyInfo, AuthContext, IssuedApiKey } from '../types/auth';
+import { databaseConfig } from '../config/database';
+import { logger } from '../utils/logger';
+
+const API_KEY_PREFIX = 'oek_';
+
+/**
+ * API Key Service
+ * Issues API keys bound to a user and resolves them back to the user; only SHA-256 hashes are stored
+ */
+export class ApiKeyService {
+  private pgPool: any;
+
+  constructor(pgPool: any = databaseConfig.getPostgreSQLPool()) {
+    this.pgPool = pgPool;
+  }
+
+  /**
+   * Hash an API key for storage and lookup
+   * @param apiKey - Raw API key
+   * @returns string - Hex digest
+   */
+  public static hashKey(apiKey: string): string {
+    return createHash('sha256').update(apiKey).digest('hex');
+  }
+
+  /**
+   * Issue a new API key for a user
+   * @param userId - Owner of the key
+   * @param name - Optional label
+   * @returns Promise<IssuedApiKey> - Key metadata including the raw key (not retrievable later)
+   */
+  public async createKey(userId: string, name?: string): Promise<IssuedApiKey> {
+    const apiKey = `${API_KEY_PREFIX}${randomBytes(24).toString('hex')}`;
+
+    const result = await this.pgPool.query(
+      `INSERT INTO api_keys (key_hash, user_id, name) VALUES ($1, $2, $3)
+       RETURNING id, user_id, name, created_at`,
+      [ApiKeyService.hashKey(apiKey), userId, name ?? null]
+    );
+
+    logger.getLogger().info('API key issued', { keyId: result.rows[0].id, userId });
+
+    return { ...this.mapKeyRow(result.rows[0]), apiKey };
+  }
+
+  /**
+   * Resolve an API key to its user
+   * @param apiKey - Raw API key
+   * @returns Promise<AuthContext | null> - Identity, or null for unknown or revoked keys
+   */
+  public async authenticate(apiKey: string): Promise<AuthContext | null> {
+    if (!apiKey.startsWith(API_KEY_PREFIX)) {
+      return null;
+    }
+
+    const result = await this.pgPool.query(
+      'SELECT id, user_id FROM api_keys WHERE key_hash = $1 AND revoked_at IS NULL',
+      [ApiKeyService.hashKey(apiKey)]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const { id, user_id: userId } = result.rows[0];
+
+    // Usage tracking must not slow down or fail the request
+    this.pgPool.query('UPDATE api_keys SET last_used_at = $1 WHERE id = $2', [new Date(), id])
+      .catch((error: unknown) => logger.logError(null, error, { context: 'API key usage update', keyId: id }));
+
+    return { userId, keyId: id };
+  }
+
+  /**
+   * List a user's API keys
+   * @param userId - Owner of the keys
+   * @returns Promise<ApiKeyInfo[]> - Key metadata, newest first
+   */
+  public async listKeys(userId: string): Promise<ApiKeyInfo[]> {
+    const result = await this.pgPool.query(
+      `SELECT id, user_id, name, created_at, last_used_at, revoked_at
+       FROM api_keys WHERE user_id = $1 ORDER BY created_at DESC`,
+      [userId]
+    );
+
+    return result.rows.map((row: any) => this.mapKeyRow(row));
+  }
+
+  /**
+   * Revoke an API key
+   * @param keyId - Key identifier
+   * @returns Promise<boolean> - Whether an active key was revoked
+   */
+  public async revokeKey(keyId: number): Promise<boolean> {
+    const result = await this.pgPool.query(
+      'UPDATE api_keys SET revoked_at = $1 WHERE id = $2 AND revoked_at IS NULL RETURNING id',
+      [new Date(), keyId]
+    );
+
+    if (result.rows.length > 0) {
+      logger.getLogger().info('API key revoked', { keyId });
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Map database row to API key metadata
+   * @param row - Database row
+   * @returns ApiKeyInfo - Key metadata
+   */
+  private mapKeyRow(row: any): ApiKeyInfo {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name ?? undefined,
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at ?? undefined,
+      revokedAt: row.revoked_at ?? undefined
+    };
+  }
+}
@@ -0,0 +1,382 @@
+// src/services/balanceLedger.ts
+import { Balance, LedgerEntry, LedgerEntryKind } from '../types/balance';
+import { databaseConfig } from '../config/database';
+import { InsufficientBalanceError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+/**
+ * Balance Ledger
+ * Simulated per-user wallets: orders reserve their amountIn on submit, consume it and
+ * credit amountOut when confirmed, and release it when they fail or are cancelled.
+ * Every change is recorded in balance_ledger for reconciliation.
+ */
+export class BalanceLedger {
+  private pgPool: any;
+
+  constructor(pgPool: any = databaseConfig.getPostgreSQLPool()) {
+    this.pgPool = pgPool;
+  }
+
+  /**
+   * Get a user's balances
+   * @param userId - Owner of the balances
+   * @returns Promise<Balance[]> - One balance per token
+   */
+  public async getBalances(userId: string): Promise<Balance[]> {
+    const result = await this.pgPool.query(
+      'SELECT * FROM balances WHERE user_id = $1 ORDER BY token ASC',
+      [userId]
+    );
+
+    return result.rows.map((row: any) => this.mapBalanceRow(row));
+  }
+
+  /**
+   * Get a user's most recent ledger entries
+   * @param userId - Owner of the entries
+   * @param limit - Maximum number of entries
+   * @returns Promise<LedgerEntry[]> - Entries, newest first
+   */
+  public async getLedger(userId: string, limit: number = 100): Promise<LedgerEntry[]> {
+    const result = await this.pgPool.query(
+      'SELECT * FROM balance_ledger WHERE user_id = $1 ORDER BY id DESC LIMIT $2',
+      [userId, limit]
+    );
+
+    return result.rows.map((row: any) => this.mapEntryRow(row));
+  }
+
+  /**
+   * Credit funds to a user
+   * @param userId - Owner of the balance
+   * @param token - Token deposited
+   * @param amount - Amount deposited
+   * @returns Promise<Balance> - Updated balance
+   */
+  public async deposit(userId: string, token: string, amount: number): Promise<Balance> {
+    const balance = await this.withTransaction(async client => {
+      const row = await this.credit(client, userId, token, amount);
+      await this.recordEntry(client, userId, token, 'deposit', amount, 0);
+      return row;
+    });
+
+    logger.getLogger().info('Funds deposited', { userId, token, amount });
+    return balance;
+  }
+
+  /**
+   * Debit available funds from a user
+   * @param userId - Owner of the balance
+   * @param token - Token withdrawn
+   * @param amount - Amount withdrawn
+   * @returns Promise<Balance> - Updated balance
+   * @throws InsufficientBalanceError - When less than amount is available
+   */
+  public async withdraw(userId: string, token: string, amount: number): Promise<Balance> {
+    const balance = await this.withTransaction(async client => {
+      const result = await client.query(
+        `UPDATE balances SET available = available - $3, updated_at = CURRENT_TIMESTAMP
+         WHERE user_id = $1 AND token = $2 AND available >= $3 RETURNING *`,
+        [userId, token, amount]
+      );
+
+      if (result.rows.length === 0) {
+        throw await this.insufficientBalance(client, userId, token, amount);
+      }
+
+      await this.recordEntry(client, userId, token, 'withdrawal', -amount, 0);
+      return this.mapBalanceRow(result.rows[0]);
+    });
+
+    logger.getLogger().info('Funds withdrawn', { userId, token, amount });
+    return balance;
+  }
+
+  /**
+   * Move an order's amountIn from available to reserved
+   * @param orderId - Order the funds are held for
+   * @param userId - Owner of the order
+   * @param token - Token being sold
+   * @param amount - Amount being sold
+   * @throws InsufficientBalanceError - When less than amount is available
+   */
+  public async reserve(orderId: string, userId: string, token: string, amount: number): Promise<void> {
+    await this.withTransaction(async client => {
+      const result = await client.query(
+        `UPDATE balances SET available = available - $3, reserved = reserved + $3, updated_at = CURRENT_TIMESTAMP
+         WHERE user_id = $1 AND token = $2 AND available >= $3 RETURNING *`,
+        [userId, token, amount]
+      );
+
+      if (result.rows.length === 0) {
+        throw await this.insufficientBalance(client, userId, token, amount);
+      }
+
+      await client.query(
+        'INSERT INTO balance_reservations (order_id, user_id, token, amount) VALUES ($1, $2, $3, $4)',
+        [orderId, userId, token, amount]
+      );
+      await this.recordEntry(client, userId, token, 'reserve', -amount, amount, orderId);
+    });
+
+    logger.getLogger().debug('Funds reserved', { orderId, userId, token, amount });
+  }
+
+  /**
+   * Move part of an order's held reservation to another order, e.g. from a TWAP parent to a child slice
+   * The user's reserved balance is unchanged; a reservation moved in full is closed as 'split'
+   * @param fromOrderId - Order currently holding the funds
+   * @param toOrderId - Order that takes over the funds
+   * @param amount - Amount moved
+   * @returns Promise<boolean> - Whether the source reservation held enough to move
+   */
+  public async transferReservation(fromOrderId: string, toOrderId: string, amount: number): Promise<boolean> {
+    const transferred = await this.withTransaction(async client => {
+      const result = await client.query(
+        `UPDATE balance_reservations
+         SET amount = amount - $2, status = CASE WHEN amount = $2 THEN 'split' ELSE status END, updated_at = CURRENT_TIMESTAMP
+         WHERE order_id = $1 AND status = 'held' AND amount >= $2 RETURNING user_id, token`,
+        [fromOrderId, amount]
+      );
+
+      if (result.rows.length === 0) {
+        return false;
+      }
+
+      await client.query(
+        'INSERT INTO balance_reservations (order_id, user_id, token, amount) VALUES ($1, $2, $3, $4)',
+        [toOrderId, result.rows[0].user_id, result.rows[0].token, amount]
+      );
+      return true;
+    });
+
+    if (transferred) {
+      logger.getLogger().debug('Reservation transferred', { fromOrderId, toOrderId, amount });
+    }
+
+    return transferred;
+  }
+
+  /**
+   * Return an order's reserved funds to available (no-op once settled or released)
+   * @param orderId - Order the funds were held for
+   * @returns Promise<boolean> - Whether funds were released
+   */
+  public async release(orderId: string): Promise<boolean> {
+    const released = await this.withTransaction(async client => {
+      const reservation = await this.closeReservation(client, orderId, 'released');
+
+      if (!reservation) {
+        return false;
+      }
+
+      const { userId, token, amount } = reservation;
+      await client.query(
+        `UPDATE balances SET available = available + $3, reserved = reserved - $3, updated_at = CURRENT_TIMESTAMP
+         WHERE user_id = $1 AND token = $2`,
+        [userId, token, amount]
+      );
+      await this.recordEntry(client, userId, token, 'release', amount, -amount, orderId);
+      return true;
+    });
+
+    if (released) {
+      logger.getLogger().debug('Reserved funds released', { orderId });
+    }
+
+    return released;
+  }
+
+  /**
+   * Consume an order's reserved funds and credit what it received (no-op once settled or released)
+   * @param orderId - Filled order
+   * @param tokenOut - Token received
+   * @param amountOut - Amount received
+   * @param filledAmountIn - Part of the reservation that was sold when the order filled partially; the rest is released
+   * @returns Promise<boolean> - Whether the order was settled
+   */
+  public async settle(orderId: string, tokenOut: string, amountOut: number, filledAmountIn?: number): Promise<boolean> {
+    const settled = await this.withTransaction(async client => {
+      const reservation = await this.closeReservation(client, orderId, 'settled');
+
+      if (!reservation) {
+        return false;
+      }
+
+      const { userId, token, amount } = reservation;
+      const debited = Math.min(filledAmountIn ?? amount, amount);
+      // Balances hold 8 decimals; leg amounts summed in floating point must not leave dust
+      const unfilled = Math.round((amount - debited) * 1e8) / 1e8;
+
+      await client.query(
+        `UPDATE balances SET available = available + $4, reserved = reserved - $3, updated_at = CURRENT_TIMESTAMP
+         WHERE user_id = $1 AND token = $2`,
+        [userId, token, amount, unfilled]
+      );
+      await this.recordEntry(client, userId, token, 'settle_debit', 0, -debited, orderId);
+
+      if (unfilled > 0) {
+        await this.recordEntry(client, userId, token, 'release', unfilled, -unfilled, orderId);
+      }
+
+      await this.credit(client, userId, tokenOut, amountOut);
+      await this.recordEntry(client, userId, tokenOut, 'settle_credit', amountOut, 0, orderId);
+      return true;
+    });
+
+    if (settled) {
+      logger.getLogger().debug('Order settled', { orderId, tokenOut, amountOut });
+    }
+
+    return settled;
+  }
+
+  /**
+   * Mark a held reservation as settled or released
+   * @param client - Transaction client
+   * @param orderId - Order the funds are held for
+   * @param status - Final reservation status
+   * @returns Promise - Reservation, or null when none is held
+   */
+  private async closeReservation(
+    client: any,
+    orderId: string,
+    status: 'settled' | 'released'
+  ): Promise<{ userId: string; token: string; amount: number } | null> {
+    const result = await client.query(
+      `UPDATE balance_reservations SET status = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE order_id = $1 AND status = 'held' RETURNING user_id, token, amount`,
+      [orderId, status]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return { userId: row.user_id, token: row.token, amount: parseFloat(row.amount) };
+  }
+
+  /**
+   * Add to a user's available balance, creating it if needed
+   * @param client - Transaction client
+   * @param userId - Owner of the balance
+   * @param token - Token credited
+   * @param amount - Amount credited
+   * @returns Promise<Balance> - Updated balance
+   */
+  private async credit(client: any, userId: string, token: string, amount: number): Promise<Balance> {
+    const result = await client.query(
+      `INSERT INTO balances (user_id, token, available) VALUES ($1, $2, $3)
+       ON CONFLICT (user_id, token)
+       DO UPDATE SET available = balances.available + EXCLUDED.available, updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [userId, token, amount]
+    );
+
+    return this.mapBalanceRow(result.rows[0]);
+  }
+
+  /**
+   * Record a balance change
+   * @param client - Transaction client
+   * @param userId - Owner of the balance
+   * @param token - Token changed
+   * @param kind - Reason for the change
+   * @param availableChange - Change of the available balance
+   * @param reservedChange - Change of the reserved balance
+   * @param orderId - Order that caused the change
+   */
+  private async recordEntry(
+    client: any,
+    userId: string,
+    token: string,
+    kind: LedgerEntryKind,
+    availableChange: number,
+    reservedChange: number,
+    orderId?: string
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO balance_ledger (user_id, token, kind, available_change, reserved_change, order_id)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [userId, token, kind, availableChange, reservedChange, orderId ?? null]
+    );
+  }
+
+  /**
+   * Build the error for a debit the balance cannot cover
+   * @param client - Transaction client
+   * @param userId - Owner of the balance
+   * @param token - Token debited
+   * @param amount - Amount requested
+   * @returns Promise<InsufficientBalanceError> - Error carrying the available amount
+   */
+  private async insufficientBalance(
+    client: any,
+    userId: string,
+    token: string,
+    amount: number
+  ): Promise<InsufficientBalanceError> {
+    const result = await client.query(
+      'SELECT available FROM balances WHERE user_id = $1 AND token = $2',
+      [userId, token]
+    );
+    const available = result.rows.length > 0 ? parseFloat(result.rows[0].available) : 0;
+
+    return new InsufficientBalanceError(token, amount, available);
+  }
+
+  /**
+   * Run queries in a single transaction
+   * @param work - Queries to run with the transaction client
+   * @returns Promise<T> - Result of work
+   */
+  private async withTransaction<T>(work: (client: any) => Promise<T>): Promise<T> {
+    const client = await this.pgPool.connect();
+
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Map database row to a balance
+   * @param row - Row from the balances table
+   * @returns Balance - Balance data
+   */
+  private mapBalanceRow(row: any): Balance {
+    return {
+      userId: row.user_id,
+      token: row.token,
+      available: parseFloat(row.available),
+      reserved: parseFloat(row.reserved),
+      updatedAt: row.updated_at ?? undefined
+    };
+  }
+
+  /**
+   * Map database row to a ledger entry
+   * @param row - Row from the balance_ledger table
+   * @returns LedgerEntry - Entry data
+   */
+  private mapEntryRow(row: any): LedgerEntry {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      token: row.token,
+      kind: row.kind,
+      availableChange: parseFloat(row.available_change),
+      reservedChange: parseFloat(row.reserved_change),
+      orderId: row.order_id ?? undefined,
+      createdAt: row.created_at
+    };
+  }
+}
@@ -0,0 +1,85 @@
+import { DexAdapter, DexName } from '../types/dex';
+import { RaydiumAdapter } from './adapters/raydiumAdapter';
+import { MeteoraAdapter } from './adapters/meteoraAdapter';
+import { logger } from '../utils/logger';
+
+/**
+ * DEX Registry
+ * Holds the venue adapters the router fans quotes out to and executes on
+ */
+export class DexRegistry {
+  private adapters: Map<DexName, DexAdapter> = new Map();
+
+  /**
+   * Register a venue adapter
+   * @param adapter - Adapter to register
+   */
+  public register(adapter: DexAdapter): void {
+    if (this.adapters.has(adapter.name)) {
+      throw new Error(`DEX adapter already registered: ${adapter.name}`);
+    }
+
+    this.adapters.set(adapter.name, adapter);
+    logger.getLogger().info('DEX adapter registered', { dex: adapter.name });
+  }
+
+  /**
+   * Remove a venue adapter
+   * @param name - DEX name
+   * @returns boolean - Whether an adapter was removed
+   */
+  public unregister(name: DexName): boolean {
+    return this.adapters.delete(name);
+  }
+
+  /**
+   * Get a registered adapter
+   * @param name - DEX name
+   * @returns DexAdapter - Registered adapter
+   */
+  public get(name: DexName): DexAdapter {
+    const adapter = this.adapters.get(name);
+
+    if (!adapter) {
+      throw new Error(`Unknown DEX: ${name}`);
+    }
+
+    return adapter;
+  }
+
+  /**
+   * Check if a venue is registered
+   * @param name - DEX name
+   */
+  public has(name: DexName): boolean {
+    return this.adapters.has(name);
+  }
+
+  /**
+   * List registered adapters in registration order
+   */
+  public list(): DexAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  /**
+   * List registered venue names in registration order
+   */
+  public getNames(): DexName[] {
+    return Array.from(this.adapters.keys());
+  }
+}
+
+/**
+ * Create a registry with the built-in simulated venues
+ * @returns DexRegistry - Registry with Raydium and Meteora adapters
+ */
+export function createDefaultDexRegistry(): DexRegistry {
+  const registry = new DexRegistry();
+  registry.register(new RaydiumAdapter());
+  registry.register(new MeteoraAdapter());
+  return registry;
+}
+
+// Export singleton instance
+export const dexRegistry = createDefaultDexRegistry();
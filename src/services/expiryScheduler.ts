@@ -0,0 +1,116 @@
+// src/services/expiryScheduler.ts
+import { OrderStatus } from '../types/order';
+import { databaseConfig } from '../config/database';
+import { logger } from '../utils/logger';
+
+/**
+ * Callback invoked for each order whose expiry has passed
+ */
+export type ExpiryHandler = (orderId: string) => Promise<void>;
+
+// Orders no worker has picked up yet; later statuses expire at the worker's own checkpoints
+export const EXPIRABLE_STATUSES: OrderStatus[] = ['pending', 'waiting', 'triggered'];
+
+/**
+ * Expiry Scheduler
+ * Periodically sweeps PostgreSQL for good-till-time orders past their expiresAt,
+ * so orders expire even when the process that armed them has restarted
+ */
+export class ExpiryScheduler {
+  private pgPool: any;
+  private sweepIntervalMs: number;
+  private batchSize: number;
+  private timer?: NodeJS.Timeout;
+  private onExpire?: ExpiryHandler;
+
+  constructor(
+    pgPool: any = databaseConfig.getPostgreSQLPool(),
+    sweepIntervalMs: number = parseInt(process.env.ORDER_EXPIRY_SWEEP_INTERVAL_MS || '1000'),
+    batchSize: number = parseInt(process.env.ORDER_EXPIRY_BATCH_SIZE || '100')
+  ) {
+    this.pgPool = pgPool;
+    this.sweepIntervalMs = sweepIntervalMs;
+    this.batchSize = batchSize;
+  }
+
+  /**
+   * Start sweeping for expired orders
+   * @param onExpire - Handler invoked once per expired order found
+   */
+  public start(onExpire: ExpiryHandler): void {
+    if (this.onExpire) {
+      return;
+    }
+
+    this.onExpire = onExpire;
+    this.scheduleSweep(0);
+
+    logger.getLogger().info('Order expiry scheduler started', { sweepIntervalMs: this.sweepIntervalMs });
+  }
+
+  /**
+   * Stop sweeping
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+
+    this.timer = undefined;
+    this.onExpire = undefined;
+  }
+
+  /**
+   * Check if the scheduler is running
+   */
+  public isRunning(): boolean {
+    return this.onExpire !== undefined;
+  }
+
+  /**
+   * Hand every order past its expiry to the expiry handler, oldest expiry first
+   * Handler failures are logged and the order is picked up again by the next sweep
+   * @returns Promise<number> - Number of expired orders found
+   */
+  public async sweep(): Promise<number> {
+    const onExpire = this.onExpire;
+
+    if (!onExpire) {
+      return 0;
+    }
+
+    const result = await this.pgPool.query(
+      `SELECT id FROM orders WHERE expires_at <= $1 AND status = ANY($2)
+       ORDER BY expires_at ASC LIMIT $3`,
+      [new Date(), EXPIRABLE_STATUSES, this.batchSize]
+    );
+
+    for (const row of result.rows) {
+      try {
+        await onExpire(row.id);
+      } catch (error) {
+        logger.logError(row.id, error, { context: 'Order expiry' });
+      }
+    }
+
+    return result.rows.length;
+  }
+
+  /**
+   * Schedule the next sweep; sweeps never overlap
+   * @param delay - Delay in milliseconds
+   */
+  private scheduleSweep(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.sweep()
+        .catch((error) => {
+          logger.logError(null, error, { context: 'Order expiry sweep' });
+        })
+        .finally(() => {
+          if (this.onExpire) {
+            this.scheduleSweep(this.sweepIntervalMs);
+          }
+        });
+    }, delay);
+  }
+}
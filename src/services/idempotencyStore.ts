@@ -0,0 +1,127 @@
+// src/services/idempotencyStore.ts
+import { createHash } from 'crypto';
+import IORedis from 'ioredis';
+import { databaseConfig } from '../config/database';
+
+/**
+ * Stored state of an idempotency key
+ * - pending: the first request is still being handled
+ * - completed: the first request finished and its response can be replayed
+ */
+interface IdempotencyRecord {
+  state: 'pending' | 'completed';
+  fingerprint: string;
+  response?: any;
+}
+
+/**
+ * Outcome of reserving an idempotency key
+ * - reserved: first use of the key, the caller should handle the request
+ * - completed: the key was already used for the same request, replay the response
+ * - in_progress: the first request with this key has not finished yet
+ * - mismatch: the key was already used for a different request
+ */
+export type IdempotencyReservation =
+  | { outcome: 'reserved' }
+  | { outcome: 'completed'; response: any }
+  | { outcome: 'in_progress' }
+  | { outcome: 'mismatch' };
+
+/**
+ * Idempotency Store
+ * Remembers order submissions by client-supplied key so retries return the original response
+ */
+export class IdempotencyStore {
+  private redis: IORedis;
+  private ttlSeconds: number;
+
+  constructor(
+    redis: IORedis = databaseConfig.getRedisClient(),
+    ttlSeconds: number = parseInt(process.env.IDEMPOTENCY_TTL_SECONDS || '86400')
+  ) {
+    this.redis = redis;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  /**
+   * Hash the request fields that must match for a retry to be considered the same submission
+   * @param payload - Request fields
+   * @returns string - Hex digest
+   */
+  public static fingerprint(payload: Record<string, any>): string {
+    const normalized = Object.keys(payload)
+      .sort()
+      .filter(key => payload[key] !== undefined)
+      .map(key => [key, payload[key]]);
+
+    return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+  }
+
+  /**
+   * Claim a key for a new request, or report what the key is already bound to
+   * @param key - Idempotency key
+   * @param fingerprint - Fingerprint of the request
+   * @param userId - Owner of the key (keys are scoped per user)
+   * @returns Promise<IdempotencyReservation> - Reservation outcome
+   */
+  public async reserve(key: string, fingerprint: string, userId?: string): Promise<IdempotencyReservation> {
+    const record: IdempotencyRecord = { state: 'pending', fingerprint };
+    const redisKey = this.buildKey(key, userId);
+
+    const claimed = await this.redis.set(redisKey, JSON.stringify(record), 'EX', this.ttlSeconds, 'NX');
+    if (claimed === 'OK') {
+      return { outcome: 'reserved' };
+    }
+
+    const existing = await this.redis.get(redisKey);
+    if (!existing) {
+      // Key expired between the two calls, try once more
+      const retried = await this.redis.set(redisKey, JSON.stringify(record), 'EX', this.ttlSeconds, 'NX');
+      return retried === 'OK' ? { outcome: 'reserved' } : { outcome: 'in_progress' };
+    }
+
+    const stored: IdempotencyRecord = JSON.parse(existing);
+
+    if (stored.fingerprint !== fingerprint) {
+      return { outcome: 'mismatch' };
+    }
+
+    if (stored.state === 'completed') {
+      return { outcome: 'completed', response: stored.response };
+    }
+
+    return { outcome: 'in_progress' };
+  }
+
+  /**
+   * Store the response of a reserved request so retries can replay it
+   * @param key - Idempotency key
+   * @param fingerprint - Fingerprint of the request
+   * @param response - Response sent to the client
+   * @param userId - Owner of the key
+   */
+  public async complete(key: string, fingerprint: string, response: any, userId?: string): Promise<void> {
+    const record: IdempotencyRecord = { state: 'completed', fingerprint, response };
+
+    await this.redis.set(this.buildKey(key, userId), JSON.stringify(record), 'EX', this.ttlSeconds);
+  }
+
+  /**
+   * Free a reserved key after the request failed so the client can retry it
+   * @param key - Idempotency key
+   * @param userId - Owner of the key
+   */
+  public async release(key: string, userId?: string): Promise<void> {
+    await this.redis.del(this.buildKey(key, userId));
+  }
+
+  /**
+   * Build the Redis key for an idempotency key
+   * @param key - Idempotency key
+   * @param userId - Owner of the key
+   * @returns string - Redis key
+   */
+  private buildKey(key: string, userId?: string): string {
+    return `idempotency:${userId || 'anonymous'}:${key}`;
+  }
+}
@@ -0,0 +1,148 @@
+// src/services/leaderElection.ts
+import IORedis from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
+import { databaseConfig } from '../config/database';
+import { logger } from '../utils/logger';
+
+/**
+ * Extend the lease only if this instance still holds it
+ * KEYS[1] = lease key, ARGV = instance ID, lease duration in ms
+ */
+const RENEW_LEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+/**
+ * Give the lease up only if this instance still holds it
+ * KEYS[1] = lease key, ARGV[1] = instance ID
+ */
+const RELEASE_LEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Leader Election
+ * Elects one instance through a Redis lease that the leader renews every third of its
+ * duration; if the leader stops renewing, another instance takes over once the lease expires
+ */
+export class LeaderElection {
+  private redis: IORedis;
+  private key: string;
+  private leaseMs: number;
+  private instanceId: string;
+  private leader: boolean = false;
+  private timer?: NodeJS.Timeout;
+  private onElected?: () => Promise<void>;
+  private onDeposed?: () => void;
+
+  constructor(
+    redis: IORedis = databaseConfig.getRedisClient(),
+    key: string = process.env.LEADER_LEASE_KEY || 'leader:order-watchers',
+    leaseMs: number = parseInt(process.env.LEADER_LEASE_MS || '10000'),
+    instanceId: string = uuidv4()
+  ) {
+    this.redis = redis;
+    this.key = key;
+    this.leaseMs = leaseMs;
+    this.instanceId = instanceId;
+  }
+
+  /**
+   * Start competing for leadership
+   * @param onElected - Invoked when this instance becomes leader
+   * @param onDeposed - Invoked when this instance loses leadership
+   */
+  public start(onElected: () => Promise<void>, onDeposed: () => void): void {
+    if (this.onElected) {
+      return;
+    }
+
+    this.onElected = onElected;
+    this.onDeposed = onDeposed;
+    this.scheduleRenewal(0);
+  }
+
+  /**
+   * Check if this instance is the leader
+   */
+  public isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Take or renew the lease, and hand over leadership when that changes the outcome
+   * @returns Promise<boolean> - Whether this instance holds the lease
+   */
+  public async renew(): Promise<boolean> {
+    const held = this.leader
+      ? await this.redis.eval(RENEW_LEASE_SCRIPT, 1, this.key, this.instanceId, this.leaseMs) === 1
+      : await this.redis.set(this.key, this.instanceId, 'PX', this.leaseMs, 'NX') === 'OK';
+
+    if (held && !this.leader) {
+      this.leader = true;
+      logger.getLogger().info('Elected leader', { key: this.key, instanceId: this.instanceId });
+      await this.onElected?.();
+    } else if (!held && this.leader) {
+      this.depose('Leader lease lost');
+    }
+
+    return held;
+  }
+
+  /**
+   * Stop competing and give up the lease so another instance takes over at once
+   */
+  public async stop(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+
+    this.timer = undefined;
+    this.onElected = undefined;
+    this.onDeposed = undefined;
+
+    if (this.leader) {
+      this.leader = false;
+      await this.redis.eval(RELEASE_LEASE_SCRIPT, 1, this.key, this.instanceId);
+    }
+  }
+
+  /**
+   * Stop acting as leader
+   * @param reason - Logged reason
+   */
+  private depose(reason: string): void {
+    this.leader = false;
+    logger.getLogger().warn(reason, { key: this.key, instanceId: this.instanceId });
+    this.onDeposed?.();
+  }
+
+  /**
+   * Schedule the next renewal; renewals never overlap
+   * @param delay - Delay in milliseconds
+   */
+  private scheduleRenewal(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.renew()
+        .catch((error) => {
+          logger.logError(null, error, { context: 'Leader election', key: this.key });
+
+          // A leader that cannot prove it holds the lease must not keep acting on it
+          if (this.leader) {
+            this.depose('Leader lease could not be renewed');
+          }
+        })
+        .finally(() => {
+          if (this.onElected) {
+            this.scheduleRenewal(this.leaseMs / 3);
+          }
+        });
+    }, delay);
+  }
+}
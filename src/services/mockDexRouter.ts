@@ -1,217 +1,539 @@
-import { DexQuote, DexName, RoutingDecision, SwapResult } from "../types/dex";
+import { DexQuote, DexName, DexHealth, PoolInfo, RouteHop, RouteLeg, RoutingDecision, SwapProtection, SwapResult } from "../types/dex";
 import { Order } from "../types/order";
+import { DexRegistry, dexRegistry } from "./dexRegistry";
+import { TokenGraph } from "./tokenGraph";
 import { logger } from "../utils/logger";
 
+// Cap on multi-hop paths quoted per order (shortest paths are tried first)
+const MAX_CANDIDATE_PATHS = 10;
+
+// Token every venue charges gas in; DexQuote.estimatedGas is denominated in it
+const GAS_TOKEN = 'SOL';
+
 // services/mockDexRouter.ts
 export class MockDexRouter {
-  private basePrice = 100; // Base price for simulation
-  
+  private registry: DexRegistry;
+  private splitThreshold: number;
+  private splitSteps: number;
+  private maxHops: number;
+
+  constructor(
+    registry: DexRegistry = dexRegistry,
+    splitThreshold: number = parseFloat(process.env.SPLIT_ROUTE_THRESHOLD || '100'),
+    splitSteps: number = parseInt(process.env.SPLIT_ROUTE_STEPS || '10'),
+    maxHops: number = parseInt(process.env.MULTI_HOP_MAX_HOPS || '3')
+  ) {
+    this.registry = registry;
+    this.splitThreshold = splitThreshold;
+    this.splitSteps = splitSteps;
+    this.maxHops = maxHops;
+  }
+
   /**
-   * Get quote from Raydium DEX
-   * Simulates network delay and returns realistic pricing
+   * Get the registry of venues this router routes across
+   */
+  getRegistry(): DexRegistry {
+    return this.registry;
+  }
+
+  /**
+   * Get quote from a single registered DEX
+   * @param dex - DEX name
    * @param tokenIn - Input token address
-   * @param tokenOut - Output token address  
+   * @param tokenOut - Output token address
    * @param amount - Amount to swap
-   * @returns Promise<DexQuote> - Raydium quote with pricing details
-   */
-  async getRaydiumQuote(tokenIn: string, tokenOut: string, amount: number): Promise<DexQuote> {
-    // Simulate network delay (150-250ms)
-    await this.sleep(150 + Math.random() * 100);
-    
-    // Raydium typically has higher liquidity but slightly higher fees
-    const priceVariance = 0.98 + Math.random() * 0.04; // ±2% variance
-    const price = this.basePrice * priceVariance;
-    const fee = 0.0025; // 0.25% fee
-    const amountOut = amount * price * (1 - fee);
-    const priceImpact = (amount / 1000000) * 0.1; // 0.1% impact per 1M volume
-    
-    logger.getLogger().debug('Raydium quote generated', {
-      tokenIn,
-      tokenOut,
-      amount,
-      price,
-      fee,
-      amountOut,
-      priceImpact
-    });
-    
-    return {
-      dex: 'raydium',
-      price,
-      fee,
-      liquidity: 1000000 + Math.random() * 500000,
-      estimatedGas: 0.0001,
-      timestamp: new Date(),
-      amountOut,
-      priceImpact
-    };
+   * @returns Promise<DexQuote> - Venue quote with pricing details
+   */
+  async getQuote(dex: DexName, tokenIn: string, tokenOut: string, amount: number): Promise<DexQuote> {
+    return this.registry.get(dex).getQuote(tokenIn, tokenOut, amount);
   }
-  
+
   /**
-   * Get quote from Meteora DEX
-   * Simulates concentrated liquidity pools with different pricing
+   * Fan a quote request out to every registered DEX
+   * Venues that fail to quote are skipped
    * @param tokenIn - Input token address
    * @param tokenOut - Output token address
    * @param amount - Amount to swap
-   * @returns Promise<DexQuote> - Meteora quote with pricing details
-   */
-  async getMeteorQuote(tokenIn: string, tokenOut: string, amount: number): Promise<DexQuote> {
-    // Simulate network delay (180-300ms)
-    await this.sleep(180 + Math.random() * 120);
-    
-    // Meteora might have different pricing due to concentrated liquidity
-    const priceVariance = 0.97 + Math.random() * 0.06; // ±3% variance
-    const price = this.basePrice * priceVariance;
-    const fee = 0.002; // 0.2% fee
-    const amountOut = amount * price * (1 - fee);
-    const priceImpact = (amount / 800000) * 0.08; // 0.08% impact per 800K volume
-    
-    logger.getLogger().debug('Meteora quote generated', {
-      tokenIn,
-      tokenOut,
-      amount,
-      price,
-      fee,
-      amountOut,
-      priceImpact
+   * @returns Promise<DexQuote[]> - Quotes from all responding venues
+   */
+  async getQuotes(tokenIn: string, tokenOut: string, amount: number): Promise<DexQuote[]> {
+    const adapters = this.registry.list();
+    const results = await Promise.allSettled(
+      adapters.map(adapter => adapter.getQuote(tokenIn, tokenOut, amount))
+    );
+
+    const quotes: DexQuote[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        quotes.push(result.value);
+      } else {
+        logger.getLogger().warn('DEX quote failed', {
+          dex: adapters[index].name,
+          tokenIn,
+          tokenOut,
+          amount,
+          error: result.reason instanceof Error ? result.reason.message : result.reason
+        });
+      }
     });
-    
-    return {
-      dex: 'meteora',
-      price,
-      fee,
-      liquidity: 800000 + Math.random() * 400000,
-      estimatedGas: 0.00008,
-      timestamp: new Date(),
-      amountOut,
-      priceImpact
-    };
+
+    if (quotes.length === 0) {
+      throw new Error(`No DEX returned a quote for ${tokenIn}/${tokenOut}`);
+    }
+
+    return quotes;
   }
-  
+
   /**
-   * Select the best DEX based on price, fees, and liquidity
+   * Select the best DEX based on output, fees, gas and liquidity
    * Implements smart routing logic considering multiple factors
-   * @param raydiumQuote - Quote from Raydium
-   * @param meteoraQuote - Quote from Meteora
+   * @param quotes - Quotes from all responding DEXs
    * @param amount - Swap amount for calculations
+   * @param gasPrice - Output tokens per gas token; when unknown gas only breaks ties
    * @returns RoutingDecision - Selected DEX with reasoning
    */
-  selectBestDex(raydiumQuote: DexQuote, meteoraQuote: DexQuote, amount: number): RoutingDecision {
-    const alternatives = [raydiumQuote, meteoraQuote];
-    
-    // Calculate effective price (including fees)
-    const raydiumEffectivePrice = raydiumQuote.price * (1 + raydiumQuote.fee);
-    const meteoraEffectivePrice = meteoraQuote.price * (1 + meteoraQuote.fee);
-    
-    // Calculate total cost including gas
-    const raydiumTotalCost = raydiumQuote.amountOut + raydiumQuote.estimatedGas;
-    const meteoraTotalCost = meteoraQuote.amountOut + meteoraQuote.estimatedGas;
-    
-    let selectedDex: DexName;
+  selectBestDex(quotes: DexQuote[], amount: number, gasPrice?: number): RoutingDecision {
+    if (quotes.length === 0) {
+      throw new Error('Cannot select a DEX without quotes');
+    }
+
+    const alternatives = [...quotes];
+
+    // Output after fees and price impact, less gas priced in the output token
+    const netOutput = (quote: DexQuote) => this.netOfGas(quote, gasPrice);
+
+    // Smart routing logic: highest net output first, then lower gas, then higher liquidity
+    const ranked = [...quotes].sort((a, b) =>
+      netOutput(b) - netOutput(a) || a.estimatedGas - b.estimatedGas || b.liquidity - a.liquidity
+    );
+
+    const selectedQuote = ranked[0];
+    const runnerUp = ranked[1];
+    const output = gasPrice === undefined ? 'output' : 'output net of gas';
     let reason: string;
-    
-    // Smart routing logic
-    if (raydiumTotalCost > meteoraTotalCost) {
-      selectedDex = 'meteora';
-      reason = `Meteora offers better total cost (${meteoraTotalCost.toFixed(6)} vs ${raydiumTotalCost.toFixed(6)})`;
-    } else if (meteoraTotalCost > raydiumTotalCost) {
-      selectedDex = 'raydium';
-      reason = `Raydium offers better total cost (${raydiumTotalCost.toFixed(6)} vs ${meteoraTotalCost.toFixed(6)})`;
+
+    if (!runnerUp) {
+      reason = `${this.formatDexName(selectedQuote.dex)} is the only DEX with a quote`;
+    } else if (netOutput(selectedQuote) > netOutput(runnerUp)) {
+      reason = `${this.formatDexName(selectedQuote.dex)} offers better ${output} (${netOutput(selectedQuote).toFixed(6)} vs ${netOutput(runnerUp).toFixed(6)})`;
+    } else if (selectedQuote.estimatedGas < runnerUp.estimatedGas) {
+      reason = `Equal ${output}, ${this.formatDexName(selectedQuote.dex)} costs less gas (${selectedQuote.estimatedGas} vs ${runnerUp.estimatedGas} ${GAS_TOKEN})`;
     } else {
-      // If costs are similar, prefer higher liquidity
-      if (raydiumQuote.liquidity > meteoraQuote.liquidity) {
-        selectedDex = 'raydium';
-        reason = `Equal costs, Raydium has higher liquidity (${raydiumQuote.liquidity.toFixed(0)} vs ${meteoraQuote.liquidity.toFixed(0)})`;
-      } else {
-        selectedDex = 'meteora';
-        reason = `Equal costs, Meteora has higher liquidity (${meteoraQuote.liquidity.toFixed(0)} vs ${raydiumQuote.liquidity.toFixed(0)})`;
-      }
+      // If outputs and gas are equal, prefer higher liquidity
+      reason = `Equal ${output}, ${this.formatDexName(selectedQuote.dex)} has higher liquidity (${selectedQuote.liquidity.toFixed(0)} vs ${runnerUp.liquidity.toFixed(0)})`;
     }
-    
-    const selectedQuote = selectedDex === 'raydium' ? raydiumQuote : meteoraQuote;
-    
+
     const decision: RoutingDecision = {
-      dex: selectedDex,
+      dex: selectedQuote.dex,
       price: selectedQuote.price,
       fee: selectedQuote.fee,
       estimatedGas: selectedQuote.estimatedGas,
       reason,
-      alternatives
+      alternatives,
+      expectedAmountOut: selectedQuote.amountOut
     };
-    
+
     logger.getLogger().info('DEX routing decision made', {
-      selectedDex,
+      selectedDex: selectedQuote.dex,
       reason,
-      raydiumPrice: raydiumQuote.price,
-      meteoraPrice: meteoraQuote.price,
-      raydiumTotalCost,
-      meteoraTotalCost
+      amount,
+      quotes: quotes.map(quote => ({
+        dex: quote.dex,
+        price: quote.price,
+        netOutput: netOutput(quote)
+      })),
+      gasPrice
     });
-    
+
     return decision;
   }
-  
+
+  /**
+   * Find the best route for an order
+   * Compares the direct route (single venue or split) against multi-hop
+   * paths through intermediate tokens and keeps whichever returns more
+   * @param tokenIn - Input token address
+   * @param tokenOut - Output token address
+   * @param amount - Amount to swap
+   * @param allowSplit - Whether the direct route may be split across venues
+   * @returns Promise<RoutingDecision> - Best routing decision
+   */
+  async routeOrder(tokenIn: string, tokenOut: string, amount: number, allowSplit: boolean = true): Promise<RoutingDecision> {
+    let direct: RoutingDecision | undefined;
+
+    try {
+      const quotes = await this.getQuotes(tokenIn, tokenOut, amount);
+      direct = await this.planRoute(tokenIn, tokenOut, amount, quotes, allowSplit);
+    } catch (error) {
+      logger.getLogger().info('No direct route available', {
+        tokenIn,
+        tokenOut,
+        amount,
+        error: error instanceof Error ? error.message : error
+      });
+    }
+
+    const multiHop = await this.findMultiHopRoute(tokenIn, tokenOut, amount);
+
+    if (!multiHop) {
+      if (!direct) {
+        throw new Error(`No route found for ${tokenIn}/${tokenOut}`);
+      }
+      return direct;
+    }
+
+    if (direct && direct.expectedAmountOut >= multiHop.expectedAmountOut) {
+      return direct;
+    }
+
+    multiHop.reason = direct
+      ? `${multiHop.reason} beats direct route (${multiHop.expectedAmountOut.toFixed(6)} vs ${direct.expectedAmountOut.toFixed(6)})`
+      : `${multiHop.reason} (no direct pool)`;
+
+    logger.getLogger().info('Multi-hop routing decision made', {
+      tokenIn,
+      tokenOut,
+      amount,
+      path: multiHop.path,
+      expectedAmountOut: multiHop.expectedAmountOut,
+      directAmountOut: direct?.expectedAmountOut
+    });
+
+    return multiHop;
+  }
+
+  /**
+   * Find the best multi-hop route through intermediate tokens
+   * Builds a token graph over every venue's pools and quotes each candidate
+   * path hop by hop, taking the best venue at every hop
+   * @param tokenIn - Input token address
+   * @param tokenOut - Output token address
+   * @param amount - Amount to swap
+   * @returns Promise<RoutingDecision | null> - Best multi-hop decision, or null when no path exists
+   */
+  async findMultiHopRoute(tokenIn: string, tokenOut: string, amount: number): Promise<RoutingDecision | null> {
+    const graph = new TokenGraph(this.listPools());
+    const paths = graph.findPaths(tokenIn, tokenOut, this.maxHops)
+      .filter(path => path.length > 2)
+      .slice(0, MAX_CANDIDATE_PATHS);
+
+    if (paths.length === 0) {
+      return null;
+    }
+
+    const results = await Promise.allSettled(paths.map(path => this.quotePath(graph, path, amount)));
+
+    const candidates = results.flatMap((result, index) =>
+      result.status === 'fulfilled' ? [{ tokens: paths[index], hopQuotes: result.value }] : []
+    );
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const finalOutput = (candidate: { hopQuotes: DexQuote[] }) =>
+      candidate.hopQuotes[candidate.hopQuotes.length - 1].amountOut;
+    const { tokens, hopQuotes } = candidates.reduce((top, candidate) =>
+      finalOutput(candidate) > finalOutput(top) ? candidate : top
+    );
+
+    const hops: RouteHop[] = hopQuotes.map((quote, index) => ({
+      dex: quote.dex,
+      tokenIn: tokens[index],
+      tokenOut: tokens[index + 1],
+      amountIn: index === 0 ? amount : hopQuotes[index - 1].amountOut,
+      expectedAmountOut: quote.amountOut
+    }));
+
+    return {
+      dex: hops[0].dex,
+      price: hopQuotes.reduce((price, quote) => price * quote.price, 1),
+      fee: 1 - hopQuotes.reduce((kept, quote) => kept * (1 - quote.fee), 1),
+      estimatedGas: hopQuotes.reduce((total, quote) => total + quote.estimatedGas, 0),
+      reason: `Multi-hop ${tokens.join(' → ')} via ${hops.map(hop => this.formatDexName(hop.dex)).join(', ')}`,
+      alternatives: hopQuotes,
+      expectedAmountOut: hops[hops.length - 1].expectedAmountOut,
+      path: hops
+    };
+  }
+
+  /**
+   * Plan the route for an order
+   * Orders at or above the split threshold are split across venues when
+   * that beats the best single venue
+   * @param tokenIn - Input token address
+   * @param tokenOut - Output token address
+   * @param amount - Amount to swap
+   * @param quotes - Full-size quotes from all responding DEXs
+   * @param allowSplit - Whether the order may be split across venues
+   * @returns Promise<RoutingDecision> - Single-venue or split routing decision
+   */
+  async planRoute(tokenIn: string, tokenOut: string, amount: number, quotes: DexQuote[], allowSplit: boolean = true): Promise<RoutingDecision> {
+    const single = this.selectBestDex(quotes, amount, this.getGasPrice(tokenOut));
+
+    if (!allowSplit || amount < this.splitThreshold || quotes.length < 2) {
+      return single;
+    }
+
+    const split = await this.findOptimalSplit(tokenIn, tokenOut, amount, quotes);
+
+    if (!split.legs || split.legs.length < 2 || split.expectedAmountOut <= single.expectedAmountOut) {
+      return single;
+    }
+
+    logger.getLogger().info('Split routing decision made', {
+      tokenIn,
+      tokenOut,
+      amount,
+      legs: split.legs,
+      expectedAmountOut: split.expectedAmountOut,
+      singleVenueAmountOut: single.expectedAmountOut
+    });
+
+    return split;
+  }
+
+  /**
+   * Compute the split across venues that maximizes total output
+   * Samples each venue's quote curve at amount/steps increments and assigns
+   * each increment to the venue with the highest marginal output; output curves
+   * are concave, so the greedy allocation is optimal on the sampled grid
+   * @param tokenIn - Input token address
+   * @param tokenOut - Output token address
+   * @param amount - Amount to swap
+   * @param quotes - Full-size quotes identifying the venues to split across
+   * @returns Promise<RoutingDecision> - Decision with one leg per venue used
+   */
+  async findOptimalSplit(tokenIn: string, tokenOut: string, amount: number, quotes: DexQuote[]): Promise<RoutingDecision> {
+    const steps = this.splitSteps;
+    const stepAmount = amount / steps;
+
+    // curves[dex][k] = quote for k increments (k = 1..steps); quotes[] supplies the full-size point
+    const curves = new Map<DexName, (DexQuote | undefined)[]>();
+    await Promise.all(quotes.map(async quote => {
+      const points = await Promise.allSettled(
+        Array.from({ length: steps - 1 }, (_, index) =>
+          this.getQuote(quote.dex, tokenIn, tokenOut, stepAmount * (index + 1))
+        )
+      );
+      curves.set(quote.dex, [
+        undefined,
+        ...points.map(point => point.status === 'fulfilled' ? point.value : undefined),
+        quote
+      ]);
+    }));
+
+    const outputAt = (dex: DexName, increments: number): number | undefined =>
+      increments === 0 ? 0 : curves.get(dex)![increments]?.amountOut;
+
+    const allocation = new Map<DexName, number>(quotes.map(quote => [quote.dex, 0]));
+    for (let step = 0; step < steps; step++) {
+      let bestDex: DexName | undefined;
+      let bestMarginal = -Infinity;
+
+      allocation.forEach((increments, dex) => {
+        const current = outputAt(dex, increments);
+        const next = outputAt(dex, increments + 1);
+        if (current === undefined || next === undefined) return;
+
+        if (next - current > bestMarginal) {
+          bestMarginal = next - current;
+          bestDex = dex;
+        }
+      });
+
+      if (!bestDex) {
+        throw new Error(`Unable to allocate split route for ${tokenIn}/${tokenOut}`);
+      }
+
+      allocation.set(bestDex, allocation.get(bestDex)! + 1);
+    }
+
+    const legs: RouteLeg[] = [];
+    allocation.forEach((increments, dex) => {
+      if (increments === 0) return;
+      legs.push({
+        dex,
+        fraction: increments / steps,
+        amountIn: stepAmount * increments,
+        expectedAmountOut: outputAt(dex, increments)!
+      });
+    });
+    legs.sort((a, b) => b.amountIn - a.amountIn);
+
+    const primary = curves.get(legs[0].dex)![allocation.get(legs[0].dex)!]!;
+    const expectedAmountOut = legs.reduce((total, leg) => total + leg.expectedAmountOut, 0);
+    const estimatedGas = legs.reduce((total, leg) => total + curves.get(leg.dex)![steps]!.estimatedGas, 0);
+
+    return {
+      dex: primary.dex,
+      price: primary.price,
+      fee: primary.fee,
+      estimatedGas,
+      reason: `Split across ${legs.map(leg => `${this.formatDexName(leg.dex)} ${(leg.fraction * 100).toFixed(0)}%`).join(' / ')} for better total output (${expectedAmountOut.toFixed(6)})`,
+      alternatives: [...quotes],
+      expectedAmountOut,
+      legs
+    };
+  }
+
+  /**
+   * Re-quote a routing decision against current pool state
+   * Follows the same venues, legs and hops the decision chose
+   * @param decision - Routing decision to re-quote
+   * @param order - Order being routed
+   * @returns Promise<number> - Current expected output
+   */
+  async requoteRoute(decision: RoutingDecision, order: Order): Promise<number> {
+    if (decision.path) {
+      let amountOut = order.amountIn;
+      for (const hop of decision.path) {
+        amountOut = (await this.getQuote(hop.dex, hop.tokenIn, hop.tokenOut, amountOut)).amountOut;
+      }
+      return amountOut;
+    }
+
+    if (decision.legs) {
+      const quotes = await Promise.all(
+        decision.legs.map(leg => this.getQuote(leg.dex, order.tokenIn, order.tokenOut, leg.amountIn))
+      );
+      return quotes.reduce((total, quote) => total + quote.amountOut, 0);
+    }
+
+    return (await this.getQuote(decision.dex, order.tokenIn, order.tokenOut, order.amountIn)).amountOut;
+  }
+
   /**
    * Execute swap on the selected DEX
-   * Simulates transaction execution with realistic delays and slippage
    * @param dex - Selected DEX name
    * @param order - Order details
+   * @param protection - Optional minimum-output guard
    * @returns Promise<SwapResult> - Execution result with transaction hash
    */
-  async executeSwap(dex: DexName, order: Order): Promise<SwapResult> {
-    logger.getLogger().info('Starting swap execution', {
-      dex,
-      orderId: order.id,
-      amount: order.amountIn
-    });
-    
-    // Simulate execution time (2-3 seconds)
-    await this.sleep(2000 + Math.random() * 1000);
-    
-    // Simulate potential slippage during execution
-    const slippageImpact = 1 - (Math.random() * order.slippage);
-    const executedPrice = this.basePrice * slippageImpact;
-    
-    // Simulate gas usage
-    const gasUsed = dex === 'raydium' ? 0.0001 : 0.00008;
-    
-    const result: SwapResult = {
-      txHash: this.generateMockTxHash(),
-      executedPrice,
-      gasUsed,
-      slippageImpact,
-      dex,
-      timestamp: new Date()
-    };
-    
-    logger.getLogger().info('Swap execution completed', {
-      orderId: order.id,
-      dex,
-      txHash: result.txHash,
-      executedPrice: result.executedPrice,
-      slippageImpact: result.slippageImpact
-    });
-    
-    return result;
+  async executeSwap(dex: DexName, order: Order, protection?: SwapProtection): Promise<SwapResult> {
+    return this.registry.get(dex).executeSwap(order, protection);
+  }
+
+  /**
+   * Add a simulated pool to the venue it belongs to
+   * @param pool - Pool seed
+   */
+  addPool(pool: PoolInfo): void {
+    const adapter = this.registry.get(pool.dex);
+
+    if (!adapter.addPool) {
+      throw new Error(`DEX ${pool.dex} does not support adding pools`);
+    }
+
+    adapter.addPool(pool);
   }
-  
+
+  /**
+   * List pool state across every venue that exposes it
+   * @returns PoolInfo[] - Pool snapshots
+   */
+  listPools(): PoolInfo[] {
+    return this.registry.list().flatMap(adapter => adapter.listPools ? adapter.listPools() : []);
+  }
+
   /**
-   * Utility method to simulate network delays
-   * @param ms - Delay in milliseconds
-   * @returns Promise<void>
+   * Price of the gas token in another token, from the deepest pool pairing the two
+   * @param token - Token to price gas in
+   * @returns number | undefined - Tokens per gas token, or undefined when no pool pairs them
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  getGasPrice(token: string): number | undefined {
+    if (token === GAS_TOKEN) {
+      return 1;
+    }
+
+    const pools = this.listPools().filter(pool =>
+      (pool.tokenIn === GAS_TOKEN && pool.tokenOut === token) || (pool.tokenIn === token && pool.tokenOut === GAS_TOKEN)
+    );
+
+    if (pools.length === 0) {
+      return undefined;
+    }
+
+    const gasReserve = (pool: PoolInfo) => pool.tokenIn === GAS_TOKEN ? pool.reserveIn : pool.reserveOut;
+    const deepest = pools.reduce((top, pool) => gasReserve(pool) > gasReserve(top) ? pool : top);
+
+    return deepest.tokenIn === GAS_TOKEN
+      ? deepest.reserveOut / deepest.reserveIn
+      : deepest.reserveIn / deepest.reserveOut;
   }
-  
+
+  /**
+   * Check health of every registered DEX
+   * @returns Promise<DexHealth[]> - Health status per venue
+   */
+  async checkHealth(): Promise<DexHealth[]> {
+    const adapters = this.registry.list();
+    const results = await Promise.allSettled(adapters.map(adapter => adapter.health()));
+
+    return results.map((result, index) =>
+      result.status === 'fulfilled'
+        ? result.value
+        : {
+          dex: adapters[index].name,
+          healthy: false,
+          latencyMs: 0,
+          checkedAt: new Date(),
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason)
+        }
+    );
+  }
+
+  /**
+   * Quote a token path hop by hop, feeding each hop's output into the next
+   * @param graph - Token graph the path was found in
+   * @param path - Token path including both endpoints
+   * @param amount - Amount of the first token
+   * @returns Promise<DexQuote[]> - Best quote for every hop
+   */
+  private async quotePath(graph: TokenGraph, path: string[], amount: number): Promise<DexQuote[]> {
+    const hopQuotes: DexQuote[] = [];
+    let amountIn = amount;
+
+    for (let index = 0; index < path.length - 1; index++) {
+      const [hopIn, hopOut] = [path[index], path[index + 1]];
+      const venues = graph.getVenues(hopIn, hopOut);
+      const results = await Promise.allSettled(venues.map(dex => this.getQuote(dex, hopIn, hopOut, amountIn)));
+      const quotes = results
+        .filter((result): result is PromiseFulfilledResult<DexQuote> => result.status === 'fulfilled')
+        .map(result => result.value);
+
+      if (quotes.length === 0) {
+        throw new Error(`No DEX returned a quote for ${hopIn}/${hopOut}`);
+      }
+
+      const gasPrice = this.getGasPrice(hopOut);
+      const best = quotes.reduce((top, quote) =>
+        this.netOfGas(quote, gasPrice) > this.netOfGas(top, gasPrice) ? quote : top
+      );
+
+      hopQuotes.push(best);
+      amountIn = best.amountOut;
+    }
+
+    return hopQuotes;
+  }
+
+  /**
+   * Quote output less its gas, with gas converted into the output token
+   * @param quote - Venue quote
+   * @param gasPrice - Output tokens per gas token; gas is left out when unknown
+   * @returns number - Net output in the output token
+   */
+  private netOfGas(quote: DexQuote, gasPrice?: number): number {
+    return gasPrice === undefined ? quote.amountOut : quote.amountOut - quote.estimatedGas * gasPrice;
+  }
+
   /**
-   * Generate mock transaction hash for simulation
-   * Creates a realistic 64-character hex string
-   * @returns string - Mock transaction hash
+   * Format a DEX name for routing reasons
+   * @param dex - DEX name
+   * @returns string - Capitalized DEX name
    */
-  private generateMockTxHash(): string {
-    return Array.from({ length: 64 }, () => 
-      Math.floor(Math.random() * 16).toString(16)
-    ).join('');
+  private formatDexName(dex: DexName): string {
+    return dex.charAt(0).toUpperCase() + dex.slice(1);
   }
 }
@@ -0,0 +1,104 @@
+// src/services/orderEventBus.ts
+import IORedis from 'ioredis';
+import { OrderStatusEvent } from '../types/order';
+import { databaseConfig } from '../config/database';
+import { logger } from '../utils/logger';
+
+/**
+ * Handler invoked for every order status event received from the bus
+ */
+export type OrderEventHandler = (event: OrderStatusEvent) => void;
+
+/**
+ * Order Event Bus
+ * Publishes order status changes to a Redis channel so every API instance can
+ * deliver them to its own WebSocket clients, wherever the worker ran
+ */
+export class OrderEventBus {
+  private publisher: IORedis;
+  private getSubscriber: () => IORedis;
+  private subscriber?: IORedis;
+  private channel: string;
+  private handlers: OrderEventHandler[] = [];
+
+  constructor(
+    publisher: IORedis = databaseConfig.getRedisClient(),
+    getSubscriber: () => IORedis = () => databaseConfig.getRedisSubscriber(),
+    channel: string = process.env.ORDER_EVENTS_CHANNEL || 'order-events'
+  ) {
+    this.publisher = publisher;
+    this.getSubscriber = getSubscriber;
+    this.channel = channel;
+  }
+
+  /**
+   * Publish an order status event to all subscribed instances
+   * Failures are logged rather than thrown: the status is already persisted and clients can replay it
+   * @param event - Order status event
+   */
+  public async publish(event: OrderStatusEvent): Promise<void> {
+    try {
+      await this.publisher.publish(this.channel, JSON.stringify(event));
+    } catch (error) {
+      logger.logError(event.orderId, error, { context: 'Order event publish', status: event.status });
+    }
+  }
+
+  /**
+   * Receive order status events published by any instance
+   * @param handler - Called for each event
+   */
+  public async subscribe(handler: OrderEventHandler): Promise<void> {
+    this.handlers.push(handler);
+
+    if (this.subscriber) {
+      return;
+    }
+
+    // A Redis connection in subscriber mode cannot run other commands, so it is kept separate
+    this.subscriber = this.getSubscriber();
+    this.subscriber.on('message', (channel: string, message: string) => this.dispatch(channel, message));
+    await this.subscriber.subscribe(this.channel);
+
+    logger.getLogger().info('Subscribed to order events', { channel: this.channel });
+  }
+
+  /**
+   * Parse a channel message and hand it to every handler
+   * @param channel - Channel the message arrived on
+   * @param message - Raw message payload
+   */
+  private dispatch(channel: string, message: string): void {
+    if (channel !== this.channel) {
+      return;
+    }
+
+    let event: OrderStatusEvent;
+    try {
+      event = JSON.parse(message);
+    } catch (error) {
+      logger.logError(null, error, { context: 'Order event parsing', channel });
+      return;
+    }
+
+    for (const handler of this.handlers) {
+      try {
+        handler(event);
+      } catch (error) {
+        logger.logError(event.orderId, error, { context: 'Order event handler', status: event.status });
+      }
+    }
+  }
+
+  /**
+   * Stop receiving events
+   */
+  public async close(): Promise<void> {
+    this.handlers = [];
+
+    if (this.subscriber) {
+      await this.subscriber.unsubscribe(this.channel);
+      this.subscriber = undefined;
+    }
+  }
+}
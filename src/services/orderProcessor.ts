@@ -1,12 +1,54 @@
 // src/services/orderProcessor.ts
 import { Queue, Worker, Job } from 'bullmq';
 import IORedis from 'ioredis';
-import { Order, OrderStatus, ExecutionData } from '../types/order';
+import { v4 as uuidv4 } from 'uuid';
+import { Order, OrderStatus, OrderStatusEvent, OrderType, TimeInForce, ExecutionData, ExecutionHop, ExecutionLeg, CancelResult, TwapProgress } from '../types/order';
 import { MockDexRouter } from './mockDexRouter';
-import { WebSocketManager } from './websocketManager';
+import { OrderEventBus } from './orderEventBus';
+import { PriceWatcher } from './priceWatcher';
+import { SniperWatcher } from './sniperWatcher';
+import { PoolLaunchFeed } from './poolLaunchFeed';
+import { BalanceLedger } from './balanceLedger';
+import { ExpiryScheduler, EXPIRABLE_STATUSES } from './expiryScheduler';
+import { DexRegistry, dexRegistry } from './dexRegistry';
 import { logger } from '../utils/logger';
+import { OrderCancelledError, OrderExecutionError, OrderExpiredError, QuoteExpiredError, RouteIncompleteError, SlippageExceededError, SwapFailedError } from '../utils/errors';
 import { databaseConfig } from '../config/database';
-import { RoutingDecision } from '../types/dex';
+import { DexHealth, PoolInfo, RoutingDecision } from '../types/dex';
+import { OrderHistoryEvent } from '../types/websocket';
+import { GroupCancelResult, OrderGroup, OrderGroupDetails, OrderGroupStatus } from '../types/orderGroup';
+
+// Cancellation flags outlive any in-flight job
+const CANCEL_FLAG_TTL_SECONDS = 24 * 60 * 60;
+
+// Orders past 'submitted' have been sent to a venue and can no longer be stopped
+const CANCELLABLE_STATUSES: OrderStatus[] = ['pending', 'waiting', 'triggered', 'routing', 'building'];
+
+// Order types that rest in 'waiting' until their trigger fires
+const RESTING_TYPES: OrderType[] = ['limit', 'sniper', 'stop_loss', 'take_profit'];
+
+// Orders in these statuses never change again
+const FINAL_STATUSES: OrderStatus[] = ['confirmed', 'failed', 'cancelled', 'expired'];
+
+// Orders that must execute on arrival: they never rest, get one execution attempt and expire when they cannot fill
+const IMMEDIATE_TIME_IN_FORCE: TimeInForce[] = ['IOC', 'FOK'];
+
+// Amounts are stored with 8 decimals; TWAP slices and bracket exits are cut in these units so reservations match exactly
+const AMOUNT_UNITS = 1e8;
+
+// BullMQ job states that have not been picked up by a worker yet
+const REMOVABLE_JOB_STATES = ['waiting', 'delayed', 'prioritized', 'waiting-children'];
+
+/**
+ * Settings for the BullMQ worker that executes queued orders
+ */
+export interface OrderWorkerOptions {
+  concurrency: number;
+  limiter: {
+    max: number;
+    duration: number;
+  };
+}
 
 /**
  * Order Processor Service
@@ -14,20 +56,59 @@ import { RoutingDecision } from '../types/dex';
  */
 export class OrderProcessor {
   private queue!: Queue;
-  private worker!: Worker;
+  private worker?: Worker;
   private dexRouter: MockDexRouter;
+  private dexRegistry: DexRegistry;
+  private priceWatcher: PriceWatcher;
+  private sniperWatcher: SniperWatcher;
+  private expiryScheduler: ExpiryScheduler;
+  private poolLaunchFeed: PoolLaunchFeed;
   private redis: IORedis;
-  private wsManager: WebSocketManager;
+  private eventBus: OrderEventBus;
+  private balanceLedger: BalanceLedger;
   private pgPool: any;
+  private watching: boolean;
+  private followingEvents: boolean = false;
 
-  constructor(wsManager: WebSocketManager) {
-    this.wsManager = wsManager;
+  /**
+   * @param eventBus - Publishes status changes to WebSocket subscribers
+   * @param poolLaunchFeed - Source of simulated pool launches
+   * @param workerOptions - Worker settings, or null to only enqueue orders (API-only processes)
+   * @param balanceLedger - Reserves, settles and releases order funds
+   * @param watchOrders - Watch resting orders armed here, or false to leave them to the process that calls startWatching
+   */
+  constructor(
+    eventBus: OrderEventBus,
+    poolLaunchFeed: PoolLaunchFeed = new PoolLaunchFeed(),
+    workerOptions: OrderWorkerOptions | null = {
+      concurrency: parseInt(process.env.WORKER_CONCURRENCY || '10'),
+      limiter: {
+        max: parseInt(process.env.WORKER_RATE_LIMIT_MAX || '100'),
+        duration: parseInt(process.env.WORKER_RATE_LIMIT_DURATION_MS || '60000')
+      }
+    },
+    balanceLedger: BalanceLedger = new BalanceLedger(),
+    watchOrders: boolean = true
+  ) {
+    this.eventBus = eventBus;
+    this.watching = watchOrders;
+    this.balanceLedger = balanceLedger;
+    this.poolLaunchFeed = poolLaunchFeed;
     this.redis = databaseConfig.getRedisClient();
     this.pgPool = databaseConfig.getPostgreSQLPool();
     
-    this.dexRouter = new MockDexRouter();
+    this.dexRegistry = dexRegistry;
+    this.dexRouter = new MockDexRouter(this.dexRegistry);
+    this.priceWatcher = new PriceWatcher(this.dexRouter);
+    // Register launched pools with their venue before snipers react to the launch
+    this.poolLaunchFeed.onPoolCreated(pool => this.addLaunchedPool(pool));
+    this.sniperWatcher = new SniperWatcher(this.poolLaunchFeed, this.dexRegistry);
+    this.expiryScheduler = new ExpiryScheduler(this.pgPool);
     this.setupQueue();
-    this.setupWorker();
+
+    if (workerOptions) {
+      this.setupWorker(workerOptions);
+    }
   }
 
   /**
@@ -52,74 +133,981 @@ export class OrderProcessor {
 
   /**
    * Setup worker with concurrency limits and rate limiting
+   * @param options - Concurrency and limiter settings
    */
-  private setupWorker(): void {
-    this.worker = new Worker(
+  private setupWorker(options: OrderWorkerOptions): void {
+    const worker = new Worker(
       'order-execution',
       async (job: Job<Order>) => {
-        return await this.processOrder(job.data);
+        try {
+          const result = await this.processOrder(job.data);
+          await this.onOrderFinished(job.data);
+          return result;
+        } catch (error) {
+          // Typed failures such as slippage breaches are final; retrying would re-route at a worse price
+          const final = error instanceof OrderExecutionError && !error.retryable;
+          if (final) {
+            job.discard();
+          }
+
+          // Funds stay reserved while BullMQ still has attempts left
+          if (final || job.attemptsMade + 1 >= (job.opts.attempts ?? 1)) {
+            await this.releaseFunds(job.data.id);
+            await this.onOrderFinished(job.data);
+          }
+          throw error;
+        }
       },
       { 
         connection: this.redis,
-        concurrency: 10,
-        limiter: {
-          max: 100,
-          duration: 60000, // 100 jobs per minute
+        concurrency: options.concurrency,
+        limiter: options.limiter
+      }
+    );
+    this.worker = worker;
+
+    worker.on('completed', (job) => {
+      logger.getLogger().info('Order completed successfully', {
+        orderId: job.data.id,
+        duration: Date.now() - job.timestamp
+      });
+    });
+
+    worker.on('failed', (job, err) => {
+      logger.logError(job?.data?.id || null, err, { 
+        context: 'Order processing failed',
+        attempts: job?.attemptsMade
+      });
+    });
+
+    worker.on('error', (err) => {
+      logger.logError(null, err, { context: 'Worker error' });
+    });
+
+    worker.on('stalled', (jobId) => {
+      logger.getLogger().warn('Job stalled', { jobId });
+    });
+
+    logger.getLogger().info('Order execution worker initialized', {
+      concurrency: options.concurrency,
+      limiter: options.limiter
+    });
+  }
+
+  /**
+   * Submit order to processing queue
+   * Limit, sniper, stop-loss and take-profit orders rest in 'waiting' and are only enqueued once they trigger,
+   * unless they are IOC or FOK; TWAP orders wait while their child slices are executed
+   * @param order - Order to be processed
+   */
+  public async submitOrder(order: Order): Promise<void> {
+    // Hold the funds being sold; throws InsufficientBalanceError before anything is persisted.
+    // Exit orders of a group are covered by the group's reservation.
+    if (order.userId && order.groupRole !== 'exit') {
+      await this.balanceLedger.reserve(order.id, order.userId, order.tokenIn, order.amountIn);
+    }
+
+    try {
+      // Persist order to database
+      await this.persistOrder(order);
+      
+      if (order.type === 'twap') {
+        await this.scheduleTwapSlices(order);
+      } else if (RESTING_TYPES.includes(order.type)) {
+        if (this.isImmediate(order)) {
+          await this.executeImmediatelyOrExpire(order);
+        } else {
+          await this.armRestingOrder(order);
         }
+      } else {
+        await this.enqueueOrder(order);
       }
+      
+      logger.getLogger().info('Order submitted for processing', {
+        orderId: order.id,
+        type: order.type,
+        amount: order.amountIn
+      });
+    } catch (error) {
+      logger.logError(order.id, error, { context: 'Order submission' });
+      await this.releaseFunds(order.id);
+      throw error;
+    }
+  }
+
+  /**
+   * Submit a linked order group
+   * OCO groups reserve amountIn once for both exit orders; bracket entries reserve their own funds
+   * @param group - Group to create
+   * @param orders - OCO exit orders, or the bracket entry
+   * @throws InsufficientBalanceError - When the group's funds cannot be reserved
+   */
+  public async submitOrderGroup(group: OrderGroup, orders: Order[]): Promise<void> {
+    if (group.type === 'oco' && group.userId) {
+      await this.balanceLedger.reserve(group.id, group.userId, group.tokenIn, group.amountIn);
+    }
+
+    try {
+      await this.persistOrderGroup(group);
+
+      for (const order of orders) {
+        await this.submitOrder(order);
+      }
+
+      logger.getLogger().info('Order group submitted', {
+        groupId: group.id,
+        type: group.type,
+        orderIds: orders.map(order => order.id)
+      });
+    } catch (error) {
+      logger.logError(null, error, { context: 'Order group submission', groupId: group.id });
+      await this.abandonGroup(group.id, ['pending', 'active'], 'Group submission failed');
+      // The group row may not exist, in which case abandonGroup released nothing
+      await this.releaseFunds(group.id);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel every open order of a group that has not been triggered yet
+   * @param groupId - Group identifier
+   * @param reason - Cancellation reason recorded with the orders
+   * @returns Promise<GroupCancelResult> - Cancellation outcome
+   */
+  public async cancelOrderGroup(groupId: string, reason: string = 'User cancelled'): Promise<GroupCancelResult> {
+    const group = await this.getOrderGroup(groupId);
+
+    if (!group) {
+      return { outcome: 'not_found' };
+    }
+
+    if (!await this.abandonGroup(groupId, ['pending', 'active'], reason)) {
+      return { outcome: 'not_cancellable', status: (await this.getOrderGroup(groupId))?.status };
+    }
+
+    return { outcome: 'cancelled', status: 'cancelled' };
+  }
+
+  /**
+   * Get a group with its orders
+   * @param groupId - Group identifier
+   * @returns Promise<OrderGroupDetails | null> - Group data
+   */
+  public async getOrderGroupDetails(groupId: string): Promise<OrderGroupDetails | null> {
+    const group = await this.getOrderGroup(groupId);
+
+    if (!group) {
+      return null;
+    }
+
+    return { ...group, orders: await this.getGroupOrders(groupId) };
+  }
+
+  /**
+   * Re-arm resting orders left waiting by a previous run
+   * @returns Promise<number> - Number of orders re-armed
+   */
+  public async resumeWaitingOrders(): Promise<number> {
+    const result = await this.pgPool.query(
+      'SELECT * FROM orders WHERE status = $1 ORDER BY created_at ASC',
+      ['waiting']
     );
 
-    this.worker.on('completed', (job) => {
-      logger.getLogger().info('Order completed successfully', {
-        orderId: job.data.id,
-        duration: Date.now() - job.timestamp
+    for (const row of result.rows) {
+      await this.watchRestingOrder(this.mapOrderRow(row));
+    }
+
+    if (result.rows.length > 0) {
+      logger.getLogger().info('Waiting orders re-armed', { count: result.rows.length });
+    }
+
+    return result.rows.length;
+  }
+
+  /**
+   * Start expiring good-till-time orders once their expiresAt passes
+   */
+  public startExpiryScheduler(): void {
+    this.expiryScheduler.start(async orderId => {
+      await this.expireOrder(orderId);
+    });
+  }
+
+  /**
+   * Watch every resting order and expire good-till-time orders from this process
+   * Only one process watches at a time (see LeaderElection); orders armed by other
+   * processes are picked up from their 'waiting' status events
+   */
+  public async startWatching(): Promise<void> {
+    this.watching = true;
+
+    if (!this.followingEvents) {
+      this.followingEvents = true;
+      await this.eventBus.subscribe(event => this.followOrderEvent(event));
+    }
+
+    await this.resumeWaitingOrders();
+    this.startExpiryScheduler();
+  }
+
+  /**
+   * Stop watching resting orders and expiring orders, e.g. after losing leadership
+   */
+  public stopWatching(): void {
+    this.watching = false;
+    this.priceWatcher.stop();
+    this.sniperWatcher.disarmAll();
+    this.expiryScheduler.stop();
+  }
+
+  /**
+   * Watch orders other processes left waiting, and drop watched orders another process finished
+   * @param event - Order status event
+   */
+  private followOrderEvent(event: OrderStatusEvent): void {
+    if (!this.watching) {
+      return;
+    }
+
+    if (event.status === 'waiting') {
+      this.getOrder(event.orderId)
+        .then(order => order?.status === 'waiting' ? this.watchRestingOrder(order) : undefined)
+        .catch(error => logger.logError(event.orderId, error, { context: 'Waiting order arming' }));
+    } else if (FINAL_STATUSES.includes(event.status)) {
+      this.priceWatcher.unwatch(event.orderId);
+      this.sniperWatcher.disarm(event.orderId);
+    }
+  }
+
+  /**
+   * Expire an order whose expiresAt has passed before a worker picked it up
+   * Resting orders are unwatched and queued jobs removed; orders a worker is
+   * already processing expire at its next checkpoint instead
+   * @param orderId - Order identifier
+   * @returns Promise<boolean> - Whether the order was expired
+   */
+  public async expireOrder(orderId: string): Promise<boolean> {
+    const order = await this.getOrder(orderId);
+
+    if (!order || !this.isExpired(order) || !EXPIRABLE_STATUSES.includes(order.status)) {
+      return false;
+    }
+
+    this.priceWatcher.unwatch(orderId);
+    this.sniperWatcher.disarm(orderId);
+
+    const job = await this.queue.getJob(orderId);
+    if (job) {
+      if (!REMOVABLE_JOB_STATES.includes(await job.getState())) {
+        return false;
+      }
+
+      try {
+        await job.remove();
+      } catch (error) {
+        // A worker locked the job between getState and remove
+        return false;
+      }
+    }
+
+    await this.finishExpired(order, new OrderExpiredError(orderId, new Date(order.expiresAt!)).message);
+
+    return true;
+  }
+
+  /**
+   * Cancel an order
+   * Resting orders are unwatched and queued jobs removed, so the order is
+   * cancelled immediately; orders already picked up by a worker are flagged
+   * and abort at the next checkpoint, so one past its last checkpoint still fills
+   * @param orderId - Order identifier
+   * @param reason - Cancellation reason recorded with the order
+   * @returns Promise<CancelResult> - Cancellation outcome
+   */
+  public async cancelOrder(orderId: string, reason: string = 'User cancelled'): Promise<CancelResult> {
+    const order = await this.getOrder(orderId);
+
+    if (!order) {
+      return { outcome: 'not_found' };
+    }
+
+    if (!CANCELLABLE_STATUSES.includes(order.status)) {
+      return { outcome: 'not_cancellable', status: order.status };
+    }
+
+    if (order.type === 'twap') {
+      return this.cancelTwapOrder(order, reason);
+    }
+
+    // Flag first so a worker that picks the job up mid-cancellation still aborts
+    await this.redis.set(this.cancelFlagKey(orderId), reason, 'EX', CANCEL_FLAG_TTL_SECONDS);
+
+    this.priceWatcher.unwatch(orderId);
+    this.sniperWatcher.disarm(orderId);
+
+    const job = await this.queue.getJob(orderId);
+    if (job) {
+      const state = await job.getState();
+      let inFlight = state === 'active';
+
+      if (REMOVABLE_JOB_STATES.includes(state)) {
+        try {
+          await job.remove();
+        } catch (error) {
+          // A worker locked the job between getState and remove
+          inFlight = true;
+        }
+      }
+
+      if (inFlight) {
+        logger.getLogger().info('Cancellation requested for in-flight order', { orderId, status: order.status });
+        return { outcome: 'cancelling', status: order.status };
+      }
+    }
+
+    await this.updateOrderStatus(orderId, 'cancelled', { cancelReason: reason });
+    await this.releaseFunds(orderId);
+    await this.onOrderFinished(order);
+
+    return { outcome: 'cancelled', status: 'cancelled' };
+  }
+
+  /**
+   * Cancel a TWAP parent and every slice that has not been sent yet
+   * Slices already past 'building' still complete and their fills stay on the parent
+   * @param parent - TWAP order
+   * @param reason - Cancellation reason recorded with the order
+   * @returns Promise<CancelResult> - Cancellation outcome
+   */
+  private async cancelTwapOrder(parent: Order, reason: string): Promise<CancelResult> {
+    // Marked first so slices cancelled below keep the parent cancelled when they are folded in
+    await this.updateOrderStatus(parent.id, 'cancelled', { ...parent.executionData, cancelReason: reason });
+
+    for (const child of await this.getChildOrders(parent.id)) {
+      if (CANCELLABLE_STATUSES.includes(child.status)) {
+        await this.cancelOrder(child.id, reason);
+      }
+    }
+
+    await this.releaseFunds(parent.id);
+
+    return { outcome: 'cancelled', status: 'cancelled' };
+  }
+
+  /**
+   * Abort processing if the order has been cancelled
+   * @param orderId - Order identifier
+   */
+  private async assertNotCancelled(orderId: string): Promise<void> {
+    const reason = await this.redis.get(this.cancelFlagKey(orderId));
+
+    if (reason) {
+      throw new OrderCancelledError(orderId, reason);
+    }
+  }
+
+  /**
+   * Fail a firm-quote order whose quote has expired
+   * @param order - Order being processed
+   * @throws QuoteExpiredError - When the quote's expiry has passed
+   */
+  private assertQuoteLive(order: Order): void {
+    if (!order.quoteId || !order.quoteExpiresAt) {
+      return;
+    }
+
+    // Job data round-trips through JSON, so the expiry may arrive as a string
+    const expiresAt = new Date(order.quoteExpiresAt);
+
+    if (expiresAt.getTime() <= Date.now()) {
+      throw new QuoteExpiredError(order.quoteId, expiresAt);
+    }
+  }
+
+  /**
+   * Expire a good-till-time order that reached a worker after its expiresAt
+   * @param order - Order being processed
+   * @throws OrderExpiredError - When the order's expiry has passed
+   */
+  private assertNotExpired(order: Order): void {
+    if (this.isExpired(order)) {
+      throw new OrderExpiredError(order.id, new Date(order.expiresAt!));
+    }
+  }
+
+  /**
+   * Check whether an order's expiresAt has passed
+   * @param order - Order to check
+   */
+  private isExpired(order: Order): boolean {
+    // Job data round-trips through JSON, so the expiry may arrive as a string
+    return order.expiresAt !== undefined && new Date(order.expiresAt).getTime() <= Date.now();
+  }
+
+  /**
+   * Check whether an order is IOC or FOK
+   * @param order - Order to check
+   */
+  private isImmediate(order: Order): boolean {
+    return order.timeInForce !== undefined && IMMEDIATE_TIME_IN_FORCE.includes(order.timeInForce);
+  }
+
+  /**
+   * Check whether an order must fill in full or not at all
+   * @param order - Order to check
+   */
+  private isFillOrKill(order: Order): boolean {
+    return order.timeInForce === 'FOK';
+  }
+
+  /**
+   * Mark an order that can no longer fill as expired and return its funds
+   * @param order - Order to expire
+   * @param reason - Why the order expired
+   */
+  private async finishExpired(order: Order, reason: string): Promise<void> {
+    await this.updateOrderStatus(order.id, 'expired', { error: reason, errorCode: 'ORDER_EXPIRED' });
+    await this.releaseFunds(order.id);
+    logger.getLogger().info('Order expired', { orderId: order.id, timeInForce: order.timeInForce, reason });
+    await this.onOrderFinished(order);
+  }
+
+  /**
+   * Fill a firm-quote order at the quoted amount; the difference to what the venues returned is absorbed
+   * @param order - Firm-quote order
+   * @param executionData - Venue fill, updated in place
+   */
+  private applyFirmQuote(order: Order, executionData: ExecutionData): void {
+    const quotedAmountOut = order.quotedAmountOut!;
+
+    executionData.quoteId = order.quoteId;
+    executionData.venueAmountOut = executionData.amountOut;
+    executionData.amountOut = quotedAmountOut;
+    executionData.executedPrice = quotedAmountOut / order.amountIn;
+    executionData.quotedAmountOut = quotedAmountOut;
+    executionData.minAmountOut = quotedAmountOut;
+
+    logger.getLogger().info('Order filled at firm quote', {
+      orderId: order.id,
+      quoteId: order.quoteId,
+      quotedAmountOut,
+      venueAmountOut: executionData.venueAmountOut
+    });
+  }
+
+  /**
+   * Redis key holding an order's cancellation flag
+   * @param orderId - Order identifier
+   */
+  private cancelFlagKey(orderId: string): string {
+    return `order:${orderId}:cancel`;
+  }
+
+  /**
+   * Add order to the execution queue
+   * @param order - Order to enqueue
+   * @param delay - Milliseconds before a worker may pick the order up
+   */
+  private async enqueueOrder(order: Order, delay: number = 0): Promise<void> {
+    // Add to processing queue; IOC and FOK orders get a single attempt
+    await this.queue.add('execute-order', order, {
+      jobId: order.id,
+      delay,
+      ...(this.isImmediate(order) && { attempts: 1 })
+    });
+    
+    // Update status to pending
+    await this.updateOrderStatus(order.id, 'pending');
+  }
+
+  /**
+   * Split a TWAP order into child market orders spread evenly over its duration
+   * The first slice is enqueued immediately and the rest as delayed jobs; each child
+   * takes over its share of the parent's balance reservation
+   * @param parent - TWAP order
+   */
+  private async scheduleTwapSlices(parent: Order): Promise<void> {
+    const amounts = this.sliceAmounts(parent.amountIn, parent.slices!);
+    const interval = parent.durationMs! / amounts.length;
+
+    const children: Order[] = amounts.map(amountIn => ({
+      id: uuidv4(),
+      type: 'market',
+      tokenIn: parent.tokenIn,
+      tokenOut: parent.tokenOut,
+      amountIn,
+      slippage: parent.slippage,
+      status: 'pending',
+      createdAt: new Date(),
+      userId: parent.userId,
+      parentOrderId: parent.id
+    }));
+
+    await this.updateOrderStatus(parent.id, 'waiting', {
+      twap: this.aggregateTwap(parent, children).progress
+    });
+
+    try {
+      for (const [index, child] of children.entries()) {
+        await this.persistOrder(child);
+
+        if (child.userId && !await this.balanceLedger.transferReservation(parent.id, child.id, child.amountIn)) {
+          throw new Error(`Reservation of TWAP order ${parent.id} does not cover slice ${index + 1}`);
+        }
+
+        await this.enqueueOrder(child, Math.round(index * interval));
+      }
+    } catch (error) {
+      // Do not leave slices of a rejected parent scheduled
+      for (const child of children) {
+        await this.cancelOrder(child.id, 'TWAP scheduling failed').catch(() => undefined);
+      }
+      throw error;
+    }
+
+    logger.logOrderEvent(parent.id, 'twap_scheduled', {
+      slices: children.length,
+      intervalMs: interval,
+      childOrderIds: children.map(child => child.id)
+    });
+  }
+
+  /**
+   * Split an amount into equal slices, the last one taking the rounding remainder
+   * @param amountIn - Total amount
+   * @param slices - Number of slices
+   * @returns number[] - Slice amounts
+   */
+  private sliceAmounts(amountIn: number, slices: number): number[] {
+    const units = Math.round(amountIn * AMOUNT_UNITS);
+    const base = Math.floor(units / slices);
+
+    return Array.from({ length: slices }, (_, index) =>
+      (index === slices - 1 ? units - base * (slices - 1) : base) / AMOUNT_UNITS
+    );
+  }
+
+  /**
+   * Fold a finished order into its TWAP parent or order group
+   * Failures are logged; they must not fail or retry the order itself
+   * @param order - Order that reached a final status
+   */
+  private async onOrderFinished(order: Order): Promise<void> {
+    if (order.parentOrderId) {
+      try {
+        await this.refreshTwapParent(order.parentOrderId);
+      } catch (error) {
+        logger.logError(order.parentOrderId, error, { context: 'TWAP parent update', childOrderId: order.id });
+      }
+    }
+
+    if (order.groupId) {
+      try {
+        await this.advanceGroup(order.groupId, order.id);
+      } catch (error) {
+        logger.logError(order.id, error, { context: 'Order group update', groupId: order.groupId });
+      }
+    }
+  }
+
+  /**
+   * Move a group on after one of its orders finished
+   * - A filled bracket entry arms the exits; a failed or cancelled one cancels the group
+   * - An exit stopped before any exit triggered cancels the group and its other exits
+   * - The triggered exit decides the final group status
+   * @param groupId - Group identifier
+   * @param orderId - Order that finished
+   */
+  private async advanceGroup(groupId: string, orderId: string): Promise<void> {
+    const [group, order] = await Promise.all([this.getOrderGroup(groupId), this.getOrder(orderId)]);
+
+    if (!group || !order || !FINAL_STATUSES.includes(order.status)) {
+      return;
+    }
+
+    if (order.groupRole === 'entry') {
+      if (group.status !== 'pending') {
+        return;
+      }
+
+      if (order.status === 'confirmed') {
+        await this.armBracketExits(group, order);
+      } else {
+        await this.setGroupStatus(groupId, 'cancelled', ['pending']);
+      }
+      return;
+    }
+
+    if (group.status === 'active' && order.status !== 'confirmed') {
+      await this.abandonGroup(groupId, ['active'], `Linked order ${orderId} was ${order.status}`);
+    } else if (group.status === 'triggered' && group.triggeredOrderId === orderId) {
+      const outcome: Record<string, OrderGroupStatus> = { confirmed: 'completed', failed: 'failed', cancelled: 'cancelled' };
+      await this.setGroupStatus(groupId, outcome[order.status], ['triggered']);
+    }
+  }
+
+  /**
+   * Reserve a filled bracket entry's output for the group and arm its take-profit and stop-loss exits
+   * @param group - Bracket group
+   * @param entry - Filled entry order
+   */
+  private async armBracketExits(group: OrderGroup, entry: Order): Promise<void> {
+    // Round down so the reservation never exceeds what the settlement credited
+    const amountIn = Math.floor((entry.executionData?.amountOut ?? 0) * AMOUNT_UNITS) / AMOUNT_UNITS;
+    const exitOf = (type: 'take_profit' | 'stop_loss', triggerPrice?: number): Order => ({
+      id: uuidv4(),
+      type,
+      tokenIn: entry.tokenOut,
+      tokenOut: entry.tokenIn,
+      amountIn,
+      slippage: entry.slippage,
+      status: 'pending',
+      createdAt: new Date(),
+      userId: entry.userId,
+      triggerPrice,
+      groupId: group.id,
+      groupRole: 'exit'
+    });
+    const exits = [exitOf('take_profit', group.takeProfitPrice), exitOf('stop_loss', group.stopLossPrice)];
+
+    try {
+      if (entry.userId) {
+        await this.balanceLedger.reserve(group.id, entry.userId, entry.tokenOut, amountIn);
+      }
+
+      // Active before the exits are armed, since an exit may trigger on its first price check
+      await this.setGroupStatus(group.id, 'active', ['pending']);
+
+      for (const exit of exits) {
+        await this.submitOrder(exit);
+      }
+
+      logger.getLogger().info('Bracket exits armed', {
+        groupId: group.id,
+        amountIn,
+        takeProfitPrice: group.takeProfitPrice,
+        stopLossPrice: group.stopLossPrice
+      });
+    } catch (error) {
+      logger.logError(entry.id, error, { context: 'Bracket exit arming', groupId: group.id });
+      await this.abandonGroup(group.id, ['pending', 'active'], 'Bracket exits could not be armed');
+    }
+  }
+
+  /**
+   * Let a triggered exit take the group's funds; only the first exit to trigger succeeds
+   * The other exits can no longer execute and are cancelled
+   * @param order - Triggered exit order
+   * @returns Promise<boolean> - Whether the order may execute
+   */
+  private async claimGroup(order: Order): Promise<boolean> {
+    const claimed = await this.pgPool.query(
+      `UPDATE order_groups SET status = 'triggered', triggered_order_id = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'active' RETURNING id`,
+      [order.groupId, order.id]
+    );
+
+    if (claimed.rows.length === 0) {
+      return false;
+    }
+
+    for (const sibling of await this.getGroupOrders(order.groupId!)) {
+      if (sibling.id !== order.id && CANCELLABLE_STATUSES.includes(sibling.status)) {
+        await this.cancelOrder(sibling.id, `Linked order ${order.id} was triggered`);
+      }
+    }
+
+    if (order.userId && !await this.balanceLedger.transferReservation(order.groupId!, order.id, order.amountIn)) {
+      throw new Error(`Reservation of group ${order.groupId} does not cover order ${order.id}`);
+    }
+
+    logger.logOrderEvent(order.id, 'group_triggered', { groupId: order.groupId });
+    return true;
+  }
+
+  /**
+   * Cancel a group, its open orders and its remaining reservation
+   * @param groupId - Group identifier
+   * @param from - Statuses the group may be cancelled from
+   * @param reason - Cancellation reason recorded with the orders
+   * @returns Promise<boolean> - Whether the group was cancelled
+   */
+  private async abandonGroup(groupId: string, from: OrderGroupStatus[], reason: string): Promise<boolean> {
+    // Marked first so the cancellations below do not move the group on again
+    if (!await this.setGroupStatus(groupId, 'cancelled', from)) {
+      return false;
+    }
+
+    for (const order of await this.getGroupOrders(groupId)) {
+      if (CANCELLABLE_STATUSES.includes(order.status)) {
+        await this.cancelOrder(order.id, reason).catch(error => {
+          logger.logError(order.id, error, { context: 'Order group cancellation', groupId });
+        });
+      }
+    }
+
+    await this.releaseFunds(groupId);
+    logger.getLogger().info('Order group cancelled', { groupId, reason });
+
+    return true;
+  }
+
+  /**
+   * Change a group's status if it is still in one of the expected statuses
+   * @param groupId - Group identifier
+   * @param status - New status
+   * @param from - Statuses the change is allowed from
+   * @returns Promise<boolean> - Whether the status changed
+   */
+  private async setGroupStatus(groupId: string, status: OrderGroupStatus, from: OrderGroupStatus[]): Promise<boolean> {
+    const result = await this.pgPool.query(
+      `UPDATE order_groups SET status = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = ANY($3) RETURNING id`,
+      [groupId, status, from]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Recompute a TWAP parent's fills from its children and finish it once every slice is final
+   * The parent is confirmed when any slice filled and failed otherwise; a cancelled parent stays cancelled
+   * @param parentOrderId - TWAP order
+   */
+  private async refreshTwapParent(parentOrderId: string): Promise<void> {
+    // Slices finishing together refresh the parent one at a time behind its row lock,
+    // so the last one always reads every slice as final
+    const outcome = await this.withTransaction(async client => {
+      const locked = await client.query('SELECT * FROM orders WHERE id = $1 FOR UPDATE', [parentOrderId]);
+
+      if (locked.rows.length === 0) {
+        return null;
+      }
+
+      const parent = this.mapOrderRow(locked.rows[0]);
+      const children = await client.query(
+        'SELECT * FROM orders WHERE parent_order_id = $1 ORDER BY created_at ASC',
+        [parentOrderId]
+      );
+      const { progress, data } = this.aggregateTwap(parent, children.rows.map((row: any) => this.mapOrderRow(row)));
+      const finished = progress.filled + progress.failed + progress.cancelled >= progress.slices;
+      let status = parent.status;
+
+      if (parent.status === 'cancelled') {
+        data.cancelReason = parent.executionData?.cancelReason;
+      } else if (finished) {
+        status = progress.filled > 0 ? 'confirmed' : 'failed';
+
+        if (progress.filled === 0) {
+          data.error = 'No TWAP slice was filled';
+        }
+      }
+
+      await this.updateOrderStatus(parentOrderId, status, data, client);
+      return { finished, status, progress };
+    });
+
+    if (outcome?.finished) {
+      logger.logOrderEvent(parentOrderId, 'twap_finished', { status: outcome.status, ...outcome.progress });
+    }
+  }
+
+  /**
+   * Aggregate the fills of TWAP child orders
+   * @param parent - TWAP order
+   * @param children - Its child orders
+   * @returns Progress counts and the parent's execution data (average price, total output and gas)
+   */
+  private aggregateTwap(parent: Order, children: Order[]): { progress: TwapProgress; data: ExecutionData } {
+    const progress: TwapProgress = {
+      slices: parent.slices ?? children.length,
+      filled: 0,
+      failed: 0,
+      cancelled: 0,
+      filledAmountIn: 0,
+      childOrderIds: children.map(child => child.id)
+    };
+    let amountOut = 0;
+    let gasUsed = 0;
+
+    for (const child of children) {
+      if (child.status === 'confirmed') {
+        progress.filled++;
+        progress.filledAmountIn += child.executionData?.filledAmountIn ?? child.amountIn;
+        amountOut += child.executionData?.amountOut ?? 0;
+        gasUsed += child.executionData?.gasUsed ?? 0;
+      } else if (child.status === 'failed') {
+        progress.failed++;
+      } else if (child.status === 'cancelled') {
+        progress.cancelled++;
+      }
+    }
+
+    const data: ExecutionData = { twap: progress };
+
+    if (progress.filled > 0) {
+      data.amountOut = amountOut;
+      data.executedPrice = amountOut / progress.filledAmountIn;
+      data.gasUsed = gasUsed;
+    }
+
+    return { progress, data };
+  }
+
+  /**
+   * Mark a resting order as waiting and start watching for its trigger
+   * @param order - Resting order to arm
+   */
+  private async armRestingOrder(order: Order): Promise<void> {
+    await this.updateOrderStatus(order.id, 'waiting');
+
+    // Otherwise the watching process picks the order up from its 'waiting' event
+    if (this.watching) {
+      await this.watchRestingOrder(order);
+    }
+  }
+
+  /**
+   * Check an IOC or FOK resting order once: enqueue it if its price condition already holds, and expire it otherwise
+   * @param order - Limit, stop-loss or take-profit order
+   */
+  private async executeImmediatelyOrExpire(order: Order): Promise<void> {
+    let effectivePrice: number | undefined;
+
+    try {
+      effectivePrice = await this.priceWatcher.getEffectivePrice(order);
+    } catch (error) {
+      // Without a quote nothing can fill right now
+      logger.getLogger().debug('No price for immediate order', {
+        orderId: order.id,
+        error: error instanceof Error ? error.message : error
+      });
+    }
+
+    if (effectivePrice === undefined || !this.priceWatcher.shouldTrigger(order, effectivePrice)) {
+      await this.finishExpired(order, `${order.timeInForce} ${order.type} order could not execute on arrival`);
+      return;
+    }
+
+    const conditional = order.type === 'stop_loss' || order.type === 'take_profit';
+    await this.enqueueTriggeredOrder(order, conditional ? { triggerPrice: order.triggerPrice, triggeredPrice: effectivePrice } : undefined);
+  }
+
+  /**
+   * Hand a resting order to the watcher for its type
+   * @param order - Limit, sniper, stop-loss or take-profit order
+   */
+  private async watchRestingOrder(order: Order): Promise<void> {
+    if (order.type === 'sniper') {
+      await this.watchSniperOrder(order);
+    } else if (order.type === 'limit') {
+      this.watchLimitOrder(order);
+    } else if (order.type === 'stop_loss' || order.type === 'take_profit') {
+      this.watchConditionalOrder(order);
+    }
+  }
+
+  /**
+   * Watch a limit order and enqueue it once the best price crosses its limit
+   * @param order - Limit order to watch
+   */
+  private watchLimitOrder(order: Order): void {
+    this.priceWatcher.watch(order, async (triggeredOrder, effectivePrice) => {
+      logger.logOrderEvent(triggeredOrder.id, 'limit_triggered', {
+        limitPrice: triggeredOrder.limitPrice,
+        effectivePrice
       });
+
+      await this.enqueueTriggeredOrder(triggeredOrder);
     });
+  }
 
-    this.worker.on('failed', (job, err) => {
-      logger.logError(job?.data?.id || null, err, { 
-        context: 'Order processing failed',
-        attempts: job?.attemptsMade
+  /**
+   * Watch a stop-loss or take-profit order and convert it into a market order once its trigger price is crossed
+   * Subscribers see 'triggered' before the order is queued for execution
+   * @param order - Conditional order to watch
+   */
+  private watchConditionalOrder(order: Order): void {
+    this.priceWatcher.watch(order, async (triggeredOrder, effectivePrice) => {
+      logger.logOrderEvent(triggeredOrder.id, `${triggeredOrder.type}_triggered`, {
+        triggerPrice: triggeredOrder.triggerPrice,
+        effectivePrice
       });
-    });
 
-    this.worker.on('error', (err) => {
-      logger.logError(null, err, { context: 'Worker error' });
+      await this.enqueueTriggeredOrder(triggeredOrder, {
+        triggerPrice: triggeredOrder.triggerPrice,
+        triggeredPrice: effectivePrice
+      });
     });
+  }
 
-    this.worker.on('stalled', (jobId) => {
-      logger.getLogger().warn('Job stalled', { jobId });
-    });
+  /**
+   * Arm a sniper order and enqueue it as soon as a matching pool launches
+   * @param order - Sniper order to arm
+   */
+  private async watchSniperOrder(order: Order): Promise<void> {
+    await this.sniperWatcher.arm(
+      order,
+      async (triggeredOrder, pool, entryPrice) => {
+        logger.logOrderEvent(triggeredOrder.id, 'sniper_triggered', {
+          dex: pool.dex,
+          poolId: pool.poolId,
+          entryPrice,
+          maxEntryPrice: triggeredOrder.maxEntryPrice
+        });
 
-    logger.getLogger().info('Order execution worker initialized');
+        await this.enqueueTriggeredOrder(triggeredOrder);
+      },
+      async (expiredOrder) => {
+        await this.expireOrder(expiredOrder.id);
+      }
+    );
   }
 
   /**
-   * Submit order to processing queue
-   * @param order - Order to be processed
+   * Enqueue a resting order whose trigger fired
+   * @param order - Triggered order
+   * @param triggerData - When set, the order is first reported as 'triggered' with this data
    */
-  public async submitOrder(order: Order): Promise<void> {
+  private async enqueueTriggeredOrder(order: Order, triggerData?: ExecutionData): Promise<void> {
     try {
-      // Persist order to database
-      await this.persistOrder(order);
-      
-      // Add to processing queue
-      await this.queue.add('execute-order', order, {
-        jobId: order.id,
-        delay: 0
-      });
-      
-      // Update status to pending
-      await this.updateOrderStatus(order.id, 'pending');
-      
-      logger.getLogger().info('Order submitted for processing', {
-        orderId: order.id,
-        type: order.type,
-        amount: order.amountIn
-      });
+      // The scheduler may not have swept an order that triggered just after expiring
+      if (this.isExpired(order)) {
+        await this.expireOrder(order.id);
+        return;
+      }
+
+      if (order.groupRole === 'exit' && !await this.claimGroup(order)) {
+        const [group, current] = await Promise.all([this.getOrderGroup(order.groupId!), this.getOrder(order.id)]);
+
+        // Another watcher of this same exit, e.g. during a leader handover, already claimed the group for it
+        if (group?.triggeredOrderId === order.id) {
+          return;
+        }
+
+        // The sibling's claim or the group's cancellation may already have cancelled this exit with its own reason
+        if (current?.status === 'waiting') {
+          await this.updateOrderStatus(order.id, 'cancelled', {
+            cancelReason: group?.triggeredOrderId
+              ? 'Another order of the group was triggered first'
+              : `Order group was ${group?.status ?? 'removed'}`
+          });
+        }
+        return;
+      }
+
+      if (triggerData) {
+        await this.updateOrderStatus(order.id, 'triggered', triggerData);
+      }
+
+      await this.enqueueOrder(order);
     } catch (error) {
-      logger.logError(order.id, error, { context: 'Order submission' });
-      throw error;
+      logger.logError(order.id, error, { context: 'Triggered order enqueue' });
+      await this.updateOrderStatus(order.id, 'failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      await this.releaseFunds(order.id);
+      await this.onOrderFinished(order);
     }
   }
 
@@ -137,47 +1125,78 @@ export class OrderProcessor {
         type: order.type
       });
 
-      // Routing phase - Get quotes from both DEXs
+      await this.assertNotCancelled(order.id);
+      this.assertNotExpired(order);
+      this.assertQuoteLive(order);
+
+      // Routing phase - Get quotes from all registered DEXs
       await this.updateOrderStatus(order.id, 'routing');
       logger.logOrderEvent(order.id, 'routing');
       
-      const [raydiumQuote, meteoraQuote] = await Promise.all([
-        this.dexRouter.getRaydiumQuote(order.tokenIn, order.tokenOut, order.amountIn),
-        this.dexRouter.getMeteorQuote(order.tokenIn, order.tokenOut, order.amountIn)
-      ]);
-
-      // Select best DEX based on quotes
-      const routingDecision = this.dexRouter.selectBestDex(raydiumQuote, meteoraQuote, order.amountIn);
+      // Select best DEX, split across DEXs for large orders, or hop through intermediate tokens
+      // Split legs fill independently, so FOK orders stay on one venue where the swap fills in full or not at all
+      const routingDecision = await this.dexRouter.routeOrder(order.tokenIn, order.tokenOut, order.amountIn, !this.isFillOrKill(order));
       
       // Log routing decision
       logger.logRoutingDecision(order.id, routingDecision);
       await this.persistRoutingDecision(order.id, routingDecision);
+
+      // Slippage protection - the fill may not fall below the routed quote less tolerance.
+      // Firm-quote orders are paid the quoted amount whatever the venues return, so their fills are not guarded.
+      const slippage = order.quoteId ? 1 : order.slippage;
+      const quotedAmountOut = routingDecision.expectedAmountOut;
+      // Sniper orders never fill below their entry price cap, whatever their slippage tolerance
+      const entryFloor = order.maxEntryPrice !== undefined ? order.maxEntryPrice * order.amountIn : 0;
+      const minAmountOut = Math.max(quotedAmountOut * (1 - slippage), entryFloor);
       
+      await this.assertNotCancelled(order.id);
+
       // Building phase - Prepare transaction
       await this.updateOrderStatus(order.id, 'building');
       logger.logOrderEvent(order.id, 'building');
       await this.simulateDelay(500);
 
+      // Re-quote the chosen route before sending; pools may have moved while building
+      const requotedAmountOut = await this.dexRouter.requoteRoute(routingDecision, order);
+      if (requotedAmountOut < minAmountOut) {
+        throw new SlippageExceededError({
+          stage: 'submission',
+          quotedAmountOut,
+          minAmountOut,
+          actualAmountOut: requotedAmountOut
+        });
+      }
+
+      // Last chance to honour a cancellation, order expiry or quote expiry before the transaction is sent
+      await this.assertNotCancelled(order.id);
+      this.assertNotExpired(order);
+      this.assertQuoteLive(order);
+
       // Submission phase - Send transaction
       await this.updateOrderStatus(order.id, 'submitted');
       logger.logOrderEvent(order.id, 'submitted');
       
       // Execution phase - Execute swap
-      const result = await this.dexRouter.executeSwap(routingDecision.dex, order);
-      
-      const executionData: ExecutionData = {
-        txHash: result.txHash,
-        executedPrice: result.executedPrice,
-        dex: routingDecision.dex,
-        gasUsed: result.gasUsed
-      };
+      const executionData = await this.executeRoute(order, routingDecision, minAmountOut);
+
+      executionData.quotedAmountOut = quotedAmountOut;
+      executionData.minAmountOut = minAmountOut;
+
+      // Firm quotes price the full amount; a partial fill keeps what the venues returned
+      if (order.quoteId && order.quotedAmountOut !== undefined && executionData.filledAmountIn === undefined) {
+        this.applyFirmQuote(order, executionData);
+      }
 
       // Update final status
       await this.updateOrderStatus(order.id, 'confirmed', executionData);
-      logger.logExecutionResult(order.id, result);
+      await this.settleFunds(order.id, order.tokenOut, executionData.amountOut ?? 0, executionData.filledAmountIn);
+      logger.logExecutionResult(order.id, executionData);
       
       // Update metrics
-      await this.updateMetrics(routingDecision.dex, true);
+      await this.updateMetrics(
+        (executionData.legs || executionData.path)?.map(fill => fill.dex) || [routingDecision.dex],
+        true
+      );
       
       const duration = Date.now() - startTime;
       logger.logPerformance('order_processing', duration, {
@@ -188,12 +1207,72 @@ export class OrderProcessor {
       return executionData;
 
     } catch (error) {
+      if (error instanceof OrderCancelledError) {
+        const cancelledData: ExecutionData = { cancelReason: error.reason, errorCode: error.code };
+
+        await this.updateOrderStatus(order.id, 'cancelled', cancelledData);
+        await this.releaseFunds(order.id);
+        logger.getLogger().info('Order processing aborted by cancellation', {
+          orderId: order.id,
+          reason: error.reason
+        });
+
+        return cancelledData;
+      }
+
+      if (error instanceof OrderExpiredError) {
+        const expiredData: ExecutionData = { error: error.message, errorCode: error.code };
+
+        await this.updateOrderStatus(order.id, 'expired', expiredData);
+        await this.releaseFunds(order.id);
+        logger.getLogger().info('Order processing aborted by expiry', {
+          orderId: order.id,
+          expiresAt: error.expiresAt
+        });
+
+        return expiredData;
+      }
+
       const executionData: ExecutionData = {
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ...(error instanceof OrderExecutionError && { errorCode: error.code })
       };
+
+      if (error instanceof SlippageExceededError) {
+        executionData.quotedAmountOut = error.slippage.quotedAmountOut;
+        executionData.minAmountOut = error.slippage.minAmountOut;
+        executionData.actualAmountOut = error.slippage.actualAmountOut;
+
+        logger.getLogger().warn('Slippage protection triggered', {
+          orderId: order.id,
+          ...error.slippage
+        });
+        await this.redis.incr('stats:slippage_exceeded');
+      }
+
+      if (error instanceof RouteIncompleteError) {
+        executionData.path = error.path;
+        executionData.heldToken = error.heldToken;
+        executionData.heldAmount = error.heldAmount;
+
+        logger.getLogger().warn('Multi-hop route stopped midway', {
+          orderId: order.id,
+          heldToken: error.heldToken,
+          heldAmount: error.heldAmount
+        });
+      }
       
-      await this.updateOrderStatus(order.id, 'failed', executionData);
-      await this.updateMetrics('', false);
+      // IOC and FOK orders that cannot fill within their slippage expire rather than fail
+      const status: OrderStatus = this.isImmediate(order) && error instanceof SlippageExceededError ? 'expired' : 'failed';
+
+      await this.updateOrderStatus(order.id, status, executionData);
+
+      // The amount sold is gone; credit what the completed hops returned instead of releasing it
+      if (error instanceof RouteIncompleteError) {
+        await this.settleFunds(order.id, error.heldToken, error.heldAmount);
+      }
+
+      await this.updateMetrics([], false);
       
       logger.logError(order.id, error, { 
         context: 'Order processing',
@@ -205,15 +1284,190 @@ export class OrderProcessor {
   }
 
   /**
-   * Update order status and emit WebSocket notification
+   * Send the swaps of a routing decision
+   * Once a swap has been sent the order is never retried, so untyped venue failures become SWAP_FAILED
+   * @param order - Order being executed
+   * @param decision - Routing decision
+   * @param minAmountOut - Minimum acceptable output
+   * @returns Promise<ExecutionData> - Fill details
+   */
+  private async executeRoute(order: Order, decision: RoutingDecision, minAmountOut: number): Promise<ExecutionData> {
+    try {
+      if (decision.path) {
+        return await this.executeMultiHopRoute(order, decision, minAmountOut);
+      }
+
+      if (decision.legs) {
+        return await this.executeSplitRoute(order, decision, minAmountOut);
+      }
+
+      const result = await this.dexRouter.executeSwap(decision.dex, order, {
+        quotedAmountOut: decision.expectedAmountOut,
+        minAmountOut
+      });
+
+      return {
+        txHash: result.txHash,
+        executedPrice: result.executedPrice,
+        amountOut: result.amountOut,
+        dex: decision.dex,
+        gasUsed: result.gasUsed
+      };
+    } catch (error) {
+      if (error instanceof OrderExecutionError) {
+        throw error;
+      }
+
+      throw new SwapFailedError(error instanceof Error ? error.message : String(error), { dex: decision.dex });
+    }
+  }
+
+  /**
+   * Execute every leg of a split route in parallel
+   * Legs that filled cannot be undone: when others fail the order keeps them as a partial fill
+   * @param order - Parent order
+   * @param decision - Split routing decision
+   * @param minAmountOut - Minimum acceptable output, shared out between the legs in proportion to their quotes
+   * @returns Promise<ExecutionData> - Aggregated fill with per-leg detail
+   * @throws OrderExecutionError - When no leg filled
+   */
+  private async executeSplitRoute(order: Order, decision: RoutingDecision, minAmountOut: number): Promise<ExecutionData> {
+    const legs = decision.legs!;
+    const minOutputRatio = minAmountOut / decision.expectedAmountOut;
+    const results = await Promise.allSettled(
+      legs.map(leg => this.dexRouter.executeSwap(leg.dex, { ...order, amountIn: leg.amountIn }, {
+        quotedAmountOut: leg.expectedAmountOut,
+        minAmountOut: leg.expectedAmountOut * minOutputRatio
+      }))
+    );
+
+    const fills: ExecutionLeg[] = [];
+    const failures: string[] = [];
+    let typedFailure: OrderExecutionError | undefined;
+
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        fills.push({
+          dex: legs[index].dex,
+          amountIn: legs[index].amountIn,
+          amountOut: result.value.amountOut,
+          executedPrice: result.value.executedPrice,
+          txHash: result.value.txHash,
+          gasUsed: result.value.gasUsed
+        });
+      } else {
+        failures.push(`${legs[index].dex}: ${result.reason instanceof Error ? result.reason.message : result.reason}`);
+        typedFailure = typedFailure || (result.reason instanceof OrderExecutionError ? result.reason : undefined);
+      }
+    });
+
+    const partialFill = failures.length > 0 && fills.length > 0;
+
+    if (failures.length > 0) {
+      logger.getLogger().error('Split route leg failed', { orderId: order.id, fills, failures, partialFill });
+    }
+
+    if (fills.length === 0) {
+      // Surface typed failures (e.g. slippage) so the order keeps its error code
+      if (typedFailure) {
+        throw typedFailure;
+      }
+
+      throw new SwapFailedError(`Split route failed on ${failures.length}/${legs.length} legs (${failures.join('; ')})`, { failures });
+    }
+
+    const amountIn = fills.reduce((total, fill) => total + fill.amountIn, 0);
+    const amountOut = fills.reduce((total, fill) => total + fill.amountOut, 0);
+
+    return {
+      txHash: fills[0].txHash,
+      executedPrice: amountOut / amountIn,
+      amountOut,
+      dex: decision.dex,
+      gasUsed: fills.reduce((total, fill) => total + fill.gasUsed, 0),
+      legs: fills,
+      ...(partialFill && { filledAmountIn: amountIn, failedLegs: failures })
+    };
+  }
+
+  /**
+   * Execute a multi-hop route one hop at a time
+   * Each hop swaps the previous hop's realized output; the final hop carries
+   * the order's minimum output
+   * @param order - Parent order
+   * @param decision - Multi-hop routing decision
+   * @param minAmountOut - Minimum acceptable final output
+   * @returns Promise<ExecutionData> - Final fill with per-hop detail
+   * @throws RouteIncompleteError - When a hop fails after earlier hops executed
+   */
+  private async executeMultiHopRoute(order: Order, decision: RoutingDecision, minAmountOut: number): Promise<ExecutionData> {
+    const fills: ExecutionHop[] = [];
+    let amountIn = order.amountIn;
+
+    const path = decision.path!;
+
+    for (const [index, hop] of path.entries()) {
+      const isFinalHop = index === path.length - 1;
+      let result;
+
+      try {
+        result = await this.dexRouter.executeSwap(
+          hop.dex,
+          { ...order, tokenIn: hop.tokenIn, tokenOut: hop.tokenOut, amountIn },
+          isFinalHop ? { quotedAmountOut: decision.expectedAmountOut, minAmountOut } : undefined
+        );
+      } catch (error) {
+        logger.getLogger().error('Multi-hop route hop failed', { orderId: order.id, hop: index + 1, fills });
+
+        const message = `Multi-hop route failed at hop ${index + 1} (${hop.tokenIn}→${hop.tokenOut}): ${error instanceof Error ? error.message : error}`;
+
+        // Earlier hops cannot be undone; their output stays with the user
+        if (fills.length > 0) {
+          throw new RouteIncompleteError(message, fills);
+        }
+
+        if (error instanceof OrderExecutionError) {
+          throw error;
+        }
+
+        throw new Error(message);
+      }
+
+      fills.push({
+        dex: hop.dex,
+        tokenIn: hop.tokenIn,
+        tokenOut: hop.tokenOut,
+        amountIn,
+        amountOut: result.amountOut,
+        executedPrice: result.executedPrice,
+        txHash: result.txHash,
+        gasUsed: result.gasUsed
+      });
+      amountIn = result.amountOut;
+    }
+
+    return {
+      txHash: fills[fills.length - 1].txHash,
+      executedPrice: amountIn / order.amountIn,
+      amountOut: amountIn,
+      dex: decision.dex,
+      gasUsed: fills.reduce((total, fill) => total + fill.gasUsed, 0),
+      path: fills
+    };
+  }
+
+  /**
+   * Update order status and publish it to WebSocket subscribers on every instance
    * @param orderId - Order identifier
    * @param status - New status
    * @param data - Additional execution data
+   * @param db - Connection to write with (a transaction client, or the pool by default)
    */
   private async updateOrderStatus(
     orderId: string, 
     status: OrderStatus, 
-    data?: ExecutionData
+    data?: ExecutionData,
+    db: { query: (text: string, values?: any[]) => Promise<any> } = this.pgPool
   ): Promise<void> {
     try {
       // Update in Redis for real-time access
@@ -224,20 +1478,31 @@ export class OrderProcessor {
         ...(data && { executionData: JSON.stringify(data) })
       });
 
-      // Update in PostgreSQL for persistence
-      await this.pgPool.query(
-        'UPDATE orders SET status = $1, updated_at = $2, execution_data = $3 WHERE id = $4',
+      // Update in PostgreSQL for persistence (the owner lets user-level subscribers follow the order).
+      // The row lock hands out the next per-order sequence atomically, so concurrent writers never share one.
+      const updated = await db.query(
+        `UPDATE orders SET status = $1, updated_at = $2, execution_data = $3, last_sequence = last_sequence + 1
+         WHERE id = $4 RETURNING user_id, last_sequence`,
         [status, new Date(), data ? JSON.stringify(data) : null, orderId]
       );
+      const userId: string | undefined = updated.rows[0]?.user_id ?? undefined;
+      const sequence: number | undefined = updated.rows[0]?.last_sequence ?? undefined;
 
-      // Log order event
-      await this.pgPool.query(
-        'INSERT INTO order_events (order_id, status, data) VALUES ($1, $2, $3)',
-        [orderId, status, data ? JSON.stringify(data) : null]
+      // Log order event with its sequence so clients can resume after reconnecting
+      await db.query(
+        'INSERT INTO order_events (order_id, status, data, sequence) VALUES ($1, $2, $3, $4)',
+        [orderId, status, data ? JSON.stringify(data) : null, sequence]
       );
 
-      // Emit WebSocket update
-      this.wsManager.emitToOrder(orderId, status, data);
+      // Publish to every API instance holding WebSocket subscribers
+      await this.eventBus.publish({
+        orderId,
+        status,
+        data,
+        userId,
+        sequence,
+        timestamp: new Date().toISOString()
+      });
       
       logger.logOrderEvent(orderId, status, data);
     } catch (error) {
@@ -246,15 +1511,75 @@ export class OrderProcessor {
     }
   }
 
+  /**
+   * Consume an order's reserved funds and credit what its swaps returned
+   * Failures are logged rather than thrown: the swap already happened and must not be retried
+   * @param orderId - Filled order
+   * @param tokenOut - Token received
+   * @param amountOut - Amount received
+   * @param filledAmountIn - Part of amountIn sold by a partial fill
+   */
+  private async settleFunds(orderId: string, tokenOut: string, amountOut: number, filledAmountIn?: number): Promise<void> {
+    try {
+      await this.balanceLedger.settle(orderId, tokenOut, amountOut, filledAmountIn);
+    } catch (error) {
+      logger.logError(orderId, error, { context: 'Balance settlement' });
+    }
+  }
+
+  /**
+   * Return an order's reserved funds once it can no longer fill
+   * @param orderId - Failed or cancelled order
+   */
+  private async releaseFunds(orderId: string): Promise<void> {
+    try {
+      await this.balanceLedger.release(orderId);
+    } catch (error) {
+      logger.logError(orderId, error, { context: 'Balance release' });
+    }
+  }
+
+  /**
+   * Make a launched pool tradable on its simulated venue
+   * @param pool - Launched pool
+   */
+  private addLaunchedPool(pool: PoolInfo): void {
+    try {
+      this.dexRouter.addPool(pool);
+    } catch (error) {
+      logger.logError(null, error, { context: 'Launched pool registration', poolId: pool.poolId, dex: pool.dex });
+    }
+  }
+
   /**
    * Persist order to database
    * @param order - Order to persist
    */
   private async persistOrder(order: Order): Promise<void> {
     await this.pgPool.query(
-      `INSERT INTO orders (id, type, token_in, token_out, amount_in, slippage, status, user_id) 
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-      [order.id, order.type, order.tokenIn, order.tokenOut, order.amountIn, order.slippage, order.status, order.userId]
+      `INSERT INTO orders (id, type, token_in, token_out, amount_in, slippage, status, user_id, limit_price, max_entry_price, expires_at, client_order_id, notional, quote_id, quoted_amount_out, quote_expires_at, slices, duration_ms, parent_order_id, trigger_price, group_id, group_role, time_in_force) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23)`,
+      [
+        order.id, order.type, order.tokenIn, order.tokenOut, order.amountIn, order.slippage, order.status,
+        order.userId, order.limitPrice, order.maxEntryPrice, order.expiresAt, order.clientOrderId, order.notional,
+        order.quoteId, order.quotedAmountOut, order.quoteExpiresAt, order.slices, order.durationMs, order.parentOrderId,
+        order.triggerPrice, order.groupId, order.groupRole, order.timeInForce
+      ]
+    );
+  }
+
+  /**
+   * Persist an order group
+   * @param group - Group to persist
+   */
+  private async persistOrderGroup(group: OrderGroup): Promise<void> {
+    await this.pgPool.query(
+      `INSERT INTO order_groups (id, type, status, user_id, token_in, token_out, amount_in, take_profit_price, stop_loss_price)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        group.id, group.type, group.status, group.userId, group.tokenIn, group.tokenOut, group.amountIn,
+        group.takeProfitPrice, group.stopLossPrice
+      ]
     );
   }
 
@@ -265,23 +1590,27 @@ export class OrderProcessor {
    */
   private async persistRoutingDecision(orderId: string, decision: RoutingDecision): Promise<void> {
     await this.pgPool.query(
-      `INSERT INTO routing_decisions (order_id, selected_dex, price, fee, reason, alternatives) 
-       VALUES ($1, $2, $3, $4, $5, $6)`,
-      [orderId, decision.dex, decision.price, decision.fee, decision.reason, JSON.stringify(decision.alternatives)]
+      `INSERT INTO routing_decisions (order_id, selected_dex, price, fee, reason, alternatives, legs, path) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        orderId, decision.dex, decision.price, decision.fee, decision.reason, JSON.stringify(decision.alternatives),
+        decision.legs ? JSON.stringify(decision.legs) : null,
+        decision.path ? JSON.stringify(decision.path) : null
+      ]
     );
   }
 
   /**
    * Update execution metrics
-   * @param dex - DEX used for execution
+   * @param dexes - DEXs used for execution (one per leg)
    * @param success - Whether execution was successful
    */
-  private async updateMetrics(dex: string, success: boolean): Promise<void> {
+  private async updateMetrics(dexes: string[], success: boolean): Promise<void> {
     await this.redis.incr('stats:total_orders');
     
     if (success) {
       await this.redis.incr('stats:successful_orders');
-      if (dex) {
+      for (const dex of dexes) {
         await this.redis.incr(`stats:${dex}_routed`);
       }
     } else {
@@ -289,30 +1618,76 @@ export class OrderProcessor {
     }
   }
 
+  /**
+   * Run queries in a single transaction
+   * @param work - Queries to run with the transaction client
+   * @returns Promise<T> - Result of work
+   */
+  private async withTransaction<T>(work: (client: any) => Promise<T>): Promise<T> {
+    const client = await this.pgPool.connect();
+
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Get comprehensive metrics
    * @returns Promise<Record<string, number>> - Metrics data
    */
   public async getMetrics(): Promise<Record<string, number>> {
-    const [total, successful, failed, raydium, meteora] = await Promise.all([
+    const dexNames = this.dexRegistry.getNames();
+    const [total, successful, failed, ...rest] = await Promise.all([
       this.redis.get('stats:total_orders'),
       this.redis.get('stats:successful_orders'),
       this.redis.get('stats:failed_orders'),
-      this.redis.get('stats:raydium_routed'),
-      this.redis.get('stats:meteora_routed')
+      ...dexNames.map(dex => this.redis.get(`stats:${dex}_routed`)),
+      this.redis.get('stats:slippage_exceeded')
     ]);
+    const routed = rest.slice(0, dexNames.length);
+    const slippageExceeded = rest[dexNames.length];
 
     const totalOrders = parseInt(total || '0');
     const successfulOrders = parseInt(successful || '0');
 
-    return {
+    const metrics: Record<string, number> = {
       totalOrders,
       successfulOrders,
       failedOrders: parseInt(failed || '0'),
-      raydiumRouted: parseInt(raydium || '0'),
-      meteoraRouted: parseInt(meteora || '0'),
-      successRate: totalOrders > 0 ? (successfulOrders / totalOrders) * 100 : 0
+      slippageExceeded: parseInt(slippageExceeded || '0')
     };
+
+    dexNames.forEach((dex, index) => {
+      metrics[`${dex}Routed`] = parseInt(routed[index] || '0');
+    });
+
+    metrics.successRate = totalOrders > 0 ? (successfulOrders / totalOrders) * 100 : 0;
+
+    return metrics;
+  }
+
+  /**
+   * Get health of every registered DEX
+   * @returns Promise<DexHealth[]> - Health status per venue
+   */
+  public async getDexHealth(): Promise<DexHealth[]> {
+    return this.dexRouter.checkHealth();
+  }
+
+  /**
+   * Get current reserves of every simulated pool
+   * @returns PoolInfo[] - Pool snapshots across venues
+   */
+  public getPoolState(): PoolInfo[] {
+    return this.dexRouter.listPools();
   }
 
   /**
@@ -331,40 +1706,176 @@ export class OrderProcessor {
         return null;
       }
       
-      const row = result.rows[0];
-      return {
-        id: row.id,
-        type: row.type,
-        tokenIn: row.token_in,
-        tokenOut: row.token_out,
-        amountIn: parseFloat(row.amount_in),
-        slippage: parseFloat(row.slippage),
-        status: row.status,
-        createdAt: row.created_at,
-        updatedAt: row.updated_at,
-        executionData: row.execution_data,
-        userId: row.user_id
-      };
+      return this.mapOrderRow(result.rows[0]);
     } catch (error) {
       logger.logError(orderId, error, { context: 'Get order' });
       throw error;
     }
   }
 
+  /**
+   * Get the child slices of a TWAP order
+   * @param parentOrderId - TWAP order
+   * @returns Promise<Order[]> - Child orders in creation order
+   */
+  public async getChildOrders(parentOrderId: string): Promise<Order[]> {
+    const result = await this.pgPool.query(
+      'SELECT * FROM orders WHERE parent_order_id = $1 ORDER BY created_at ASC',
+      [parentOrderId]
+    );
+
+    return result.rows.map((row: any) => this.mapOrderRow(row));
+  }
+
+  /**
+   * Get an order group
+   * @param groupId - Group identifier
+   * @returns Promise<OrderGroup | null> - Group data
+   */
+  public async getOrderGroup(groupId: string): Promise<OrderGroup | null> {
+    const result = await this.pgPool.query('SELECT * FROM order_groups WHERE id = $1', [groupId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return {
+      id: row.id,
+      type: row.type,
+      status: row.status,
+      userId: row.user_id ?? undefined,
+      tokenIn: row.token_in,
+      tokenOut: row.token_out,
+      amountIn: parseFloat(row.amount_in),
+      takeProfitPrice: row.take_profit_price != null ? parseFloat(row.take_profit_price) : undefined,
+      stopLossPrice: row.stop_loss_price != null ? parseFloat(row.stop_loss_price) : undefined,
+      triggeredOrderId: row.triggered_order_id ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  /**
+   * Get the orders of a group
+   * @param groupId - Group identifier
+   * @returns Promise<Order[]> - Orders in creation order
+   */
+  public async getGroupOrders(groupId: string): Promise<Order[]> {
+    const result = await this.pgPool.query(
+      'SELECT * FROM orders WHERE group_id = $1 ORDER BY created_at ASC',
+      [groupId]
+    );
+
+    return result.rows.map((row: any) => this.mapOrderRow(row));
+  }
+
+  /**
+   * Map a database row to an Order
+   * @param row - Row from the orders table
+   * @returns Order - Order data
+   */
+  private mapOrderRow(row: any): Order {
+    return {
+      id: row.id,
+      type: row.type,
+      tokenIn: row.token_in,
+      tokenOut: row.token_out,
+      amountIn: parseFloat(row.amount_in),
+      slippage: parseFloat(row.slippage),
+      status: row.status,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      executionData: row.execution_data,
+      userId: row.user_id,
+      limitPrice: row.limit_price != null ? parseFloat(row.limit_price) : undefined,
+      maxEntryPrice: row.max_entry_price != null ? parseFloat(row.max_entry_price) : undefined,
+      expiresAt: row.expires_at ?? undefined,
+      clientOrderId: row.client_order_id ?? undefined,
+      notional: row.notional != null ? parseFloat(row.notional) : undefined,
+      quoteId: row.quote_id ?? undefined,
+      quotedAmountOut: row.quoted_amount_out != null ? parseFloat(row.quoted_amount_out) : undefined,
+      quoteExpiresAt: row.quote_expires_at ?? undefined,
+      slices: row.slices ?? undefined,
+      durationMs: row.duration_ms ?? undefined,
+      parentOrderId: row.parent_order_id ?? undefined,
+      triggerPrice: row.trigger_price != null ? parseFloat(row.trigger_price) : undefined,
+      groupId: row.group_id ?? undefined,
+      groupRole: row.group_role ?? undefined,
+      timeInForce: row.time_in_force ?? undefined
+    };
+  }
+
   /**
    * Get order events
    * @param orderId - Order identifier
+   * @param afterSequence - Only return events after this sequence
    * @returns Promise<Array<any>> - Order events
    */
-  public async getOrderEvents(orderId: string): Promise<Array<any>> {
+  public async getOrderEvents(orderId: string, afterSequence: number = 0): Promise<Array<any>> {
     const result = await this.pgPool.query(
-      'SELECT * FROM order_events WHERE order_id = $1 ORDER BY timestamp ASC',
-      [orderId]
+      'SELECT * FROM order_events WHERE order_id = $1 AND sequence > $2 ORDER BY sequence ASC',
+      [orderId, afterSequence]
     );
     
     return result.rows;
   }
 
+  /**
+   * Route a swap the way an order would be routed, without persisting or executing it
+   * @param tokenIn - Token being sold
+   * @param tokenOut - Token being bought
+   * @param amount - Amount being sold
+   * @returns Promise<RoutingDecision> - Best current route
+   */
+  public async previewRoute(tokenIn: string, tokenOut: string, amount: number): Promise<RoutingDecision> {
+    return this.dexRouter.routeOrder(tokenIn, tokenOut, amount);
+  }
+
+  /**
+   * Expected output of swapping an amount along the best current route
+   * @param tokenIn - Token being sold
+   * @param tokenOut - Token being bought
+   * @param amount - Amount being sold
+   * @returns Promise<number> - Expected amount out
+   */
+  public async quoteAmountOut(tokenIn: string, tokenOut: string, amount: number): Promise<number> {
+    const decision = await this.previewRoute(tokenIn, tokenOut, amount);
+    return decision.expectedAmountOut;
+  }
+
+  /**
+   * Filter order IDs down to those owned by a user
+   * @param userId - Owner to check
+   * @param orderIds - Order identifiers
+   * @returns Promise<string[]> - Order IDs belonging to the user
+   */
+  public async filterOwnedOrders(userId: string, orderIds: string[]): Promise<string[]> {
+    const result = await this.pgPool.query(
+      'SELECT id FROM orders WHERE user_id = $1 AND id = ANY($2)',
+      [userId, orderIds]
+    );
+
+    return result.rows.map((row: any) => row.id);
+  }
+
+  /**
+   * Get order events in the shape replayed to WebSocket subscribers
+   * @param orderId - Order identifier
+   * @param afterSequence - Only return events after this sequence
+   * @returns Promise<OrderHistoryEvent[]> - Order events, oldest first
+   */
+  public async getOrderHistory(orderId: string, afterSequence: number = 0): Promise<OrderHistoryEvent[]> {
+    const rows = await this.getOrderEvents(orderId, afterSequence);
+
+    return rows.map(row => ({
+      sequence: row.sequence,
+      status: row.status,
+      data: row.data ?? undefined,
+      timestamp: row.timestamp
+    }));
+  }
+
   /**
    * Utility method to simulate processing delays
    * @param ms - Delay in milliseconds
@@ -378,7 +1889,10 @@ export class OrderProcessor {
    * Close all connections and cleanup resources
    */
   public async close(): Promise<void> {
-    await this.worker.close();
+    this.priceWatcher.stop();
+    this.sniperWatcher.stop();
+    this.expiryScheduler.stop();
+    await this.worker?.close();
     await this.queue.close();
     logger.getLogger().info('Order processor closed');
   }
@@ -0,0 +1,189 @@
+// src/services/orderQuotas.ts
+import { OrderStatus } from '../types/order';
+import { AmountOutQuoter } from '../types/dex';
+import { databaseConfig } from '../config/database';
+import { logger } from '../utils/logger';
+
+// Orders in these statuses no longer count towards a user's open orders
+const CLOSED_STATUSES: OrderStatus[] = ['confirmed', 'failed', 'cancelled', 'expired'];
+
+// Reservations left behind by an instance that died mid-submission stop counting after this long
+const RESERVATION_TTL_MS = 60000;
+
+/**
+ * Per-user limits on open orders (0 disables a limit)
+ */
+export interface OrderQuotaLimits {
+  maxOpenOrders: number;
+  maxOpenNotional: number;
+  notionalToken: string;
+}
+
+/**
+ * Outcome of a quota reservation
+ * - allowed: carries the order's notional when it could be valued, and the reservation to release
+ *   once the order is persisted or its submission fails (none while both limits are disabled)
+ * - rejected: names the exceeded limit
+ */
+export type QuotaReservation =
+  | { allowed: true; notional?: number; reservationId?: number }
+  | {
+      allowed: false;
+      limit: 'max_open_orders' | 'max_open_notional';
+      max: number;
+      current: number;
+      message: string;
+    };
+
+/**
+ * Order Quotas
+ * Caps how many orders, and how much notional, a single user can have open at once
+ */
+export class OrderQuotas {
+  private valueOf: AmountOutQuoter;
+  private pgPool: any;
+  private limits: OrderQuotaLimits;
+
+  constructor(
+    valueOf: AmountOutQuoter,
+    pgPool: any = databaseConfig.getPostgreSQLPool(),
+    limits: OrderQuotaLimits = {
+      maxOpenOrders: parseInt(process.env.MAX_OPEN_ORDERS_PER_USER || '100'),
+      maxOpenNotional: parseFloat(process.env.MAX_OPEN_NOTIONAL_PER_USER || '1000000'),
+      notionalToken: process.env.NOTIONAL_TOKEN || 'USDC'
+    }
+  ) {
+    this.valueOf = valueOf;
+    this.pgPool = pgPool;
+    this.limits = limits;
+  }
+
+  /**
+   * Reserve room for another order within a user's quotas
+   * The user's open orders are counted under a per-user transaction lock together with the
+   * reservations of submissions still in flight, so concurrent submissions cannot all pass.
+   * Orders that cannot be valued (e.g. snipers on pairs without a pool yet) only count towards open orders;
+   * TWAP child orders are covered by their parent
+   * @param userId - Owner of the order
+   * @param tokenIn - Token being sold
+   * @param amountIn - Amount being sold
+   * @returns Promise<QuotaReservation> - Whether the order fits within the user's quotas
+   */
+  public async reserve(userId: string, tokenIn: string, amountIn: number): Promise<QuotaReservation> {
+    const notional = await this.estimateNotional(tokenIn, amountIn);
+    const { maxOpenOrders, maxOpenNotional, notionalToken } = this.limits;
+
+    if (maxOpenOrders <= 0 && maxOpenNotional <= 0) {
+      return { allowed: true, notional };
+    }
+
+    return this.withTransaction(async (client) => {
+      await client.query("SELECT pg_advisory_xact_lock(hashtext('order_quotas'), hashtext($1))", [userId]);
+
+      const result = await client.query(
+        `SELECT COUNT(*) AS open_orders, COALESCE(SUM(notional), 0) AS open_notional FROM (
+           SELECT notional FROM orders WHERE user_id = $1 AND status <> ALL($2) AND parent_order_id IS NULL
+           UNION ALL
+           SELECT notional FROM order_quota_reservations WHERE user_id = $1 AND expires_at > NOW()
+         ) open`,
+        [userId, CLOSED_STATUSES]
+      );
+      const openOrders = parseInt(result.rows[0].open_orders);
+      const openNotional = parseFloat(result.rows[0].open_notional);
+
+      if (maxOpenOrders > 0 && openOrders >= maxOpenOrders) {
+        return {
+          allowed: false,
+          limit: 'max_open_orders',
+          max: maxOpenOrders,
+          current: openOrders,
+          message: `Open order limit of ${maxOpenOrders} reached`
+        };
+      }
+
+      if (maxOpenNotional > 0 && notional !== undefined && openNotional + notional > maxOpenNotional) {
+        return {
+          allowed: false,
+          limit: 'max_open_notional',
+          max: maxOpenNotional,
+          current: openNotional,
+          message: `Order of ${notional.toFixed(2)} ${notionalToken} would exceed the open notional limit of ${maxOpenNotional} ${notionalToken} (currently ${openNotional.toFixed(2)})`
+        };
+      }
+
+      await client.query('DELETE FROM order_quota_reservations WHERE user_id = $1 AND expires_at <= NOW()', [userId]);
+      const reservation = await client.query(
+        `INSERT INTO order_quota_reservations (user_id, notional, expires_at)
+         VALUES ($1, $2, NOW() + $3 * INTERVAL '1 millisecond') RETURNING id`,
+        [userId, notional ?? null, RESERVATION_TTL_MS]
+      );
+
+      return { allowed: true, notional, reservationId: reservation.rows[0].id };
+    });
+  }
+
+  /**
+   * Release a reservation once its order is persisted, or its submission failed
+   * Never throws: a reservation that cannot be deleted lapses on its own
+   * @param reservationId - Reservation returned by reserve, if any
+   */
+  public async release(reservationId?: number): Promise<void> {
+    if (reservationId === undefined) {
+      return;
+    }
+
+    try {
+      await this.pgPool.query('DELETE FROM order_quota_reservations WHERE id = $1', [reservationId]);
+    } catch (error) {
+      logger.getLogger().warn('Failed to release quota reservation', {
+        reservationId,
+        error: error instanceof Error ? error.message : error
+      });
+    }
+  }
+
+  /**
+   * Value an order in the notional token
+   * @param tokenIn - Token being sold
+   * @param amountIn - Amount being sold
+   * @returns Promise<number | undefined> - Notional, or undefined when no route exists
+   */
+  private async estimateNotional(tokenIn: string, amountIn: number): Promise<number | undefined> {
+    if (tokenIn === this.limits.notionalToken) {
+      return amountIn;
+    }
+
+    try {
+      return await this.valueOf(tokenIn, this.limits.notionalToken, amountIn);
+    } catch (error) {
+      logger.getLogger().debug('Order could not be valued for quotas', {
+        tokenIn,
+        amountIn,
+        notionalToken: this.limits.notionalToken,
+        error: error instanceof Error ? error.message : error
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Run queries in a single transaction
+   * @param work - Queries to run with the transaction client
+   * @returns Promise<T> - Result of work
+   */
+  private async withTransaction<T>(work: (client: any) => Promise<T>): Promise<T> {
+    const client = await this.pgPool.connect();
+
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { DexName, PoolInfo } from '../types/dex';
+import { logger } from '../utils/logger';
+
+/**
+ * Pool launch parameters
+ */
+export interface PoolLaunchParams {
+  dex: DexName;
+  tokenIn: string;
+  tokenOut: string;
+  reserveIn: number;
+  reserveOut: number;
+  fee?: number;
+  poolId?: string;
+}
+
+/**
+ * Listener for pool creation events
+ */
+export type PoolCreatedListener = (pool: PoolInfo) => void;
+
+/**
+ * Pool Launch Feed
+ * Simulated event source for new pool creation (token launches)
+ * Emits a 'poolCreated' event with the PoolInfo of every pool that goes live
+ */
+export class PoolLaunchFeed extends EventEmitter {
+  private pools: Map<string, PoolInfo> = new Map();
+
+  /**
+   * Simulate a new pool going live
+   * @param params - Pool launch parameters
+   * @returns PoolInfo - Created pool
+   */
+  public launchPool(params: PoolLaunchParams): PoolInfo {
+    const pool: PoolInfo = {
+      dex: params.dex,
+      poolId: params.poolId || uuidv4(),
+      tokenIn: params.tokenIn,
+      tokenOut: params.tokenOut,
+      reserveIn: params.reserveIn,
+      reserveOut: params.reserveOut,
+      fee: params.fee ?? 0.0025,
+      lastUpdate: new Date()
+    };
+
+    if (this.pools.has(pool.poolId)) {
+      throw new Error(`Pool ${pool.poolId} already exists`);
+    }
+
+    this.pools.set(pool.poolId, pool);
+
+    logger.getLogger().info('Pool launched', {
+      dex: pool.dex,
+      poolId: pool.poolId,
+      tokenIn: pool.tokenIn,
+      tokenOut: pool.tokenOut,
+      reserveIn: pool.reserveIn,
+      reserveOut: pool.reserveOut
+    });
+
+    this.emit('poolCreated', pool);
+
+    return pool;
+  }
+
+  /**
+   * Find launched pools trading a token pair (in either direction)
+   * @param tokenA - First token
+   * @param tokenB - Second token
+   * @returns PoolInfo[] - Matching pools
+   */
+  public findPools(tokenA: string, tokenB: string): PoolInfo[] {
+    return this.listPools().filter(pool =>
+      (pool.tokenIn === tokenA && pool.tokenOut === tokenB) ||
+      (pool.tokenIn === tokenB && pool.tokenOut === tokenA)
+    );
+  }
+
+  /**
+   * List all launched pools
+   */
+  public listPools(): PoolInfo[] {
+    return Array.from(this.pools.values());
+  }
+
+  /**
+   * Subscribe to pool creation events
+   * @param listener - Listener invoked for every new pool
+   * @returns Function - Unsubscribe callback
+   */
+  public onPoolCreated(listener: PoolCreatedListener): () => void {
+    this.on('poolCreated', listener);
+    return () => this.off('poolCreated', listener);
+  }
+}
@@ -0,0 +1,270 @@
+// src/services/poolStateSync.ts
+import IORedis from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
+import { DexName, PoolCurveState, PoolInfo, PoolStateStore, SimulatedPool } from '../types/dex';
+import { PoolLaunchFeed, PoolLaunchParams } from './poolLaunchFeed';
+import { DexRegistry, dexRegistry } from './dexRegistry';
+import { databaseConfig } from '../config/database';
+import { logger } from '../utils/logger';
+
+/**
+ * Release a pool lock only if this process still holds it
+ * KEYS[1] = lock key, ARGV[1] = lock token
+ */
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+const LAUNCHED_POOLS_KEY = 'pools:launched';
+const POOL_STATE_KEY = 'pools:state';
+const LOCK_RETRY_MS = 25;
+
+/**
+ * Latest state of a pool; version increases with every swap
+ */
+export interface PoolStateSnapshot {
+  dex: DexName;
+  poolId: string;
+  version: number;
+  state: PoolCurveState;
+}
+
+/**
+ * Pool change published to every process
+ */
+type PoolSyncMessage =
+  | { type: 'launched'; source: string; launch: PoolLaunchParams }
+  | { type: 'swapped'; source: string; snapshot: PoolStateSnapshot };
+
+/**
+ * Pool State Sync
+ * Shares simulated pools between API and worker processes through Redis:
+ * launches reach every process's launch feed, and swaps run under a per-pool
+ * lock against the latest shared state, which is then published to the others
+ */
+export class PoolStateSync implements PoolStateStore {
+  private poolLaunchFeed: PoolLaunchFeed;
+  private registry: DexRegistry;
+  private redis: IORedis;
+  private getSubscriber: () => IORedis;
+  private subscriber?: IORedis;
+  private channel: string;
+  private lockTimeoutMs: number;
+  private instanceId: string = uuidv4();
+  private versions: Map<string, number> = new Map();
+
+  constructor(
+    poolLaunchFeed: PoolLaunchFeed,
+    registry: DexRegistry = dexRegistry,
+    redis: IORedis = databaseConfig.getRedisClient(),
+    getSubscriber: () => IORedis = () => databaseConfig.getRedisSubscriber(),
+    channel: string = process.env.POOL_EVENTS_CHANNEL || 'pool-events',
+    lockTimeoutMs: number = parseInt(process.env.POOL_LOCK_TIMEOUT_MS || '5000')
+  ) {
+    this.poolLaunchFeed = poolLaunchFeed;
+    this.registry = registry;
+    this.redis = redis;
+    this.getSubscriber = getSubscriber;
+    this.channel = channel;
+    this.lockTimeoutMs = lockTimeoutMs;
+  }
+
+  /**
+   * Start sharing pools: venues commit swaps through this store, changes from
+   * other processes are applied as they arrive, and pools launched or moved
+   * before this process started are loaded
+   */
+  public async start(): Promise<void> {
+    if (this.subscriber) {
+      return;
+    }
+
+    for (const adapter of this.registry.list()) {
+      adapter.setPoolStateStore?.(this);
+    }
+
+    this.subscriber = this.getSubscriber();
+    this.subscriber.on('message', (channel: string, message: string) => this.dispatch(channel, message));
+    await this.subscriber.subscribe(this.channel);
+
+    // Loaded after subscribing so no change published in between is missed
+    const launches = Object.values(await this.redis.hgetall(LAUNCHED_POOLS_KEY));
+    for (const launch of launches) {
+      this.applyLaunch(JSON.parse(launch));
+    }
+
+    const snapshots = Object.values(await this.redis.hgetall(POOL_STATE_KEY));
+    for (const snapshot of snapshots) {
+      this.applySnapshot(JSON.parse(snapshot));
+    }
+
+    logger.getLogger().info('Pool state sync started', {
+      channel: this.channel,
+      launchedPools: launches.length,
+      movedPools: snapshots.length
+    });
+  }
+
+  /**
+   * Launch a pool in every process
+   * @param params - Pool launch parameters
+   * @returns Promise<PoolInfo | null> - Launched pool, or null when another process already launched the pool ID
+   */
+  public async launchPool(params: PoolLaunchParams): Promise<PoolInfo | null> {
+    const launch: PoolLaunchParams = { ...params, poolId: params.poolId || uuidv4() };
+
+    if (!await this.redis.hsetnx(LAUNCHED_POOLS_KEY, launch.poolId!, JSON.stringify(launch))) {
+      return null;
+    }
+
+    const pool = this.poolLaunchFeed.launchPool(launch);
+    await this.publish({ type: 'launched', source: this.instanceId, launch });
+
+    return pool;
+  }
+
+  /**
+   * Run a swap against the latest shared state of a pool and share the result
+   * Swaps on the same pool are serialized across processes by a Redis lock
+   * @param pool - Pool being swapped against
+   * @param swap - Applies the swap to the pool
+   * @returns Promise<T> - Result of the swap
+   */
+  public async commitSwap<T>(pool: SimulatedPool, swap: () => T): Promise<T> {
+    const lockKey = `pool-lock:${pool.dex}:${pool.poolId}`;
+    const token = uuidv4();
+
+    await this.acquireLock(lockKey, token, pool.poolId);
+
+    try {
+      const stored = await this.redis.hget(POOL_STATE_KEY, this.stateKey(pool.dex, pool.poolId));
+      if (stored) {
+        this.applySnapshot(JSON.parse(stored));
+      }
+
+      const result = swap();
+      const snapshot: PoolStateSnapshot = {
+        dex: pool.dex,
+        poolId: pool.poolId,
+        version: (this.versions.get(this.stateKey(pool.dex, pool.poolId)) ?? 0) + 1,
+        state: pool.getState()
+      };
+
+      await this.redis.hset(POOL_STATE_KEY, this.stateKey(pool.dex, pool.poolId), JSON.stringify(snapshot));
+      this.versions.set(this.stateKey(pool.dex, pool.poolId), snapshot.version);
+      await this.publish({ type: 'swapped', source: this.instanceId, snapshot });
+
+      return result;
+    } finally {
+      await this.redis.eval(RELEASE_LOCK_SCRIPT, 1, lockKey, token);
+    }
+  }
+
+  /**
+   * Stop receiving changes from other processes
+   */
+  public async close(): Promise<void> {
+    if (this.subscriber) {
+      await this.subscriber.unsubscribe(this.channel);
+      this.subscriber = undefined;
+    }
+  }
+
+  /**
+   * Wait for a pool lock
+   * @param lockKey - Lock key
+   * @param token - Value identifying this holder
+   * @param poolId - Pool being locked, for the error message
+   */
+  private async acquireLock(lockKey: string, token: string, poolId: string): Promise<void> {
+    const deadline = Date.now() + this.lockTimeoutMs;
+
+    // The lock expires on its own if its holder dies mid-swap
+    while (await this.redis.set(lockKey, token, 'PX', this.lockTimeoutMs, 'NX') !== 'OK') {
+      if (Date.now() >= deadline) {
+        throw new Error(`Pool ${poolId} is locked by another swap`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  /**
+   * Publish a pool change
+   * @param message - Change to publish
+   */
+  private async publish(message: PoolSyncMessage): Promise<void> {
+    await this.redis.publish(this.channel, JSON.stringify(message));
+  }
+
+  /**
+   * Apply a change published by another process
+   * @param channel - Channel the message arrived on
+   * @param message - Raw message payload
+   */
+  private dispatch(channel: string, message: string): void {
+    if (channel !== this.channel) {
+      return;
+    }
+
+    try {
+      const change: PoolSyncMessage = JSON.parse(message);
+
+      if (change.source === this.instanceId) {
+        return;
+      }
+
+      if (change.type === 'launched') {
+        this.applyLaunch(change.launch);
+      } else {
+        this.applySnapshot(change.snapshot);
+      }
+    } catch (error) {
+      logger.logError(null, error, { context: 'Pool state sync', channel });
+    }
+  }
+
+  /**
+   * Launch a pool locally unless this process already has it
+   * @param launch - Launch parameters with the pool ID set
+   */
+  private applyLaunch(launch: PoolLaunchParams): void {
+    if (this.poolLaunchFeed.listPools().some(pool => pool.poolId === launch.poolId)) {
+      return;
+    }
+
+    this.poolLaunchFeed.launchPool(launch);
+  }
+
+  /**
+   * Move a local pool to a shared state newer than the one it has
+   * @param snapshot - Shared pool state
+   */
+  private applySnapshot(snapshot: PoolStateSnapshot): void {
+    const key = this.stateKey(snapshot.dex, snapshot.poolId);
+
+    if (snapshot.version <= (this.versions.get(key) ?? 0)) {
+      return;
+    }
+
+    const pool = this.registry.has(snapshot.dex) ? this.registry.get(snapshot.dex).getPool?.(snapshot.poolId) : undefined;
+
+    if (!pool) {
+      logger.getLogger().warn('Pool state received for unknown pool', { dex: snapshot.dex, poolId: snapshot.poolId });
+      return;
+    }
+
+    pool.setState(snapshot.state);
+    this.versions.set(key, snapshot.version);
+  }
+
+  /**
+   * Hash field holding a pool's state
+   */
+  private stateKey(dex: DexName, poolId: string): string {
+    return `${dex}:${poolId}`;
+  }
+}
@@ -0,0 +1,137 @@
+import { PoolCurveState, PoolInfo } from '../../types/dex';
+import { BaseSimulatedPool } from './simulatedPool';
+
+/**
+ * Bin layout for a concentrated-liquidity pool
+ */
+export interface BinPoolConfig {
+  binStep: number; // Relative price step between adjacent bins
+  binsPerSide: number; // Bins seeded below and above the active bin
+}
+
+interface Bin {
+  price: number; // Price of X in units of Y within the bin
+  reserveX: number;
+  reserveY: number;
+}
+
+const DEFAULT_BIN_CONFIG: BinPoolConfig = {
+  binStep: 0.0025,
+  binsPerSide: 100
+};
+
+/**
+ * Bin-based concentrated-liquidity pool
+ * Models Meteora DLMM pools: each bin trades at a fixed price and the active
+ * bin moves once a swap drains it
+ */
+export class BinPool extends BaseSimulatedPool {
+  private bins: Bin[] = [];
+  private activeBin: number;
+
+  constructor(info: PoolInfo, config: Partial<BinPoolConfig> = {}) {
+    super(info);
+
+    const { binStep, binsPerSide } = { ...DEFAULT_BIN_CONFIG, ...config };
+    const activePrice = info.reserveOut / info.reserveIn;
+
+    // Y sits in the active bin and below it, X in the active bin and above it
+    for (let offset = -binsPerSide; offset <= binsPerSide; offset++) {
+      this.bins.push({
+        price: activePrice * Math.pow(1 + binStep, offset),
+        reserveX: offset >= 0 ? info.reserveIn / (binsPerSide + 1) : 0,
+        reserveY: offset <= 0 ? info.reserveOut / (binsPerSide + 1) : 0
+      });
+    }
+
+    this.activeBin = binsPerSide;
+  }
+
+  /**
+   * Export the bins and the active bin
+   */
+  public getState(): PoolCurveState {
+    return { bins: this.bins.map(bin => ({ ...bin })), activeBin: this.activeBin };
+  }
+
+  /**
+   * Restore bins exported by another process
+   * @param state - State returned by getState
+   */
+  public setState(state: PoolCurveState): void {
+    this.bins = (state.bins as Bin[]).map(bin => ({ ...bin }));
+    this.activeBin = state.activeBin as number;
+    this.lastUpdate = new Date();
+  }
+
+  /**
+   * Price of the active bin
+   */
+  protected getSpotPriceXToY(): number {
+    return this.bins[this.activeBin].price;
+  }
+
+  /**
+   * Token reserves summed across all bins
+   */
+  protected getReserves(): { reserveX: number; reserveY: number } {
+    return this.bins.reduce(
+      (totals, bin) => ({
+        reserveX: totals.reserveX + bin.reserveX,
+        reserveY: totals.reserveY + bin.reserveY
+      }),
+      { reserveX: 0, reserveY: 0 }
+    );
+  }
+
+  /**
+   * Walk bins from the active one until the input is fully consumed
+   * Selling X moves the active bin down, selling Y moves it up
+   * @param xToY - Whether X is being sold for Y
+   * @param amountInAfterFee - Input amount after the LP fee is taken
+   * @param commit - Whether to apply the swap to the bins
+   * @returns number - Output amount
+   */
+  protected applyCurve(xToY: boolean, amountInAfterFee: number, commit: boolean): number {
+    const bins = commit ? this.bins : this.bins.map(bin => ({ ...bin }));
+    const step = xToY ? -1 : 1;
+    let index = this.activeBin;
+    let remaining = amountInAfterFee;
+    let amountOut = 0;
+
+    while (remaining > 0) {
+      const bin = bins[index];
+
+      if (!bin) {
+        throw new Error(`Insufficient liquidity in pool ${this.poolId}`);
+      }
+
+      const available = xToY ? bin.reserveY : bin.reserveX;
+      const capacity = xToY ? available / bin.price : available * bin.price;
+      const filled = Math.min(remaining, capacity);
+      // Draining the bin hands over exactly what it holds (avoids float dust)
+      const received = filled === capacity ? available : (xToY ? filled * bin.price : filled / bin.price);
+
+      if (xToY) {
+        bin.reserveX += filled;
+        bin.reserveY -= received;
+      } else {
+        bin.reserveY += filled;
+        bin.reserveX -= received;
+      }
+
+      amountOut += received;
+      remaining -= filled;
+
+      if (remaining > 0) {
+        index += step;
+      }
+    }
+
+    if (commit) {
+      this.activeBin = index;
+    }
+
+    return amountOut;
+  }
+}
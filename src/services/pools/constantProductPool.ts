@@ -0,0 +1,73 @@
+import { PoolCurveState, PoolInfo } from '../../types/dex';
+import { BaseSimulatedPool } from './simulatedPool';
+
+/**
+ * Constant-product (x * y = k) pool
+ * Models Raydium-style AMM pools with liquidity spread across the full price range
+ */
+export class ConstantProductPool extends BaseSimulatedPool {
+  private reserveX: number;
+  private reserveY: number;
+
+  constructor(info: PoolInfo) {
+    super(info);
+    this.reserveX = info.reserveIn;
+    this.reserveY = info.reserveOut;
+  }
+
+  /**
+   * Export the reserves
+   */
+  public getState(): PoolCurveState {
+    return { reserveX: this.reserveX, reserveY: this.reserveY };
+  }
+
+  /**
+   * Restore reserves exported by another process
+   * @param state - State returned by getState
+   */
+  public setState(state: PoolCurveState): void {
+    this.reserveX = state.reserveX as number;
+    this.reserveY = state.reserveY as number;
+    this.lastUpdate = new Date();
+  }
+
+  /**
+   * Marginal price of X in units of Y
+   */
+  protected getSpotPriceXToY(): number {
+    return this.reserveY / this.reserveX;
+  }
+
+  /**
+   * Current token reserves held by the pool
+   */
+  protected getReserves(): { reserveX: number; reserveY: number } {
+    return { reserveX: this.reserveX, reserveY: this.reserveY };
+  }
+
+  /**
+   * Apply the x * y = k invariant
+   * @param xToY - Whether X is being sold for Y
+   * @param amountInAfterFee - Input amount after the LP fee is taken
+   * @param commit - Whether to apply the swap to the reserves
+   * @returns number - Output amount
+   */
+  protected applyCurve(xToY: boolean, amountInAfterFee: number, commit: boolean): number {
+    const reserveIn = xToY ? this.reserveX : this.reserveY;
+    const reserveOut = xToY ? this.reserveY : this.reserveX;
+    const amountOut = (reserveOut * amountInAfterFee) / (reserveIn + amountInAfterFee);
+
+    if (commit) {
+      if (xToY) {
+        this.reserveX += amountInAfterFee;
+        this.reserveY -= amountOut;
+      } else {
+        this.reserveY += amountInAfterFee;
+        this.reserveX -= amountOut;
+      }
+    }
+
+    return amountOut;
+  }
+}
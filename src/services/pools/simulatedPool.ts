@@ -0,0 +1,163 @@
+import { DexName, PoolCurveState, PoolInfo, PoolSwapResult, SimulatedPool } from '../../types/dex';
+
+/**
+ * Base class for stateful simulated pools
+ * Handles pair orientation, fee accounting and impact reporting;
+ * subclasses implement the pricing curve
+ */
+export abstract class BaseSimulatedPool implements SimulatedPool {
+  public readonly dex: DexName;
+  public readonly poolId: string;
+  protected readonly tokenX: string;
+  protected readonly tokenY: string;
+  protected readonly fee: number;
+  protected lastUpdate: Date;
+
+  constructor(info: PoolInfo) {
+    if (info.reserveIn <= 0 || info.reserveOut <= 0) {
+      throw new Error(`Pool ${info.poolId} must be seeded with positive reserves`);
+    }
+
+    this.dex = info.dex;
+    this.poolId = info.poolId;
+    this.tokenX = info.tokenIn;
+    this.tokenY = info.tokenOut;
+    this.fee = info.fee;
+    this.lastUpdate = info.lastUpdate;
+  }
+
+  /**
+   * Check if the pool trades a pair (in either direction)
+   * @param tokenA - First token
+   * @param tokenB - Second token
+   */
+  public hasPair(tokenA: string, tokenB: string): boolean {
+    return (tokenA === this.tokenX && tokenB === this.tokenY) ||
+      (tokenA === this.tokenY && tokenB === this.tokenX);
+  }
+
+  /**
+   * Quote a swap without moving the pool state
+   * @param tokenIn - Token being sold into the pool
+   * @param amountIn - Amount of tokenIn
+   * @returns PoolSwapResult - Expected output and price impact
+   */
+  public quote(tokenIn: string, amountIn: number): PoolSwapResult {
+    return this.simulateSwap(tokenIn, amountIn, false);
+  }
+
+  /**
+   * Execute a swap and move the pool state
+   * @param tokenIn - Token being sold into the pool
+   * @param amountIn - Amount of tokenIn
+   * @returns PoolSwapResult - Realized output and price impact
+   */
+  public swap(tokenIn: string, amountIn: number): PoolSwapResult {
+    const result = this.simulateSwap(tokenIn, amountIn, true);
+    this.lastUpdate = new Date();
+    return result;
+  }
+
+  /**
+   * Get the marginal price of tokenIn in units of the other token (before fees)
+   * @param tokenIn - Token being sold into the pool
+   * @returns number - Output tokens per input token
+   */
+  public getSpotPrice(tokenIn: string): number {
+    return this.isForward(tokenIn) ? this.getSpotPriceXToY() : 1 / this.getSpotPriceXToY();
+  }
+
+  /**
+   * Get the output-side depth available to a seller of tokenIn
+   * @param tokenIn - Token being sold into the pool
+   * @returns number - Reserve of the output token
+   */
+  public getLiquidity(tokenIn: string): number {
+    const { reserveX, reserveY } = this.getReserves();
+    return this.isForward(tokenIn) ? reserveY : reserveX;
+  }
+
+  /**
+   * Snapshot the pool as PoolInfo
+   * @returns PoolInfo - Current reserves in the pool's original orientation
+   */
+  public getPoolInfo(): PoolInfo {
+    const { reserveX, reserveY } = this.getReserves();
+
+    return {
+      dex: this.dex,
+      poolId: this.poolId,
+      tokenIn: this.tokenX,
+      tokenOut: this.tokenY,
+      reserveIn: reserveX,
+      reserveOut: reserveY,
+      fee: this.fee,
+      lastUpdate: this.lastUpdate
+    };
+  }
+
+  /**
+   * Export the curve state so another process can restore it
+   */
+  public abstract getState(): PoolCurveState;
+
+  /**
+   * Replace the curve state with one exported by another process
+   * @param state - State returned by getState
+   */
+  public abstract setState(state: PoolCurveState): void;
+
+  /**
+   * Marginal price of X in units of Y
+   */
+  protected abstract getSpotPriceXToY(): number;
+
+  /**
+   * Current token reserves held by the pool
+   */
+  protected abstract getReserves(): { reserveX: number; reserveY: number };
+
+  /**
+   * Run the pricing curve for an amount already net of fees
+   * @param xToY - Whether X is being sold for Y
+   * @param amountInAfterFee - Input amount after the LP fee is taken
+   * @param commit - Whether to apply the swap to the pool state
+   * @returns number - Output amount
+   */
+  protected abstract applyCurve(xToY: boolean, amountInAfterFee: number, commit: boolean): number;
+
+  /**
+   * Quote or execute a swap and describe its price impact
+   */
+  private simulateSwap(tokenIn: string, amountIn: number, commit: boolean): PoolSwapResult {
+    if (!(amountIn > 0)) {
+      throw new Error('Swap amount must be positive');
+    }
+
+    const xToY = this.isForward(tokenIn);
+    const spotPrice = this.getSpotPrice(tokenIn);
+    const amountOut = this.applyCurve(xToY, amountIn * (1 - this.fee), commit);
+    const executionPrice = amountOut / amountIn;
+
+    return {
+      amountIn,
+      amountOut,
+      spotPrice,
+      executionPrice,
+      // Impact excludes the LP fee so it measures curve movement only
+      priceImpact: Math.max(0, 1 - executionPrice / (spotPrice * (1 - this.fee))),
+      fee: this.fee
+    };
+  }
+
+  /**
+   * Resolve swap direction for an input token
+   * @param tokenIn - Token being sold into the pool
+   * @returns boolean - True when selling X for Y
+   */
+  private isForward(tokenIn: string): boolean {
+    if (tokenIn === this.tokenX) return true;
+    if (tokenIn === this.tokenY) return false;
+    throw new Error(`Token ${tokenIn} is not traded by pool ${this.poolId}`);
+  }
+}
@@ -0,0 +1,186 @@
+// src/services/positionService.ts
+import { AmountOutQuoter } from '../types/dex';
+import { Position, PositionSummary } from '../types/position';
+import { databaseConfig } from '../config/database';
+import { logger } from '../utils/logger';
+
+// Quantities below this are rounding leftovers of a fully closed position
+const DUST = 1e-9;
+
+/**
+ * Confirmed swap as read from the orders table
+ */
+interface Fill {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: number;
+  amountOut: number;
+  gasUsed: number;
+}
+
+/**
+ * Position Service
+ * Replays a user's confirmed orders in fill order to build positions with average-cost
+ * accounting in the quote token, then marks open quantities against current quotes.
+ * - Buying with the quote token adds to the position at the price paid
+ * - Selling for the quote token realizes the difference to the average entry
+ * - Swapping between two non-quote tokens carries the sold cost basis over to the bought token
+ * Tokens sold beyond what orders bought (e.g. deposited funds) have no cost basis and are not tracked.
+ * TWAP parents are skipped since their child orders carry the fills.
+ */
+export class PositionService {
+  private quote: AmountOutQuoter;
+  private pgPool: any;
+  private quoteToken: string;
+
+  constructor(
+    quote: AmountOutQuoter,
+    pgPool: any = databaseConfig.getPostgreSQLPool(),
+    quoteToken: string = process.env.NOTIONAL_TOKEN || 'USDC'
+  ) {
+    this.quote = quote;
+    this.pgPool = pgPool;
+    this.quoteToken = quoteToken;
+  }
+
+  /**
+   * Get a user's positions with realized and unrealized P&L
+   * @param userId - Owner of the orders
+   * @returns Promise<PositionSummary> - Positions and totals
+   */
+  public async getPositions(userId: string): Promise<PositionSummary> {
+    const result = await this.pgPool.query(
+      `SELECT token_in, token_out, amount_in, execution_data FROM orders
+       WHERE user_id = $1 AND status = 'confirmed' AND type <> 'twap' ORDER BY updated_at ASC, created_at ASC`,
+      [userId]
+    );
+
+    const fills: Fill[] = result.rows
+      .filter((row: any) => row.execution_data?.amountOut !== undefined)
+      .map((row: any) => ({
+        tokenIn: row.token_in,
+        tokenOut: row.token_out,
+        // Partially filled split routes sold only part of amountIn
+        amountIn: row.execution_data.filledAmountIn ?? parseFloat(row.amount_in),
+        amountOut: row.execution_data.amountOut,
+        gasUsed: row.execution_data.gasUsed ?? 0
+      }));
+
+    const positions = await Promise.all(this.buildPositions(fills).map(position => this.markPosition(position)));
+
+    return {
+      userId,
+      quoteToken: this.quoteToken,
+      positions,
+      totals: {
+        costBasis: this.sum(positions, position => position.costBasis),
+        marketValue: this.sum(positions, position => position.marketValue ?? 0),
+        realizedPnl: this.sum(positions, position => position.realizedPnl),
+        unrealizedPnl: this.sum(positions, position => position.unrealizedPnl ?? 0),
+        gasUsed: this.sum(positions, position => position.gasUsed)
+      }
+    };
+  }
+
+  /**
+   * Apply fills oldest first with average-cost accounting
+   * @param fills - Confirmed swaps in fill order
+   * @returns Position[] - Positions that are open or realized P&L, by token
+   */
+  private buildPositions(fills: Fill[]): Position[] {
+    const positions = new Map<string, Position>();
+
+    const positionFor = (token: string): Position => {
+      let position = positions.get(token);
+
+      if (!position) {
+        position = { token, quantity: 0, costBasis: 0, realizedPnl: 0, trades: 0, gasUsed: 0 };
+        positions.set(token, position);
+      }
+
+      return position;
+    };
+
+    for (const fill of fills) {
+      // Quote-token cost of the bought quantity, and the share of the fill that has a known cost
+      let cost = fill.amountIn;
+      let costedShare = 1;
+
+      if (fill.tokenIn !== this.quoteToken) {
+        const sold = positionFor(fill.tokenIn);
+        const closed = Math.min(fill.amountIn, sold.quantity);
+        const closedCost = sold.quantity > 0 ? sold.costBasis * (closed / sold.quantity) : 0;
+
+        sold.quantity -= closed;
+        sold.costBasis -= closedCost;
+        if (sold.quantity < DUST) {
+          sold.quantity = 0;
+          sold.costBasis = 0;
+        }
+
+        costedShare = closed / fill.amountIn;
+        cost = closedCost;
+
+        if (fill.tokenOut === this.quoteToken) {
+          sold.realizedPnl += fill.amountOut * costedShare - closedCost;
+        }
+
+        sold.trades++;
+      }
+
+      if (fill.tokenOut !== this.quoteToken) {
+        const bought = positionFor(fill.tokenOut);
+
+        bought.quantity += fill.amountOut * costedShare;
+        bought.costBasis += cost;
+        bought.trades++;
+        bought.gasUsed += fill.gasUsed;
+      } else {
+        positionFor(fill.tokenIn).gasUsed += fill.gasUsed;
+      }
+    }
+
+    return Array.from(positions.values())
+      .filter(position => position.quantity > 0 || position.realizedPnl !== 0)
+      .sort((a, b) => a.token.localeCompare(b.token));
+  }
+
+  /**
+   * Value an open position at what selling it now would return
+   * @param position - Position to mark
+   * @returns Promise<Position> - Position with entry, mark and unrealized P&L
+   */
+  private async markPosition(position: Position): Promise<Position> {
+    if (position.quantity <= 0) {
+      return position;
+    }
+
+    const marked: Position = { ...position, averageEntryPrice: position.costBasis / position.quantity };
+
+    try {
+      const marketValue = await this.quote(position.token, this.quoteToken, position.quantity);
+
+      marked.marketValue = marketValue;
+      marked.markPrice = marketValue / position.quantity;
+      marked.unrealizedPnl = marketValue - position.costBasis;
+    } catch (error) {
+      logger.getLogger().debug('Position could not be marked', {
+        token: position.token,
+        quoteToken: this.quoteToken,
+        error: error instanceof Error ? error.message : error
+      });
+    }
+
+    return marked;
+  }
+
+  /**
+   * Sum a numeric field over positions
+   * @param positions - Positions to sum
+   * @param field - Field selector
+   * @returns number - Total
+   */
+  private sum(positions: Position[], field: (position: Position) => number): number {
+    return positions.reduce((total, position) => total + field(position), 0);
+  }
+}
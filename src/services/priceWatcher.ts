@@ -0,0 +1,212 @@
+import { Order } from '../types/order';
+import { MockDexRouter } from './mockDexRouter';
+import { logger } from '../utils/logger';
+
+/**
+ * Callback invoked once a watched order's trigger condition is met
+ */
+export type PriceTriggerHandler = (order: Order, effectivePrice: number) => Promise<void>;
+
+/**
+ * Watched order state
+ */
+interface WatchedOrder {
+  order: Order;
+  onTrigger: PriceTriggerHandler;
+  timer?: NodeJS.Timeout;
+  checks: number;
+}
+
+/**
+ * Price Watcher
+ * Keeps resting orders armed by repeatedly pricing them along their execution route and fires
+ * the trigger handler once the effective price crosses the order's limit or trigger price
+ */
+export class PriceWatcher {
+  private watched: Map<string, WatchedOrder> = new Map();
+  private dexRouter: MockDexRouter;
+  private pollIntervalMs: number;
+
+  constructor(
+    dexRouter: MockDexRouter,
+    pollIntervalMs: number = parseInt(process.env.LIMIT_ORDER_POLL_INTERVAL_MS || '1000')
+  ) {
+    this.dexRouter = dexRouter;
+    this.pollIntervalMs = pollIntervalMs;
+  }
+
+  /**
+   * Start watching an order until its trigger condition is met
+   * @param order - Resting order to watch
+   * @param onTrigger - Handler invoked once when the order triggers
+   */
+  public watch(order: Order, onTrigger: PriceTriggerHandler): void {
+    if (this.watched.has(order.id)) {
+      return;
+    }
+
+    this.watched.set(order.id, { order, onTrigger, checks: 0 });
+    this.scheduleCheck(order.id, 0);
+
+    logger.getLogger().info('Order armed for price watching', {
+      orderId: order.id,
+      type: order.type,
+      limitPrice: order.limitPrice,
+      triggerPrice: order.triggerPrice
+    });
+  }
+
+  /**
+   * Stop watching an order
+   * @param orderId - Order identifier
+   * @returns boolean - Whether the order was being watched
+   */
+  public unwatch(orderId: string): boolean {
+    const entry = this.watched.get(orderId);
+
+    if (!entry) {
+      return false;
+    }
+
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+
+    this.watched.delete(orderId);
+    return true;
+  }
+
+  /**
+   * Check if an order is currently being watched
+   * @param orderId - Order identifier
+   */
+  public isWatching(orderId: string): boolean {
+    return this.watched.has(orderId);
+  }
+
+  /**
+   * Get number of orders currently being watched
+   */
+  public getWatchedCount(): number {
+    return this.watched.size;
+  }
+
+  /**
+   * Stop watching all orders
+   */
+  public stop(): void {
+    for (const orderId of Array.from(this.watched.keys())) {
+      this.unwatch(orderId);
+    }
+
+    logger.getLogger().info('Price watcher stopped');
+  }
+
+  /**
+   * Quote an order now along the route it would execute on (direct, split or multi-hop)
+   * @param order - Order to price
+   * @returns Promise<number> - Effective price (output per unit of input, after fees) for the order's full amount
+   */
+  public async getEffectivePrice(order: Order): Promise<number> {
+    // FOK orders execute on a single venue, so they are priced on one too
+    const decision = await this.dexRouter.routeOrder(order.tokenIn, order.tokenOut, order.amountIn, order.timeInForce !== 'FOK');
+
+    return decision.expectedAmountOut / order.amountIn;
+  }
+
+  /**
+   * Evaluate whether an order should trigger at the given price
+   * Limit and take-profit orders trigger at or above their price, stop-loss orders at or below it
+   * @param order - Watched order
+   * @param effectivePrice - Best effective price
+   */
+  public shouldTrigger(order: Order, effectivePrice: number): boolean {
+    if (order.type === 'limit' && order.limitPrice !== undefined) {
+      return effectivePrice >= order.limitPrice;
+    }
+
+    if (order.type === 'take_profit' && order.triggerPrice !== undefined) {
+      return effectivePrice >= order.triggerPrice;
+    }
+
+    if (order.type === 'stop_loss' && order.triggerPrice !== undefined) {
+      return effectivePrice <= order.triggerPrice;
+    }
+
+    return false;
+  }
+
+  /**
+   * Schedule the next price check for an order
+   * @param orderId - Order identifier
+   * @param delay - Delay in milliseconds
+   */
+  private scheduleCheck(orderId: string, delay: number): void {
+    const entry = this.watched.get(orderId);
+
+    if (!entry) {
+      return;
+    }
+
+    entry.timer = setTimeout(() => {
+      this.checkOrder(orderId).catch((error) => {
+        logger.logError(orderId, error, { context: 'Price watcher check' });
+      });
+    }, delay);
+  }
+
+  /**
+   * Poll quotes for a watched order and trigger it if its price condition is met
+   * @param orderId - Order identifier
+   */
+  private async checkOrder(orderId: string): Promise<void> {
+    const entry = this.watched.get(orderId);
+
+    if (!entry) {
+      return;
+    }
+
+    const { order } = entry;
+    entry.checks++;
+
+    let effectivePrice: number;
+
+    try {
+      effectivePrice = await this.getEffectivePrice(order);
+    } catch (error) {
+      logger.logError(orderId, error, { context: 'Price watcher quote' });
+      this.scheduleCheck(orderId, this.pollIntervalMs);
+      return;
+    }
+
+    // Order may have been unwatched while quotes were in flight
+    if (this.watched.get(orderId) !== entry) {
+      return;
+    }
+
+    logger.getLogger().debug('Price watcher check', {
+      orderId,
+      effectivePrice,
+      limitPrice: order.limitPrice,
+      triggerPrice: order.triggerPrice,
+      checks: entry.checks
+    });
+
+    if (!this.shouldTrigger(order, effectivePrice)) {
+      this.scheduleCheck(orderId, this.pollIntervalMs);
+      return;
+    }
+
+    this.watched.delete(orderId);
+
+    logger.getLogger().info('Order price condition met', {
+      orderId,
+      effectivePrice,
+      limitPrice: order.limitPrice,
+      triggerPrice: order.triggerPrice,
+      checks: entry.checks
+    });
+
+    await entry.onTrigger(order, effectivePrice);
+  }
+}
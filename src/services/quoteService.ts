@@ -0,0 +1,140 @@
+// src/services/quoteService.ts
+import IORedis from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
+import { RoutePlanner, RoutingDecision } from '../types/dex';
+import { QuoteRequest, RouteQuote } from '../types/quote';
+import { databaseConfig } from '../config/database';
+import { QuoteUnavailableError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// The reference price is quoted for this fraction of the order, close enough to spot to ignore impact
+export const REFERENCE_SIZE_FRACTION = 0.001;
+
+/**
+ * Quote Service
+ * Previews the route an order would take (venue fan-out, best-venue selection,
+ * splits and multi-hop paths) and keeps each quote in Redis as a firm, single-use
+ * price that an order can reference by quoteId until it expires
+ */
+export class QuoteService {
+  private planRoute: RoutePlanner;
+  private redis: IORedis;
+  private ttlSeconds: number;
+
+  constructor(
+    planRoute: RoutePlanner,
+    redis: IORedis = databaseConfig.getRedisClient(),
+    ttlSeconds: number = parseInt(process.env.QUOTE_TTL_SECONDS || '30')
+  ) {
+    this.planRoute = planRoute;
+    this.redis = redis;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  /**
+   * Quote a swap and store it as a firm quote
+   * @param request - Swap to quote
+   * @param userId - User allowed to execute the quote
+   * @returns Promise<RouteQuote> - Route, expected output, price impact and alternatives
+   * @throws QuoteUnavailableError - When no route exists for the pair
+   */
+  public async getQuote(request: QuoteRequest, userId?: string): Promise<RouteQuote> {
+    const { tokenIn, tokenOut, amountIn, slippage } = request;
+    const decision = await this.route(tokenIn, tokenOut, amountIn);
+    const price = decision.expectedAmountOut / amountIn;
+    const quotedAt = new Date();
+
+    const quote: RouteQuote = {
+      quoteId: uuidv4(),
+      userId,
+      tokenIn,
+      tokenOut,
+      amountIn,
+      dex: decision.dex,
+      reason: decision.reason,
+      expectedAmountOut: decision.expectedAmountOut,
+      price,
+      fee: decision.fee,
+      estimatedGas: decision.estimatedGas,
+      legs: decision.legs,
+      path: decision.path,
+      alternatives: decision.alternatives,
+      quotedAt,
+      expiresAt: new Date(quotedAt.getTime() + this.ttlSeconds * 1000)
+    };
+
+    try {
+      const referenceAmount = amountIn * REFERENCE_SIZE_FRACTION;
+      const reference = await this.planRoute(tokenIn, tokenOut, referenceAmount);
+
+      quote.referencePrice = reference.expectedAmountOut / referenceAmount;
+      quote.priceImpact = Math.max(0, 1 - price / quote.referencePrice);
+    } catch (error) {
+      // A sliver too small for any venue leaves the impact unknown rather than failing the quote
+    }
+
+    if (slippage !== undefined) {
+      quote.slippage = slippage;
+      quote.minAmountOut = decision.expectedAmountOut * (1 - slippage);
+    }
+
+    await this.redis.set(this.buildKey(quote.quoteId), JSON.stringify(quote), 'EX', this.ttlSeconds);
+
+    return quote;
+  }
+
+  /**
+   * Claim a firm quote for an order; each quote can be redeemed once
+   * @param quoteId - Quote identifier
+   * @param userId - User submitting the order
+   * @returns Promise<RouteQuote | null> - Quote, or null when expired, already used or owned by another user
+   */
+  public async redeem(quoteId: string, userId?: string): Promise<RouteQuote | null> {
+    const key = this.buildKey(quoteId);
+    const stored = await this.redis.get(key);
+
+    if (!stored) {
+      return null;
+    }
+
+    const quote: RouteQuote = JSON.parse(stored);
+    quote.quotedAt = new Date(quote.quotedAt);
+    quote.expiresAt = new Date(quote.expiresAt);
+
+    if (quote.userId !== userId || quote.expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+
+    // Only the caller that deletes the key gets the quote, so concurrent submissions cannot both use it
+    if (await this.redis.del(key) !== 1) {
+      return null;
+    }
+
+    logger.getLogger().info('Firm quote redeemed', { quoteId, userId, expectedAmountOut: quote.expectedAmountOut });
+    return quote;
+  }
+
+  /**
+   * Plan the route, reporting a missing route as a typed error
+   * @param tokenIn - Token being sold
+   * @param tokenOut - Token being bought
+   * @param amount - Amount being sold
+   * @returns Promise<RoutingDecision> - Best current route
+   */
+  private async route(tokenIn: string, tokenOut: string, amount: number): Promise<RoutingDecision> {
+    try {
+      return await this.planRoute(tokenIn, tokenOut, amount);
+    } catch (error) {
+      throw new QuoteUnavailableError(tokenIn, tokenOut, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Build the Redis key for a quote
+   * @param quoteId - Quote identifier
+   * @returns string - Redis key
+   */
+  private buildKey(quoteId: string): string {
+    return `quote:${quoteId}`;
+  }
+}
@@ -0,0 +1,91 @@
+// src/services/rateLimiter.ts
+import IORedis from 'ioredis';
+import { databaseConfig } from '../config/database';
+import { logger } from '../utils/logger';
+
+/**
+ * Refill and take tokens atomically so every API instance shares the same bucket
+ * KEYS[1] = bucket key, ARGV = capacity, refill per second, cost
+ * Returns { allowed (0|1), remaining tokens, retry after in ms }
+ */
+const TOKEN_BUCKET_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refillPerMs = tonumber(ARGV[2]) / 1000
+local cost = tonumber(ARGV[3])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(state[1]) or capacity
+local updatedAt = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) * refillPerMs)
+local allowed = 0
+local retryAfterMs = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+else
+  retryAfterMs = math.ceil((cost - tokens) / refillPerMs)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / refillPerMs))
+return { allowed, math.floor(tokens), retryAfterMs }
+`;
+
+/**
+ * Result of taking tokens from a bucket
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+/**
+ * Rate Limiter
+ * Redis-backed token bucket; each bucket holds up to `capacity` requests and refills continuously
+ */
+export class RateLimiter {
+  private redis: IORedis;
+  private capacity: number;
+  private refillPerSecond: number;
+
+  constructor(
+    redis: IORedis = databaseConfig.getRedisClient(),
+    capacity: number = parseInt(process.env.RATE_LIMIT_BURST || '20'),
+    refillPerSecond: number = parseFloat(process.env.RATE_LIMIT_PER_SECOND || '5')
+  ) {
+    this.redis = redis;
+    this.capacity = capacity;
+    this.refillPerSecond = refillPerSecond;
+  }
+
+  /**
+   * Take tokens from a bucket
+   * Fails open when Redis is unavailable so an outage does not block every order
+   * @param bucket - Bucket identifier (e.g. API key ID)
+   * @param cost - Tokens to take
+   * @returns Promise<RateLimitResult> - Whether the request may proceed
+   */
+  public async consume(bucket: string, cost: number = 1): Promise<RateLimitResult> {
+    try {
+      const [allowed, remaining, retryAfterMs] = await this.redis.eval(
+        TOKEN_BUCKET_SCRIPT,
+        1,
+        `ratelimit:${bucket}`,
+        this.capacity,
+        this.refillPerSecond,
+        cost
+      ) as [number, number, number];
+
+      if (!allowed) {
+        logger.getLogger().warn('Rate limit exceeded', { bucket, retryAfterMs });
+      }
+
+      return { allowed: allowed === 1, remaining, retryAfterMs };
+    } catch (error) {
+      logger.logError(null, error, { context: 'Rate limit check', bucket });
+
+      return { allowed: true, remaining: this.capacity, retryAfterMs: 0 };
+    }
+  }
+}
@@ -0,0 +1,300 @@
+// src/services/riskEngine.ts
+import { Order, OrderStatus } from '../types/order';
+import { AmountOutQuoter } from '../types/dex';
+import { RiskLimits, getRiskLimits } from '../config/risk';
+import { REFERENCE_SIZE_FRACTION } from './quoteService';
+import { databaseConfig } from '../config/database';
+import { logger } from '../utils/logger';
+
+// Orders in these statuses never traded and do not count towards daily notional
+const UNFILLED_STATUSES: OrderStatus[] = ['failed', 'cancelled', 'expired'];
+
+/**
+ * Machine-readable risk rejection codes
+ */
+export type RiskRejectionCode =
+  | 'TOKEN_NOT_ALLOWED'
+  | 'MAX_ORDER_SIZE_EXCEEDED'
+  | 'PRICE_IMPACT_EXCEEDED'
+  | 'PRICE_DEVIATION_EXCEEDED'
+  | 'DAILY_NOTIONAL_EXCEEDED';
+
+/**
+ * Client-supplied prices checked against the reference price, with how they are reported
+ */
+const PRICE_LABELS = {
+  limitPrice: 'Limit price',
+  triggerPrice: 'Trigger price',
+  takeProfitPrice: 'Take-profit price',
+  stopLossPrice: 'Stop-loss price'
+};
+
+type ClientPriceField = keyof typeof PRICE_LABELS;
+
+/**
+ * A single failed risk check
+ */
+export interface RiskRejection {
+  code: RiskRejectionCode;
+  message: string;
+  details: Record<string, unknown>;
+}
+
+/**
+ * Outcome of running every risk check against an order
+ */
+export interface RiskAssessment {
+  approved: boolean;
+  rejections: RiskRejection[];
+}
+
+/**
+ * Risk Engine
+ * Pre-trade checks run before an order is persisted or enqueued; every failed
+ * check is reported so clients can fix all problems at once
+ */
+export class RiskEngine {
+  private quote: AmountOutQuoter;
+  private pgPool: any;
+  private limits: RiskLimits;
+
+  constructor(
+    quote: AmountOutQuoter,
+    pgPool: any = databaseConfig.getPostgreSQLPool(),
+    limits: RiskLimits = getRiskLimits()
+  ) {
+    this.quote = quote;
+    this.pgPool = pgPool;
+    this.limits = limits;
+  }
+
+  /**
+   * Run every risk check against an order
+   * @param order - Order about to be submitted (notional set when it could be valued)
+   * @returns Promise<RiskAssessment> - Approval and the reasons for any rejection
+   */
+  public async evaluate(order: Order): Promise<RiskAssessment> {
+    const rejections: RiskRejection[] = [
+      ...this.checkTokens(order),
+      ...this.checkOrderSize(order),
+      ...await this.checkPrice(order),
+      ...await this.checkDailyNotional(order)
+    ];
+
+    if (rejections.length > 0) {
+      logger.getLogger().warn('Order rejected by risk checks', {
+        orderId: order.id,
+        userId: order.userId,
+        codes: rejections.map(rejection => rejection.code)
+      });
+    }
+
+    return { approved: rejections.length === 0, rejections };
+  }
+
+  /**
+   * Check a bracket's exit prices before the entry is submitted
+   * The exits only exist once the entry fills, but their prices come from the client like any limit price
+   * @param entry - Bracket entry order
+   * @param takeProfitPrice - Exit price of the take-profit, entry tokenIn per entry tokenOut
+   * @param stopLossPrice - Exit price of the stop-loss, entry tokenIn per entry tokenOut
+   * @returns Promise<RiskAssessment> - Approval and the reasons for any rejection
+   */
+  public async evaluateBracketExits(entry: Order, takeProfitPrice: number, stopLossPrice: number): Promise<RiskAssessment> {
+    if (this.limits.maxPriceDeviation <= 0) {
+      return { approved: true, rejections: [] };
+    }
+
+    let referencePrice: number;
+
+    try {
+      // Exits sell what the entry buys, so they are priced on the reversed pair at about the entry's output
+      const exitAmount = await this.quote(entry.tokenIn, entry.tokenOut, entry.amountIn);
+      const referenceAmount = exitAmount * REFERENCE_SIZE_FRACTION;
+      referencePrice = await this.quote(entry.tokenOut, entry.tokenIn, referenceAmount) / referenceAmount;
+    } catch (error) {
+      logger.getLogger().debug('Skipping bracket exit price checks', {
+        orderId: entry.id,
+        error: error instanceof Error ? error.message : error
+      });
+      return { approved: true, rejections: [] };
+    }
+
+    const rejections = [
+      ...this.checkDeviation('takeProfitPrice', takeProfitPrice, referencePrice),
+      ...this.checkDeviation('stopLossPrice', stopLossPrice, referencePrice)
+    ];
+
+    if (rejections.length > 0) {
+      logger.getLogger().warn('Bracket exits rejected by risk checks', {
+        orderId: entry.id,
+        userId: entry.userId,
+        codes: rejections.map(rejection => rejection.code)
+      });
+    }
+
+    return { approved: rejections.length === 0, rejections };
+  }
+
+  /**
+   * Both tokens must be on the allow list (when one is configured)
+   * @param order - Order to check
+   * @returns RiskRejection[] - Failed checks
+   */
+  private checkTokens(order: Order): RiskRejection[] {
+    const { allowedTokens } = this.limits;
+
+    if (allowedTokens.length === 0) {
+      return [];
+    }
+
+    return [order.tokenIn, order.tokenOut]
+      .filter(token => !allowedTokens.includes(token))
+      .map(token => ({
+        code: 'TOKEN_NOT_ALLOWED' as const,
+        message: `Token ${token} is not allowed`,
+        details: { token, allowedTokens }
+      }));
+  }
+
+  /**
+   * amountIn must not exceed the configured maximum for tokenIn
+   * @param order - Order to check
+   * @returns RiskRejection[] - Failed checks
+   */
+  private checkOrderSize(order: Order): RiskRejection[] {
+    const maxSize = this.limits.maxOrderSize[order.tokenIn];
+
+    if (!maxSize || order.amountIn <= maxSize) {
+      return [];
+    }
+
+    return [{
+      code: 'MAX_ORDER_SIZE_EXCEEDED',
+      message: `Order size ${order.amountIn} ${order.tokenIn} exceeds the maximum of ${maxSize}`,
+      details: { token: order.tokenIn, amountIn: order.amountIn, maxSize }
+    }];
+  }
+
+  /**
+   * Compare the order's expected price and its limit or trigger price against the reference price
+   * Sniper orders are skipped since their pool usually does not exist yet
+   * @param order - Order to check
+   * @returns Promise<RiskRejection[]> - Failed checks
+   */
+  private async checkPrice(order: Order): Promise<RiskRejection[]> {
+    const { maxPriceImpact, maxPriceDeviation } = this.limits;
+    const clientPrice = this.getClientPrice(order);
+    const checkDeviation = maxPriceDeviation > 0 && clientPrice !== undefined;
+
+    if (order.type === 'sniper' || (maxPriceImpact <= 0 && !checkDeviation)) {
+      return [];
+    }
+
+    let referencePrice: number;
+    let expectedPrice: number;
+
+    try {
+      const referenceAmount = order.amountIn * REFERENCE_SIZE_FRACTION;
+      referencePrice = await this.quote(order.tokenIn, order.tokenOut, referenceAmount) / referenceAmount;
+      expectedPrice = await this.quote(order.tokenIn, order.tokenOut, order.amountIn) / order.amountIn;
+    } catch (error) {
+      // Unroutable orders fail during routing; there is no price to check them against here
+      logger.getLogger().debug('Skipping price risk checks', {
+        orderId: order.id,
+        error: error instanceof Error ? error.message : error
+      });
+      return [];
+    }
+
+    const rejections: RiskRejection[] = [];
+    const priceImpact = 1 - expectedPrice / referencePrice;
+
+    if (maxPriceImpact > 0 && priceImpact > maxPriceImpact) {
+      rejections.push({
+        code: 'PRICE_IMPACT_EXCEEDED',
+        message: `Price impact of ${(priceImpact * 100).toFixed(2)}% exceeds the maximum of ${(maxPriceImpact * 100).toFixed(2)}%`,
+        details: { priceImpact, maxPriceImpact, expectedPrice, referencePrice }
+      });
+    }
+
+    if (checkDeviation) {
+      rejections.push(...this.checkDeviation(clientPrice!.field, clientPrice!.price, referencePrice));
+    }
+
+    return rejections;
+  }
+
+  /**
+   * Price the client set on an order: the limit price of limit orders, the trigger price of stop-loss and take-profit orders
+   * @param order - Order to check
+   * @returns Field and price, if the order has one
+   */
+  private getClientPrice(order: Order): { field: ClientPriceField; price: number } | undefined {
+    if (order.type === 'limit' && order.limitPrice !== undefined) {
+      return { field: 'limitPrice', price: order.limitPrice };
+    }
+
+    if ((order.type === 'stop_loss' || order.type === 'take_profit') && order.triggerPrice !== undefined) {
+      return { field: 'triggerPrice', price: order.triggerPrice };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * A client-supplied price must be within maxPriceDeviation of the reference price
+   * @param field - Request field the price came from
+   * @param price - Price to check
+   * @param referencePrice - Small-size price on the same pair
+   * @returns RiskRejection[] - Failed checks
+   */
+  private checkDeviation(field: ClientPriceField, price: number, referencePrice: number): RiskRejection[] {
+    const { maxPriceDeviation } = this.limits;
+    const deviation = Math.abs(price / referencePrice - 1);
+
+    if (deviation <= maxPriceDeviation) {
+      return [];
+    }
+
+    return [{
+      code: 'PRICE_DEVIATION_EXCEEDED',
+      message: `${PRICE_LABELS[field]} ${price} is ${(deviation * 100).toFixed(2)}% away from the reference price ${referencePrice.toFixed(6)}`,
+      details: { [field]: price, referencePrice, deviation, maxPriceDeviation }
+    }];
+  }
+
+  /**
+   * The user's notional submitted since the start of the UTC day plus this order must stay within the limit
+   * Orders that could not be valued are not counted
+   * @param order - Order to check
+   * @returns Promise<RiskRejection[]> - Failed checks
+   */
+  private async checkDailyNotional(order: Order): Promise<RiskRejection[]> {
+    const { maxDailyNotional } = this.limits;
+
+    if (maxDailyNotional <= 0 || order.notional === undefined || !order.userId) {
+      return [];
+    }
+
+    const now = new Date();
+    const startOfDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+    const result = await this.pgPool.query(
+      `SELECT COALESCE(SUM(notional), 0) AS daily_notional
+       FROM orders WHERE user_id = $1 AND created_at >= $2 AND status <> ALL($3)`,
+      [order.userId, startOfDay, UNFILLED_STATUSES]
+    );
+    const dailyNotional = parseFloat(result.rows[0].daily_notional);
+
+    if (dailyNotional + order.notional <= maxDailyNotional) {
+      return [];
+    }
+
+    return [{
+      code: 'DAILY_NOTIONAL_EXCEEDED',
+      message: `Order would bring today's notional to ${(dailyNotional + order.notional).toFixed(2)}, above the daily maximum of ${maxDailyNotional}`,
+      details: { dailyNotional, orderNotional: order.notional, maxDailyNotional }
+    }];
+  }
+}
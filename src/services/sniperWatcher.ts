@@ -0,0 +1,258 @@
+import { PoolInfo } from '../types/dex';
+import { Order } from '../types/order';
+import { PoolLaunchFeed } from './poolLaunchFeed';
+import { DexRegistry, dexRegistry } from './dexRegistry';
+import { logger } from '../utils/logger';
+
+/**
+ * Callback invoked when a matching pool launches within the entry price cap
+ */
+export type SniperTriggerHandler = (order: Order, pool: PoolInfo, entryPrice: number) => Promise<void>;
+
+/**
+ * Callback invoked when a sniper order expires without triggering
+ */
+export type SniperExpiryHandler = (order: Order) => Promise<void>;
+
+/**
+ * Armed sniper order state
+ */
+interface ArmedSniper {
+  order: Order;
+  onTrigger: SniperTriggerHandler;
+  onExpire: SniperExpiryHandler;
+  expiryTimer?: NodeJS.Timeout;
+}
+
+// Longest delay setTimeout supports without overflowing
+const MAX_TIMER_DELAY = 2147483647;
+
+/**
+ * Sniper Watcher
+ * Keeps sniper orders armed until a pool for their token pair launches,
+ * then fires them if the entry price is within the configured cap
+ */
+export class SniperWatcher {
+  private armed: Map<string, ArmedSniper> = new Map();
+  private poolLaunchFeed: PoolLaunchFeed;
+  private registry: DexRegistry;
+  private unsubscribe: () => void;
+
+  /**
+   * @param poolLaunchFeed - Feed of launched pools
+   * @param registry - Venues that price launched pools (launches must be added to their venue before this watcher sees them)
+   */
+  constructor(poolLaunchFeed: PoolLaunchFeed, registry: DexRegistry = dexRegistry) {
+    this.poolLaunchFeed = poolLaunchFeed;
+    this.registry = registry;
+    this.unsubscribe = this.poolLaunchFeed.onPoolCreated((pool) => {
+      this.handlePoolCreated(pool).catch((error) => {
+        logger.logError(null, error, { context: 'Sniper pool event', poolId: pool.poolId });
+      });
+    });
+  }
+
+  /**
+   * Arm a sniper order
+   * Fires immediately if a matching pool is already live
+   * @param order - Sniper order
+   * @param onTrigger - Handler invoked once when the order fires
+   * @param onExpire - Handler invoked if the order expires first
+   */
+  public async arm(order: Order, onTrigger: SniperTriggerHandler, onExpire: SniperExpiryHandler): Promise<void> {
+    if (this.armed.has(order.id)) {
+      return;
+    }
+
+    const entry: ArmedSniper = { order, onTrigger, onExpire };
+    this.armed.set(order.id, entry);
+    this.scheduleExpiry(entry);
+
+    logger.getLogger().info('Sniper order armed', {
+      orderId: order.id,
+      tokenIn: order.tokenIn,
+      tokenOut: order.tokenOut,
+      maxEntryPrice: order.maxEntryPrice,
+      expiresAt: order.expiresAt
+    });
+
+    for (const pool of this.poolLaunchFeed.findPools(order.tokenIn, order.tokenOut)) {
+      if (await this.tryTrigger(entry, pool)) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Disarm a sniper order
+   * @param orderId - Order identifier
+   * @returns boolean - Whether the order was armed
+   */
+  public disarm(orderId: string): boolean {
+    const entry = this.armed.get(orderId);
+
+    if (!entry) {
+      return false;
+    }
+
+    if (entry.expiryTimer) {
+      clearTimeout(entry.expiryTimer);
+    }
+
+    this.armed.delete(orderId);
+    return true;
+  }
+
+  /**
+   * Check if an order is currently armed
+   * @param orderId - Order identifier
+   */
+  public isArmed(orderId: string): boolean {
+    return this.armed.has(orderId);
+  }
+
+  /**
+   * Get number of armed sniper orders
+   */
+  public getArmedCount(): number {
+    return this.armed.size;
+  }
+
+  /**
+   * Calculate the entry price (output received per unit of input, like limitPrice) for an order on a pool
+   * Quotes the venue's own pool, so each venue's curve (constant-product, bins) and fee apply
+   * @param order - Sniper order
+   * @param pool - Launched pool
+   * @returns number | undefined - Entry price, or undefined when the venue does not have the pool
+   */
+  public getEntryPrice(order: Order, pool: PoolInfo): number | undefined {
+    const venuePool = this.registry.get(pool.dex).getPool?.(pool.poolId);
+
+    if (!venuePool) {
+      return undefined;
+    }
+
+    return venuePool.quote(order.tokenIn, order.amountIn).amountOut / order.amountIn;
+  }
+
+  /**
+   * Disarm all orders and stop listening to the launch feed
+   */
+  public stop(): void {
+    this.unsubscribe();
+    this.disarmAll();
+
+    logger.getLogger().info('Sniper watcher stopped');
+  }
+
+  /**
+   * Disarm all orders but keep listening to the launch feed
+   */
+  public disarmAll(): void {
+    for (const orderId of Array.from(this.armed.keys())) {
+      this.disarm(orderId);
+    }
+  }
+
+  /**
+   * Fire every armed order whose pair matches a newly created pool
+   * @param pool - Newly created pool
+   */
+  private async handlePoolCreated(pool: PoolInfo): Promise<void> {
+    const matching = Array.from(this.armed.values()).filter(({ order }) =>
+      (order.tokenIn === pool.tokenIn && order.tokenOut === pool.tokenOut) ||
+      (order.tokenIn === pool.tokenOut && order.tokenOut === pool.tokenIn)
+    );
+
+    await Promise.all(matching.map(entry => this.tryTrigger(entry, pool)));
+  }
+
+  /**
+   * Fire an armed order on a pool if the entry price is acceptable
+   * @param entry - Armed sniper order
+   * @param pool - Candidate pool
+   * @returns Promise<boolean> - Whether the order fired
+   */
+  private async tryTrigger(entry: ArmedSniper, pool: PoolInfo): Promise<boolean> {
+    const { order } = entry;
+
+    if (this.armed.get(order.id) !== entry) {
+      return false;
+    }
+
+    const entryPrice = this.getEntryPrice(order, pool);
+
+    if (entryPrice === undefined) {
+      logger.getLogger().warn('Launched pool is not available on its venue, staying armed', {
+        orderId: order.id,
+        dex: pool.dex,
+        poolId: pool.poolId
+      });
+      return false;
+    }
+
+    // Prices are output per input, so a more expensive entry has a lower price
+    if (order.maxEntryPrice !== undefined && entryPrice < order.maxEntryPrice) {
+      logger.getLogger().info('Sniper entry more expensive than cap, staying armed', {
+        orderId: order.id,
+        poolId: pool.poolId,
+        entryPrice,
+        maxEntryPrice: order.maxEntryPrice
+      });
+      return false;
+    }
+
+    this.disarm(order.id);
+
+    logger.getLogger().info('Sniper order triggered', {
+      orderId: order.id,
+      dex: pool.dex,
+      poolId: pool.poolId,
+      entryPrice,
+      maxEntryPrice: order.maxEntryPrice
+    });
+
+    try {
+      await entry.onTrigger(order, pool, entryPrice);
+    } catch (error) {
+      logger.logError(order.id, error, { context: 'Sniper trigger handler' });
+    }
+
+    return true;
+  }
+
+  /**
+   * Schedule expiry of an armed order
+   * @param entry - Armed sniper order
+   */
+  private scheduleExpiry(entry: ArmedSniper): void {
+    if (!entry.order.expiresAt) {
+      return;
+    }
+
+    const remaining = new Date(entry.order.expiresAt).getTime() - Date.now();
+
+    entry.expiryTimer = setTimeout(() => {
+      if (this.armed.get(entry.order.id) !== entry) {
+        return;
+      }
+
+      // Long expiries are reached in several timer hops
+      if (remaining > MAX_TIMER_DELAY) {
+        this.scheduleExpiry(entry);
+        return;
+      }
+
+      this.disarm(entry.order.id);
+
+      logger.getLogger().info('Sniper order expired', {
+        orderId: entry.order.id,
+        expiresAt: entry.order.expiresAt
+      });
+
+      entry.onExpire(entry.order).catch((error) => {
+        logger.logError(entry.order.id, error, { context: 'Sniper expiry handler' });
+      });
+    }, Math.max(0, Math.min(remaining, MAX_TIMER_DELAY)));
+  }
+}
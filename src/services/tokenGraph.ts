@@ -0,0 +1,93 @@
+import { DexName, PoolInfo } from '../types/dex';
+
+/**
+ * Token Graph
+ * Undirected graph of tokens connected by pools, used to discover
+ * multi-hop paths for pairs without a direct pool
+ */
+export class TokenGraph {
+  // token -> neighbor token -> venues with a pool for the pair
+  private edges: Map<string, Map<string, Set<DexName>>> = new Map();
+
+  constructor(pools: PoolInfo[] = []) {
+    pools.forEach(pool => this.addPool(pool));
+  }
+
+  /**
+   * Add a pool as an edge between its two tokens
+   * @param pool - Pool to add
+   */
+  public addPool(pool: PoolInfo): void {
+    this.addEdge(pool.tokenIn, pool.tokenOut, pool.dex);
+    this.addEdge(pool.tokenOut, pool.tokenIn, pool.dex);
+  }
+
+  /**
+   * List tokens sharing a pool with a token
+   * @param token - Token to look up
+   * @returns string[] - Neighboring tokens
+   */
+  public getNeighbors(token: string): string[] {
+    return Array.from(this.edges.get(token)?.keys() || []);
+  }
+
+  /**
+   * List venues with a pool for a pair
+   * @param tokenA - First token
+   * @param tokenB - Second token
+   * @returns DexName[] - Venues trading the pair
+   */
+  public getVenues(tokenA: string, tokenB: string): DexName[] {
+    return Array.from(this.edges.get(tokenA)?.get(tokenB) || []);
+  }
+
+  /**
+   * Find every simple path between two tokens, shortest first
+   * @param tokenIn - Start token
+   * @param tokenOut - End token
+   * @param maxHops - Maximum number of pools to traverse
+   * @returns string[][] - Token paths including both endpoints
+   */
+  public findPaths(tokenIn: string, tokenOut: string, maxHops: number): string[][] {
+    const paths: string[][] = [];
+
+    const visit = (path: string[]) => {
+      const current = path[path.length - 1];
+
+      if (current === tokenOut) {
+        paths.push(path);
+        return;
+      }
+
+      if (path.length > maxHops) {
+        return;
+      }
+
+      this.getNeighbors(current)
+        .filter(neighbor => !path.includes(neighbor))
+        .forEach(neighbor => visit([...path, neighbor]));
+    };
+
+    if (tokenIn !== tokenOut) {
+      visit([tokenIn]);
+    }
+
+    return paths.sort((a, b) => a.length - b.length);
+  }
+
+  /**
+   * Record a directed edge
+   */
+  private addEdge(from: string, to: string, dex: DexName): void {
+    if (!this.edges.has(from)) {
+      this.edges.set(from, new Map());
+    }
+
+    const neighbors = this.edges.get(from)!;
+    if (!neighbors.has(to)) {
+      neighbors.set(to, new Set());
+    }
+
+    neighbors.get(to)!.add(dex);
+  }
+}
@@ -1,173 +1,564 @@
-import { FastifyInstance, FastifyRequest } from 'fastify';
+import { FastifyRequest } from 'fastify';
 import { SocketStream } from '@fastify/websocket';
+import { v4 as uuidv4 } from 'uuid';
+import { ClientMessage, OrderAccessChecker, OrderHistoryProvider, OrderUpdateMessage, ServerMessage } from '../types/websocket';
 import { logger } from '../utils/logger';
 
 /**
  * WebSocket connection interface
  */
 interface WebSocketConnection {
-  orderId: string;
+  id: string;
   socket: SocketStream;
   connectedAt: Date;
-}
-
-/**
- * WebSocket message interface
- */
-interface WebSocketMessage {
-  orderId: string;
-  status: string;
-  data?: any;
-  timestamp: Date;
+  // User bound to the API key the connection authenticated with
+  ownerId?: string;
+  orderIds: Set<string>;
+  userIds: Set<string>;
+  // Live updates held back while an order's history is being replayed
+  replaying: Map<string, OrderUpdateMessage[]>;
 }
 
 /**
  * WebSocket Manager for real-time order status updates
- * Handles client connections and broadcasts order lifecycle events
+ * Clients connect once to /ws and subscribe to any number of orders or users
  */
 export class WebSocketManager {
   private connections: Map<string, WebSocketConnection> = new Map();
-  private fastifyInstance?: FastifyInstance;
+  private orderSubscriptions: Map<string, Set<WebSocketConnection>> = new Map();
+  private userSubscriptions: Map<string, Set<WebSocketConnection>> = new Map();
+  private maxSubscriptions: number;
+  private historyProvider?: OrderHistoryProvider;
+  private accessChecker?: OrderAccessChecker;
+
+  constructor(maxSubscriptions: number = parseInt(process.env.WS_MAX_SUBSCRIPTIONS || '1000')) {
+    this.maxSubscriptions = maxSubscriptions;
+  }
 
   /**
-   * Set the Fastify instance for WebSocket registration
-   * @param fastify - Fastify instance
+   * Set the source of persisted order events replayed to new subscribers
+   * @param provider - Loads an order's events after a sequence
    */
-  public setFastifyInstance(fastify: FastifyInstance): void {
-    this.fastifyInstance = fastify;
+  public setHistoryProvider(provider: OrderHistoryProvider): void {
+    this.historyProvider = provider;
   }
 
   /**
-   * Register WebSocket route for order status updates
-   * @param orderId - Order identifier
+   * Set the ownership check applied to order subscriptions of authenticated connections
+   * @param checker - Returns the subset of orderIds owned by a user
    */
-  public registerWebSocketRoute(orderId: string): void {
-    if (!this.fastifyInstance) {
-      throw new Error('Fastify instance not set');
-    }
-
-    this.fastifyInstance.get(`/ws/orders/${orderId}`, { websocket: true }, (connection, req) => {
-      this.handleWebSocketConnection(orderId, connection, req);
-    });
+  public setAccessChecker(checker: OrderAccessChecker): void {
+    this.accessChecker = checker;
   }
 
   /**
    * Handle new WebSocket connection
-   * @param orderId - Order identifier
    * @param socket - WebSocket stream
    * @param request - Fastify request
+   * @param orderIds - Orders to subscribe to immediately (used by /ws/orders/:orderId)
+   * @param lastSequences - Last sequence the client has seen per order
    */
-  private handleWebSocketConnection(
-    orderId: string, 
-    socket: SocketStream, 
-    request: FastifyRequest
+  public handleConnection(
+    socket: SocketStream,
+    request: FastifyRequest,
+    orderIds: string[] = [],
+    lastSequences: Record<string, number> = {}
   ): void {
     const connection: WebSocketConnection = {
-      orderId,
+      id: uuidv4(),
       socket,
-      connectedAt: new Date()
+      connectedAt: new Date(),
+      ownerId: request.auth?.userId,
+      orderIds: new Set(),
+      userIds: new Set(),
+      replaying: new Map()
     };
 
-    this.connections.set(orderId, connection);
+    this.connections.set(connection.id, connection);
 
     logger.getLogger().info('WebSocket connected', {
-      orderId,
+      connectionId: connection.id,
+      userId: connection.ownerId,
       clientIp: request.ip,
       userAgent: request.headers['user-agent']
     });
 
     // Send initial connection confirmation
-    this.sendMessage(orderId, {
-      orderId,
-      status: 'connected',
+    this.send(connection, {
+      type: 'connected',
+      connectionId: connection.id,
       timestamp: new Date()
     });
 
+    if (orderIds.length > 0) {
+      this.subscribe(connection, orderIds, undefined, lastSequences);
+    }
+
     // Handle connection close
     socket.socket.on('close', () => {
-      this.connections.delete(orderId);
-      logger.getLogger().info('WebSocket disconnected', { orderId });
+      this.removeConnection(connection);
+      logger.getLogger().info('WebSocket disconnected', { connectionId: connection.id });
     });
 
     // Handle connection errors
     socket.socket.on('error', (error: Error) => {
-      logger.logError(orderId, error, { context: 'WebSocket error' });
-      this.connections.delete(orderId);
+      logger.logError(null, error, { context: 'WebSocket error', connectionId: connection.id });
+      this.removeConnection(connection);
     });
 
-    // Handle incoming messages (if any)
+    // Handle subscription messages
     socket.socket.on('message', (message: Buffer) => {
-      try {
-        const data = JSON.parse(message.toString());
-        logger.getLogger().info('WebSocket message received', {
+      this.handleClientMessage(connection, message);
+    });
+  }
+
+  /**
+   * Parse and apply a message received from a client
+   * @param connection - Sending connection
+   * @param raw - Raw message payload
+   */
+  private handleClientMessage(connection: WebSocketConnection, raw: Buffer): void {
+    let message: ClientMessage;
+
+    try {
+      message = this.parseClientMessage(raw);
+    } catch (error) {
+      this.send(connection, {
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Invalid message',
+        timestamp: new Date()
+      });
+      return;
+    }
+
+    logger.getLogger().debug('WebSocket message received', {
+      connectionId: connection.id,
+      type: message.type
+    });
+
+    switch (message.type) {
+      case 'subscribe':
+        this.subscribe(connection, message.orderIds || [], message.userId, message.lastSequences);
+        break;
+      case 'unsubscribe':
+        this.unsubscribe(connection, message.orderIds || [], message.userId);
+        break;
+      case 'ping':
+        this.send(connection, { type: 'pong', timestamp: new Date() });
+        break;
+    }
+  }
+
+  /**
+   * Validate a raw client message against the protocol
+   * @param raw - Raw message payload
+   * @returns ClientMessage - Typed message
+   */
+  private parseClientMessage(raw: Buffer): ClientMessage {
+    let data: any;
+
+    try {
+      data = JSON.parse(raw.toString());
+    } catch (error) {
+      throw new Error('Message must be valid JSON');
+    }
+
+    if (!data || typeof data !== 'object') {
+      throw new Error('Message must be a JSON object');
+    }
+
+    if (data.type === 'ping') {
+      return { type: 'ping' };
+    }
+
+    if (data.type !== 'subscribe' && data.type !== 'unsubscribe') {
+      throw new Error(`Unknown message type: ${data.type}`);
+    }
+
+    if (data.orderIds !== undefined &&
+        (!Array.isArray(data.orderIds) || data.orderIds.some((id: unknown) => typeof id !== 'string' || id.length === 0))) {
+      throw new Error('orderIds must be an array of non-empty strings');
+    }
+
+    if (data.userId !== undefined && (typeof data.userId !== 'string' || data.userId.length === 0)) {
+      throw new Error('userId must be a non-empty string');
+    }
+
+    if (!data.orderIds?.length && !data.userId) {
+      throw new Error(`${data.type} requires orderIds or userId`);
+    }
+
+    if (data.type === 'subscribe' && data.lastSequences !== undefined) {
+      const valid = data.lastSequences !== null && typeof data.lastSequences === 'object' && !Array.isArray(data.lastSequences) &&
+        Object.values(data.lastSequences).every(value => Number.isInteger(value) && (value as number) >= 0);
+
+      if (!valid) {
+        throw new Error('lastSequences must map orderIds to non-negative integers');
+      }
+
+      return { type: 'subscribe', orderIds: data.orderIds, userId: data.userId, lastSequences: data.lastSequences };
+    }
+
+    return { type: data.type, orderIds: data.orderIds, userId: data.userId };
+  }
+
+  /**
+   * Subscribe a connection to orders and/or a user
+   * @param connection - Subscribing connection
+   * @param orderIds - Orders to follow
+   * @param userId - User whose orders to follow
+   * @param lastSequences - Last sequence the client has seen per order
+   */
+  private subscribe(
+    connection: WebSocketConnection,
+    orderIds: string[],
+    userId?: string,
+    lastSequences: Record<string, number> = {}
+  ): void {
+    if (connection.ownerId && userId && userId !== connection.ownerId) {
+      this.send(connection, {
+        type: 'error',
+        message: 'Cannot subscribe to orders of another user',
+        timestamp: new Date()
+      });
+      return;
+    }
+
+    if (connection.ownerId && this.accessChecker && orderIds.length > 0) {
+      void this.subscribeOwned(connection, orderIds, userId, lastSequences);
+      return;
+    }
+
+    this.applySubscription(connection, orderIds, userId, lastSequences);
+  }
+
+  /**
+   * Subscribe an authenticated connection to the orders its user owns
+   * Orders of other users are reported as not found so their existence is not revealed
+   * @param connection - Subscribing connection
+   * @param orderIds - Requested orders
+   * @param userId - User whose orders to follow
+   * @param lastSequences - Last sequence the client has seen per order
+   */
+  private async subscribeOwned(
+    connection: WebSocketConnection,
+    orderIds: string[],
+    userId: string | undefined,
+    lastSequences: Record<string, number>
+  ): Promise<void> {
+    let owned: string[];
+
+    try {
+      owned = await this.accessChecker!(connection.ownerId!, orderIds);
+    } catch (error) {
+      logger.logError(null, error, { context: 'WebSocket subscription access check', connectionId: connection.id });
+      this.send(connection, {
+        type: 'error',
+        message: 'Failed to verify order ownership',
+        timestamp: new Date()
+      });
+      return;
+    }
+
+    if (!this.connections.has(connection.id)) {
+      return;
+    }
+
+    const denied = orderIds.filter(orderId => !owned.includes(orderId));
+    if (denied.length > 0) {
+      this.send(connection, {
+        type: 'error',
+        message: `Orders not found: ${denied.join(', ')}`,
+        timestamp: new Date()
+      });
+    }
+
+    const allowed = orderIds.filter(orderId => owned.includes(orderId));
+    if (allowed.length > 0 || userId) {
+      this.applySubscription(connection, allowed, userId, lastSequences);
+    }
+  }
+
+  /**
+   * Record subscriptions, acknowledge them and start history replay
+   * @param connection - Subscribing connection
+   * @param orderIds - Orders to follow
+   * @param userId - User whose orders to follow
+   * @param lastSequences - Last sequence the client has seen per order
+   */
+  private applySubscription(
+    connection: WebSocketConnection,
+    orderIds: string[],
+    userId: string | undefined,
+    lastSequences: Record<string, number>
+  ): void {
+    const added = orderIds.filter(orderId => !connection.orderIds.has(orderId)).length +
+      (userId && !connection.userIds.has(userId) ? 1 : 0);
+
+    if (connection.orderIds.size + connection.userIds.size + added > this.maxSubscriptions) {
+      this.send(connection, {
+        type: 'error',
+        message: `Subscription limit of ${this.maxSubscriptions} reached`,
+        timestamp: new Date()
+      });
+      return;
+    }
+
+    for (const orderId of orderIds) {
+      connection.orderIds.add(orderId);
+      this.addSubscriber(this.orderSubscriptions, orderId, connection);
+    }
+
+    if (userId) {
+      connection.userIds.add(userId);
+      this.addSubscriber(this.userSubscriptions, userId, connection);
+    }
+
+    this.sendSubscriptionAck(connection, 'subscribed');
+
+    // Catch the client up on anything that happened before it subscribed
+    for (const orderId of orderIds) {
+      void this.replayOrder(connection, orderId, lastSequences[orderId] ?? 0);
+    }
+  }
+
+  /**
+   * Send an order's persisted events after a sequence, then release live updates held during the replay
+   * @param connection - Target connection
+   * @param orderId - Order identifier
+   * @param afterSequence - Last sequence the client has seen
+   */
+  private async replayOrder(connection: WebSocketConnection, orderId: string, afterSequence: number): Promise<void> {
+    if (!this.historyProvider || connection.replaying.has(orderId)) {
+      return;
+    }
+
+    connection.replaying.set(orderId, []);
+    let lastSequence = afterSequence;
+
+    try {
+      const events = await this.historyProvider(orderId, afterSequence);
+
+      for (const event of events) {
+        if (!this.connections.has(connection.id)) return;
+
+        this.send(connection, {
+          type: 'order_update',
           orderId,
-          message: data
+          status: event.status,
+          data: event.data,
+          sequence: event.sequence,
+          replayed: true,
+          timestamp: event.timestamp
         });
-      } catch (error) {
-        logger.logError(orderId, error, { context: 'WebSocket message parsing' });
+        lastSequence = Math.max(lastSequence, event.sequence);
       }
+    } catch (error) {
+      logger.logError(orderId, error, { context: 'WebSocket replay', connectionId: connection.id });
+      this.send(connection, {
+        type: 'error',
+        message: `Failed to replay history for order ${orderId}`,
+        timestamp: new Date()
+      });
+    } finally {
+      const buffered = connection.replaying.get(orderId) || [];
+      connection.replaying.delete(orderId);
+
+      if (this.connections.has(connection.id)) {
+        this.send(connection, { type: 'replay_complete', orderId, lastSequence, timestamp: new Date() });
+
+        // Drop live updates the replay already delivered
+        for (const message of buffered) {
+          if (message.sequence === undefined || message.sequence > lastSequence) {
+            this.send(connection, message);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Unsubscribe a connection from orders and/or a user
+   * @param connection - Unsubscribing connection
+   * @param orderIds - Orders to stop following
+   * @param userId - User to stop following
+   */
+  private unsubscribe(connection: WebSocketConnection, orderIds: string[], userId?: string): void {
+    for (const orderId of orderIds) {
+      connection.orderIds.delete(orderId);
+      this.removeSubscriber(this.orderSubscriptions, orderId, connection);
+    }
+
+    if (userId) {
+      connection.userIds.delete(userId);
+      this.removeSubscriber(this.userSubscriptions, userId, connection);
+    }
+
+    this.sendSubscriptionAck(connection, 'unsubscribed');
+  }
+
+  /**
+   * Add a connection to the subscriber set of an order or user
+   * @param subscriptions - Subscription index
+   * @param key - Order or user identifier
+   * @param connection - Subscribing connection
+   */
+  private addSubscriber(
+    subscriptions: Map<string, Set<WebSocketConnection>>,
+    key: string,
+    connection: WebSocketConnection
+  ): void {
+    let subscribers = subscriptions.get(key);
+    if (!subscribers) {
+      subscribers = new Set();
+      subscriptions.set(key, subscribers);
+    }
+    subscribers.add(connection);
+  }
+
+  /**
+   * Remove a connection from the subscriber set of an order or user
+   * @param subscriptions - Subscription index
+   * @param key - Order or user identifier
+   * @param connection - Unsubscribing connection
+   */
+  private removeSubscriber(
+    subscriptions: Map<string, Set<WebSocketConnection>>,
+    key: string,
+    connection: WebSocketConnection
+  ): void {
+    const subscribers = subscriptions.get(key);
+    if (!subscribers) return;
+
+    subscribers.delete(connection);
+    if (subscribers.size === 0) {
+      subscriptions.delete(key);
+    }
+  }
+
+  /**
+   * Report a connection's current subscriptions back to it
+   * @param connection - Target connection
+   * @param type - Acknowledged action
+   */
+  private sendSubscriptionAck(connection: WebSocketConnection, type: 'subscribed' | 'unsubscribed'): void {
+    this.send(connection, {
+      type,
+      orderIds: Array.from(connection.orderIds),
+      userIds: Array.from(connection.userIds),
+      timestamp: new Date()
     });
   }
 
   /**
-   * Send message to specific order's WebSocket connection
-   * @param orderId - Order identifier
-   * @param message - Message to send
+   * Drop a connection and all of its subscriptions
+   * @param connection - Connection to remove
    */
-  public sendMessage(orderId: string, message: WebSocketMessage): void {
-    const connection = this.connections.get(orderId);
-    
-    if (!connection) {
-      logger.getLogger().warn('No WebSocket connection found for order', { orderId });
-      return;
+  private removeConnection(connection: WebSocketConnection): void {
+    for (const orderId of connection.orderIds) {
+      this.removeSubscriber(this.orderSubscriptions, orderId, connection);
+    }
+
+    for (const userId of connection.userIds) {
+      this.removeSubscriber(this.userSubscriptions, userId, connection);
     }
 
+    connection.orderIds.clear();
+    connection.userIds.clear();
+    connection.replaying.clear();
+    this.connections.delete(connection.id);
+  }
+
+  /**
+   * Send a message over a single connection
+   * @param connection - Target connection
+   * @param message - Message to send
+   * @returns boolean - Whether the message was sent
+   */
+  private send(connection: WebSocketConnection, message: ServerMessage): boolean {
     try {
       const messageStr = JSON.stringify(message);
       connection.socket.socket.send(messageStr);
-      
+
       logger.getLogger().debug('WebSocket message sent', {
-        orderId,
-        status: message.status,
+        connectionId: connection.id,
+        type: message.type,
         messageLength: messageStr.length
       });
+      return true;
     } catch (error) {
-      logger.logError(orderId, error, { context: 'WebSocket message sending' });
-      this.connections.delete(orderId);
+      logger.logError(null, error, { context: 'WebSocket message sending', connectionId: connection.id });
+      this.removeConnection(connection);
+      return false;
     }
   }
 
   /**
-   * Emit order status update to connected clients
+   * Send message to every connection subscribed to an order
+   * @param orderId - Order identifier
+   * @param message - Message to send
+   */
+  public sendMessage(orderId: string, message: ServerMessage): void {
+    const subscribers = this.orderSubscriptions.get(orderId);
+
+    if (!subscribers) {
+      logger.getLogger().warn('No WebSocket connection found for order', { orderId });
+      return;
+    }
+
+    // Copy first: failed sends remove connections from the set
+    for (const connection of Array.from(subscribers)) {
+      this.send(connection, message);
+    }
+  }
+
+  /**
+   * Emit order status update to connections subscribed to the order or its user
    * @param orderId - Order identifier
    * @param status - Order status
    * @param data - Additional data
+   * @param userId - Owner of the order
+   * @param sequence - Position of the update in the order's event history
    */
-  public emitToOrder(orderId: string, status: string, data?: any): void {
-    const message: WebSocketMessage = {
+  public emitToOrder(orderId: string, status: string, data?: any, userId?: string, sequence?: number): void {
+    const message: OrderUpdateMessage = {
+      type: 'order_update',
       orderId,
+      userId,
       status,
       data,
+      sequence,
       timestamp: new Date()
     };
 
-    this.sendMessage(orderId, message);
+    // A connection following both the order and its user receives the update once
+    const targets = new Set<WebSocketConnection>([
+      ...(this.orderSubscriptions.get(orderId) || []),
+      ...(userId ? this.userSubscriptions.get(userId) || [] : [])
+    ]);
+
+    if (targets.size === 0) {
+      logger.getLogger().debug('No WebSocket subscribers for order', { orderId });
+      return;
+    }
+
+    for (const connection of targets) {
+      const buffered = connection.replaying.get(orderId);
+      if (buffered) {
+        buffered.push(message);
+      } else {
+        this.send(connection, message);
+      }
+    }
   }
 
   /**
    * Broadcast message to all connected clients
    * @param message - Message to broadcast
    */
-  public broadcast(message: Omit<WebSocketMessage, 'orderId'>): void {
-    const messageStr = JSON.stringify(message);
-    
-    for (const [orderId, connection] of this.connections) {
-      try {
-        connection.socket.socket.send(messageStr);
-      } catch (error) {
-        logger.logError(orderId, error, { context: 'WebSocket broadcast' });
-        this.connections.delete(orderId);
-      }
+  public broadcast(message: ServerMessage): void {
+    for (const connection of Array.from(this.connections.values())) {
+      this.send(connection, message);
     }
   }
 
@@ -176,15 +567,21 @@ export class WebSocketManager {
    */
   public getConnectionStats(): {
     totalConnections: number;
-    connections: Array<{ orderId: string; connectedAt: Date }>;
+    subscribedOrders: number;
+    subscribedUsers: number;
+    connections: Array<{ connectionId: string; connectedAt: Date; orderIds: string[]; userIds: string[] }>;
   } {
-    const connections = Array.from(this.connections.entries()).map(([orderId, conn]) => ({
-      orderId,
-      connectedAt: conn.connectedAt
+    const connections = Array.from(this.connections.values()).map(conn => ({
+      connectionId: conn.id,
+      connectedAt: conn.connectedAt,
+      orderIds: Array.from(conn.orderIds),
+      userIds: Array.from(conn.userIds)
     }));
 
     return {
       totalConnections: this.connections.size,
+      subscribedOrders: this.orderSubscriptions.size,
+      subscribedUsers: this.userSubscriptions.size,
       connections
     };
   }
@@ -193,23 +590,34 @@ export class WebSocketManager {
    * Close all WebSocket connections
    */
   public closeAllConnections(): void {
-    for (const [orderId, connection] of this.connections) {
+    for (const connection of this.connections.values()) {
       try {
         connection.socket.socket.close();
       } catch (error) {
-        logger.logError(orderId, error, { context: 'WebSocket close' });
+        logger.logError(null, error, { context: 'WebSocket close', connectionId: connection.id });
       }
     }
-    
+
     this.connections.clear();
+    this.orderSubscriptions.clear();
+    this.userSubscriptions.clear();
     logger.getLogger().info('All WebSocket connections closed');
   }
 
   /**
-   * Check if order has active WebSocket connection
+   * Check if order has a subscribed WebSocket connection
    * @param orderId - Order identifier
    */
   public hasConnection(orderId: string): boolean {
-    return this.connections.has(orderId);
+    return this.orderSubscriptions.has(orderId);
+  }
+
+  /**
+   * Count connections subscribed to an order
+   * @param orderId - Order identifier
+   * @returns number - Number of subscribed connections
+   */
+  public getSubscriberCount(orderId: string): number {
+    return this.orderSubscriptions.get(orderId)?.size || 0;
   }
 }
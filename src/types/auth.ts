@@ -0,0 +1,34 @@
+// src/types/auth.ts
+
+/**
+ * Identity attached to a request authenticated with an API key
+ */
+export interface AuthContext {
+  userId: string;
+  keyId: number;
+}
+
+/**
+ * API key metadata (the raw key is only returned once, on creation)
+ */
+export interface ApiKeyInfo {
+  id: number;
+  userId: string;
+  name?: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+}
+
+/**
+ * Newly issued API key
+ */
+export interface IssuedApiKey extends ApiKeyInfo {
+  apiKey: string;
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    auth?: AuthContext;
+  }
+}
@@ -0,0 +1,35 @@
+// src/types/balance.ts
+
+/**
+ * A user's holding of one token
+ * - available: free to withdraw or trade
+ * - reserved: held for open orders until they settle or are released
+ */
+export interface Balance {
+  userId: string;
+  token: string;
+  available: number;
+  reserved: number;
+  updatedAt?: Date;
+}
+
+/**
+ * Reason for a ledger entry
+ * - reserve/release: funds moved between available and reserved for an order
+ * - settle_debit/settle_credit: the reserved amountIn consumed and the amountOut received on fill
+ */
+export type LedgerEntryKind = 'deposit' | 'withdrawal' | 'reserve' | 'release' | 'settle_debit' | 'settle_credit';
+
+/**
+ * One balance change; summing the changes of a token reproduces its balance
+ */
+export interface LedgerEntry {
+  id: number;
+  userId: string;
+  token: string;
+  kind: LedgerEntryKind;
+  availableChange: number;
+  reservedChange: number;
+  orderId?: string;
+  createdAt: Date;
+}
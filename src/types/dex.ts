@@ -1,3 +1,5 @@
+import { Order } from './order';
+
 export interface DexQuote {
   dex: DexName;
   price: number;
@@ -9,7 +11,10 @@ export interface DexQuote {
   priceImpact: number;
 }
 
-export type DexName = 'raydium' | 'meteora';
+/**
+ * DEX identifier - any venue registered in the DexRegistry
+ */
+export type DexName = string;
 
 export interface SwapResult {
   txHash: string;
@@ -18,15 +23,50 @@ export interface SwapResult {
   slippageImpact: number;
   dex: DexName;
   timestamp: Date;
+  amountOut: number;
 }
 
-export interface RoutingDecision {
+/**
+ * Share of a split order routed to one venue
+ */
+export interface RouteLeg {
+  dex: DexName;
+  fraction: number;
+  amountIn: number;
+  expectedAmountOut: number;
+}
+
+/**
+ * One pool traversal of a multi-hop route
+ */
+export interface RouteHop {
   dex: DexName;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: number;
+  expectedAmountOut: number;
+}
+
+/**
+ * Expected amountOut of swapping along the best current route (rejects when no route exists)
+ */
+export type AmountOutQuoter = (tokenIn: string, tokenOut: string, amount: number) => Promise<number>;
+
+/**
+ * Best current route for a swap, without executing or persisting anything
+ */
+export type RoutePlanner = (tokenIn: string, tokenOut: string, amount: number) => Promise<RoutingDecision>;
+
+export interface RoutingDecision {
+  dex: DexName; // Venue taking the largest share when split, first venue when multi-hop
   price: number;
   fee: number;
   estimatedGas: number;
   reason: string;
   alternatives: DexQuote[];
+  expectedAmountOut: number;
+  legs?: RouteLeg[]; // Present only when the order is split across venues
+  path?: RouteHop[]; // Present only when the order routes through intermediate tokens
 }
 
 export interface DexConfig {
@@ -46,3 +86,81 @@ export interface PoolInfo {
   fee: number;
   lastUpdate: Date;
 }
+
+/**
+ * Minimum-output guard passed down with a swap
+ * The venue rejects the swap instead of filling below minAmountOut
+ */
+export interface SwapProtection {
+  quotedAmountOut: number;
+  minAmountOut: number;
+}
+
+export interface DexHealth {
+  dex: DexName;
+  healthy: boolean;
+  latencyMs: number;
+  checkedAt: Date;
+  error?: string;
+}
+
+/**
+ * DEX adapter contract
+ * Every venue the router can quote and execute on implements this interface
+ */
+export interface DexAdapter {
+  readonly name: DexName;
+  getQuote(tokenIn: string, tokenOut: string, amount: number): Promise<DexQuote>;
+  executeSwap(order: Order, protection?: SwapProtection): Promise<SwapResult>;
+  health(): Promise<DexHealth>;
+  addPool?(pool: PoolInfo): void;
+  listPools?(): PoolInfo[];
+  getPool?(poolId: string): SimulatedPool | undefined;
+  setPoolStateStore?(store: PoolStateStore): void;
+}
+
+/**
+ * Result of quoting or executing a swap against a simulated pool
+ */
+export interface PoolSwapResult {
+  amountIn: number;
+  amountOut: number;
+  spotPrice: number;
+  executionPrice: number;
+  priceImpact: number;
+  fee: number;
+}
+
+/**
+ * Stateful simulated pool backing a mock venue
+ */
+export interface SimulatedPool {
+  readonly dex: DexName;
+  readonly poolId: string;
+  hasPair(tokenA: string, tokenB: string): boolean;
+  quote(tokenIn: string, amountIn: number): PoolSwapResult;
+  swap(tokenIn: string, amountIn: number): PoolSwapResult;
+  getSpotPrice(tokenIn: string): number;
+  getLiquidity(tokenIn: string): number;
+  getPoolInfo(): PoolInfo;
+  getState(): PoolCurveState;
+  setState(state: PoolCurveState): void;
+}
+
+/**
+ * Serializable curve state of a simulated pool (reserves, bins)
+ */
+export type PoolCurveState = Record<string, unknown>;
+
+/**
+ * Shared store for simulated pool state
+ * Lets every process quote against the pools that swaps in other processes moved
+ */
+export interface PoolStateStore {
+  /**
+   * Run a swap against the latest shared state of a pool and share the result
+   * @param pool - Pool being swapped against
+   * @param swap - Applies the swap to the pool
+   */
+  commitSwap<T>(pool: SimulatedPool, swap: () => T): Promise<T>;
+}
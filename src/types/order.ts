@@ -1,4 +1,6 @@
 // src/types/order.ts
+import { OrderGroupRole } from './orderGroup';
+
 export interface Order {
   id: string;
   type: OrderType;
@@ -11,41 +13,121 @@ export interface Order {
   updatedAt?: Date;
   executionData?: ExecutionData;
   userId?: string;
+  limitPrice?: number;
+  triggerPrice?: number; // Stop-loss and take-profit: price that converts the order into a market order
+  maxEntryPrice?: number; // Sniper: caps the entry cost; tokenOut per tokenIn like limitPrice, so the entry must get at least this much
+  timeInForce?: TimeInForce; // GTC when not set
+  expiresAt?: Date; // GTT: the order expires if it has not been sent for execution by then
+  clientOrderId?: string;
+  notional?: number; // Value of amountIn in NOTIONAL_TOKEN at submission, used for quotas
+  quoteId?: string; // Firm quote the order must fill at
+  quotedAmountOut?: number; // Output guaranteed by the firm quote
+  quoteExpiresAt?: Date; // Order fails with QUOTE_EXPIRED if not submitted by then
+  slices?: number; // TWAP: number of child market orders
+  durationMs?: number; // TWAP: time over which the slices are spread
+  parentOrderId?: string; // Set on TWAP child orders
+  groupId?: string; // OCO or bracket group the order belongs to
+  groupRole?: OrderGroupRole;
 }
 
-export type OrderType = 'market' | 'limit' | 'sniper';
+export type OrderType = 'market' | 'limit' | 'sniper' | 'twap' | 'stop_loss' | 'take_profit';
+
+/**
+ * How long an order stays open
+ * - GTC: good till cancelled
+ * - GTT: good till expiresAt
+ * - IOC: immediate or cancel; fills what it can right away and expires the rest
+ * - FOK: fill or kill; fills in full right away or expires
+ */
+export type TimeInForce = 'GTC' | 'GTT' | 'IOC' | 'FOK';
 
 export type OrderStatus = 
   | 'pending' 
+  | 'waiting' 
+  | 'triggered'
   | 'routing' 
   | 'building' 
   | 'submitted' 
   | 'confirmed' 
-  | 'failed';
+  | 'failed'
+  | 'cancelled'
+  | 'expired';
 
-export interface ExecutionData {
-  txHash?: string;
-  executedPrice?: number;
-  dex?: string;
-  gasUsed?: number;
-  error?: string;
+/**
+ * Order status change published over the event bus
+ */
+export interface OrderStatusEvent {
+  orderId: string;
+  status: OrderStatus;
+  data?: ExecutionData;
+  userId?: string;
+  sequence?: number;
+  timestamp: string;
 }
 
-// src/types/dex.ts
-export interface DexQuote {
-  dex: DexName;
-  price: number;
-  fee: number;
-  liquidity: number;
-  estimatedGas: number;
-  timestamp: Date;
+/**
+ * Outcome of a cancellation request
+ * - cancelled: the order was stopped before reaching a worker
+ * - cancelling: a worker is processing it and aborts at its next checkpoint; it may still fill if it was already past the last one
+ */
+export interface CancelResult {
+  outcome: 'cancelled' | 'cancelling' | 'not_found' | 'not_cancellable';
+  status?: OrderStatus;
 }
 
-export type DexName = 'raydium' | 'meteora';
-
-export interface SwapResult {
-  txHash: string;
+/**
+ * Fill of a single venue leg of a split order
+ */
+export interface ExecutionLeg {
+  dex: string;
+  amountIn: number;
+  amountOut: number;
   executedPrice: number;
+  txHash: string;
   gasUsed: number;
-  slippageImpact: number;
+}
+
+/**
+ * Fill of a single hop of a multi-hop order
+ */
+export interface ExecutionHop extends ExecutionLeg {
+  tokenIn: string;
+  tokenOut: string;
+}
+
+/**
+ * Progress of a TWAP parent order, aggregated from its child orders
+ */
+export interface TwapProgress {
+  slices: number;
+  filled: number;
+  failed: number;
+  cancelled: number;
+  filledAmountIn: number;
+  childOrderIds: string[];
+}
+
+export interface ExecutionData {
+  txHash?: string;
+  executedPrice?: number;
+  amountOut?: number;
+  dex?: string;
+  gasUsed?: number;
+  legs?: ExecutionLeg[];
+  path?: ExecutionHop[];
+  quotedAmountOut?: number; // Output expected by the routing decision
+  minAmountOut?: number; // quotedAmountOut less the order's slippage tolerance
+  actualAmountOut?: number; // Re-quoted or filled output when slippage protection rejected the order
+  quoteId?: string; // Firm quote the order was filled at
+  venueAmountOut?: number; // What the venues returned for a firm-quote fill; amountOut is the quoted amount
+  filledAmountIn?: number; // Orders that filled part of amountIn; the rest of the reservation is released
+  failedLegs?: string[]; // Split legs that failed on a partial fill
+  heldToken?: string; // Multi-hop orders that stopped midway: intermediate token credited instead of tokenOut
+  heldAmount?: number; // Amount of heldToken credited
+  twap?: TwapProgress; // On TWAP parents, executedPrice is the average fill price and amountOut the total
+  triggerPrice?: number; // Price a stop-loss or take-profit order was armed at
+  triggeredPrice?: number; // Best effective price that triggered it
+  cancelReason?: string;
+  error?: string;
+  errorCode?: string;
 }
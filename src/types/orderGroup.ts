@@ -0,0 +1,53 @@
+// src/types/orderGroup.ts
+import { Order } from './order';
+
+/**
+ * Linked order group types
+ * - oco: two resting exit orders sharing one reservation; the first to trigger cancels the other
+ * - bracket: an entry order whose fill arms a take-profit and stop-loss pair on the bought token
+ */
+export type OrderGroupType = 'oco' | 'bracket';
+
+/**
+ * Group lifecycle
+ * - pending: bracket entry not filled yet
+ * - active: exit orders armed
+ * - triggered: one exit order took the group's funds and is executing
+ * - completed / failed / cancelled: final
+ */
+export type OrderGroupStatus = 'pending' | 'active' | 'triggered' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Role of an order within its group; exit orders share the group's reservation
+ */
+export type OrderGroupRole = 'entry' | 'exit';
+
+export interface OrderGroup {
+  id: string;
+  type: OrderGroupType;
+  status: OrderGroupStatus;
+  userId?: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: number;
+  takeProfitPrice?: number; // Bracket: exit price (tokenIn received per tokenOut sold) to take profit at
+  stopLossPrice?: number; // Bracket: exit price to stop losses at
+  triggeredOrderId?: string; // Exit order that took the group's funds
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Group with its orders, as returned by the API
+ */
+export interface OrderGroupDetails extends OrderGroup {
+  orders: Order[];
+}
+
+/**
+ * Outcome of a group cancellation request
+ */
+export interface GroupCancelResult {
+  outcome: 'cancelled' | 'not_found' | 'not_cancellable';
+  status?: OrderGroupStatus;
+}
@@ -0,0 +1,33 @@
+// src/types/position.ts
+
+/**
+ * Holding of one token built from a user's confirmed orders, valued in the quote token
+ */
+export interface Position {
+  token: string;
+  quantity: number;
+  costBasis: number;
+  averageEntryPrice?: number;
+  markPrice?: number; // Undefined when the token cannot currently be quoted
+  marketValue?: number;
+  realizedPnl: number;
+  unrealizedPnl?: number;
+  trades: number;
+  gasUsed: number;
+}
+
+/**
+ * A user's positions and portfolio totals
+ */
+export interface PositionSummary {
+  userId: string;
+  quoteToken: string;
+  positions: Position[];
+  totals: {
+    costBasis: number;
+    marketValue: number;
+    realizedPnl: number;
+    unrealizedPnl: number;
+    gasUsed: number;
+  };
+}
@@ -0,0 +1,38 @@
+// src/types/quote.ts
+import { DexName, DexQuote, RouteHop, RouteLeg } from './dex';
+
+/**
+ * Swap to quote
+ */
+export interface QuoteRequest {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: number;
+  slippage?: number;
+}
+
+/**
+ * Firm quote: how an order would be routed right now, executable by quoteId until expiresAt
+ */
+export interface RouteQuote {
+  quoteId: string;
+  userId?: string; // Only the requesting user can execute the quote
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: number;
+  dex: DexName;
+  reason: string;
+  expectedAmountOut: number;
+  price: number; // Effective price of the whole route (amountOut per unit of amountIn)
+  referencePrice?: number; // Price for a sliver of the order, close to spot
+  priceImpact?: number; // Shortfall of price against referencePrice
+  fee: number;
+  estimatedGas: number;
+  slippage?: number;
+  minAmountOut?: number; // Lowest fill an order with this slippage would accept
+  legs?: RouteLeg[];
+  path?: RouteHop[];
+  alternatives: DexQuote[];
+  quotedAt: Date;
+  expiresAt: Date;
+}
@@ -0,0 +1,135 @@
+// src/types/websocket.ts
+
+/**
+ * Subscribe a connection to updates for orders and/or every order of a user
+ */
+export interface SubscribeMessage {
+  type: 'subscribe';
+  orderIds?: string[];
+  userId?: string;
+  // Last sequence seen per order; history after it is replayed (everything when omitted)
+  lastSequences?: Record<string, number>;
+}
+
+/**
+ * Stop receiving updates for orders and/or a user
+ */
+export interface UnsubscribeMessage {
+  type: 'unsubscribe';
+  orderIds?: string[];
+  userId?: string;
+}
+
+/**
+ * Keep-alive sent by clients
+ */
+export interface PingMessage {
+  type: 'ping';
+}
+
+/**
+ * Messages clients send over /ws
+ */
+export type ClientMessage = SubscribeMessage | UnsubscribeMessage | PingMessage;
+
+/**
+ * Sent once when a connection is opened
+ */
+export interface ConnectedMessage {
+  type: 'connected';
+  connectionId: string;
+  timestamp: Date;
+}
+
+/**
+ * Acknowledges a subscribe or unsubscribe with the connection's current subscriptions
+ */
+export interface SubscriptionAckMessage {
+  type: 'subscribed' | 'unsubscribed';
+  orderIds: string[];
+  userIds: string[];
+  timestamp: Date;
+}
+
+/**
+ * Order lifecycle update
+ */
+export interface OrderUpdateMessage {
+  type: 'order_update';
+  orderId: string;
+  userId?: string;
+  status: string;
+  data?: any;
+  sequence?: number;
+  replayed?: boolean;
+  timestamp: Date;
+}
+
+/**
+ * Marks the end of an order's history replay; live updates follow
+ */
+export interface ReplayCompleteMessage {
+  type: 'replay_complete';
+  orderId: string;
+  lastSequence: number;
+  timestamp: Date;
+}
+
+/**
+ * Reply to a client ping
+ */
+export interface PongMessage {
+  type: 'pong';
+  timestamp: Date;
+}
+
+/**
+ * Rejected client message
+ */
+export interface ErrorMessage {
+  type: 'error';
+  message: string;
+  timestamp: Date;
+}
+
+/**
+ * Server-wide notice sent to every connection
+ */
+export interface SystemMessage {
+  type: 'system';
+  status: string;
+  data?: any;
+  timestamp: Date;
+}
+
+/**
+ * Messages the server sends over /ws
+ */
+export type ServerMessage =
+  | ConnectedMessage
+  | SubscriptionAckMessage
+  | OrderUpdateMessage
+  | ReplayCompleteMessage
+  | PongMessage
+  | ErrorMessage
+  | SystemMessage;
+
+/**
+ * Persisted order status change used to replay history
+ */
+export interface OrderHistoryEvent {
+  sequence: number;
+  status: string;
+  data?: any;
+  timestamp: Date;
+}
+
+/**
+ * Loads an order's events after a given sequence, oldest first
+ */
+export type OrderHistoryProvider = (orderId: string, afterSequence: number) => Promise<OrderHistoryEvent[]>;
+
+/**
+ * Returns the subset of orderIds owned by a user
+ */
+export type OrderAccessChecker = (userId: string, orderIds: string[]) => Promise<string[]>;
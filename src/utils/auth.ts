@@ -0,0 +1,135 @@
+// src/utils/auth.ts
+import { createHash, timingSafeEqual } from 'crypto';
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { ApiKeyService } from '../services/apiKeyService';
+import { logger } from './logger';
+
+/**
+ * Read the API key from `Authorization: Bearer`, `X-API-Key`, or (WebSocket upgrades only,
+ * since browsers cannot set headers there) the `apiKey` query parameter
+ * @param request - Fastify request
+ * @returns string | undefined - Raw API key
+ */
+export function extractApiKey(request: FastifyRequest): string | undefined {
+  const authorization = request.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || undefined;
+  }
+
+  const headerKey = request.headers['x-api-key'];
+  if (typeof headerKey === 'string' && headerKey.length > 0) {
+    return headerKey;
+  }
+
+  if (getRoutePath(request).startsWith('/ws')) {
+    const queryKey = (request.query as Record<string, unknown> | undefined)?.apiKey;
+    if (typeof queryKey === 'string' && queryKey.length > 0) {
+      return queryKey;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Create the onRequest hook that authenticates requests matching /api and /ws routes
+ * /api/admin routes require ADMIN_API_KEY instead of a user key
+ * @param apiKeyService - Resolves user API keys
+ * @param adminApiKey - Key for admin routes (admin routes are disabled when unset)
+ * @returns Hook handler
+ */
+export function createAuthHook(
+  apiKeyService: ApiKeyService,
+  adminApiKey: string | undefined = process.env.ADMIN_API_KEY
+) {
+  return async (request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply | void> => {
+    const path = getRoutePath(request);
+
+    if (!path.startsWith('/api') && !path.startsWith('/ws')) {
+      return;
+    }
+
+    const apiKey = extractApiKey(request);
+
+    if (path.startsWith('/api/admin')) {
+      if (!adminApiKey) {
+        return reply.status(403).send({
+          error: 'Forbidden',
+          message: 'Admin API is disabled (ADMIN_API_KEY is not set)'
+        });
+      }
+
+      if (!apiKey || !keysMatch(apiKey, adminApiKey)) {
+        return reply.status(401).send({
+          error: 'Unauthorized',
+          message: 'Invalid admin API key'
+        });
+      }
+
+      return;
+    }
+
+    if (!apiKey) {
+      return reply.status(401).send({
+        error: 'Unauthorized',
+        message: 'Missing API key (use Authorization: Bearer <key> or X-API-Key)'
+      });
+    }
+
+    try {
+      const auth = await apiKeyService.authenticate(apiKey);
+
+      if (!auth) {
+        return reply.status(401).send({
+          error: 'Unauthorized',
+          message: 'Invalid or revoked API key'
+        });
+      }
+
+      request.auth = auth;
+    } catch (error) {
+      logger.logError(null, error, { context: 'API key authentication', url: request.url });
+
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to authenticate request'
+      });
+    }
+  };
+}
+
+/**
+ * Compare keys without leaking their contents through timing
+ * @param provided - Key sent by the client
+ * @param expected - Configured key
+ * @returns boolean - Whether the keys are equal
+ */
+function keysMatch(provided: string, expected: string): boolean {
+  const providedHash = createHash('sha256').update(provided).digest();
+  const expectedHash = createHash('sha256').update(expected).digest();
+
+  return timingSafeEqual(providedHash, expectedHash);
+}
+
+/**
+ * Path of the route the request matched, as registered (e.g. /api/orders/:orderId)
+ * The router matches the decoded path, so the raw URL would let percent-encoded paths skip authentication
+ * @param request - Fastify request
+ * @returns string - Route path, or '' when no route matched
+ */
+function getRoutePath(request: FastifyRequest): string {
+  return request.routeOptions?.url ?? '';
+}
+
+/**
+ * User bound to the request's API key
+ * @param request - Request that passed the auth hook
+ * @returns string - User identifier
+ */
+export function getAuthenticatedUserId(request: FastifyRequest): string {
+  if (!request.auth) {
+    throw new Error('Request is not authenticated');
+  }
+
+  return request.auth.userId;
+}
@@ -0,0 +1,148 @@
+import { ExecutionHop } from '../types/order';
+
+/**
+ * Machine-readable order failure codes
+ */
+export type OrderErrorCode = 'SLIPPAGE_EXCEEDED' | 'ORDER_CANCELLED' | 'QUOTE_EXPIRED' | 'ORDER_EXPIRED' | 'SWAP_FAILED' | 'ROUTE_INCOMPLETE';
+
+/**
+ * Order execution error
+ * Carries a failure code and structured details that are surfaced in ExecutionData
+ */
+export class OrderExecutionError extends Error {
+  public readonly code: OrderErrorCode;
+  public readonly details: Record<string, unknown>;
+  public readonly retryable: boolean;
+
+  constructor(code: OrderErrorCode, message: string, details: Record<string, unknown> = {}, retryable: boolean = false) {
+    super(message);
+    this.name = 'OrderExecutionError';
+    this.code = code;
+    this.details = details;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * Slippage protection details
+ */
+export interface SlippageDetails {
+  stage: 'submission' | 'execution'; // Re-quote before sending, or the fill itself
+  quotedAmountOut: number;
+  minAmountOut: number;
+  actualAmountOut: number;
+}
+
+/**
+ * Raised when a re-quote or fill would return less than the order's minAmountOut
+ */
+export class SlippageExceededError extends OrderExecutionError {
+  public readonly slippage: SlippageDetails;
+
+  constructor(details: SlippageDetails) {
+    super(
+      'SLIPPAGE_EXCEEDED',
+      `Slippage tolerance exceeded at ${details.stage}: expected at least ${details.minAmountOut} but got ${details.actualAmountOut}`,
+      { ...details }
+    );
+    this.name = 'SlippageExceededError';
+    this.slippage = details;
+  }
+}
+
+/**
+ * Raised at a processing checkpoint when the order has been cancelled
+ */
+export class OrderCancelledError extends OrderExecutionError {
+  public readonly reason: string;
+
+  constructor(orderId: string, reason: string) {
+    super('ORDER_CANCELLED', `Order ${orderId} was cancelled: ${reason}`, { reason });
+    this.name = 'OrderCancelledError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Raised when a firm-quote order cannot be filled before its quote expires
+ */
+export class QuoteExpiredError extends OrderExecutionError {
+  public readonly quoteId: string;
+
+  constructor(quoteId: string, expiresAt: Date) {
+    super('QUOTE_EXPIRED', `Quote ${quoteId} expired at ${expiresAt.toISOString()}`, { quoteId, expiresAt: expiresAt.toISOString() });
+    this.name = 'QuoteExpiredError';
+    this.quoteId = quoteId;
+  }
+}
+
+/**
+ * Raised at a processing checkpoint when a good-till-time order has passed its expiry
+ */
+export class OrderExpiredError extends OrderExecutionError {
+  public readonly expiresAt: Date;
+
+  constructor(orderId: string, expiresAt: Date) {
+    super('ORDER_EXPIRED', `Order ${orderId} expired at ${expiresAt.toISOString()}`, { expiresAt: expiresAt.toISOString() });
+    this.name = 'OrderExpiredError';
+    this.expiresAt = expiresAt;
+  }
+}
+
+/**
+ * Raised when a swap sent to a venue fails
+ * Never retried: the venue may have executed part of the route, and a retry would route the full amount again
+ */
+export class SwapFailedError extends OrderExecutionError {
+  constructor(message: string, details: Record<string, unknown> = {}) {
+    super('SWAP_FAILED', message, details);
+    this.name = 'SwapFailedError';
+  }
+}
+
+/**
+ * Raised when a multi-hop route fails after earlier hops executed
+ * The output of the last completed hop is left with the user in an intermediate token
+ */
+export class RouteIncompleteError extends OrderExecutionError {
+  public readonly path: ExecutionHop[];
+  public readonly heldToken: string;
+  public readonly heldAmount: number;
+
+  constructor(message: string, path: ExecutionHop[]) {
+    const lastHop = path[path.length - 1];
+
+    super('ROUTE_INCOMPLETE', message, { heldToken: lastHop.tokenOut, heldAmount: lastHop.amountOut });
+    this.name = 'RouteIncompleteError';
+    this.path = path;
+    this.heldToken = lastHop.tokenOut;
+    this.heldAmount = lastHop.amountOut;
+  }
+}
+
+/**
+ * Raised when a withdrawal or order reservation needs more than the available balance
+ */
+export class InsufficientBalanceError extends Error {
+  public readonly token: string;
+  public readonly requested: number;
+  public readonly available: number;
+
+  constructor(token: string, requested: number, available: number) {
+    super(`Insufficient ${token} balance: requested ${requested} but only ${available} available`);
+    this.name = 'InsufficientBalanceError';
+    this.token = token;
+    this.requested = requested;
+    this.available = available;
+  }
+}
+
+/**
+ * Raised when no venue can quote a requested swap
+ */
+export class QuoteUnavailableError extends Error {
+  constructor(tokenIn: string, tokenOut: string, reason: string) {
+    super(`No quote available for ${tokenIn}/${tokenOut}: ${reason}`);
+    this.name = 'QuoteUnavailableError';
+  }
+}
@@ -13,6 +13,7 @@ jest.mock('ioredis', () => {
     hget: jest.fn().mockResolvedValue('test'),
     incr: jest.fn().mockResolvedValue(1),
     get: jest.fn().mockResolvedValue('0'),
+    set: jest.fn().mockResolvedValue('OK'),
     quit: jest.fn().mockResolvedValue('OK'),
   };
   return jest.fn(() => mockRedis);
@@ -34,6 +35,7 @@ jest.mock('pg', () => ({
 jest.mock('bullmq', () => ({
   Queue: jest.fn().mockImplementation(() => ({
     add: jest.fn().mockResolvedValue({ id: 'test-job-id' }),
+    getJob: jest.fn().mockResolvedValue(undefined),
     getJobCounts: jest.fn().mockResolvedValue({
       waiting: 0,
       active: 0,
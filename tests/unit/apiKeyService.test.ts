@@ -0,0 +1,74 @@
+import { ApiKeyService } from '../../src/services/apiKeyService';
+
+// Mock dependencies
+jest.mock('../../src/utils/logger');
+
+describe('ApiKeyService', () => {
+  let pgPool: { query: jest.Mock };
+  let apiKeyService: ApiKeyService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    pgPool = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+    apiKeyService = new ApiKeyService(pgPool);
+  });
+
+  describe('createKey', () => {
+    it('should store only the hash and return the raw key once', async () => {
+      const createdAt = new Date();
+      pgPool.query.mockResolvedValueOnce({ rows: [{ id: 1, user_id: 'user123', name: 'trading-bot', created_at: createdAt }] });
+
+      const issued = await apiKeyService.createKey('user123', 'trading-bot');
+
+      expect(issued.apiKey).toMatch(/^oek_[0-9a-f]{48}$/);
+      expect(issued).toEqual(expect.objectContaining({ id: 1, userId: 'user123', name: 'trading-bot', createdAt }));
+
+      const [, params] = pgPool.query.mock.calls[0];
+      expect(params[0]).toBe(ApiKeyService.hashKey(issued.apiKey));
+      expect(params).not.toContain(issued.apiKey);
+    });
+
+    it('should issue distinct keys', async () => {
+      pgPool.query.mockResolvedValue({ rows: [{ id: 1, user_id: 'user123', created_at: new Date() }] });
+
+      const first = await apiKeyService.createKey('user123');
+      const second = await apiKeyService.createKey('user123');
+
+      expect(first.apiKey).not.toBe(second.apiKey);
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should resolve active keys to their user', async () => {
+      pgPool.query.mockResolvedValueOnce({ rows: [{ id: 7, user_id: 'user123' }] });
+
+      const auth = await apiKeyService.authenticate('oek_abc');
+
+      expect(auth).toEqual({ userId: 'user123', keyId: 7 });
+      expect(pgPool.query).toHaveBeenCalledWith(
+        'SELECT id, user_id FROM api_keys WHERE key_hash = $1 AND revoked_at IS NULL',
+        [ApiKeyService.hashKey('oek_abc')]
+      );
+      expect(pgPool.query).toHaveBeenCalledWith('UPDATE api_keys SET last_used_at = $1 WHERE id = $2', [expect.any(Date), 7]);
+    });
+
+    it('should reject unknown or revoked keys', async () => {
+      expect(await apiKeyService.authenticate('oek_unknown')).toBeNull();
+    });
+
+    it('should reject keys without the prefix without querying', async () => {
+      expect(await apiKeyService.authenticate('not-a-key')).toBeNull();
+      expect(pgPool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeKey', () => {
+    it('should report whether an active key was revoked', async () => {
+      pgPool.query.mockResolvedValueOnce({ rows: [{ id: 7 }] });
+
+      expect(await apiKeyService.revokeKey(7)).toBe(true);
+      expect(await apiKeyService.revokeKey(7)).toBe(false);
+    });
+  });
+});
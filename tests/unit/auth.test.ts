@@ -0,0 +1,152 @@
+import Fastify from 'fastify';
+import { createAuthHook, extractApiKey } from '../../src/utils/auth';
+import { ApiKeyService } from '../../src/services/apiKeyService';
+
+// Encoded-path tests run against a real Fastify instance
+jest.unmock('fastify');
+
+// Mock dependencies
+jest.mock('../../src/utils/logger');
+
+// The hook decides on the route the request matched, which here is its path
+const buildRequest = (url: string, headers: Record<string, string> = {}, query: Record<string, string> = {}) =>
+  ({ url, headers, query, routeOptions: { url: url.split('?')[0] } }) as any;
+
+const buildReply = () => {
+  const reply: any = {};
+  reply.status = jest.fn(() => reply);
+  reply.send = jest.fn(() => reply);
+  return reply;
+};
+
+describe('auth', () => {
+  let apiKeyService: { authenticate: jest.Mock };
+  let hook: ReturnType<typeof createAuthHook>;
+
+  beforeEach(() => {
+    apiKeyService = { authenticate: jest.fn().mockResolvedValue({ userId: 'user123', keyId: 1 }) };
+    hook = createAuthHook(apiKeyService as unknown as ApiKeyService, 'admin-secret');
+  });
+
+  describe('extractApiKey', () => {
+    it('should read bearer tokens and X-API-Key headers', () => {
+      expect(extractApiKey(buildRequest('/api/orders', { authorization: 'Bearer oek_1' }))).toBe('oek_1');
+      expect(extractApiKey(buildRequest('/api/orders', { 'x-api-key': 'oek_2' }))).toBe('oek_2');
+    });
+
+    it('should only accept the query parameter on WebSocket paths', () => {
+      expect(extractApiKey(buildRequest('/ws?apiKey=oek_3', {}, { apiKey: 'oek_3' }))).toBe('oek_3');
+      expect(extractApiKey(buildRequest('/api/orders?apiKey=oek_3', {}, { apiKey: 'oek_3' }))).toBeUndefined();
+    });
+  });
+
+  describe('createAuthHook', () => {
+    it('should attach the user to authenticated requests', async () => {
+      const request = buildRequest('/api/orders', { authorization: 'Bearer oek_1' });
+      const reply = buildReply();
+
+      await hook(request, reply);
+
+      expect(request.auth).toEqual({ userId: 'user123', keyId: 1 });
+      expect(reply.status).not.toHaveBeenCalled();
+    });
+
+    it('should protect WebSocket upgrades', async () => {
+      const reply = buildReply();
+
+      await hook(buildRequest('/ws'), reply);
+
+      expect(reply.status).toHaveBeenCalledWith(401);
+    });
+
+    it('should reject requests without a key', async () => {
+      const reply = buildReply();
+
+      await hook(buildRequest('/api/orders'), reply);
+
+      expect(reply.status).toHaveBeenCalledWith(401);
+      expect(apiKeyService.authenticate).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid keys', async () => {
+      apiKeyService.authenticate.mockResolvedValue(null);
+      const reply = buildReply();
+
+      await hook(buildRequest('/api/orders', { 'x-api-key': 'oek_bad' }), reply);
+
+      expect(reply.status).toHaveBeenCalledWith(401);
+      expect(reply.send).toHaveBeenCalledWith(expect.objectContaining({ message: 'Invalid or revoked API key' }));
+    });
+
+    it('should leave health and root endpoints open', async () => {
+      const reply = buildReply();
+
+      await hook(buildRequest('/health'), reply);
+      await hook(buildRequest('/'), reply);
+
+      expect(reply.status).not.toHaveBeenCalled();
+    });
+
+    it('should require the admin key for admin routes', async () => {
+      const userReply = buildReply();
+      await hook(buildRequest('/api/admin/api-keys', { authorization: 'Bearer oek_1' }), userReply);
+      expect(userReply.status).toHaveBeenCalledWith(401);
+
+      const adminReply = buildReply();
+      await hook(buildRequest('/api/admin/api-keys', { authorization: 'Bearer admin-secret' }), adminReply);
+      expect(adminReply.status).not.toHaveBeenCalled();
+      expect(apiKeyService.authenticate).not.toHaveBeenCalled();
+    });
+
+    it('should disable admin routes when no admin key is configured', async () => {
+      const reply = buildReply();
+
+      await createAuthHook(apiKeyService as unknown as ApiKeyService, undefined)(
+        buildRequest('/api/admin/api-keys', { authorization: 'Bearer anything' }),
+        reply
+      );
+
+      expect(reply.status).toHaveBeenCalledWith(403);
+    });
+  });
+
+  describe('percent-encoded paths', () => {
+    const buildApp = async (adminApiKey: string | undefined) => {
+      const app = Fastify();
+      app.addHook('onRequest', createAuthHook(apiKeyService as unknown as ApiKeyService, adminApiKey));
+      app.post('/api/admin/api-keys', async () => ({ created: true }));
+      app.get('/api/orders', async () => ({ orders: [] }));
+      app.get('/ws', async () => ({ upgraded: true }));
+      await app.ready();
+      return app;
+    };
+
+    it.each(['/%61pi/orders', '/api/%6Frders', '/%77s', '/%77s?apiKey='])('should authenticate %s like the route it matches', async (url) => {
+      const app = await buildApp('admin-secret');
+
+      const response = await app.inject({ method: 'GET', url });
+
+      expect(response.statusCode).toBe(401);
+      await app.close();
+    });
+
+    it('should require the admin key for encoded admin paths', async () => {
+      const app = await buildApp('admin-secret');
+
+      const response = await app.inject({ method: 'POST', url: '/%61pi/admin/api-keys', payload: { userId: 'attacker' } });
+
+      expect(response.statusCode).toBe(401);
+      expect(apiKeyService.authenticate).not.toHaveBeenCalled();
+      await app.close();
+    });
+
+    it('should keep encoded admin paths disabled without an admin key', async () => {
+      const app = await buildApp(undefined);
+
+      const response = await app.inject({ method: 'POST', url: '/api/%61dmin/api-keys', headers: { authorization: 'Bearer oek_1' } });
+
+      expect(response.statusCode).toBe(403);
+      await app.close();
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { BalanceLedger } from '../../src/services/balanceLedger';
+import { InsufficientBalanceError } from '../../src/utils/errors';
+
+// Mock dependencies
+jest.mock('../../src/utils/logger');
+
+describe('BalanceLedger', () => {
+  let client: { query: jest.Mock; release: jest.Mock };
+  let pgPool: { query: jest.Mock; connect: jest.Mock };
+  let balanceLedger: BalanceLedger;
+
+  const balanceRow = (available: string, reserved: string = '0') =>
+    ({ user_id: 'user123', token: 'SOL', available, reserved, updated_at: new Date() });
+
+  // Route transaction queries by their leading SQL
+  const respond = (responses: Record<string, any[]>) =>
+    client.query.mockImplementation(async (sql: string) => {
+      const match = Object.keys(responses).find(prefix => sql.trim().startsWith(prefix));
+      return { rows: match ? responses[match] : [] };
+    });
+
+  const statements = () => client.query.mock.calls.map(call => call[0].trim().split(/\s+/).slice(0, 3).join(' '));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    client = { query: jest.fn().mockResolvedValue({ rows: [] }), release: jest.fn() };
+    pgPool = { query: jest.fn().mockResolvedValue({ rows: [] }), connect: jest.fn().mockResolvedValue(client) };
+    balanceLedger = new BalanceLedger(pgPool);
+  });
+
+  describe('deposit', () => {
+    it('should credit the balance and record the deposit in one transaction', async () => {
+      respond({ 'INSERT INTO balances': [balanceRow('10')] });
+
+      const balance = await balanceLedger.deposit('user123', 'SOL', 10);
+
+      expect(balance).toEqual(expect.objectContaining({ userId: 'user123', token: 'SOL', available: 10, reserved: 0 }));
+      expect(statements()).toEqual(['BEGIN', 'INSERT INTO balances', 'INSERT INTO balance_ledger', 'COMMIT']);
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO balance_ledger'), [
+        'user123', 'SOL', 'deposit', 10, 0, null
+      ]);
+      expect(client.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('withdraw', () => {
+    it('should reject withdrawals above the available balance', async () => {
+      respond({ 'SELECT available': [{ available: '2' }] });
+
+      const error = await balanceLedger.withdraw('user123', 'SOL', 5).catch(err => err);
+
+      expect(error).toBeInstanceOf(InsufficientBalanceError);
+      expect(error).toEqual(expect.objectContaining({ token: 'SOL', requested: 5, available: 2 }));
+      expect(statements()).toContain('ROLLBACK');
+      expect(statements()).not.toContain('COMMIT');
+    });
+  });
+
+  describe('reserve', () => {
+    it('should move funds to reserved and record the reservation', async () => {
+      respond({ 'UPDATE balances': [balanceRow('8.5', '1.5')] });
+
+      await balanceLedger.reserve('order-1', 'user123', 'SOL', 1.5);
+
+      expect(client.query).toHaveBeenCalledWith(
+        'INSERT INTO balance_reservations (order_id, user_id, token, amount) VALUES ($1, $2, $3, $4)',
+        ['order-1', 'user123', 'SOL', 1.5]
+      );
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO balance_ledger'), [
+        'user123', 'SOL', 'reserve', -1.5, 1.5, 'order-1'
+      ]);
+      expect(statements()).toContain('COMMIT');
+    });
+
+    it('should reject orders the balance cannot cover', async () => {
+      await expect(balanceLedger.reserve('order-1', 'user123', 'SOL', 1.5)).rejects.toThrow(
+        new InsufficientBalanceError('SOL', 1.5, 0)
+      );
+      expect(statements()).not.toContain('INSERT INTO balance_reservations');
+    });
+  });
+
+  describe('transferReservation', () => {
+    it('should move part of a held reservation to another order', async () => {
+      respond({ 'UPDATE balance_reservations': [{ user_id: 'user123', token: 'SOL' }] });
+
+      expect(await balanceLedger.transferReservation('parent', 'child', 0.5)).toBe(true);
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO balance_reservations'), [
+        'child', 'user123', 'SOL', 0.5
+      ]);
+      // The user's balance does not change, so nothing is written to it or the ledger
+      expect(statements()).not.toContain('UPDATE balances SET');
+      expect(statements()).not.toContain('INSERT INTO balance_ledger');
+    });
+
+    it('should not move more than the source reservation holds', async () => {
+      expect(await balanceLedger.transferReservation('parent', 'child', 5)).toBe(false);
+      expect(statements()).not.toContain('INSERT INTO balance_reservations');
+    });
+  });
+
+  describe('release', () => {
+    it('should return held funds to available', async () => {
+      respond({ 'UPDATE balance_reservations': [{ user_id: 'user123', token: 'SOL', amount: '1.5' }] });
+
+      expect(await balanceLedger.release('order-1')).toBe(true);
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('available = available + $3, reserved = reserved - $3'), [
+        'user123', 'SOL', 1.5
+      ]);
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO balance_ledger'), [
+        'user123', 'SOL', 'release', 1.5, -1.5, 'order-1'
+      ]);
+    });
+
+    it('should do nothing once the reservation is closed', async () => {
+      expect(await balanceLedger.release('order-1')).toBe(false);
+      expect(statements()).not.toContain('UPDATE balances SET');
+    });
+  });
+
+  describe('settle', () => {
+    it('should consume the reservation and credit the amount received', async () => {
+      respond({
+        'UPDATE balance_reservations': [{ user_id: 'user123', token: 'SOL', amount: '1.5' }],
+        'INSERT INTO balances': [{ ...balanceRow('148.5'), token: 'USDC' }]
+      });
+
+      expect(await balanceLedger.settle('order-1', 'USDC', 148.5)).toBe(true);
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO balance_ledger'), [
+        'user123', 'SOL', 'settle_debit', 0, -1.5, 'order-1'
+      ]);
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO balance_ledger'), [
+        'user123', 'USDC', 'settle_credit', 148.5, 0, 'order-1'
+      ]);
+    });
+
+    it('should release the unfilled part of a partial fill', async () => {
+      respond({
+        'UPDATE balance_reservations': [{ user_id: 'user123', token: 'SOL', amount: '1.5' }],
+        'INSERT INTO balances': [{ ...balanceRow('99'), token: 'USDC' }]
+      });
+
+      expect(await balanceLedger.settle('order-1', 'USDC', 99, 1)).toBe(true);
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('UPDATE balances SET available = available + $4'), [
+        'user123', 'SOL', 1.5, 0.5
+      ]);
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO balance_ledger'), [
+        'user123', 'SOL', 'settle_debit', 0, -1, 'order-1'
+      ]);
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO balance_ledger'), [
+        'user123', 'SOL', 'release', 0.5, -0.5, 'order-1'
+      ]);
+    });
+
+    it('should not settle an order twice', async () => {
+      expect(await balanceLedger.settle('order-1', 'USDC', 148.5)).toBe(false);
+      expect(statements()).not.toContain('INSERT INTO balances');
+    });
+  });
+});
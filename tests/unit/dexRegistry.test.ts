@@ -0,0 +1,59 @@
+import { DexRegistry, createDefaultDexRegistry } from '../../src/services/dexRegistry';
+import { DexAdapter } from '../../src/types/dex';
+
+// Mock dependencies
+jest.mock('../../src/utils/logger');
+
+const buildAdapter = (name: string): DexAdapter => ({
+  name,
+  getQuote: jest.fn(),
+  executeSwap: jest.fn(),
+  health: jest.fn()
+});
+
+describe('DexRegistry', () => {
+  let registry: DexRegistry;
+
+  beforeEach(() => {
+    registry = new DexRegistry();
+  });
+
+  it('should register and look up adapters', () => {
+    const orca = buildAdapter('orca');
+
+    registry.register(orca);
+
+    expect(registry.has('orca')).toBe(true);
+    expect(registry.get('orca')).toBe(orca);
+  });
+
+  it('should list adapters in registration order', () => {
+    registry.register(buildAdapter('phoenix'));
+    registry.register(buildAdapter('orca'));
+
+    expect(registry.getNames()).toEqual(['phoenix', 'orca']);
+    expect(registry.list()).toHaveLength(2);
+  });
+
+  it('should reject duplicate registrations', () => {
+    registry.register(buildAdapter('orca'));
+
+    expect(() => registry.register(buildAdapter('orca'))).toThrow('DEX adapter already registered: orca');
+  });
+
+  it('should throw for unknown venues', () => {
+    expect(() => registry.get('orca')).toThrow('Unknown DEX: orca');
+  });
+
+  it('should unregister adapters', () => {
+    registry.register(buildAdapter('orca'));
+
+    expect(registry.unregister('orca')).toBe(true);
+    expect(registry.has('orca')).toBe(false);
+    expect(registry.unregister('orca')).toBe(false);
+  });
+
+  it('should create a default registry with the built-in venues', () => {
+    expect(createDefaultDexRegistry().getNames()).toEqual(['raydium', 'meteora']);
+  });
+});
@@ -0,0 +1,69 @@
+import { ExpiryScheduler } from '../../src/services/expiryScheduler';
+
+// Mock dependencies
+jest.mock('../../src/utils/logger');
+
+const flushSweeps = () => new Promise(resolve => setTimeout(resolve, 50));
+
+describe('ExpiryScheduler', () => {
+  let mockPgPool: { query: jest.Mock };
+  let scheduler: ExpiryScheduler;
+  let onExpire: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockPgPool = {
+      query: jest.fn().mockResolvedValue({ rows: [{ id: 'order-1' }, { id: 'order-2' }] })
+    };
+    onExpire = jest.fn().mockResolvedValue(undefined);
+    // One sweep on start, then nothing within a test
+    scheduler = new ExpiryScheduler(mockPgPool, 60000, 50);
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+  });
+
+  it('should hand every due order that no worker has picked up to the handler', async () => {
+    scheduler.start(onExpire);
+    await flushSweeps();
+
+    expect(mockPgPool.query).toHaveBeenCalledWith(
+      expect.stringContaining('expires_at <= $1 AND status = ANY($2)'),
+      [expect.any(Date), ['pending', 'waiting', 'triggered'], 50]
+    );
+    expect(onExpire).toHaveBeenCalledWith('order-1');
+    expect(onExpire).toHaveBeenCalledWith('order-2');
+  });
+
+  it('should keep sweeping when the handler fails for one order', async () => {
+    onExpire.mockRejectedValueOnce(new Error('Redis unavailable'));
+
+    scheduler.start(onExpire);
+    await flushSweeps();
+
+    expect(onExpire).toHaveBeenCalledTimes(2);
+  });
+
+  it('should do nothing before it is started', async () => {
+    await expect(scheduler.sweep()).resolves.toBe(0);
+    expect(mockPgPool.query).not.toHaveBeenCalled();
+  });
+
+  it('should sweep repeatedly until stopped', async () => {
+    mockPgPool.query.mockResolvedValue({ rows: [] });
+    scheduler = new ExpiryScheduler(mockPgPool, 10, 50);
+
+    scheduler.start(onExpire);
+    await flushSweeps();
+    scheduler.stop();
+
+    const sweeps = mockPgPool.query.mock.calls.length;
+    expect(sweeps).toBeGreaterThan(1);
+    expect(scheduler.isRunning()).toBe(false);
+
+    await flushSweeps();
+    expect(mockPgPool.query).toHaveBeenCalledTimes(sweeps);
+  });
+});
@@ -0,0 +1,88 @@
+import { IdempotencyStore } from '../../src/services/idempotencyStore';
+
+describe('IdempotencyStore', () => {
+  let redis: { set: jest.Mock; get: jest.Mock; del: jest.Mock };
+  let store: IdempotencyStore;
+  const fingerprint = IdempotencyStore.fingerprint({ type: 'market', tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1 });
+
+  beforeEach(() => {
+    redis = {
+      set: jest.fn().mockResolvedValue('OK'),
+      get: jest.fn().mockResolvedValue(null),
+      del: jest.fn().mockResolvedValue(1)
+    };
+    store = new IdempotencyStore(redis as any, 600);
+  });
+
+  describe('fingerprint', () => {
+    it('should ignore field order and undefined fields', () => {
+      const reordered = IdempotencyStore.fingerprint({ amountIn: 1, tokenOut: 'USDC', tokenIn: 'SOL', type: 'market', limitPrice: undefined });
+
+      expect(reordered).toBe(fingerprint);
+    });
+
+    it('should differ when a field changes', () => {
+      const changed = IdempotencyStore.fingerprint({ type: 'market', tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 2 });
+
+      expect(changed).not.toBe(fingerprint);
+    });
+  });
+
+  describe('reserve', () => {
+    it('should claim unused keys with a TTL, scoped per user', async () => {
+      const result = await store.reserve('retry-1', fingerprint, 'user123');
+
+      expect(result).toEqual({ outcome: 'reserved' });
+      expect(redis.set).toHaveBeenCalledWith(
+        'idempotency:user123:retry-1',
+        expect.stringContaining('"pending"'),
+        'EX', 600, 'NX'
+      );
+    });
+
+    it('should return the stored response for completed keys', async () => {
+      const response = { orderId: 'order-1', status: 'pending' };
+      redis.set.mockResolvedValueOnce(null);
+      redis.get.mockResolvedValue(JSON.stringify({ state: 'completed', fingerprint, response }));
+
+      const result = await store.reserve('retry-1', fingerprint);
+
+      expect(result).toEqual({ outcome: 'completed', response });
+      expect(redis.get).toHaveBeenCalledWith('idempotency:anonymous:retry-1');
+    });
+
+    it('should report keys whose first request is still running', async () => {
+      redis.set.mockResolvedValueOnce(null);
+      redis.get.mockResolvedValue(JSON.stringify({ state: 'pending', fingerprint }));
+
+      expect(await store.reserve('retry-1', fingerprint)).toEqual({ outcome: 'in_progress' });
+    });
+
+    it('should reject keys reused for a different request', async () => {
+      redis.set.mockResolvedValueOnce(null);
+      redis.get.mockResolvedValue(JSON.stringify({ state: 'completed', fingerprint: 'other', response: {} }));
+
+      expect(await store.reserve('retry-1', fingerprint)).toEqual({ outcome: 'mismatch' });
+    });
+  });
+
+  describe('complete and release', () => {
+    it('should store the response for replay', async () => {
+      const response = { orderId: 'order-1' };
+
+      await store.complete('retry-1', fingerprint, response, 'user123');
+
+      expect(redis.set).toHaveBeenCalledWith(
+        'idempotency:user123:retry-1',
+        JSON.stringify({ state: 'completed', fingerprint, response }),
+        'EX', 600
+      );
+    });
+
+    it('should delete released keys', async () => {
+      await store.release('retry-1', 'user123');
+
+      expect(redis.del).toHaveBeenCalledWith('idempotency:user123:retry-1');
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { LeaderElection } from '../../src/services/leaderElection';
+
+// Mock dependencies
+jest.mock('../../src/config/database');
+jest.mock('../../src/utils/logger');
+
+describe('LeaderElection', () => {
+  let mockRedis: { set: jest.Mock; eval: jest.Mock };
+  let election: LeaderElection;
+  let onElected: jest.Mock;
+  let onDeposed: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockRedis = {
+      set: jest.fn().mockResolvedValue('OK'),
+      eval: jest.fn().mockResolvedValue(1)
+    };
+    onElected = jest.fn().mockResolvedValue(undefined);
+    onDeposed = jest.fn();
+    election = new LeaderElection(mockRedis as any, 'test-leader', 60000, 'instance-1');
+  });
+
+  afterEach(async () => {
+    await election.stop();
+  });
+
+  it('should take the lease when nobody holds it', async () => {
+    election.start(onElected, onDeposed);
+
+    await expect(election.renew()).resolves.toBe(true);
+
+    expect(mockRedis.set).toHaveBeenCalledWith('test-leader', 'instance-1', 'PX', 60000, 'NX');
+    expect(onElected).toHaveBeenCalledTimes(1);
+    expect(election.isLeader()).toBe(true);
+  });
+
+  it('should stay a follower while another instance holds the lease', async () => {
+    mockRedis.set.mockResolvedValue(null);
+    election.start(onElected, onDeposed);
+
+    await expect(election.renew()).resolves.toBe(false);
+
+    expect(onElected).not.toHaveBeenCalled();
+    expect(election.isLeader()).toBe(false);
+  });
+
+  it('should renew its own lease without being elected again', async () => {
+    election.start(onElected, onDeposed);
+    await election.renew();
+
+    await election.renew();
+
+    expect(mockRedis.eval).toHaveBeenCalledWith(expect.stringContaining('PEXPIRE'), 1, 'test-leader', 'instance-1', 60000);
+    expect(onElected).toHaveBeenCalledTimes(1);
+  });
+
+  it('should step down when the lease was taken over', async () => {
+    election.start(onElected, onDeposed);
+    await election.renew();
+    mockRedis.eval.mockResolvedValue(0);
+
+    await expect(election.renew()).resolves.toBe(false);
+
+    expect(onDeposed).toHaveBeenCalledTimes(1);
+    expect(election.isLeader()).toBe(false);
+  });
+
+  it('should step down when the lease cannot be renewed', async () => {
+    election = new LeaderElection(mockRedis as any, 'test-leader', 30, 'instance-1');
+    election.start(onElected, onDeposed);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    mockRedis.eval.mockRejectedValue(new Error('Connection lost'));
+    mockRedis.set.mockRejectedValue(new Error('Connection lost'));
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(onElected).toHaveBeenCalledTimes(1);
+    expect(onDeposed).toHaveBeenCalled();
+  });
+
+  it('should give up the lease when stopped', async () => {
+    election.start(onElected, onDeposed);
+    await election.renew();
+
+    await election.stop();
+
+    expect(mockRedis.eval).toHaveBeenCalledWith(expect.stringContaining('DEL'), 1, 'test-leader', 'instance-1');
+    expect(election.isLeader()).toBe(false);
+  });
+});
@@ -1,13 +1,75 @@
 import { MockDexRouter } from '../../src/services/mockDexRouter';
+import { DexRegistry, createDefaultDexRegistry } from '../../src/services/dexRegistry';
 import { Order } from '../../src/types/order';
-import { DexQuote, DexName } from '../../src/types/dex';
+import { ConstantProductPool } from '../../src/services/pools/constantProductPool';
+import { DexAdapter, DexQuote } from '../../src/types/dex';
+import { SlippageExceededError } from '../../src/utils/errors';
+
+const buildQuote = (dex: string, amountOut: number, liquidity: number): DexQuote => ({
+  dex,
+  price: amountOut,
+  fee: 0.0025,
+  liquidity,
+  estimatedGas: 0.0001,
+  timestamp: new Date(),
+  amountOut,
+  priceImpact: 0.001
+});
+
+const buildAdapter = (name: string, amountOut: number): DexAdapter => ({
+  name,
+  getQuote: jest.fn().mockResolvedValue(buildQuote(name, amountOut, 500000)),
+  executeSwap: jest.fn().mockResolvedValue({
+    txHash: 'a'.repeat(64),
+    executedPrice: amountOut,
+    gasUsed: 0.0001,
+    slippageImpact: 1,
+    dex: name,
+    timestamp: new Date(),
+    amountOut
+  }),
+  health: jest.fn().mockResolvedValue({ dex: name, healthy: true, latencyMs: 1, checkedAt: new Date() })
+});
+
+// Adapter quoting instantly off constant-product pools ([tokenIn, tokenOut, reserveIn, reserveOut])
+const buildVenue = (name: string, seeds: [string, string, number, number][]): DexAdapter => {
+  const pools = seeds.map(([tokenIn, tokenOut, reserveIn, reserveOut]) => new ConstantProductPool({
+    dex: name,
+    poolId: `${name}-${tokenIn}-${tokenOut}`,
+    tokenIn,
+    tokenOut,
+    reserveIn,
+    reserveOut,
+    fee: 0.0025,
+    lastUpdate: new Date()
+  }));
+
+  return {
+    ...buildAdapter(name, 0),
+    getQuote: jest.fn(async (tokenIn: string, tokenOut: string, amount: number) => {
+      const pool = pools.find(candidate => candidate.hasPair(tokenIn, tokenOut));
+      if (!pool) throw new Error(`No ${name} pool for ${tokenIn}/${tokenOut}`);
+
+      const result = pool.quote(tokenIn, amount);
+      return {
+        ...buildQuote(name, result.amountOut, pool.getLiquidity(tokenIn)),
+        price: result.spotPrice,
+        priceImpact: result.priceImpact
+      };
+    }),
+    listPools: () => pools.map(pool => pool.getPoolInfo())
+  };
+};
+
+const buildPoolAdapter = (name: string, reserveIn: number, reserveOut: number): DexAdapter =>
+  buildVenue(name, [['SOL', 'USDC', reserveIn, reserveOut]]);
 
 describe('MockDexRouter', () => {
   let dexRouter: MockDexRouter;
   let mockOrder: Order;
 
   beforeEach(() => {
-    dexRouter = new MockDexRouter();
+    dexRouter = new MockDexRouter(createDefaultDexRegistry());
     mockOrder = {
       id: 'test-order-123',
       type: 'market',
@@ -21,9 +83,9 @@ describe('MockDexRouter', () => {
     };
   });
 
-  describe('getRaydiumQuote', () => {
+  describe('getQuote (raydium)', () => {
     it('should return a valid Raydium quote with correct structure', async () => {
-      const quote = await dexRouter.getRaydiumQuote('SOL', 'USDC', 1.5);
+      const quote = await dexRouter.getQuote('raydium', 'SOL', 'USDC', 1.5);
 
       expect(quote).toHaveProperty('dex', 'raydium');
       expect(quote).toHaveProperty('price');
@@ -39,24 +101,45 @@ describe('MockDexRouter', () => {
     });
 
     it('should return different prices for different amounts', async () => {
-      const quote1 = await dexRouter.getRaydiumQuote('SOL', 'USDC', 1.0);
-      const quote2 = await dexRouter.getRaydiumQuote('SOL', 'USDC', 2.0);
+      const quote1 = await dexRouter.getQuote('raydium', 'SOL', 'USDC', 1.0);
+      const quote2 = await dexRouter.getQuote('raydium', 'SOL', 'USDC', 2.0);
 
       expect(quote1.amountOut).not.toBe(quote2.amountOut);
       expect(quote1.priceImpact).not.toBe(quote2.priceImpact);
     });
 
-    it('should calculate amountOut correctly based on price and fees', async () => {
-      const quote = await dexRouter.getRaydiumQuote('SOL', 'USDC', 1.0);
-      const expectedAmountOut = 1.0 * quote.price * (1 - quote.fee);
+    it('should calculate amountOut with the constant-product formula', async () => {
+      const quote = await dexRouter.getQuote('raydium', 'SOL', 'USDC', 1.0);
+      const amountInAfterFee = 1.0 * (1 - quote.fee);
+      // Seeded raydium SOL/USDC pool holds 50k SOL / 5M USDC
+      const expectedAmountOut = (5000000 * amountInAfterFee) / (50000 + amountInAfterFee);
 
+      expect(quote.price).toBeCloseTo(100, 6);
       expect(quote.amountOut).toBeCloseTo(expectedAmountOut, 6);
     });
+
+    it('should return deterministic quotes for the same pool state', async () => {
+      const quote1 = await dexRouter.getQuote('raydium', 'SOL', 'USDC', 10);
+      const quote2 = await dexRouter.getQuote('raydium', 'SOL', 'USDC', 10);
+
+      expect(quote1.amountOut).toBe(quote2.amountOut);
+    });
+
+    it('should quote the reverse direction of a pool', async () => {
+      const quote = await dexRouter.getQuote('raydium', 'USDC', 'SOL', 100);
+
+      expect(quote.price).toBeCloseTo(0.01, 8);
+      expect(quote.amountOut).toBeLessThan(1);
+    });
+
+    it('should reject pairs without a pool', async () => {
+      await expect(dexRouter.getQuote('raydium', 'SOL', 'NOPE', 1.0)).rejects.toThrow('No raydium pool for SOL/NOPE');
+    });
   });
 
-  describe('getMeteorQuote', () => {
+  describe('getQuote (meteora)', () => {
     it('should return a valid Meteora quote with correct structure', async () => {
-      const quote = await dexRouter.getMeteorQuote('SOL', 'USDC', 1.5);
+      const quote = await dexRouter.getQuote('meteora', 'SOL', 'USDC', 1.5);
 
       expect(quote).toHaveProperty('dex', 'meteora');
       expect(quote).toHaveProperty('price');
@@ -72,80 +155,83 @@ describe('MockDexRouter', () => {
     });
 
     it('should have lower fees than Raydium', async () => {
-      const raydiumQuote = await dexRouter.getRaydiumQuote('SOL', 'USDC', 1.0);
-      const meteoraQuote = await dexRouter.getMeteorQuote('SOL', 'USDC', 1.0);
+      const raydiumQuote = await dexRouter.getQuote('raydium', 'SOL', 'USDC', 1.0);
+      const meteoraQuote = await dexRouter.getQuote('meteora', 'SOL', 'USDC', 1.0);
 
       expect(meteoraQuote.fee).toBeLessThan(raydiumQuote.fee);
     });
 
     it('should calculate price impact based on amount and liquidity', async () => {
-      const quote = await dexRouter.getMeteorQuote('SOL', 'USDC', 1000);
-      const expectedImpact = (1000 / 800000) * 0.08;
+      const smallQuote = await dexRouter.getQuote('meteora', 'SOL', 'USDC', 1);
+      const largeQuote = await dexRouter.getQuote('meteora', 'SOL', 'USDC', 1000);
 
-      expect(quote.priceImpact).toBeCloseTo(expectedImpact, 6);
+      // Small swaps fill inside the active bin at a fixed price
+      expect(smallQuote.priceImpact).toBeCloseTo(0, 10);
+      expect(largeQuote.priceImpact).toBeGreaterThan(0);
     });
   });
 
   describe('selectBestDex', () => {
-    it('should select Meteora when it has better total cost', async () => {
+    it('should select Meteora when it has better net output', async () => {
       const raydiumQuote: DexQuote = {
         dex: 'raydium',
-        price: 100,
+        price: 99,
         fee: 0.0025,
         liquidity: 1000000,
         estimatedGas: 0.0001,
         timestamp: new Date(),
-        amountOut: 99.75,
+        amountOut: 98.7525,
         priceImpact: 0.001
       };
 
       const meteoraQuote: DexQuote = {
         dex: 'meteora',
-        price: 99,
+        price: 100,
         fee: 0.002,
         liquidity: 800000,
         estimatedGas: 0.00008,
         timestamp: new Date(),
-        amountOut: 98.802,
+        amountOut: 99.8,
         priceImpact: 0.0008
       };
 
-      const decision = dexRouter.selectBestDex(raydiumQuote, meteoraQuote, 1.0);
+      const decision = dexRouter.selectBestDex([raydiumQuote, meteoraQuote], 1.0, 100);
 
       expect(decision.dex).toBe('meteora');
-      expect(decision.reason).toContain('better total cost');
+      expect(decision.reason).toContain('better output net of gas');
+      expect(decision.expectedAmountOut).toBe(99.8);
     });
 
-    it('should select Raydium when it has better total cost', async () => {
+    it('should select Raydium when it has better net output', async () => {
       const raydiumQuote: DexQuote = {
         dex: 'raydium',
-        price: 99,
+        price: 100,
         fee: 0.0025,
         liquidity: 1000000,
         estimatedGas: 0.0001,
         timestamp: new Date(),
-        amountOut: 98.7525,
+        amountOut: 99.75,
         priceImpact: 0.001
       };
 
       const meteoraQuote: DexQuote = {
         dex: 'meteora',
-        price: 100,
+        price: 99,
         fee: 0.002,
         liquidity: 800000,
         estimatedGas: 0.00008,
         timestamp: new Date(),
-        amountOut: 99.8,
+        amountOut: 98.802,
         priceImpact: 0.0008
       };
 
-      const decision = dexRouter.selectBestDex(raydiumQuote, meteoraQuote, 1.0);
+      const decision = dexRouter.selectBestDex([raydiumQuote, meteoraQuote], 1.0, 100);
 
       expect(decision.dex).toBe('raydium');
-      expect(decision.reason).toContain('better total cost');
+      expect(decision.reason).toContain('better output net of gas');
     });
 
-    it('should select based on liquidity when costs are equal', async () => {
+    it('should select based on liquidity when outputs are equal', async () => {
       const raydiumQuote: DexQuote = {
         dex: 'raydium',
         price: 100,
@@ -168,12 +254,38 @@ describe('MockDexRouter', () => {
         priceImpact: 0.001
       };
 
-      const decision = dexRouter.selectBestDex(raydiumQuote, meteoraQuote, 1.0);
+      const decision = dexRouter.selectBestDex([raydiumQuote, meteoraQuote], 1.0);
 
       expect(decision.dex).toBe('raydium');
       expect(decision.reason).toContain('higher liquidity');
     });
 
+    it('should price gas in the output token before comparing venues', () => {
+      // 0.0002 SOL of extra gas outweighs 500 more BONK at 5,000,000 BONK per SOL
+      const quotes: DexQuote[] = [
+        { ...buildQuote('raydium', 1000000, 800000), estimatedGas: 0.0001 },
+        { ...buildQuote('meteora', 1000500, 800000), estimatedGas: 0.0003 }
+      ];
+
+      const decision = dexRouter.selectBestDex(quotes, 1.0, 5000000);
+
+      expect(decision.dex).toBe('raydium');
+      expect(decision.reason).toBe('Raydium offers better output net of gas (999500.000000 vs 999000.000000)');
+      expect(decision.expectedAmountOut).toBe(1000000);
+    });
+
+    it('should compare raw output and break ties on gas when gas cannot be priced', () => {
+      const quotes: DexQuote[] = [
+        { ...buildQuote('raydium', 99.75, 1000000), estimatedGas: 0.0001 },
+        { ...buildQuote('meteora', 99.75, 800000), estimatedGas: 0.00008 }
+      ];
+
+      const decision = dexRouter.selectBestDex(quotes, 1.0);
+
+      expect(decision.dex).toBe('meteora');
+      expect(decision.reason).toBe('Equal output, Meteora costs less gas (0.00008 vs 0.0001 SOL)');
+    });
+
     it('should include alternatives in the decision', async () => {
       const raydiumQuote: DexQuote = {
         dex: 'raydium',
@@ -197,12 +309,331 @@ describe('MockDexRouter', () => {
         priceImpact: 0.0008
       };
 
-      const decision = dexRouter.selectBestDex(raydiumQuote, meteoraQuote, 1.0);
+      const decision = dexRouter.selectBestDex([raydiumQuote, meteoraQuote], 1.0);
 
       expect(decision.alternatives).toHaveLength(2);
       expect(decision.alternatives).toContain(raydiumQuote);
       expect(decision.alternatives).toContain(meteoraQuote);
     });
+
+    it('should select the best of any number of quotes', () => {
+      const quotes: DexQuote[] = [
+        buildQuote('raydium', 99.75, 1000000),
+        buildQuote('meteora', 98.8, 800000),
+        buildQuote('orca', 100.2, 500000)
+      ];
+
+      const decision = dexRouter.selectBestDex(quotes, 1.0);
+
+      expect(decision.dex).toBe('orca');
+      expect(decision.reason).toContain('Orca offers better output (100.200000 vs 99.750000)');
+      expect(decision.alternatives).toHaveLength(3);
+    });
+
+    it('should explain when only one DEX quoted', () => {
+      const decision = dexRouter.selectBestDex([buildQuote('meteora', 98.8, 800000)], 1.0);
+
+      expect(decision.dex).toBe('meteora');
+      expect(decision.reason).toContain('only DEX');
+    });
+
+    it('should throw without quotes', () => {
+      expect(() => dexRouter.selectBestDex([], 1.0)).toThrow('Cannot select a DEX without quotes');
+    });
+  });
+
+  describe('getGasPrice', () => {
+    let registry: DexRegistry;
+
+    beforeEach(() => {
+      registry = new DexRegistry();
+      dexRouter = new MockDexRouter(registry);
+    });
+
+    it('should price gas in SOL at par', () => {
+      expect(dexRouter.getGasPrice('SOL')).toBe(1);
+    });
+
+    it('should price gas from the deepest pool pairing SOL with the token', () => {
+      registry.register(buildVenue('raydium', [['BONK', 'SOL', 10000000000, 2000], ['SOL', 'USDC', 100, 9000]]));
+      registry.register(buildVenue('meteora', [['SOL', 'USDC', 10000, 1000000]]));
+
+      expect(dexRouter.getGasPrice('BONK')).toBe(5000000);
+      expect(dexRouter.getGasPrice('USDC')).toBe(100);
+    });
+
+    it('should leave gas unpriced for tokens without a SOL pool', () => {
+      registry.register(buildVenue('raydium', [['USDT', 'USDC', 1000000, 1000000]]));
+
+      expect(dexRouter.getGasPrice('USDC')).toBeUndefined();
+    });
+  });
+
+  describe('planRoute', () => {
+    let registry: DexRegistry;
+
+    beforeEach(() => {
+      registry = new DexRegistry();
+      dexRouter = new MockDexRouter(registry, 100, 10);
+    });
+
+    it('should route small orders to a single venue', async () => {
+      registry.register(buildPoolAdapter('raydium', 10000, 1000000));
+      registry.register(buildPoolAdapter('meteora', 10000, 1000000));
+      const quotes = await dexRouter.getQuotes('SOL', 'USDC', 10);
+
+      const decision = await dexRouter.planRoute('SOL', 'USDC', 10, quotes);
+
+      expect(decision.legs).toBeUndefined();
+      expect(registry.get('raydium').getQuote).toHaveBeenCalledTimes(1);
+    });
+
+    it('should split large orders evenly across equal pools', async () => {
+      registry.register(buildPoolAdapter('raydium', 10000, 1000000));
+      registry.register(buildPoolAdapter('meteora', 10000, 1000000));
+      const quotes = await dexRouter.getQuotes('SOL', 'USDC', 2000);
+      const single = dexRouter.selectBestDex(quotes, 2000);
+
+      const decision = await dexRouter.planRoute('SOL', 'USDC', 2000, quotes);
+
+      expect(decision.legs).toHaveLength(2);
+      expect(decision.legs!.map(leg => leg.fraction)).toEqual([0.5, 0.5]);
+      expect(decision.legs!.reduce((total, leg) => total + leg.amountIn, 0)).toBeCloseTo(2000, 8);
+      expect(decision.expectedAmountOut).toBeGreaterThan(single.expectedAmountOut!);
+      expect(decision.reason).toContain('Split across');
+    });
+
+    it('should keep orders that may not split on a single venue', async () => {
+      registry.register(buildPoolAdapter('raydium', 10000, 1000000));
+      registry.register(buildPoolAdapter('meteora', 10000, 1000000));
+      const quotes = await dexRouter.getQuotes('SOL', 'USDC', 2000);
+
+      const decision = await dexRouter.planRoute('SOL', 'USDC', 2000, quotes, false);
+
+      expect(decision.legs).toBeUndefined();
+      expect(decision.expectedAmountOut).toBe(dexRouter.selectBestDex(quotes, 2000).expectedAmountOut);
+    });
+
+    it('should weight the split towards the deeper pool', async () => {
+      registry.register(buildPoolAdapter('raydium', 40000, 4000000));
+      registry.register(buildPoolAdapter('meteora', 10000, 1000000));
+      const quotes = await dexRouter.getQuotes('SOL', 'USDC', 5000);
+
+      const decision = await dexRouter.planRoute('SOL', 'USDC', 5000, quotes);
+
+      expect(decision.dex).toBe('raydium');
+      expect(decision.legs![0]).toEqual(expect.objectContaining({ dex: 'raydium', fraction: 0.8, amountIn: 4000 }));
+      expect(decision.legs![1]).toEqual(expect.objectContaining({ dex: 'meteora', fraction: 0.2, amountIn: 1000 }));
+    });
+
+    it('should keep a single venue when splitting does not help', async () => {
+      registry.register(buildPoolAdapter('raydium', 10000, 1000000));
+      registry.register(buildPoolAdapter('meteora', 10000, 500000));
+      const quotes = await dexRouter.getQuotes('SOL', 'USDC', 200);
+
+      const decision = await dexRouter.planRoute('SOL', 'USDC', 200, quotes);
+
+      expect(decision.legs).toBeUndefined();
+      expect(decision.dex).toBe('raydium');
+    });
+  });
+
+  describe('routeOrder', () => {
+    let registry: DexRegistry;
+
+    beforeEach(() => {
+      registry = new DexRegistry();
+      dexRouter = new MockDexRouter(registry, 100, 10, 3);
+    });
+
+    it('should route pairs without a direct pool through intermediate tokens', async () => {
+      registry.register(buildVenue('raydium', [['BONK', 'SOL', 10000000000, 2000], ['SOL', 'USDC', 10000, 1000000]]));
+      registry.register(buildVenue('meteora', [['SOL', 'USDC', 10000, 1010000]]));
+
+      const decision = await dexRouter.routeOrder('BONK', 'USDC', 1000000);
+
+      expect(decision.path!.map(hop => [hop.tokenIn, hop.tokenOut, hop.dex])).toEqual([
+        ['BONK', 'SOL', 'raydium'],
+        ['SOL', 'USDC', 'meteora']
+      ]);
+      // Each hop quotes the previous hop's output
+      expect(decision.path![1].amountIn).toBe(decision.path![0].expectedAmountOut);
+      expect(decision.expectedAmountOut).toBe(decision.path![1].expectedAmountOut);
+      expect(decision.dex).toBe('raydium');
+      expect(decision.reason).toContain('BONK → SOL → USDC');
+      expect(decision.reason).toContain('no direct pool');
+    });
+
+    it('should prefer the direct route when it returns more', async () => {
+      registry.register(buildVenue('raydium', [['SOL', 'USDC', 10000, 1000000], ['SOL', 'USDT', 10000, 1000000], ['USDT', 'USDC', 1000000, 1000000]]));
+
+      const decision = await dexRouter.routeOrder('SOL', 'USDC', 10);
+
+      expect(decision.path).toBeUndefined();
+      expect(decision.dex).toBe('raydium');
+    });
+
+    it('should take a multi-hop path that beats a shallow direct pool', async () => {
+      registry.register(buildVenue('raydium', [['SOL', 'USDC', 10, 1000], ['SOL', 'USDT', 10000, 1000000], ['USDT', 'USDC', 1000000, 1000000]]));
+
+      const decision = await dexRouter.routeOrder('SOL', 'USDC', 5);
+
+      expect(decision.path!.map(hop => hop.tokenOut)).toEqual(['USDT', 'USDC']);
+      expect(decision.reason).toContain('beats direct route');
+    });
+
+    it('should throw when no route exists', async () => {
+      registry.register(buildVenue('raydium', [['SOL', 'USDC', 10000, 1000000]]));
+
+      await expect(dexRouter.routeOrder('BONK', 'USDC', 1)).rejects.toThrow('No route found for BONK/USDC');
+    });
+  });
+
+  describe('requoteRoute', () => {
+    let registry: DexRegistry;
+
+    beforeEach(() => {
+      registry = new DexRegistry();
+      dexRouter = new MockDexRouter(registry, 100, 10, 3);
+      registry.register(buildVenue('raydium', [['BONK', 'SOL', 10000000000, 2000], ['SOL', 'USDC', 10000, 1000000]]));
+      registry.register(buildVenue('meteora', [['SOL', 'USDC', 10000, 1010000]]));
+    });
+
+    it('should re-quote single-venue decisions on the chosen venue', async () => {
+      const quotes = await dexRouter.getQuotes('SOL', 'USDC', 10);
+      const decision = dexRouter.selectBestDex(quotes, 10);
+
+      await expect(dexRouter.requoteRoute(decision, { ...mockOrder, amountIn: 10 })).resolves.toBe(decision.expectedAmountOut);
+    });
+
+    it('should re-quote every leg of a split decision', async () => {
+      const quotes = await dexRouter.getQuotes('SOL', 'USDC', 2000);
+      const decision = await dexRouter.planRoute('SOL', 'USDC', 2000, quotes);
+
+      await expect(dexRouter.requoteRoute(decision, { ...mockOrder, amountIn: 2000 })).resolves.toBeCloseTo(decision.expectedAmountOut, 6);
+    });
+
+    it('should re-quote multi-hop decisions hop by hop', async () => {
+      const decision = await dexRouter.routeOrder('BONK', 'USDC', 1000000);
+      const order = { ...mockOrder, tokenIn: 'BONK', amountIn: 1000000 };
+
+      await expect(dexRouter.requoteRoute(decision, order)).resolves.toBeCloseTo(decision.expectedAmountOut, 6);
+    });
+  });
+
+  describe('getQuotes', () => {
+    let registry: DexRegistry;
+
+    beforeEach(() => {
+      registry = new DexRegistry();
+      dexRouter = new MockDexRouter(registry);
+    });
+
+    it('should fan out to every registered DEX', async () => {
+      registry.register(buildAdapter('raydium', 99.75));
+      registry.register(buildAdapter('orca', 100.2));
+      registry.register(buildAdapter('phoenix', 99.1));
+
+      const quotes = await dexRouter.getQuotes('SOL', 'USDC', 1.0);
+
+      expect(quotes.map(quote => quote.dex)).toEqual(['raydium', 'orca', 'phoenix']);
+    });
+
+    it('should skip venues that fail to quote', async () => {
+      const failing = buildAdapter('phoenix', 0);
+      (failing.getQuote as jest.Mock).mockRejectedValue(new Error('RPC timeout'));
+      registry.register(buildAdapter('raydium', 99.75));
+      registry.register(failing);
+
+      const quotes = await dexRouter.getQuotes('SOL', 'USDC', 1.0);
+
+      expect(quotes).toHaveLength(1);
+      expect(quotes[0].dex).toBe('raydium');
+    });
+
+    it('should throw when no venue returns a quote', async () => {
+      await expect(dexRouter.getQuotes('SOL', 'USDC', 1.0)).rejects.toThrow('No DEX returned a quote for SOL/USDC');
+    });
+
+    it('should execute swaps on registered custom venues', async () => {
+      const orca = buildAdapter('orca', 100.2);
+      registry.register(orca);
+
+      const result = await dexRouter.executeSwap('orca', mockOrder);
+
+      expect(orca.executeSwap).toHaveBeenCalledWith(mockOrder, undefined);
+      expect(result.dex).toBe('orca');
+    });
+
+    it('should reject swaps on unknown venues', async () => {
+      await expect(dexRouter.executeSwap('unknown', mockOrder)).rejects.toThrow('Unknown DEX: unknown');
+    });
+  });
+
+  describe('pools', () => {
+    it('should add pools to the venue they belong to', async () => {
+      dexRouter.addPool({
+        dex: 'meteora',
+        poolId: 'meteora-new-usdc',
+        tokenIn: 'NEW',
+        tokenOut: 'USDC',
+        reserveIn: 1000000,
+        reserveOut: 10000,
+        fee: 0.003,
+        lastUpdate: new Date()
+      });
+
+      const quote = await dexRouter.getQuote('meteora', 'USDC', 'NEW', 1);
+
+      expect(quote.price).toBeCloseTo(100, 6);
+      expect(dexRouter.listPools().map(pool => pool.poolId)).toContain('meteora-new-usdc');
+    });
+
+    it('should list seeded pools across venues', () => {
+      const dexes = new Set(dexRouter.listPools().map(pool => pool.dex));
+
+      expect(dexes).toEqual(new Set(['raydium', 'meteora']));
+    });
+
+    it('should reject pools for venues without pool support', () => {
+      const registry = new DexRegistry();
+      registry.register(buildAdapter('orca', 100));
+
+      expect(() => new MockDexRouter(registry).addPool({
+        dex: 'orca',
+        poolId: 'orca-sol-usdc',
+        tokenIn: 'SOL',
+        tokenOut: 'USDC',
+        reserveIn: 1,
+        reserveOut: 100,
+        fee: 0.003,
+        lastUpdate: new Date()
+      })).toThrow('DEX orca does not support adding pools');
+    });
+  });
+
+  describe('checkHealth', () => {
+    it('should report health for every registered DEX', async () => {
+      const health = await dexRouter.checkHealth();
+
+      expect(health.map(entry => entry.dex)).toEqual(['raydium', 'meteora']);
+      expect(health.every(entry => entry.healthy)).toBe(true);
+    });
+
+    it('should mark venues whose health check throws as unhealthy', async () => {
+      const registry = new DexRegistry();
+      const broken = buildAdapter('phoenix', 99);
+      (broken.health as jest.Mock).mockRejectedValue(new Error('Connection refused'));
+      registry.register(broken);
+
+      const health = await new MockDexRouter(registry).checkHealth();
+
+      expect(health[0]).toEqual(expect.objectContaining({
+        dex: 'phoenix',
+        healthy: false,
+        error: 'Connection refused'
+      }));
+    });
   });
 
   describe('executeSwap', () => {
@@ -237,6 +668,40 @@ describe('MockDexRouter', () => {
       expect(result.slippageImpact).toBeGreaterThanOrEqual(1 - mockOrder.slippage);
     });
 
+    it('should move pool reserves so later quotes reflect the swap', async () => {
+      const before = await dexRouter.getQuote('raydium', 'SOL', 'USDC', 1.0);
+      const result = await dexRouter.executeSwap('raydium', { ...mockOrder, amountIn: 500 });
+      const after = await dexRouter.getQuote('raydium', 'SOL', 'USDC', 1.0);
+
+      expect(result.amountOut).toBeGreaterThan(0);
+      expect(result.executedPrice).toBeCloseTo(result.amountOut / 500, 8);
+      expect(after.price).toBeLessThan(before.price);
+      expect(after.amountOut).toBeLessThan(before.amountOut);
+    });
+
+    it('should reject fills below minAmountOut without moving the pool', async () => {
+      const before = await dexRouter.getQuote('raydium', 'SOL', 'USDC', mockOrder.amountIn);
+
+      await expect(dexRouter.executeSwap('raydium', mockOrder, {
+        quotedAmountOut: before.amountOut * 1.05,
+        minAmountOut: before.amountOut * 1.04
+      })).rejects.toThrow(SlippageExceededError);
+
+      const after = await dexRouter.getQuote('raydium', 'SOL', 'USDC', mockOrder.amountIn);
+      expect(after.amountOut).toBe(before.amountOut);
+    });
+
+    it('should fill when the pool still meets minAmountOut', async () => {
+      const quote = await dexRouter.getQuote('raydium', 'SOL', 'USDC', mockOrder.amountIn);
+
+      const result = await dexRouter.executeSwap('raydium', mockOrder, {
+        quotedAmountOut: quote.amountOut,
+        minAmountOut: quote.amountOut * (1 - mockOrder.slippage)
+      });
+
+      expect(result.amountOut).toBeCloseTo(quote.amountOut, 8);
+    });
+
     it('should generate unique transaction hashes', async () => {
       const result1 = await dexRouter.executeSwap('raydium', mockOrder);
       const result2 = await dexRouter.executeSwap('meteora', mockOrder);
@@ -247,12 +712,11 @@ describe('MockDexRouter', () => {
 
   describe('Integration Tests', () => {
     it('should complete full routing and execution flow', async () => {
-      // Get quotes from both DEXs
-      const raydiumQuote = await dexRouter.getRaydiumQuote('SOL', 'USDC', 1.0);
-      const meteoraQuote = await dexRouter.getMeteorQuote('SOL', 'USDC', 1.0);
+      // Get quotes from all registered DEXs
+      const quotes = await dexRouter.getQuotes('SOL', 'USDC', 1.0);
 
       // Select best DEX
-      const routingDecision = dexRouter.selectBestDex(raydiumQuote, meteoraQuote, 1.0);
+      const routingDecision = dexRouter.selectBestDex(quotes, 1.0);
 
       // Execute swap on selected DEX
       const executionResult = await dexRouter.executeSwap(routingDecision.dex, mockOrder);
@@ -263,9 +727,16 @@ describe('MockDexRouter', () => {
       expect(executionResult.executedPrice).toBeGreaterThan(0);
     });
 
+    it('should route long-tail pairs through the seeded pools', async () => {
+      const decision = await dexRouter.routeOrder('BONK', 'USDC', 1000000);
+
+      expect(decision.path!.map(hop => hop.tokenIn)).toEqual(['BONK', 'SOL']);
+      expect(decision.expectedAmountOut).toBeGreaterThan(0);
+    });
+
     it('should handle different token pairs correctly', async () => {
-      const solUsdcQuote = await dexRouter.getRaydiumQuote('SOL', 'USDC', 1.0);
-      const ethUsdtQuote = await dexRouter.getRaydiumQuote('ETH', 'USDT', 1.0);
+      const solUsdcQuote = await dexRouter.getQuote('raydium', 'SOL', 'USDC', 1.0);
+      const ethUsdtQuote = await dexRouter.getQuote('raydium', 'ETH', 'USDT', 1.0);
 
       expect(solUsdcQuote.dex).toBe('raydium');
       expect(ethUsdtQuote.dex).toBe('raydium');
@@ -0,0 +1,105 @@
+import { OrderEventBus } from '../../src/services/orderEventBus';
+import { OrderStatusEvent } from '../../src/types/order';
+import { logger } from '../../src/utils/logger';
+
+// Mock dependencies
+jest.mock('../../src/utils/logger');
+
+describe('OrderEventBus', () => {
+  let publisher: { publish: jest.Mock };
+  let subscriber: { on: jest.Mock; subscribe: jest.Mock; unsubscribe: jest.Mock };
+  let getSubscriber: jest.Mock;
+  let eventBus: OrderEventBus;
+
+  const event: OrderStatusEvent = {
+    orderId: 'test-order-123',
+    status: 'confirmed',
+    data: { txHash: '0x123' },
+    userId: 'user123',
+    sequence: 4,
+    timestamp: new Date().toISOString()
+  };
+
+  const deliver = (channel: string, message: string) =>
+    subscriber.on.mock.calls.find((call: any) => call[0] === 'message')[1](channel, message);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    publisher = { publish: jest.fn().mockResolvedValue(1) };
+    subscriber = {
+      on: jest.fn(),
+      subscribe: jest.fn().mockResolvedValue(1),
+      unsubscribe: jest.fn().mockResolvedValue(1)
+    };
+    getSubscriber = jest.fn(() => subscriber);
+    eventBus = new OrderEventBus(publisher as any, getSubscriber, 'test-order-events');
+  });
+
+  describe('publish', () => {
+    it('should publish events as JSON on the channel', async () => {
+      await eventBus.publish(event);
+
+      expect(publisher.publish).toHaveBeenCalledWith('test-order-events', JSON.stringify(event));
+    });
+
+    it('should log instead of throwing when Redis is unavailable', async () => {
+      publisher.publish.mockRejectedValue(new Error('Connection lost'));
+
+      await expect(eventBus.publish(event)).resolves.toBeUndefined();
+      expect(logger.logError).toHaveBeenCalledWith('test-order-123', expect.any(Error), expect.objectContaining({
+        context: 'Order event publish'
+      }));
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should deliver channel messages to every handler', async () => {
+      const first = jest.fn();
+      const second = jest.fn();
+
+      await eventBus.subscribe(first);
+      await eventBus.subscribe(second);
+      deliver('test-order-events', JSON.stringify(event));
+
+      expect(getSubscriber).toHaveBeenCalledTimes(1);
+      expect(subscriber.subscribe).toHaveBeenCalledWith('test-order-events');
+      expect(first).toHaveBeenCalledWith(event);
+      expect(second).toHaveBeenCalledWith(event);
+    });
+
+    it('should ignore other channels and malformed messages', async () => {
+      const handler = jest.fn();
+      await eventBus.subscribe(handler);
+
+      deliver('other-channel', JSON.stringify(event));
+      deliver('test-order-events', 'not json');
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should keep delivering when a handler throws', async () => {
+      const failing = jest.fn(() => {
+        throw new Error('Handler failed');
+      });
+      const healthy = jest.fn();
+      await eventBus.subscribe(failing);
+      await eventBus.subscribe(healthy);
+
+      deliver('test-order-events', JSON.stringify(event));
+
+      expect(healthy).toHaveBeenCalledWith(event);
+    });
+  });
+
+  describe('close', () => {
+    it('should unsubscribe from the channel', async () => {
+      const handler = jest.fn();
+      await eventBus.subscribe(handler);
+
+      await eventBus.close();
+
+      expect(subscriber.unsubscribe).toHaveBeenCalledWith('test-order-events');
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { orderGroupRoutes } from '../../src/routes/orderGroups';
+import { createAuthHook } from '../../src/utils/auth';
+import { InsufficientBalanceError } from '../../src/utils/errors';
+
+// Route tests run against a real Fastify instance
+jest.unmock('fastify');
+
+// Mock dependencies
+jest.mock('../../src/utils/logger');
+
+describe('order group routes', () => {
+  let app: FastifyInstance;
+  let orderProcessor: { submitOrderGroup: jest.Mock; getOrderGroupDetails: jest.Mock; getOrderGroup: jest.Mock; cancelOrderGroup: jest.Mock };
+  let rateLimiter: { consume: jest.Mock };
+  let orderQuotas: { reserve: jest.Mock; release: jest.Mock };
+  let riskEngine: { evaluate: jest.Mock; evaluateBracketExits: jest.Mock };
+
+  const groupId = '5f0c6f7e-8a4b-4f7e-9a3c-2b1d0e9f8a7b';
+  const ocoGroup = {
+    type: 'oco', tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1.5, slippage: 0.02,
+    legs: [{ type: 'take_profit', triggerPrice: 110 }, { type: 'stop_loss', triggerPrice: 95 }]
+  };
+  const bracketGroup = {
+    type: 'bracket', tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1.5, slippage: 0.02,
+    entry: { type: 'market' }, takeProfitPrice: 0.0105, stopLossPrice: 0.0095
+  };
+  const deviation = {
+    approved: false,
+    rejections: [{ code: 'PRICE_DEVIATION_EXCEEDED', message: 'takeProfitPrice is 90.0% away from the reference price' }]
+  };
+
+  const submit = (payload: Record<string, unknown>) =>
+    app.inject({ method: 'POST', url: '/api/order-groups', headers: { authorization: 'Bearer oek_1' }, payload });
+
+  const request = (method: 'GET' | 'DELETE', url: string) =>
+    app.inject({ method, url, headers: { authorization: 'Bearer oek_1' } });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    orderProcessor = {
+      submitOrderGroup: jest.fn().mockResolvedValue(undefined),
+      getOrderGroupDetails: jest.fn().mockResolvedValue({ id: groupId, userId: 'user123', status: 'active', orders: [] }),
+      getOrderGroup: jest.fn().mockResolvedValue({ id: groupId, userId: 'user123', status: 'active' }),
+      cancelOrderGroup: jest.fn().mockResolvedValue({ outcome: 'cancelled', status: 'cancelled' })
+    };
+    rateLimiter = { consume: jest.fn().mockResolvedValue({ allowed: true, remaining: 19, retryAfterMs: 0 }) };
+    orderQuotas = {
+      reserve: jest.fn().mockResolvedValue({ allowed: true, notional: 150, reservationId: 7 }),
+      release: jest.fn().mockResolvedValue(undefined)
+    };
+    riskEngine = {
+      evaluate: jest.fn().mockResolvedValue({ approved: true, rejections: [] }),
+      evaluateBracketExits: jest.fn().mockResolvedValue({ approved: true, rejections: [] })
+    };
+
+    app = Fastify();
+    app.addHook('onRequest', createAuthHook({ authenticate: jest.fn().mockResolvedValue({ userId: 'user123', keyId: 1 }) } as any));
+    await app.register(orderGroupRoutes, {
+      prefix: '/api/order-groups',
+      orderProcessor: orderProcessor as any,
+      rateLimiter: rateLimiter as any,
+      orderQuotas: orderQuotas as any,
+      riskEngine: riskEngine as any
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('POST /api/order-groups', () => {
+    it('should require an API key', async () => {
+      const response = await app.inject({ method: 'POST', url: '/api/order-groups', payload: ocoGroup });
+
+      expect(response.statusCode).toBe(401);
+      expect(orderProcessor.submitOrderGroup).not.toHaveBeenCalled();
+    });
+
+    it('should submit an OCO group with one exit per leg for the authenticated user', async () => {
+      const response = await submit(ocoGroup);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual(expect.objectContaining({ type: 'oco', status: 'active' }));
+      expect(orderProcessor.submitOrderGroup).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'oco', userId: 'user123' }),
+        [
+          expect.objectContaining({ type: 'take_profit', triggerPrice: 110, groupRole: 'exit', userId: 'user123' }),
+          expect.objectContaining({ type: 'stop_loss', triggerPrice: 95, groupRole: 'exit', userId: 'user123' })
+        ]
+      );
+    });
+
+    it('should submit a bracket with its entry only', async () => {
+      const response = await submit(bracketGroup);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual(expect.objectContaining({ type: 'bracket', status: 'pending' }));
+      expect(orderProcessor.submitOrderGroup).toHaveBeenCalledWith(
+        expect.objectContaining({ takeProfitPrice: 0.0105, stopLossPrice: 0.0095 }),
+        [expect.objectContaining({ type: 'market', groupRole: 'entry' })]
+      );
+    });
+
+    it.each([
+      [{ ...ocoGroup, type: 'ladder' }],
+      [{ ...ocoGroup, amountIn: 0 }],
+      [{ ...ocoGroup, legs: [{ type: 'stop_loss', triggerPrice: 95 }] }],
+      [{ ...ocoGroup, legs: [{ type: 'market' }, { type: 'stop_loss', triggerPrice: 95 }] }]
+    ])('should reject the invalid request %j', async (payload) => {
+      const response = await submit(payload);
+
+      expect(response.statusCode).toBe(400);
+      expect(orderProcessor.submitOrderGroup).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token against itself', async () => {
+      const response = await submit({ ...ocoGroup, tokenOut: 'SOL' });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toEqual(expect.objectContaining({ error: 'Invalid pair' }));
+    });
+
+    it.each([
+      ['a leg without its price', [{ type: 'limit', triggerPrice: 110 }, { type: 'stop_loss', triggerPrice: 95 }]],
+      ['two upside legs', [{ type: 'limit', limitPrice: 110 }, { type: 'take_profit', triggerPrice: 120 }]],
+      ['two stop-loss legs', [{ type: 'stop_loss', triggerPrice: 95 }, { type: 'stop_loss', triggerPrice: 90 }]],
+      ['a stop-loss above the upside leg', [{ type: 'limit', limitPrice: 95 }, { type: 'stop_loss', triggerPrice: 110 }]]
+    ])('should reject OCO groups with %s', async (_, legs) => {
+      const response = await submit({ ...ocoGroup, legs });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toEqual(expect.objectContaining({ error: 'Invalid OCO' }));
+      expect(orderProcessor.submitOrderGroup).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['without exit prices', { takeProfitPrice: undefined }],
+      ['with a limit entry without a limitPrice', { entry: { type: 'limit' } }],
+      ['with the take-profit below the stop-loss', { takeProfitPrice: 0.009 }]
+    ])('should reject brackets %s', async (_, overrides) => {
+      const response = await submit({ ...bracketGroup, ...overrides });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toEqual(expect.objectContaining({ error: 'Invalid bracket' }));
+      expect(orderProcessor.submitOrderGroup).not.toHaveBeenCalled();
+    });
+
+    it('should reject groups whose leg fails a risk check', async () => {
+      riskEngine.evaluate
+        .mockResolvedValueOnce({ approved: true, rejections: [] })
+        .mockResolvedValueOnce({ ...deviation, rejections: [{ code: 'PRICE_DEVIATION_EXCEEDED', message: 'triggerPrice is 90.0% away from the reference price' }] });
+
+      const response = await submit(ocoGroup);
+
+      expect(response.statusCode).toBe(422);
+      expect(response.json()).toEqual(expect.objectContaining({
+        error: 'Risk check failed',
+        reasons: [expect.objectContaining({ code: 'PRICE_DEVIATION_EXCEEDED' })]
+      }));
+      expect(orderProcessor.submitOrderGroup).not.toHaveBeenCalled();
+      expect(orderQuotas.release).toHaveBeenCalledWith(7);
+    });
+
+    it('should reject brackets whose exit prices stray from the reference price', async () => {
+      riskEngine.evaluateBracketExits.mockResolvedValue(deviation);
+
+      const response = await submit(bracketGroup);
+
+      expect(response.statusCode).toBe(422);
+      expect(response.json()).toEqual(expect.objectContaining({ message: deviation.rejections[0].message }));
+      expect(riskEngine.evaluateBracketExits).toHaveBeenCalledWith(expect.objectContaining({ groupRole: 'entry' }), 0.0105, 0.0095);
+      expect(orderProcessor.submitOrderGroup).not.toHaveBeenCalled();
+    });
+
+    it('should reject groups the user cannot fund', async () => {
+      orderProcessor.submitOrderGroup.mockRejectedValue(new InsufficientBalanceError('SOL', 1.5, 1));
+
+      const response = await submit(ocoGroup);
+
+      expect(response.statusCode).toBe(422);
+      expect(response.json()).toEqual(expect.objectContaining({ error: 'Insufficient balance', requested: 1.5, available: 1 }));
+      expect(orderQuotas.release).toHaveBeenCalledWith(7);
+    });
+
+    it('should hold one quota reservation for the group until it is persisted', async () => {
+      orderProcessor.submitOrderGroup.mockImplementation(async () => {
+        expect(orderQuotas.release).not.toHaveBeenCalled();
+      });
+
+      const response = await submit(ocoGroup);
+
+      expect(response.statusCode).toBe(200);
+      expect(orderQuotas.reserve).toHaveBeenCalledTimes(1);
+      expect(orderQuotas.release).toHaveBeenCalledWith(7);
+    });
+
+    it('should rate limit submissions per API key', async () => {
+      rateLimiter.consume.mockResolvedValue({ allowed: false, remaining: 0, retryAfterMs: 1500 });
+
+      const response = await submit(ocoGroup);
+
+      expect(response.statusCode).toBe(429);
+      expect(rateLimiter.consume).toHaveBeenCalledWith('key:1');
+      expect(orderProcessor.submitOrderGroup).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/order-groups/:groupId', () => {
+    it('should return the authenticated user\'s group', async () => {
+      const response = await request('GET', `/api/order-groups/${groupId}`);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual(expect.objectContaining({ id: groupId }));
+    });
+
+    it('should not reveal another user\'s group', async () => {
+      orderProcessor.getOrderGroupDetails.mockResolvedValue({ id: groupId, userId: 'someone-else', status: 'active', orders: [] });
+
+      const response = await request('GET', `/api/order-groups/${groupId}`);
+
+      expect(response.statusCode).toBe(404);
+      expect(response.json()).toEqual(expect.objectContaining({ error: 'Group not found' }));
+    });
+
+    it('should validate the group ID', async () => {
+      const response = await request('GET', '/api/order-groups/not-a-uuid');
+
+      expect(response.statusCode).toBe(400);
+      expect(orderProcessor.getOrderGroupDetails).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/order-groups/:groupId', () => {
+    it('should cancel the authenticated user\'s group', async () => {
+      const response = await request('DELETE', `/api/order-groups/${groupId}`);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual(expect.objectContaining({ groupId, status: 'cancelled' }));
+      expect(orderProcessor.cancelOrderGroup).toHaveBeenCalledWith(groupId);
+    });
+
+    it('should not cancel another user\'s group', async () => {
+      orderProcessor.getOrderGroup.mockResolvedValue({ id: groupId, userId: 'someone-else', status: 'active' });
+
+      const response = await request('DELETE', `/api/order-groups/${groupId}`);
+
+      expect(response.statusCode).toBe(404);
+      expect(orderProcessor.cancelOrderGroup).not.toHaveBeenCalled();
+    });
+
+    it('should report unknown groups', async () => {
+      orderProcessor.getOrderGroup.mockResolvedValue(null);
+
+      const response = await request('DELETE', `/api/order-groups/${groupId}`);
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should refuse to cancel a group whose exit already triggered', async () => {
+      orderProcessor.cancelOrderGroup.mockResolvedValue({ outcome: 'not_cancellable', status: 'triggered' });
+
+      const response = await request('DELETE', `/api/order-groups/${groupId}`);
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toEqual({
+        error: 'Cannot cancel group',
+        message: 'Order group is in triggered status and cannot be cancelled'
+      });
+    });
+  });
+});
@@ -1,44 +1,50 @@
 import { OrderProcessor } from '../../src/services/orderProcessor';
-import { WebSocketManager } from '../../src/services/websocketManager';
+import { OrderEventBus } from '../../src/services/orderEventBus';
 import { Order, OrderStatus } from '../../src/types/order';
+import { OrderGroup } from '../../src/types/orderGroup';
+import { QuoteExpiredError, RouteIncompleteError, SlippageExceededError, SwapFailedError } from '../../src/utils/errors';
 import { MockDexRouter } from '../../src/services/mockDexRouter';
 
 // Mock dependencies
-jest.mock('../../src/services/websocketManager');
+jest.mock('../../src/services/orderEventBus');
 jest.mock('../../src/services/mockDexRouter');
 jest.mock('../../src/config/database');
 jest.mock('../../src/utils/logger');
 
 describe('OrderProcessor', () => {
   let orderProcessor: OrderProcessor;
-  let mockWsManager: jest.Mocked<WebSocketManager>;
+  let mockEventBus: jest.Mocked<OrderEventBus>;
+  let mockBalanceLedger: { reserve: jest.Mock; release: jest.Mock; settle: jest.Mock; transferReservation: jest.Mock };
   let mockOrder: Order;
 
   beforeEach(() => {
     // Reset mocks
     jest.clearAllMocks();
 
-    // Create mock WebSocket manager
-    mockWsManager = {
-      emitToOrder: jest.fn(),
-      registerWebSocketRoute: jest.fn(),
-      setFastifyInstance: jest.fn(),
-      sendMessage: jest.fn(),
-      broadcast: jest.fn(),
-      getConnectionStats: jest.fn(),
-      closeAllConnections: jest.fn(),
-      hasConnection: jest.fn(),
+    // Create mock order event bus
+    mockEventBus = {
+      publish: jest.fn().mockResolvedValue(undefined),
+      subscribe: jest.fn().mockResolvedValue(undefined),
+      close: jest.fn().mockResolvedValue(undefined),
     } as any;
 
+    mockBalanceLedger = {
+      reserve: jest.fn().mockResolvedValue(undefined),
+      release: jest.fn().mockResolvedValue(true),
+      settle: jest.fn().mockResolvedValue(true),
+      transferReservation: jest.fn().mockResolvedValue(true),
+    };
+
     // Create order processor
-    orderProcessor = new OrderProcessor(mockWsManager);
+    orderProcessor = new OrderProcessor(mockEventBus, undefined, undefined, mockBalanceLedger as any);
 
     // Mock Redis and PostgreSQL
     (orderProcessor as any).redis = {
       hset: jest.fn().mockResolvedValue(1),
       hget: jest.fn().mockResolvedValue('test'),
       incr: jest.fn().mockResolvedValue(1),
-      get: jest.fn().mockResolvedValue('0'),
+      get: jest.fn().mockResolvedValue(null),
+      set: jest.fn().mockResolvedValue('OK'),
     };
 
     (orderProcessor as any).pgPool = {
@@ -77,6 +83,32 @@ describe('OrderProcessor', () => {
       expect(mockUpdateStatus).toHaveBeenCalledWith(mockOrder.id, 'pending');
     });
 
+    it('should reserve the amount sold before persisting the order', async () => {
+      const mockPersistOrder = jest.spyOn(orderProcessor as any, 'persistOrder');
+
+      await orderProcessor.submitOrder(mockOrder);
+
+      expect(mockBalanceLedger.reserve).toHaveBeenCalledWith(mockOrder.id, 'user123', 'SOL', 1.5);
+      expect(mockBalanceLedger.reserve.mock.invocationCallOrder[0]).toBeLessThan(mockPersistOrder.mock.invocationCallOrder[0]);
+    });
+
+    it('should not persist orders the balance cannot cover', async () => {
+      const { InsufficientBalanceError } = require('../../src/utils/errors');
+      mockBalanceLedger.reserve.mockRejectedValue(new InsufficientBalanceError('SOL', 1.5, 1));
+      const mockPersistOrder = jest.spyOn(orderProcessor as any, 'persistOrder');
+
+      await expect(orderProcessor.submitOrder(mockOrder)).rejects.toThrow('Insufficient SOL balance');
+      expect(mockPersistOrder).not.toHaveBeenCalled();
+      expect((orderProcessor as any).queue.add).not.toHaveBeenCalled();
+    });
+
+    it('should release the reservation when submission fails', async () => {
+      (orderProcessor as any).queue.add.mockRejectedValueOnce(new Error('Queue unavailable'));
+
+      await expect(orderProcessor.submitOrder(mockOrder)).rejects.toThrow('Queue unavailable');
+      expect(mockBalanceLedger.release).toHaveBeenCalledWith(mockOrder.id);
+    });
+
     it('should persist order to database', async () => {
       const mockPersistOrder = jest.spyOn(orderProcessor as any, 'persistOrder');
 
@@ -91,6 +123,774 @@ describe('OrderProcessor', () => {
 
       await expect(orderProcessor.submitOrder(mockOrder)).rejects.toThrow('Queue error');
     });
+
+    it('should arm limit orders instead of enqueueing them', async () => {
+      const mockQueue = (orderProcessor as any).queue;
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      const mockWatch = jest.spyOn((orderProcessor as any).priceWatcher, 'watch').mockImplementation(() => undefined);
+      const limitOrder: Order = { ...mockOrder, type: 'limit', limitPrice: 105 };
+
+      await orderProcessor.submitOrder(limitOrder);
+
+      expect(mockQueue.add).not.toHaveBeenCalled();
+      expect(mockUpdateStatus).toHaveBeenCalledWith(limitOrder.id, 'waiting');
+      expect(mockWatch).toHaveBeenCalledWith(limitOrder, expect.any(Function));
+    });
+
+    it('should enqueue limit orders once the watcher triggers', async () => {
+      const mockQueue = (orderProcessor as any).queue;
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      const mockWatch = jest.spyOn((orderProcessor as any).priceWatcher, 'watch').mockImplementation(() => undefined);
+      const limitOrder: Order = { ...mockOrder, type: 'limit', limitPrice: 105 };
+
+      await orderProcessor.submitOrder(limitOrder);
+
+      const onTrigger = mockWatch.mock.calls[0][1] as Function;
+      await onTrigger(limitOrder, 105.5);
+
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        'execute-order',
+        limitOrder,
+        expect.objectContaining({ jobId: limitOrder.id })
+      );
+      expect(mockUpdateStatus).toHaveBeenCalledWith(limitOrder.id, 'pending');
+    });
+
+    it('should report stop-loss orders as triggered and enqueue them as market orders', async () => {
+      const stopLoss: Order = { ...mockOrder, type: 'stop_loss', triggerPrice: 95 };
+      const mockQueue = (orderProcessor as any).queue;
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      const priceWatcher = (orderProcessor as any).priceWatcher;
+      let trigger: (order: Order, price: number) => Promise<void> = async () => undefined;
+      jest.spyOn(priceWatcher, 'watch').mockImplementation((_order: any, onTrigger: any) => { trigger = onTrigger; });
+
+      await orderProcessor.submitOrder(stopLoss);
+
+      expect(mockUpdateStatus).toHaveBeenCalledWith(stopLoss.id, 'waiting');
+      expect(mockQueue.add).not.toHaveBeenCalled();
+
+      await trigger(stopLoss, 94.5);
+
+      expect(mockUpdateStatus).toHaveBeenCalledWith(stopLoss.id, 'triggered', { triggerPrice: 95, triggeredPrice: 94.5 });
+      expect(mockQueue.add).toHaveBeenCalledWith('execute-order', stopLoss, expect.objectContaining({ jobId: stopLoss.id }));
+      expect(mockEventBus.publish).toHaveBeenCalledWith(expect.objectContaining({ orderId: stopLoss.id, status: 'triggered' }));
+      expect(mockUpdateStatus.mock.calls.map(call => call[1])).toEqual(['waiting', 'triggered', 'pending']);
+    });
+
+    it('should watch take-profit orders with the price watcher', async () => {
+      const takeProfit: Order = { ...mockOrder, type: 'take_profit', triggerPrice: 110 };
+      const priceWatcher = (orderProcessor as any).priceWatcher;
+
+      await orderProcessor.submitOrder(takeProfit);
+
+      expect(priceWatcher.isWatching(takeProfit.id)).toBe(true);
+      priceWatcher.unwatch(takeProfit.id);
+    });
+
+    it('should arm sniper orders on the launch feed instead of enqueueing them', async () => {
+      const mockQueue = (orderProcessor as any).queue;
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      const sniperWatcher = (orderProcessor as any).sniperWatcher;
+      const sniperOrder: Order = {
+        ...mockOrder,
+        type: 'sniper',
+        tokenIn: 'USDC',
+        tokenOut: 'NEWTOKEN',
+        amountIn: 100,
+        maxEntryPrice: 50,
+        expiresAt: new Date(Date.now() + 60000)
+      };
+
+      // The router is mocked; register launches on the real venues so the watcher can price them
+      (orderProcessor as any).dexRouter.addPool.mockImplementation((pool: any) =>
+        (orderProcessor as any).dexRegistry.get(pool.dex).addPool(pool));
+
+      await orderProcessor.submitOrder(sniperOrder);
+
+      expect(mockQueue.add).not.toHaveBeenCalled();
+      expect(mockUpdateStatus).toHaveBeenCalledWith(sniperOrder.id, 'waiting');
+      expect(sniperWatcher.isArmed(sniperOrder.id)).toBe(true);
+
+      (orderProcessor as any).poolLaunchFeed.launchPool({
+        dex: 'raydium',
+        tokenIn: 'USDC',
+        tokenOut: 'NEWTOKEN',
+        reserveIn: 10000,
+        reserveOut: 1000000
+      });
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        'execute-order',
+        sniperOrder,
+        expect.objectContaining({ jobId: sniperOrder.id })
+      );
+
+      await orderProcessor.close();
+    });
+
+    it('should make launched pools tradable on their venue', () => {
+      const mockDexRouter = (orderProcessor as any).dexRouter;
+
+      const pool = (orderProcessor as any).poolLaunchFeed.launchPool({
+        dex: 'meteora',
+        tokenIn: 'USDC',
+        tokenOut: 'NEWTOKEN',
+        reserveIn: 10000,
+        reserveOut: 1000000
+      });
+
+      expect(mockDexRouter.addPool).toHaveBeenCalledWith(pool);
+    });
+  });
+
+  describe('cancelOrder', () => {
+    it('should report unknown orders', async () => {
+      await expect(orderProcessor.cancelOrder('missing')).resolves.toEqual({ outcome: 'not_found' });
+    });
+
+    it('should refuse orders that were already submitted or finished', async () => {
+      jest.spyOn(orderProcessor, 'getOrder').mockResolvedValue({ ...mockOrder, status: 'submitted' });
+
+      await expect(orderProcessor.cancelOrder(mockOrder.id)).resolves.toEqual({ outcome: 'not_cancellable', status: 'submitted' });
+      expect((orderProcessor as any).redis.set).not.toHaveBeenCalled();
+    });
+
+    it('should cancel resting orders and stop watching them', async () => {
+      const limitOrder: Order = { ...mockOrder, type: 'limit', status: 'waiting', limitPrice: 1000 };
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      const priceWatcher = (orderProcessor as any).priceWatcher;
+      jest.spyOn(orderProcessor, 'getOrder').mockResolvedValue(limitOrder);
+
+      priceWatcher.watch(limitOrder, jest.fn());
+      const result = await orderProcessor.cancelOrder(limitOrder.id);
+
+      expect(result).toEqual({ outcome: 'cancelled', status: 'cancelled' });
+      expect(priceWatcher.isWatching(limitOrder.id)).toBe(false);
+      expect((orderProcessor as any).redis.set).toHaveBeenCalledWith(`order:${limitOrder.id}:cancel`, 'User cancelled', 'EX', expect.any(Number));
+      expect(mockUpdateStatus).toHaveBeenCalledWith(limitOrder.id, 'cancelled', { cancelReason: 'User cancelled' });
+      expect(mockBalanceLedger.release).toHaveBeenCalledWith(limitOrder.id);
+      expect(mockEventBus.publish).toHaveBeenCalledWith(expect.objectContaining({
+        orderId: limitOrder.id,
+        status: 'cancelled',
+        data: { cancelReason: 'User cancelled' }
+      }));
+    });
+
+    it('should remove queued jobs that have not started', async () => {
+      const job = { getState: jest.fn().mockResolvedValue('waiting'), remove: jest.fn().mockResolvedValue(undefined) };
+      (orderProcessor as any).queue.getJob.mockResolvedValue(job);
+      jest.spyOn(orderProcessor, 'getOrder').mockResolvedValue(mockOrder);
+
+      const result = await orderProcessor.cancelOrder(mockOrder.id);
+
+      expect(job.remove).toHaveBeenCalled();
+      expect(result.outcome).toBe('cancelled');
+    });
+
+    it('should flag in-flight orders instead of marking them cancelled', async () => {
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      const job = { getState: jest.fn().mockResolvedValue('active'), remove: jest.fn() };
+      (orderProcessor as any).queue.getJob.mockResolvedValue(job);
+      jest.spyOn(orderProcessor, 'getOrder').mockResolvedValue({ ...mockOrder, status: 'routing' });
+
+      const result = await orderProcessor.cancelOrder(mockOrder.id);
+
+      expect(result).toEqual({ outcome: 'cancelling', status: 'routing' });
+      expect(job.remove).not.toHaveBeenCalled();
+      expect(mockUpdateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should treat jobs picked up during removal as in-flight', async () => {
+      const job = {
+        getState: jest.fn().mockResolvedValue('waiting'),
+        remove: jest.fn().mockRejectedValue(new Error('Job is locked'))
+      };
+      (orderProcessor as any).queue.getJob.mockResolvedValue(job);
+      jest.spyOn(orderProcessor, 'getOrder').mockResolvedValue(mockOrder);
+
+      await expect(orderProcessor.cancelOrder(mockOrder.id)).resolves.toEqual({ outcome: 'cancelling', status: 'pending' });
+    });
+  });
+
+  describe('resumeWaitingOrders', () => {
+    it('should re-arm waiting limit orders from the database', async () => {
+      const mockPgPool = (orderProcessor as any).pgPool;
+      const mockWatch = jest.spyOn((orderProcessor as any).priceWatcher, 'watch').mockImplementation(() => undefined);
+
+      mockPgPool.query.mockResolvedValue({
+        rows: [{
+          id: 'limit-order-1',
+          type: 'limit',
+          token_in: 'SOL',
+          token_out: 'USDC',
+          amount_in: '2',
+          slippage: '0.01',
+          status: 'waiting',
+          created_at: new Date(),
+          updated_at: new Date(),
+          execution_data: null,
+          user_id: 'user123',
+          limit_price: '101.5'
+        }]
+      });
+
+      const count = await orderProcessor.resumeWaitingOrders();
+
+      expect(count).toBe(1);
+      expect(mockWatch).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'limit-order-1', limitPrice: 101.5, amountIn: 2 }),
+        expect.any(Function)
+      );
+    });
+  });
+
+  describe('watching', () => {
+    let limitOrder: Order;
+
+    beforeEach(() => {
+      limitOrder = { ...mockOrder, id: 'limit-order-1', type: 'limit', limitPrice: 101.5, status: 'waiting' };
+    });
+
+    it('should leave resting orders to the watching process when it does not watch', async () => {
+      const processor = new OrderProcessor(mockEventBus, undefined, null, mockBalanceLedger as any, false);
+      (processor as any).pgPool = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+      (processor as any).redis = (orderProcessor as any).redis;
+      const mockWatch = jest.spyOn((processor as any).priceWatcher, 'watch');
+
+      await processor.submitOrder({ ...limitOrder, status: 'pending' });
+
+      expect(mockEventBus.publish).toHaveBeenCalledWith(expect.objectContaining({ orderId: 'limit-order-1', status: 'waiting' }));
+      expect(mockWatch).not.toHaveBeenCalled();
+      await processor.close();
+    });
+
+    it('should re-arm waiting orders, start expiring orders and follow status events once elected', async () => {
+      const resume = jest.spyOn(orderProcessor, 'resumeWaitingOrders').mockResolvedValue(0);
+      const startExpiry = jest.spyOn((orderProcessor as any).expiryScheduler, 'start').mockImplementation(() => undefined);
+
+      await orderProcessor.startWatching();
+      await orderProcessor.startWatching();
+
+      expect(mockEventBus.subscribe).toHaveBeenCalledTimes(1);
+      expect(resume).toHaveBeenCalled();
+      expect(startExpiry).toHaveBeenCalled();
+    });
+
+    it('should watch orders another process left waiting', async () => {
+      jest.spyOn(orderProcessor, 'getOrder').mockResolvedValue(limitOrder);
+      const mockWatch = jest.spyOn((orderProcessor as any).priceWatcher, 'watch').mockImplementation(() => undefined);
+
+      (orderProcessor as any).followOrderEvent({ orderId: 'limit-order-1', status: 'waiting', timestamp: new Date().toISOString() });
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(mockWatch).toHaveBeenCalledWith(limitOrder, expect.any(Function));
+    });
+
+    it('should stop watching orders another process finished', () => {
+      const unwatch = jest.spyOn((orderProcessor as any).priceWatcher, 'unwatch');
+
+      (orderProcessor as any).followOrderEvent({ orderId: 'limit-order-1', status: 'cancelled', timestamp: new Date().toISOString() });
+
+      expect(unwatch).toHaveBeenCalledWith('limit-order-1');
+    });
+
+    it('should drop every watched order and stop expiring orders when deposed', () => {
+      const stopPrices = jest.spyOn((orderProcessor as any).priceWatcher, 'stop');
+      const disarmSnipers = jest.spyOn((orderProcessor as any).sniperWatcher, 'disarmAll');
+      const stopExpiry = jest.spyOn((orderProcessor as any).expiryScheduler, 'stop');
+      const getOrder = jest.spyOn(orderProcessor, 'getOrder');
+
+      orderProcessor.stopWatching();
+      (orderProcessor as any).followOrderEvent({ orderId: 'limit-order-1', status: 'waiting', timestamp: new Date().toISOString() });
+
+      expect(stopPrices).toHaveBeenCalled();
+      expect(disarmSnipers).toHaveBeenCalled();
+      expect(stopExpiry).toHaveBeenCalled();
+      expect(getOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('twap orders', () => {
+    let twapOrder: Order;
+
+    beforeEach(() => {
+      twapOrder = { ...mockOrder, id: 'twap-parent', type: 'twap', amountIn: 10, slices: 3, durationMs: 60000 };
+    });
+
+    const childOf = (overrides: Partial<Order>): Order => ({
+      ...mockOrder, id: 'child', amountIn: 10 / 3, parentOrderId: twapOrder.id, ...overrides
+    });
+
+    it('should schedule child market orders spread over the duration', async () => {
+      const mockQueue = (orderProcessor as any).queue;
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+
+      await orderProcessor.submitOrder(twapOrder);
+
+      expect(mockBalanceLedger.reserve).toHaveBeenCalledWith('twap-parent', 'user123', 'SOL', 10);
+      expect(mockUpdateStatus).toHaveBeenCalledWith('twap-parent', 'waiting', expect.objectContaining({
+        twap: expect.objectContaining({ slices: 3, filled: 0, childOrderIds: expect.any(Array) })
+      }));
+
+      const jobs = mockQueue.add.mock.calls.map((call: any[]) => ({ order: call[1], delay: call[2].delay }));
+      expect(jobs.map((job: any) => job.delay)).toEqual([0, 20000, 40000]);
+      jobs.forEach((job: any) => {
+        expect(job.order).toEqual(expect.objectContaining({ type: 'market', parentOrderId: 'twap-parent', tokenIn: 'SOL', slippage: 0.01 }));
+      });
+    });
+
+    it('should slice the amount exactly and move each share of the reservation to its child', async () => {
+      await orderProcessor.submitOrder(twapOrder);
+
+      const amounts = mockBalanceLedger.transferReservation.mock.calls.map(call => call[2]);
+      expect(amounts).toEqual([3.33333333, 3.33333333, 3.33333334]);
+      mockBalanceLedger.transferReservation.mock.calls.forEach(call => expect(call[0]).toBe('twap-parent'));
+    });
+
+    it('should cancel scheduled slices when scheduling fails', async () => {
+      (orderProcessor as any).queue.add
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('Queue unavailable'));
+      const cancelOrder = jest.spyOn(orderProcessor, 'cancelOrder').mockResolvedValue({ outcome: 'cancelled' });
+
+      await expect(orderProcessor.submitOrder(twapOrder)).rejects.toThrow('Queue unavailable');
+
+      expect(cancelOrder).toHaveBeenCalledTimes(3);
+      expect(mockBalanceLedger.release).toHaveBeenCalledWith('twap-parent');
+    });
+
+    // Serve the locked parent and its slices through a transaction client
+    const lockTwap = (parent: Order, children: Order[]) => {
+      const client = {
+        query: jest.fn(async (sql: string) => {
+          if (sql.includes('FOR UPDATE')) {
+            return { rows: [parent] };
+          }
+          return { rows: sql.includes('parent_order_id') ? children : [] };
+        }),
+        release: jest.fn()
+      };
+      (orderProcessor as any).pgPool.connect = jest.fn().mockResolvedValue(client);
+      jest.spyOn(orderProcessor as any, 'mapOrderRow').mockImplementation(row => row);
+      return client;
+    };
+
+    it('should aggregate child fills and confirm the parent once every slice is final', async () => {
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      const client = lockTwap({ ...twapOrder, status: 'waiting' }, [
+        childOf({ id: 'c1', amountIn: 4, status: 'confirmed', executionData: { amountOut: 400, gasUsed: 0.001 } }),
+        childOf({ id: 'c2', amountIn: 4, status: 'confirmed', executionData: { amountOut: 392, gasUsed: 0.001 } }),
+        childOf({ id: 'c3', amountIn: 2, status: 'failed', executionData: { error: 'DEX error' } })
+      ]);
+
+      await (orderProcessor as any).onOrderFinished(childOf({ id: 'c3' }));
+
+      expect(mockUpdateStatus).toHaveBeenCalledWith('twap-parent', 'confirmed', {
+        twap: { slices: 3, filled: 2, failed: 1, cancelled: 0, filledAmountIn: 8, childOrderIds: ['c1', 'c2', 'c3'] },
+        amountOut: 792,
+        executedPrice: 99,
+        gasUsed: 0.002
+      }, client);
+    });
+
+    it('should count only the filled part of partially filled slices', async () => {
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      const client = lockTwap({ ...twapOrder, status: 'waiting', slices: 2 }, [
+        childOf({ id: 'c1', amountIn: 5, status: 'confirmed', executionData: { amountOut: 500 } }),
+        childOf({ id: 'c2', amountIn: 5, status: 'confirmed', executionData: { amountOut: 300, filledAmountIn: 3 } })
+      ]);
+
+      await (orderProcessor as any).onOrderFinished(childOf({ id: 'c2' }));
+
+      expect(mockUpdateStatus).toHaveBeenCalledWith('twap-parent', 'confirmed', expect.objectContaining({
+        twap: expect.objectContaining({ filled: 2, filledAmountIn: 8 }),
+        amountOut: 800,
+        executedPrice: 100
+      }), client);
+    });
+
+    it('should keep the parent waiting while slices are outstanding', async () => {
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      const client = lockTwap({ ...twapOrder, status: 'waiting' }, [
+        childOf({ id: 'c1', status: 'confirmed', executionData: { amountOut: 330 } }),
+        childOf({ id: 'c2', status: 'pending' }),
+        childOf({ id: 'c3', status: 'pending' })
+      ]);
+
+      await (orderProcessor as any).onOrderFinished(childOf({ id: 'c1' }));
+
+      expect(mockUpdateStatus).toHaveBeenCalledWith('twap-parent', 'waiting', expect.objectContaining({
+        twap: expect.objectContaining({ filled: 1 }),
+        amountOut: 330
+      }), client);
+    });
+
+    it('should fail the parent when no slice filled', async () => {
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      const client = lockTwap({ ...twapOrder, status: 'waiting' }, [
+        childOf({ id: 'c1', status: 'failed' }),
+        childOf({ id: 'c2', status: 'failed' }),
+        childOf({ id: 'c3', status: 'cancelled' })
+      ]);
+
+      await (orderProcessor as any).onOrderFinished(childOf({ id: 'c3' }));
+
+      expect(mockUpdateStatus).toHaveBeenCalledWith('twap-parent', 'failed', expect.objectContaining({
+        error: 'No TWAP slice was filled'
+      }), client);
+    });
+
+    it('should fold finished slices into the parent while holding its row lock', async () => {
+      const client = lockTwap({ ...twapOrder, status: 'waiting' }, [
+        childOf({ id: 'c1', status: 'confirmed', executionData: { amountOut: 330 } }),
+        childOf({ id: 'c2', status: 'confirmed', executionData: { amountOut: 330 } }),
+        childOf({ id: 'c3', status: 'confirmed', executionData: { amountOut: 330 } })
+      ]);
+
+      await (orderProcessor as any).onOrderFinished(childOf({ id: 'c3' }));
+
+      const statements = client.query.mock.calls.map((call: any[]) => call[0] as string);
+      expect(statements[0]).toBe('BEGIN');
+      expect(statements[1]).toContain('FOR UPDATE');
+      expect(statements.findIndex(sql => sql.startsWith('UPDATE orders'))).toBeGreaterThan(1);
+      expect(statements[statements.length - 1]).toBe('COMMIT');
+      expect((orderProcessor as any).pgPool.query).not.toHaveBeenCalledWith(expect.stringContaining('UPDATE orders'), expect.anything());
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should roll back the parent update when it fails', async () => {
+      const client = lockTwap({ ...twapOrder, status: 'waiting' }, [childOf({ id: 'c1', status: 'confirmed' })]);
+      (orderProcessor as any).eventBus.publish = jest.fn().mockRejectedValue(new Error('Redis unavailable'));
+
+      await (orderProcessor as any).onOrderFinished(childOf({ id: 'c1' }));
+
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(client.query).not.toHaveBeenCalledWith('COMMIT');
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should cancel the parent and every slice that has not been sent', async () => {
+      const parent: Order = { ...twapOrder, status: 'waiting' };
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      jest.spyOn(orderProcessor, 'getOrder').mockImplementation(async id => (id === parent.id ? parent : null));
+      jest.spyOn(orderProcessor, 'getChildOrders').mockResolvedValue([
+        childOf({ id: 'c1', status: 'confirmed' }),
+        childOf({ id: 'c2', status: 'pending' }),
+        childOf({ id: 'c3', status: 'pending' })
+      ]);
+      const cancelOrder = jest.spyOn(orderProcessor, 'cancelOrder');
+
+      const result = await orderProcessor.cancelOrder(parent.id);
+
+      expect(result).toEqual({ outcome: 'cancelled', status: 'cancelled' });
+      expect(mockUpdateStatus).toHaveBeenCalledWith(parent.id, 'cancelled', { cancelReason: 'User cancelled' });
+      expect(cancelOrder).toHaveBeenCalledWith('c2', 'User cancelled');
+      expect(cancelOrder).toHaveBeenCalledWith('c3', 'User cancelled');
+      expect(cancelOrder).not.toHaveBeenCalledWith('c1', expect.anything());
+    });
+  });
+
+  describe('order groups', () => {
+    let ocoGroup: OrderGroup;
+    let stopLoss: Order;
+    let takeProfit: Order;
+
+    beforeEach(() => {
+      ocoGroup = {
+        id: 'group-1', type: 'oco', status: 'active', userId: 'user123',
+        tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1.5, createdAt: new Date()
+      };
+      stopLoss = { ...mockOrder, id: 'sl', type: 'stop_loss', triggerPrice: 95, status: 'waiting', groupId: 'group-1', groupRole: 'exit' };
+      takeProfit = { ...mockOrder, id: 'tp', type: 'take_profit', triggerPrice: 110, status: 'waiting', groupId: 'group-1', groupRole: 'exit' };
+    });
+
+    it('should reserve an OCO group once and arm its exits without their own reservations', async () => {
+      jest.spyOn((orderProcessor as any).priceWatcher, 'watch').mockImplementation(() => undefined);
+
+      await orderProcessor.submitOrderGroup(ocoGroup, [stopLoss, takeProfit]);
+
+      expect(mockBalanceLedger.reserve).toHaveBeenCalledTimes(1);
+      expect(mockBalanceLedger.reserve).toHaveBeenCalledWith('group-1', 'user123', 'SOL', 1.5);
+      expect((orderProcessor as any).queue.add).not.toHaveBeenCalled();
+    });
+
+    it('should let the first triggered exit cancel its sibling and take the group reservation', async () => {
+      const mockPgPool = (orderProcessor as any).pgPool;
+      mockPgPool.query.mockResolvedValueOnce({ rows: [{ id: 'group-1' }] });
+      jest.spyOn(orderProcessor as any, 'getGroupOrders').mockResolvedValue([stopLoss, takeProfit]);
+      const cancelOrder = jest.spyOn(orderProcessor, 'cancelOrder').mockResolvedValue({ outcome: 'cancelled' });
+
+      await (orderProcessor as any).enqueueTriggeredOrder(takeProfit, { triggerPrice: 110, triggeredPrice: 111 });
+
+      expect(mockPgPool.query.mock.calls[0][0]).toContain("status = 'active'");
+      expect(cancelOrder).toHaveBeenCalledWith('sl', 'Linked order tp was triggered');
+      expect(cancelOrder).not.toHaveBeenCalledWith('tp', expect.anything());
+      expect(mockBalanceLedger.transferReservation).toHaveBeenCalledWith('group-1', 'tp', 1.5);
+      expect((orderProcessor as any).queue.add).toHaveBeenCalledWith('execute-order', takeProfit, expect.objectContaining({ jobId: 'tp' }));
+    });
+
+    it('should cancel an exit triggered after its group was claimed', async () => {
+      jest.spyOn(orderProcessor, 'getOrderGroup').mockResolvedValue({ ...ocoGroup, status: 'triggered', triggeredOrderId: 'tp' });
+      jest.spyOn(orderProcessor, 'getOrder').mockResolvedValue(stopLoss);
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+
+      await (orderProcessor as any).enqueueTriggeredOrder(stopLoss, { triggerPrice: 95, triggeredPrice: 94 });
+
+      expect(mockUpdateStatus).toHaveBeenCalledWith('sl', 'cancelled', { cancelReason: 'Another order of the group was triggered first' });
+      expect(mockBalanceLedger.transferReservation).not.toHaveBeenCalled();
+      expect((orderProcessor as any).queue.add).not.toHaveBeenCalled();
+    });
+
+    it('should cancel an exit triggered after the user cancelled its group as a group cancellation', async () => {
+      jest.spyOn(orderProcessor, 'getOrderGroup').mockResolvedValue({ ...ocoGroup, status: 'cancelled' });
+      jest.spyOn(orderProcessor, 'getOrder').mockResolvedValue(stopLoss);
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+
+      await (orderProcessor as any).enqueueTriggeredOrder(stopLoss, { triggerPrice: 95, triggeredPrice: 94 });
+
+      expect(mockUpdateStatus).toHaveBeenCalledWith('sl', 'cancelled', { cancelReason: 'Order group was cancelled' });
+      expect((orderProcessor as any).queue.add).not.toHaveBeenCalled();
+    });
+
+    it('should keep the reason of an exit its group already cancelled', async () => {
+      jest.spyOn(orderProcessor, 'getOrderGroup').mockResolvedValue({ ...ocoGroup, status: 'cancelled' });
+      jest.spyOn(orderProcessor, 'getOrder').mockResolvedValue({ ...stopLoss, status: 'cancelled', executionData: { cancelReason: 'User cancelled' } });
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+
+      await (orderProcessor as any).enqueueTriggeredOrder(stopLoss, { triggerPrice: 95, triggeredPrice: 94 });
+
+      expect(mockUpdateStatus).not.toHaveBeenCalled();
+      expect((orderProcessor as any).queue.add).not.toHaveBeenCalled();
+    });
+
+    it('should leave an exit alone when another watcher of it already claimed the group', async () => {
+      jest.spyOn(orderProcessor, 'getOrderGroup').mockResolvedValue({ ...ocoGroup, status: 'triggered', triggeredOrderId: 'sl' });
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+
+      await (orderProcessor as any).enqueueTriggeredOrder(stopLoss, { triggerPrice: 95, triggeredPrice: 94 });
+
+      expect(mockUpdateStatus).not.toHaveBeenCalled();
+      expect((orderProcessor as any).queue.add).not.toHaveBeenCalled();
+    });
+
+    it('should arm reversed exits for the filled amount once a bracket entry fills', async () => {
+      const bracket: OrderGroup = { ...ocoGroup, type: 'bracket', status: 'pending', takeProfitPrice: 0.0105, stopLossPrice: 0.0095 };
+      const entry: Order = {
+        ...mockOrder, status: 'confirmed', groupId: 'group-1', groupRole: 'entry',
+        executionData: { amountOut: 150.123456789 }
+      };
+      (orderProcessor as any).pgPool.query.mockResolvedValue({ rows: [{ id: 'group-1' }] });
+      jest.spyOn(orderProcessor, 'getOrderGroup').mockResolvedValue(bracket);
+      jest.spyOn(orderProcessor, 'getOrder').mockResolvedValue(entry);
+      const submitOrder = jest.spyOn(orderProcessor, 'submitOrder').mockResolvedValue(undefined);
+
+      await (orderProcessor as any).onOrderFinished(entry);
+
+      expect(mockBalanceLedger.reserve).toHaveBeenCalledWith('group-1', 'user123', 'USDC', 150.12345678);
+      expect(submitOrder).toHaveBeenCalledTimes(2);
+      expect(submitOrder).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'take_profit', tokenIn: 'USDC', tokenOut: 'SOL', amountIn: 150.12345678, triggerPrice: 0.0105, groupRole: 'exit'
+      }));
+      expect(submitOrder).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'stop_loss', tokenIn: 'USDC', tokenOut: 'SOL', amountIn: 150.12345678, triggerPrice: 0.0095, groupRole: 'exit'
+      }));
+    });
+
+    it('should cancel a bracket whose entry failed', async () => {
+      const bracket: OrderGroup = { ...ocoGroup, type: 'bracket', status: 'pending', takeProfitPrice: 0.0105, stopLossPrice: 0.0095 };
+      const entry: Order = { ...mockOrder, status: 'failed', groupId: 'group-1', groupRole: 'entry' };
+      const mockPgPool = (orderProcessor as any).pgPool;
+      jest.spyOn(orderProcessor, 'getOrderGroup').mockResolvedValue(bracket);
+      jest.spyOn(orderProcessor, 'getOrder').mockResolvedValue(entry);
+      const submitOrder = jest.spyOn(orderProcessor, 'submitOrder');
+
+      await (orderProcessor as any).onOrderFinished(entry);
+
+      expect(mockPgPool.query).toHaveBeenCalledWith(expect.stringContaining('UPDATE order_groups'), ['group-1', 'cancelled', ['pending']]);
+      expect(mockBalanceLedger.reserve).not.toHaveBeenCalled();
+      expect(submitOrder).not.toHaveBeenCalled();
+    });
+
+    it('should cancel an untriggered group, its orders and its reservation', async () => {
+      (orderProcessor as any).pgPool.query.mockResolvedValue({ rows: [{ id: 'group-1' }] });
+      jest.spyOn(orderProcessor, 'getOrderGroup').mockResolvedValue(ocoGroup);
+      jest.spyOn(orderProcessor as any, 'getGroupOrders').mockResolvedValue([stopLoss, takeProfit]);
+      const cancelOrder = jest.spyOn(orderProcessor, 'cancelOrder').mockResolvedValue({ outcome: 'cancelled' });
+
+      const result = await orderProcessor.cancelOrderGroup('group-1');
+
+      expect(result).toEqual({ outcome: 'cancelled', status: 'cancelled' });
+      expect(cancelOrder).toHaveBeenCalledWith('sl', 'User cancelled');
+      expect(cancelOrder).toHaveBeenCalledWith('tp', 'User cancelled');
+      expect(mockBalanceLedger.release).toHaveBeenCalledWith('group-1');
+    });
+
+    it('should not cancel a group once an exit has triggered', async () => {
+      jest.spyOn(orderProcessor, 'getOrderGroup').mockResolvedValue({ ...ocoGroup, status: 'triggered', triggeredOrderId: 'tp' });
+      const cancelOrder = jest.spyOn(orderProcessor, 'cancelOrder');
+
+      const result = await orderProcessor.cancelOrderGroup('group-1');
+
+      expect(result).toEqual({ outcome: 'not_cancellable', status: 'triggered' });
+      expect(cancelOrder).not.toHaveBeenCalled();
+      expect(mockBalanceLedger.release).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('time in force', () => {
+    const past = () => new Date(Date.now() - 1000);
+
+    it('should expire a resting GTT order once its expiresAt passes', async () => {
+      const gttOrder: Order = { ...mockOrder, type: 'limit', limitPrice: 1000, status: 'waiting', timeInForce: 'GTT', expiresAt: past() };
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      const priceWatcher = (orderProcessor as any).priceWatcher;
+      jest.spyOn(orderProcessor, 'getOrder').mockResolvedValue(gttOrder);
+
+      priceWatcher.watch(gttOrder, jest.fn());
+      const expired = await orderProcessor.expireOrder(gttOrder.id);
+
+      expect(expired).toBe(true);
+      expect(priceWatcher.isWatching(gttOrder.id)).toBe(false);
+      expect(mockUpdateStatus).toHaveBeenCalledWith(gttOrder.id, 'expired', expect.objectContaining({ errorCode: 'ORDER_EXPIRED' }));
+      expect(mockBalanceLedger.release).toHaveBeenCalledWith(gttOrder.id);
+      expect(mockEventBus.publish).toHaveBeenCalledWith(expect.objectContaining({ orderId: gttOrder.id, status: 'expired' }));
+    });
+
+    it('should not expire orders before expiresAt or once a worker has them', async () => {
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      const getOrder = jest.spyOn(orderProcessor, 'getOrder');
+
+      getOrder.mockResolvedValueOnce({ ...mockOrder, timeInForce: 'GTT', expiresAt: new Date(Date.now() + 60000) });
+      await expect(orderProcessor.expireOrder(mockOrder.id)).resolves.toBe(false);
+
+      getOrder.mockResolvedValueOnce({ ...mockOrder, status: 'routing', timeInForce: 'GTT', expiresAt: past() });
+      await expect(orderProcessor.expireOrder(mockOrder.id)).resolves.toBe(false);
+
+      getOrder.mockResolvedValueOnce({ ...mockOrder, timeInForce: 'GTT', expiresAt: past() });
+      (orderProcessor as any).queue.getJob.mockResolvedValueOnce({ getState: jest.fn().mockResolvedValue('active'), remove: jest.fn() });
+      await expect(orderProcessor.expireOrder(mockOrder.id)).resolves.toBe(false);
+
+      expect(mockUpdateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should expire GTT orders that reach a worker after expiresAt', async () => {
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      const mockDexRouter = (orderProcessor as any).dexRouter;
+      // Job data arrives JSON-serialized
+      const lateOrder = { ...mockOrder, timeInForce: 'GTT', expiresAt: past().toISOString() };
+
+      const result = await (orderProcessor as any).processOrder(lateOrder);
+
+      expect(result).toEqual(expect.objectContaining({ errorCode: 'ORDER_EXPIRED' }));
+      expect(mockDexRouter.routeOrder).not.toHaveBeenCalled();
+      expect(mockUpdateStatus).toHaveBeenCalledWith(mockOrder.id, 'expired', result);
+      expect(mockBalanceLedger.release).toHaveBeenCalledWith(mockOrder.id);
+    });
+
+    it('should expire IOC limit orders that are not marketable on arrival', async () => {
+      const iocOrder: Order = { ...mockOrder, type: 'limit', limitPrice: 110, timeInForce: 'IOC' };
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      const priceWatcher = (orderProcessor as any).priceWatcher;
+      jest.spyOn(priceWatcher, 'getEffectivePrice').mockResolvedValue(99);
+
+      await orderProcessor.submitOrder(iocOrder);
+
+      expect(priceWatcher.isWatching(iocOrder.id)).toBe(false);
+      expect((orderProcessor as any).queue.add).not.toHaveBeenCalled();
+      expect(mockUpdateStatus).not.toHaveBeenCalledWith(iocOrder.id, 'waiting');
+      expect(mockUpdateStatus).toHaveBeenCalledWith(iocOrder.id, 'expired', expect.objectContaining({ errorCode: 'ORDER_EXPIRED' }));
+      expect(mockBalanceLedger.release).toHaveBeenCalledWith(iocOrder.id);
+    });
+
+    it('should queue marketable FOK orders at once with a single attempt', async () => {
+      const fokOrder: Order = { ...mockOrder, type: 'stop_loss', triggerPrice: 100, timeInForce: 'FOK' };
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      jest.spyOn((orderProcessor as any).priceWatcher, 'getEffectivePrice').mockResolvedValue(99);
+
+      await orderProcessor.submitOrder(fokOrder);
+
+      expect(mockUpdateStatus).toHaveBeenCalledWith(fokOrder.id, 'triggered', { triggerPrice: 100, triggeredPrice: 99 });
+      expect((orderProcessor as any).queue.add).toHaveBeenCalledWith('execute-order', fokOrder, expect.objectContaining({
+        jobId: fokOrder.id,
+        attempts: 1
+      }));
+    });
+
+    it('should expire IOC and FOK orders that cannot fill within their slippage', async () => {
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      const mockDexRouter = (orderProcessor as any).dexRouter;
+      mockDexRouter.routeOrder.mockResolvedValue({
+        dex: 'raydium', price: 100, fee: 0.0025, estimatedGas: 0.0001, reason: 'Best price', alternatives: [], expectedAmountOut: 100
+      });
+      mockDexRouter.requoteRoute.mockResolvedValue(98);
+
+      await expect((orderProcessor as any).processOrder({ ...mockOrder, timeInForce: 'FOK' })).rejects.toThrow(SlippageExceededError);
+
+      expect(mockUpdateStatus).toHaveBeenCalledWith(mockOrder.id, 'expired', expect.objectContaining({ errorCode: 'SLIPPAGE_EXCEEDED' }));
+      expect(mockUpdateStatus).not.toHaveBeenCalledWith(mockOrder.id, 'failed', expect.anything());
+    });
+
+    it('should keep the filled legs of an IOC split route and release the rest', async () => {
+      const iocOrder: Order = { ...mockOrder, amountIn: 1000, timeInForce: 'IOC' };
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      const mockDexRouter = (orderProcessor as any).dexRouter;
+      mockDexRouter.routeOrder.mockResolvedValue({
+        dex: 'raydium', price: 100, fee: 0.0025, estimatedGas: 0.00018, reason: 'Split', alternatives: [], expectedAmountOut: 98000,
+        legs: [
+          { dex: 'raydium', fraction: 0.6, amountIn: 600, expectedAmountOut: 58800 },
+          { dex: 'meteora', fraction: 0.4, amountIn: 400, expectedAmountOut: 39200 }
+        ]
+      });
+      mockDexRouter.requoteRoute.mockResolvedValue(98000);
+      mockDexRouter.executeSwap.mockImplementation(async (dex: string, order: Order) => {
+        if (dex === 'meteora') {
+          throw new SlippageExceededError({ stage: 'execution', quotedAmountOut: 39200, minAmountOut: 38808, actualAmountOut: 38000 });
+        }
+        return { txHash: 'tx', executedPrice: 98, gasUsed: 0.0001, slippageImpact: 0.99, dex, timestamp: new Date(), amountOut: order.amountIn * 98 };
+      });
+
+      const result = await (orderProcessor as any).processOrder(iocOrder);
+
+      expect(result).toEqual(expect.objectContaining({ amountOut: 58800, filledAmountIn: 600 }));
+      expect(result.legs).toHaveLength(1);
+      expect(mockUpdateStatus).toHaveBeenCalledWith(iocOrder.id, 'confirmed', result);
+      expect(mockBalanceLedger.settle).toHaveBeenCalledWith(iocOrder.id, 'USDC', 58800, 600);
+    });
+
+    it('should fill FOK orders on a single venue instead of keeping part of a split route', async () => {
+      const fokOrder: Order = { ...mockOrder, amountIn: 1000, timeInForce: 'FOK' };
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      const mockDexRouter = (orderProcessor as any).dexRouter;
+      mockDexRouter.routeOrder.mockImplementation(async (tokenIn: string, tokenOut: string, amount: number, allowSplit: boolean) => ({
+        dex: 'raydium', price: 100, fee: 0.0025, estimatedGas: 0.0001, reason: 'Best price', alternatives: [], expectedAmountOut: 97000,
+        ...(allowSplit && {
+          expectedAmountOut: 98000,
+          legs: [
+            { dex: 'raydium', fraction: 0.6, amountIn: 600, expectedAmountOut: 58800 },
+            { dex: 'meteora', fraction: 0.4, amountIn: 400, expectedAmountOut: 39200 }
+          ]
+        })
+      }));
+      mockDexRouter.requoteRoute.mockResolvedValue(97000);
+      // The meteora leg of a split would fail
+      mockDexRouter.executeSwap.mockImplementation(async (dex: string, order: Order) => {
+        if (dex === 'meteora') {
+          throw new SwapFailedError('Pool drained');
+        }
+        return { txHash: 'tx', executedPrice: 97, gasUsed: 0.0001, slippageImpact: 0.99, dex, timestamp: new Date(), amountOut: order.amountIn * 97 };
+      });
+
+      const result = await (orderProcessor as any).processOrder(fokOrder);
+
+      expect(mockDexRouter.routeOrder).toHaveBeenCalledWith('SOL', 'USDC', 1000, false);
+      expect(mockDexRouter.executeSwap).toHaveBeenCalledTimes(1);
+      expect(result).toEqual(expect.objectContaining({ amountOut: 97000 }));
+      expect(result.filledAmountIn).toBeUndefined();
+      expect(result.failedLegs).toBeUndefined();
+      expect(mockUpdateStatus).toHaveBeenCalledWith(fokOrder.id, 'confirmed', result);
+      expect(mockBalanceLedger.settle).toHaveBeenCalledWith(fokOrder.id, 'USDC', 97000, undefined);
+    });
   });
 
   describe('processOrder', () => {
@@ -101,36 +901,17 @@ describe('OrderProcessor', () => {
 
       // Mock DEX router responses
       const mockDexRouter = (orderProcessor as any).dexRouter;
-      mockDexRouter.getRaydiumQuote.mockResolvedValue({
-        dex: 'raydium',
-        price: 100,
-        fee: 0.0025,
-        liquidity: 1000000,
-        estimatedGas: 0.0001,
-        timestamp: new Date(),
-        amountOut: 99.75,
-        priceImpact: 0.001
-      });
-
-      mockDexRouter.getMeteorQuote.mockResolvedValue({
-        dex: 'meteora',
-        price: 99,
-        fee: 0.002,
-        liquidity: 800000,
-        estimatedGas: 0.00008,
-        timestamp: new Date(),
-        amountOut: 98.802,
-        priceImpact: 0.0008
-      });
 
-      mockDexRouter.selectBestDex.mockReturnValue({
+      mockDexRouter.routeOrder.mockResolvedValue({
         dex: 'meteora',
         price: 99,
         fee: 0.002,
         estimatedGas: 0.00008,
-        reason: 'Better total cost',
-        alternatives: []
+        reason: 'Better output net of gas',
+        alternatives: [],
+        expectedAmountOut: 98.802
       });
+      mockDexRouter.requoteRoute.mockResolvedValue(98.802);
 
       mockDexRouter.executeSwap.mockResolvedValue({
         txHash: '0x1234567890abcdef',
@@ -153,12 +934,65 @@ describe('OrderProcessor', () => {
       expect(mockPersistRoutingDecision).toHaveBeenCalled();
 
       // Verify metrics update
-      expect(mockUpdateMetrics).toHaveBeenCalledWith('meteora', true);
+      expect(mockUpdateMetrics).toHaveBeenCalledWith(['meteora'], true);
 
       // Verify result
       expect(result).toHaveProperty('txHash');
       expect(result).toHaveProperty('executedPrice');
       expect(result).toHaveProperty('dex', 'meteora');
+      expect(result.quotedAmountOut).toBe(98.802);
+      expect(result.minAmountOut).toBeCloseTo(98.802 * (1 - mockOrder.slippage), 8);
+      expect(mockDexRouter.executeSwap).toHaveBeenCalledWith('meteora', mockOrder, {
+        quotedAmountOut: 98.802,
+        minAmountOut: result.minAmountOut
+      });
+    });
+
+    it('should hold sniper fills to their entry price cap', async () => {
+      const sniperOrder: Order = { ...mockOrder, type: 'sniper', tokenIn: 'USDC', tokenOut: 'NEWTOKEN', amountIn: 100, slippage: 0.5, maxEntryPrice: 50 };
+      const mockDexRouter = (orderProcessor as any).dexRouter;
+      mockDexRouter.routeOrder.mockResolvedValue({
+        dex: 'raydium', price: 60, fee: 0.0025, estimatedGas: 0.0001, reason: 'Best price', alternatives: [], expectedAmountOut: 6000
+      });
+      mockDexRouter.requoteRoute.mockResolvedValue(6000);
+      mockDexRouter.executeSwap.mockResolvedValue({
+        txHash: 'tx', executedPrice: 55, gasUsed: 0.0001, slippageImpact: 0.99, dex: 'raydium', timestamp: new Date(), amountOut: 5500
+      });
+
+      const result = await (orderProcessor as any).processOrder(sniperOrder);
+
+      // 50% slippage alone would accept 3000; the cap requires 50 NEWTOKEN per USDC
+      expect(result.minAmountOut).toBe(5000);
+      expect(mockDexRouter.executeSwap).toHaveBeenCalledWith('raydium', sniperOrder, { quotedAmountOut: 6000, minAmountOut: 5000 });
+    });
+
+    it('should fail a sniper order whose pool moved past its entry price cap', async () => {
+      const sniperOrder: Order = { ...mockOrder, type: 'sniper', tokenIn: 'USDC', tokenOut: 'NEWTOKEN', amountIn: 100, slippage: 0.5, maxEntryPrice: 50 };
+      const mockDexRouter = (orderProcessor as any).dexRouter;
+      mockDexRouter.routeOrder.mockResolvedValue({
+        dex: 'raydium', price: 45, fee: 0.0025, estimatedGas: 0.0001, reason: 'Best price', alternatives: [], expectedAmountOut: 4500
+      });
+      mockDexRouter.requoteRoute.mockResolvedValue(4500);
+
+      await expect((orderProcessor as any).processOrder(sniperOrder)).rejects.toThrow(SlippageExceededError);
+
+      expect(mockDexRouter.executeSwap).not.toHaveBeenCalled();
+    });
+
+    it('should settle the fill against the reserved balance', async () => {
+      const mockDexRouter = (orderProcessor as any).dexRouter;
+      mockDexRouter.routeOrder.mockResolvedValue({
+        dex: 'meteora', price: 99, fee: 0.002, estimatedGas: 0.00008, reason: 'Best price', alternatives: [], expectedAmountOut: 148.5
+      });
+      mockDexRouter.requoteRoute.mockResolvedValue(148.5);
+      mockDexRouter.executeSwap.mockResolvedValue({
+        txHash: '0xabc', executedPrice: 99, gasUsed: 0.00008, slippageImpact: 0, dex: 'meteora', timestamp: new Date(), amountOut: 148.5
+      });
+
+      await (orderProcessor as any).processOrder(mockOrder);
+
+      expect(mockBalanceLedger.settle).toHaveBeenCalledWith(mockOrder.id, 'USDC', 148.5, undefined);
+      expect(mockBalanceLedger.release).not.toHaveBeenCalled();
     });
 
     it('should handle processing errors and mark order as failed', async () => {
@@ -167,49 +1001,232 @@ describe('OrderProcessor', () => {
 
       // Mock DEX router to throw error
       const mockDexRouter = (orderProcessor as any).dexRouter;
-      mockDexRouter.getRaydiumQuote.mockRejectedValue(new Error('DEX error'));
+      mockDexRouter.routeOrder.mockRejectedValue(new Error('DEX error'));
 
       await expect((orderProcessor as any).processOrder(mockOrder)).rejects.toThrow('DEX error');
 
       expect(mockUpdateStatus).toHaveBeenCalledWith(mockOrder.id, 'failed', expect.any(Object));
-      expect(mockUpdateMetrics).toHaveBeenCalledWith('', false);
+      expect(mockUpdateMetrics).toHaveBeenCalledWith([], false);
     });
 
-    it('should log performance metrics', async () => {
-      const mockLogPerformance = jest.spyOn(require('../../src/utils/logger').logger, 'logPerformance');
+    it('should fail with SLIPPAGE_EXCEEDED when the submission re-quote breaches tolerance', async () => {
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      const mockRedis = (orderProcessor as any).redis;
 
-      // Mock successful processing
       const mockDexRouter = (orderProcessor as any).dexRouter;
-      mockDexRouter.getRaydiumQuote.mockResolvedValue({
+      mockDexRouter.routeOrder.mockResolvedValue({
         dex: 'raydium',
         price: 100,
         fee: 0.0025,
-        liquidity: 1000000,
         estimatedGas: 0.0001,
-        timestamp: new Date(),
-        amountOut: 99.75,
-        priceImpact: 0.001
+        reason: 'Better output net of gas',
+        alternatives: [],
+        expectedAmountOut: 100
       });
+      // 2% worse than quoted with a 1% tolerance
+      mockDexRouter.requoteRoute.mockResolvedValue(98);
+
+      await expect((orderProcessor as any).processOrder(mockOrder)).rejects.toThrow(SlippageExceededError);
+
+      expect(mockDexRouter.executeSwap).not.toHaveBeenCalled();
+      expect(mockUpdateStatus).not.toHaveBeenCalledWith(mockOrder.id, 'submitted');
+      expect(mockUpdateStatus).toHaveBeenCalledWith(mockOrder.id, 'failed', expect.objectContaining({
+        errorCode: 'SLIPPAGE_EXCEEDED',
+        quotedAmountOut: 100,
+        minAmountOut: 99,
+        actualAmountOut: 98
+      }));
+      expect(mockRedis.incr).toHaveBeenCalledWith('stats:slippage_exceeded');
+    });
 
-      mockDexRouter.getMeteorQuote.mockResolvedValue({
-        dex: 'meteora',
-        price: 99,
-        fee: 0.002,
-        liquidity: 800000,
-        estimatedGas: 0.00008,
-        timestamp: new Date(),
-        amountOut: 98.802,
-        priceImpact: 0.0008
+    it('should record quoted and actual values when the venue rejects the fill', async () => {
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+
+      const mockDexRouter = (orderProcessor as any).dexRouter;
+      mockDexRouter.routeOrder.mockResolvedValue({
+        dex: 'raydium',
+        price: 100,
+        fee: 0.0025,
+        estimatedGas: 0.0001,
+        reason: 'Better output net of gas',
+        alternatives: [],
+        expectedAmountOut: 100
       });
+      mockDexRouter.requoteRoute.mockResolvedValue(99.5);
+      mockDexRouter.executeSwap.mockRejectedValue(new SlippageExceededError({
+        stage: 'execution',
+        quotedAmountOut: 100,
+        minAmountOut: 99,
+        actualAmountOut: 97.5
+      }));
+
+      await expect((orderProcessor as any).processOrder(mockOrder)).rejects.toThrow('Slippage tolerance exceeded at execution');
+
+      expect(mockUpdateStatus).toHaveBeenCalledWith(mockOrder.id, 'failed', expect.objectContaining({
+        errorCode: 'SLIPPAGE_EXCEEDED',
+        actualAmountOut: 97.5
+      }));
+    });
+
+    it('should fill firm-quote orders at the quoted amount whatever the venue returns', async () => {
+      const firmOrder: Order = {
+        ...mockOrder,
+        quoteId: 'quote-1',
+        quotedAmountOut: 150,
+        quoteExpiresAt: new Date(Date.now() + 30000)
+      };
 
-      mockDexRouter.selectBestDex.mockReturnValue({
+      const mockDexRouter = (orderProcessor as any).dexRouter;
+      mockDexRouter.routeOrder.mockResolvedValue({
+        dex: 'meteora', price: 99, fee: 0.002, estimatedGas: 0.00008, reason: 'Best price', alternatives: [], expectedAmountOut: 148.5
+      });
+      // Far outside the order's 1% tolerance; firm quotes are not slippage-guarded
+      mockDexRouter.requoteRoute.mockResolvedValue(140);
+      mockDexRouter.executeSwap.mockResolvedValue({
+        txHash: '0xabc', executedPrice: 93, gasUsed: 0.00008, slippageImpact: 0, dex: 'meteora', timestamp: new Date(), amountOut: 139.5
+      });
+
+      const result = await (orderProcessor as any).processOrder(firmOrder);
+
+      expect(mockDexRouter.executeSwap).toHaveBeenCalledWith('meteora', firmOrder, { quotedAmountOut: 148.5, minAmountOut: 0 });
+      expect(result).toEqual(expect.objectContaining({
+        quoteId: 'quote-1',
+        amountOut: 150,
+        venueAmountOut: 139.5,
+        executedPrice: 100,
+        quotedAmountOut: 150,
+        minAmountOut: 150
+      }));
+      expect(mockBalanceLedger.settle).toHaveBeenCalledWith(firmOrder.id, 'USDC', 150, undefined);
+    });
+
+    it('should fail with QUOTE_EXPIRED when the quote expires before routing', async () => {
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      const mockDexRouter = (orderProcessor as any).dexRouter;
+      // Job data arrives JSON-serialized
+      const expiredOrder = {
+        ...mockOrder,
+        quoteId: 'quote-1',
+        quotedAmountOut: 150,
+        quoteExpiresAt: new Date(Date.now() - 1000).toISOString()
+      };
+
+      await expect((orderProcessor as any).processOrder(expiredOrder)).rejects.toThrow(QuoteExpiredError);
+
+      expect(mockDexRouter.routeOrder).not.toHaveBeenCalled();
+      expect(mockUpdateStatus).toHaveBeenCalledWith(mockOrder.id, 'failed', expect.objectContaining({
+        errorCode: 'QUOTE_EXPIRED'
+      }));
+    });
+
+    it('should fail with QUOTE_EXPIRED when the quote expires while building', async () => {
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      const firmOrder: Order = {
+        ...mockOrder,
+        quoteId: 'quote-1',
+        quotedAmountOut: 150,
+        quoteExpiresAt: new Date(Date.now() + 100)
+      };
+
+      const mockDexRouter = (orderProcessor as any).dexRouter;
+      mockDexRouter.routeOrder.mockResolvedValue({
+        dex: 'meteora', price: 99, fee: 0.002, estimatedGas: 0.00008, reason: 'Best price', alternatives: [], expectedAmountOut: 148.5
+      });
+      mockDexRouter.requoteRoute.mockResolvedValue(148.5);
+
+      await expect((orderProcessor as any).processOrder(firmOrder)).rejects.toThrow(QuoteExpiredError);
+
+      expect(mockDexRouter.executeSwap).not.toHaveBeenCalled();
+      expect(mockUpdateStatus).not.toHaveBeenCalledWith(mockOrder.id, 'submitted');
+    });
+
+    it('should abort cancelled orders before routing', async () => {
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      (orderProcessor as any).redis.get.mockResolvedValue('User cancelled');
+
+      const mockDexRouter = (orderProcessor as any).dexRouter;
+      const result = await (orderProcessor as any).processOrder(mockOrder);
+
+      expect(result).toEqual({ cancelReason: 'User cancelled', errorCode: 'ORDER_CANCELLED' });
+      expect(mockDexRouter.routeOrder).not.toHaveBeenCalled();
+      expect(mockUpdateStatus).toHaveBeenCalledWith(mockOrder.id, 'cancelled', result);
+      expect(mockUpdateStatus).not.toHaveBeenCalledWith(mockOrder.id, 'failed', expect.anything());
+    });
+
+    it('should abort before submission when cancelled mid-flight', async () => {
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      // Not cancelled at the routing and building checkpoints, cancelled before submission
+      (orderProcessor as any).redis.get
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce('User cancelled');
+
+      const mockDexRouter = (orderProcessor as any).dexRouter;
+      mockDexRouter.routeOrder.mockResolvedValue({
+        dex: 'raydium',
+        price: 100,
+        fee: 0.0025,
+        estimatedGas: 0.0001,
+        reason: 'Better output net of gas',
+        alternatives: [],
+        expectedAmountOut: 100
+      });
+      mockDexRouter.requoteRoute.mockResolvedValue(100);
+
+      await (orderProcessor as any).processOrder(mockOrder);
+
+      expect(mockUpdateStatus).toHaveBeenCalledWith(mockOrder.id, 'building');
+      expect(mockUpdateStatus).not.toHaveBeenCalledWith(mockOrder.id, 'submitted');
+      expect(mockDexRouter.executeSwap).not.toHaveBeenCalled();
+      expect(mockUpdateStatus).toHaveBeenCalledWith(mockOrder.id, 'cancelled', expect.objectContaining({ errorCode: 'ORDER_CANCELLED' }));
+    });
+
+    it('should discard jobs that fail with non-retryable errors', async () => {
+      const { Worker } = require('bullmq');
+      const processor = (Worker as jest.Mock).mock.calls[(Worker as jest.Mock).mock.calls.length - 1][1];
+      const job = { data: mockOrder, discard: jest.fn(), attemptsMade: 0, opts: { attempts: 3 } };
+
+      jest.spyOn(orderProcessor as any, 'processOrder').mockRejectedValueOnce(new SlippageExceededError({
+        stage: 'submission',
+        quotedAmountOut: 100,
+        minAmountOut: 99,
+        actualAmountOut: 98
+      }));
+      await expect(processor(job)).rejects.toThrow(SlippageExceededError);
+      expect(job.discard).toHaveBeenCalled();
+
+      jest.spyOn(orderProcessor as any, 'processOrder').mockRejectedValueOnce(new Error('RPC timeout'));
+      await expect(processor({ ...job, discard: jest.fn() })).rejects.toThrow('RPC timeout');
+    });
+
+    it('should only release funds once the job has no attempts left', async () => {
+      const { Worker } = require('bullmq');
+      const processor = (Worker as jest.Mock).mock.calls[(Worker as jest.Mock).mock.calls.length - 1][1];
+      jest.spyOn(orderProcessor as any, 'processOrder').mockRejectedValue(new Error('RPC timeout'));
+
+      await expect(processor({ data: mockOrder, discard: jest.fn(), attemptsMade: 1, opts: { attempts: 3 } })).rejects.toThrow('RPC timeout');
+      expect(mockBalanceLedger.release).not.toHaveBeenCalled();
+
+      await expect(processor({ data: mockOrder, discard: jest.fn(), attemptsMade: 2, opts: { attempts: 3 } })).rejects.toThrow('RPC timeout');
+      expect(mockBalanceLedger.release).toHaveBeenCalledWith(mockOrder.id);
+    });
+
+    it('should log performance metrics', async () => {
+      const mockLogPerformance = jest.spyOn(require('../../src/utils/logger').logger, 'logPerformance');
+
+      // Mock successful processing
+      const mockDexRouter = (orderProcessor as any).dexRouter;
+
+      mockDexRouter.routeOrder.mockResolvedValue({
         dex: 'meteora',
         price: 99,
         fee: 0.002,
         estimatedGas: 0.00008,
-        reason: 'Better total cost',
-        alternatives: []
+        reason: 'Better output net of gas',
+        alternatives: [],
+        expectedAmountOut: 98.802
       });
+      mockDexRouter.requoteRoute.mockResolvedValue(98.802);
 
       mockDexRouter.executeSwap.mockResolvedValue({
         txHash: '0x1234567890abcdef',
@@ -231,6 +1248,225 @@ describe('OrderProcessor', () => {
         })
       );
     });
+
+    it('should execute split routes leg by leg and aggregate the fills', async () => {
+      const mockPersistRoutingDecision = jest.spyOn(orderProcessor as any, 'persistRoutingDecision');
+      const mockUpdateMetrics = jest.spyOn(orderProcessor as any, 'updateMetrics');
+      const largeOrder: Order = { ...mockOrder, amountIn: 1000 };
+
+      const mockDexRouter = (orderProcessor as any).dexRouter;
+      mockDexRouter.routeOrder.mockResolvedValue({
+        dex: 'raydium',
+        price: 100,
+        fee: 0.0025,
+        estimatedGas: 0.00018,
+        reason: 'Split across Raydium 60% / Meteora 40%',
+        alternatives: [],
+        expectedAmountOut: 98000,
+        legs: [
+          { dex: 'raydium', fraction: 0.6, amountIn: 600, expectedAmountOut: 58800 },
+          { dex: 'meteora', fraction: 0.4, amountIn: 400, expectedAmountOut: 39200 }
+        ]
+      });
+      mockDexRouter.executeSwap.mockImplementation(async (dex: string, order: Order) => ({
+        txHash: `${dex}-tx`,
+        executedPrice: 98,
+        gasUsed: 0.0001,
+        slippageImpact: 0.99,
+        dex,
+        timestamp: new Date(),
+        amountOut: order.amountIn * 98
+      }));
+
+      const result = await (orderProcessor as any).processOrder(largeOrder);
+
+      // Each leg is protected against its own quote
+      expect(mockDexRouter.executeSwap).toHaveBeenCalledWith(
+        'raydium',
+        expect.objectContaining({ id: largeOrder.id, amountIn: 600 }),
+        { quotedAmountOut: 58800, minAmountOut: 58800 * (1 - largeOrder.slippage) }
+      );
+      expect(mockDexRouter.executeSwap).toHaveBeenCalledWith(
+        'meteora',
+        expect.objectContaining({ id: largeOrder.id, amountIn: 400 }),
+        { quotedAmountOut: 39200, minAmountOut: 39200 * (1 - largeOrder.slippage) }
+      );
+      expect(mockPersistRoutingDecision).toHaveBeenCalledWith(largeOrder.id, expect.objectContaining({ legs: expect.any(Array) }));
+      expect(result.amountOut).toBeCloseTo(98000, 6);
+      expect(result.executedPrice).toBeCloseTo(98, 6);
+      expect(result.gasUsed).toBeCloseTo(0.0002, 8);
+      expect(result.legs).toEqual([
+        expect.objectContaining({ dex: 'raydium', amountIn: 600, amountOut: 58800, txHash: 'raydium-tx' }),
+        expect.objectContaining({ dex: 'meteora', amountIn: 400, amountOut: 39200, txHash: 'meteora-tx' })
+      ]);
+      expect(mockUpdateMetrics).toHaveBeenCalledWith(['raydium', 'meteora'], true);
+    });
+
+    it('should keep the legs that filled when another split leg fails', async () => {
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+
+      const mockDexRouter = (orderProcessor as any).dexRouter;
+      mockDexRouter.routeOrder.mockResolvedValue({
+        dex: 'raydium',
+        price: 100,
+        fee: 0.0025,
+        estimatedGas: 0.00018,
+        reason: 'Split',
+        alternatives: [],
+        expectedAmountOut: 98000,
+        legs: [
+          { dex: 'raydium', fraction: 0.5, amountIn: 500, expectedAmountOut: 49000 },
+          { dex: 'meteora', fraction: 0.5, amountIn: 500, expectedAmountOut: 49000 }
+        ]
+      });
+      mockDexRouter.requoteRoute.mockResolvedValue(98000);
+      mockDexRouter.executeSwap.mockImplementation(async (dex: string) => {
+        if (dex === 'meteora') throw new Error('Insufficient liquidity');
+        return { txHash: 'tx', executedPrice: 98, gasUsed: 0.0001, slippageImpact: 0.99, dex, timestamp: new Date(), amountOut: 49000 };
+      });
+
+      const result = await (orderProcessor as any).processOrder({ ...mockOrder, amountIn: 1000 });
+
+      expect(result).toEqual(expect.objectContaining({
+        amountOut: 49000,
+        filledAmountIn: 500,
+        failedLegs: ['meteora: Insufficient liquidity']
+      }));
+      expect(mockUpdateStatus).toHaveBeenCalledWith(mockOrder.id, 'confirmed', result);
+      expect(mockBalanceLedger.settle).toHaveBeenCalledWith(mockOrder.id, 'USDC', 49000, 500);
+    });
+
+    it('should fail without retry when every split leg fails', async () => {
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+
+      const mockDexRouter = (orderProcessor as any).dexRouter;
+      mockDexRouter.routeOrder.mockResolvedValue({
+        dex: 'raydium',
+        price: 100,
+        fee: 0.0025,
+        estimatedGas: 0.00018,
+        reason: 'Split',
+        alternatives: [],
+        expectedAmountOut: 98000,
+        legs: [
+          { dex: 'raydium', fraction: 0.5, amountIn: 500, expectedAmountOut: 49000 },
+          { dex: 'meteora', fraction: 0.5, amountIn: 500, expectedAmountOut: 49000 }
+        ]
+      });
+      mockDexRouter.requoteRoute.mockResolvedValue(98000);
+      mockDexRouter.executeSwap.mockRejectedValue(new Error('Insufficient liquidity'));
+
+      const error = await (orderProcessor as any).processOrder({ ...mockOrder, amountIn: 1000 }).catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(SwapFailedError);
+      expect(error.retryable).toBe(false);
+      expect(error.message).toBe('Split route failed on 2/2 legs (raydium: Insufficient liquidity; meteora: Insufficient liquidity)');
+      expect(mockUpdateStatus).toHaveBeenCalledWith(mockOrder.id, 'failed', expect.objectContaining({ errorCode: 'SWAP_FAILED' }));
+      expect(mockBalanceLedger.settle).not.toHaveBeenCalled();
+    });
+
+    it('should not retry orders whose swap failed after being sent', async () => {
+      const mockDexRouter = (orderProcessor as any).dexRouter;
+      mockDexRouter.routeOrder.mockResolvedValue({
+        dex: 'raydium', price: 100, fee: 0.0025, estimatedGas: 0.0001, reason: 'Best price', alternatives: [], expectedAmountOut: 100
+      });
+      mockDexRouter.requoteRoute.mockResolvedValue(100);
+      mockDexRouter.executeSwap.mockRejectedValue(new Error('RPC timeout'));
+
+      await expect((orderProcessor as any).processOrder(mockOrder)).rejects.toThrow(SwapFailedError);
+    });
+    it('should execute multi-hop routes hop by hop with realized amounts', async () => {
+      const mockPersistRoutingDecision = jest.spyOn(orderProcessor as any, 'persistRoutingDecision');
+      const bonkOrder: Order = { ...mockOrder, tokenIn: 'BONK', tokenOut: 'USDC', amountIn: 1000000 };
+
+      const mockDexRouter = (orderProcessor as any).dexRouter;
+      mockDexRouter.routeOrder.mockResolvedValue({
+        dex: 'raydium',
+        price: 0.00002,
+        fee: 0.0045,
+        estimatedGas: 0.00018,
+        reason: 'Multi-hop BONK → SOL → USDC via Raydium, Meteora (no direct pool)',
+        alternatives: [],
+        expectedAmountOut: 19.8,
+        path: [
+          { dex: 'raydium', tokenIn: 'BONK', tokenOut: 'SOL', amountIn: 1000000, expectedAmountOut: 0.2 },
+          { dex: 'meteora', tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 0.2, expectedAmountOut: 19.8 }
+        ]
+      });
+      mockDexRouter.executeSwap
+        .mockResolvedValueOnce({ txHash: 'hop-1', executedPrice: 0.00000019, gasUsed: 0.0001, slippageImpact: 0.99, dex: 'raydium', timestamp: new Date(), amountOut: 0.19 })
+        .mockResolvedValueOnce({ txHash: 'hop-2', executedPrice: 100, gasUsed: 0.00008, slippageImpact: 1, dex: 'meteora', timestamp: new Date(), amountOut: 19 });
+
+      const result = await (orderProcessor as any).processOrder(bonkOrder);
+
+      expect(mockDexRouter.executeSwap).toHaveBeenNthCalledWith(
+        1, 'raydium', expect.objectContaining({ tokenIn: 'BONK', tokenOut: 'SOL', amountIn: 1000000 }), undefined
+      );
+      // Second hop swaps what the first hop actually returned and carries the order's minimum output
+      expect(mockDexRouter.executeSwap).toHaveBeenNthCalledWith(
+        2, 'meteora', expect.objectContaining({ tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 0.19 }),
+        { quotedAmountOut: 19.8, minAmountOut: 19.8 * (1 - bonkOrder.slippage) }
+      );
+      expect(mockPersistRoutingDecision).toHaveBeenCalledWith(bonkOrder.id, expect.objectContaining({ path: expect.any(Array) }));
+      expect(result.amountOut).toBe(19);
+      expect(result.txHash).toBe('hop-2');
+      expect(result.path).toHaveLength(2);
+    });
+
+    it('should report the failing hop and credit the intermediate token it stopped at', async () => {
+      const mockUpdateStatus = jest.spyOn(orderProcessor as any, 'updateOrderStatus');
+      const mockDexRouter = (orderProcessor as any).dexRouter;
+      mockDexRouter.routeOrder.mockResolvedValue({
+        dex: 'raydium',
+        price: 0.00002,
+        fee: 0.0045,
+        estimatedGas: 0.00018,
+        reason: 'Multi-hop',
+        alternatives: [],
+        path: [
+          { dex: 'raydium', tokenIn: 'BONK', tokenOut: 'SOL', amountIn: 1000000, expectedAmountOut: 0.2 },
+          { dex: 'meteora', tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 0.2, expectedAmountOut: 19.8 }
+        ]
+      });
+      mockDexRouter.executeSwap
+        .mockResolvedValueOnce({ txHash: 'hop-1', executedPrice: 0.0000002, gasUsed: 0.0001, slippageImpact: 1, dex: 'raydium', timestamp: new Date(), amountOut: 0.2 })
+        .mockRejectedValueOnce(new Error('RPC timeout'));
+
+      const error = await (orderProcessor as any).processOrder({ ...mockOrder, tokenIn: 'BONK' }).catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(RouteIncompleteError);
+      expect(error.message).toBe('Multi-hop route failed at hop 2 (SOL→USDC): RPC timeout');
+      expect(error.retryable).toBe(false);
+      expect(mockUpdateStatus).toHaveBeenCalledWith(mockOrder.id, 'failed', expect.objectContaining({
+        errorCode: 'ROUTE_INCOMPLETE',
+        heldToken: 'SOL',
+        heldAmount: 0.2,
+        path: [expect.objectContaining({ txHash: 'hop-1', amountOut: 0.2 })]
+      }));
+      expect(mockBalanceLedger.settle).toHaveBeenCalledWith(mockOrder.id, 'SOL', 0.2, undefined);
+    });
+
+    it('should fail without stranding funds when the first hop fails', async () => {
+      const mockDexRouter = (orderProcessor as any).dexRouter;
+      mockDexRouter.routeOrder.mockResolvedValue({
+        dex: 'raydium',
+        price: 0.00002,
+        fee: 0.0045,
+        estimatedGas: 0.00018,
+        reason: 'Multi-hop',
+        alternatives: [],
+        path: [
+          { dex: 'raydium', tokenIn: 'BONK', tokenOut: 'SOL', amountIn: 1000000, expectedAmountOut: 0.2 },
+          { dex: 'meteora', tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 0.2, expectedAmountOut: 19.8 }
+        ]
+      });
+      mockDexRouter.executeSwap.mockRejectedValueOnce(new Error('RPC timeout'));
+
+      await expect((orderProcessor as any).processOrder({ ...mockOrder, tokenIn: 'BONK' }))
+        .rejects.toThrow(SwapFailedError);
+      expect(mockDexRouter.executeSwap).toHaveBeenCalledTimes(1);
+      expect(mockBalanceLedger.settle).not.toHaveBeenCalled();
+    });
   });
 
   describe('updateOrderStatus', () => {
@@ -249,7 +1485,7 @@ describe('OrderProcessor', () => {
       );
 
       expect(mockPgPool.query).toHaveBeenCalledWith(
-        'UPDATE orders SET status = $1, updated_at = $2, execution_data = $3 WHERE id = $4',
+        expect.stringContaining('UPDATE orders SET status = $1, updated_at = $2, execution_data = $3'),
         ['confirmed', expect.any(Date), JSON.stringify({ txHash: '0x123' }), mockOrder.id]
       );
     });
@@ -260,19 +1496,55 @@ describe('OrderProcessor', () => {
       await (orderProcessor as any).updateOrderStatus(mockOrder.id, 'routing');
 
       expect(mockPgPool.query).toHaveBeenCalledWith(
-        'INSERT INTO order_events (order_id, status, data) VALUES ($1, $2, $3)',
-        [mockOrder.id, 'routing', null]
+        expect.stringContaining('INSERT INTO order_events (order_id, status, data, sequence)'),
+        [mockOrder.id, 'routing', null, undefined]
       );
     });
 
-    it('should emit WebSocket updates', async () => {
+    it('should publish status events', async () => {
       await (orderProcessor as any).updateOrderStatus(mockOrder.id, 'confirmed', { txHash: '0x123' });
 
-      expect(mockWsManager.emitToOrder).toHaveBeenCalledWith(
-        mockOrder.id,
-        'confirmed',
-        { txHash: '0x123' }
+      expect(mockEventBus.publish).toHaveBeenCalledWith({
+        orderId: mockOrder.id,
+        status: 'confirmed',
+        data: { txHash: '0x123' },
+        userId: undefined,
+        sequence: undefined,
+        timestamp: expect.any(String)
+      });
+    });
+
+    it('should include the order owner so user subscribers receive the update', async () => {
+      const mockPgPool = (orderProcessor as any).pgPool;
+      mockPgPool.query.mockResolvedValueOnce({ rows: [{ user_id: 'user123' }] });
+
+      await (orderProcessor as any).updateOrderStatus(mockOrder.id, 'routing');
+
+      expect(mockEventBus.publish).toHaveBeenCalledWith(expect.objectContaining({
+        orderId: mockOrder.id,
+        status: 'routing',
+        userId: 'user123'
+      }));
+    });
+
+    it('should tag updates with the next sequence taken from the order row', async () => {
+      const mockPgPool = (orderProcessor as any).pgPool;
+      mockPgPool.query.mockResolvedValueOnce({ rows: [{ user_id: 'user123', last_sequence: 3 }] });
+
+      await (orderProcessor as any).updateOrderStatus(mockOrder.id, 'building');
+
+      expect(mockPgPool.query.mock.calls[0][0]).toContain('last_sequence = last_sequence + 1');
+      expect(mockPgPool.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO order_events'),
+        [mockOrder.id, 'building', null, 3]
       );
+
+      expect(mockEventBus.publish).toHaveBeenCalledWith(expect.objectContaining({
+        orderId: mockOrder.id,
+        status: 'building',
+        userId: 'user123',
+        sequence: 3
+      }));
     });
   });
 
@@ -284,7 +1556,8 @@ describe('OrderProcessor', () => {
         .mockResolvedValueOnce('90')  // successful
         .mockResolvedValueOnce('10')  // failed
         .mockResolvedValueOnce('60')  // raydium
-        .mockResolvedValueOnce('30'); // meteora
+        .mockResolvedValueOnce('30')  // meteora
+        .mockResolvedValueOnce('4');  // slippage exceeded
 
       const metrics = await orderProcessor.getMetrics();
 
@@ -292,6 +1565,7 @@ describe('OrderProcessor', () => {
         totalOrders: 100,
         successfulOrders: 90,
         failedOrders: 10,
+        slippageExceeded: 4,
         raydiumRouted: 60,
         meteoraRouted: 30,
         successRate: 90
@@ -308,6 +1582,7 @@ describe('OrderProcessor', () => {
         totalOrders: 0,
         successfulOrders: 0,
         failedOrders: 0,
+        slippageExceeded: 0,
         raydiumRouted: 0,
         meteoraRouted: 0,
         successRate: 0
@@ -361,6 +1636,21 @@ describe('OrderProcessor', () => {
     });
   });
 
+  describe('filterOwnedOrders', () => {
+    it('should return only the orders owned by the user', async () => {
+      const mockPgPool = (orderProcessor as any).pgPool;
+      mockPgPool.query.mockResolvedValue({ rows: [{ id: 'order-1' }] });
+
+      const owned = await orderProcessor.filterOwnedOrders('user123', ['order-1', 'order-2']);
+
+      expect(owned).toEqual(['order-1']);
+      expect(mockPgPool.query).toHaveBeenCalledWith(
+        'SELECT id FROM orders WHERE user_id = $1 AND id = ANY($2)',
+        ['user123', ['order-1', 'order-2']]
+      );
+    });
+  });
+
   describe('getOrderEvents', () => {
     it('should return order events timeline', async () => {
       const mockPgPool = (orderProcessor as any).pgPool;
@@ -375,10 +1665,47 @@ describe('OrderProcessor', () => {
 
       expect(events).toEqual(mockEvents);
       expect(mockPgPool.query).toHaveBeenCalledWith(
-        'SELECT * FROM order_events WHERE order_id = $1 ORDER BY timestamp ASC',
-        ['test-order-123']
+        'SELECT * FROM order_events WHERE order_id = $1 AND sequence > $2 ORDER BY sequence ASC',
+        ['test-order-123', 0]
       );
     });
+
+    it('should return only events after a sequence for replay', async () => {
+      const mockPgPool = (orderProcessor as any).pgPool;
+      const timestamp = new Date();
+      mockPgPool.query.mockResolvedValue({
+        rows: [{ id: 7, order_id: 'test-order-123', status: 'confirmed', data: { txHash: '0x1' }, sequence: 5, timestamp }]
+      });
+
+      const history = await orderProcessor.getOrderHistory('test-order-123', 4);
+
+      expect(history).toEqual([{ sequence: 5, status: 'confirmed', data: { txHash: '0x1' }, timestamp }]);
+      expect(mockPgPool.query).toHaveBeenCalledWith(expect.any(String), ['test-order-123', 4]);
+    });
+  });
+
+  describe('worker setup', () => {
+    it('should apply worker concurrency and limiter settings', () => {
+      const { Worker } = require('bullmq');
+      (Worker as jest.Mock).mockClear();
+
+      new OrderProcessor(mockEventBus, undefined, { concurrency: 4, limiter: { max: 20, duration: 1000 } });
+
+      expect(Worker).toHaveBeenCalledWith('order-execution', expect.any(Function), expect.objectContaining({
+        concurrency: 4,
+        limiter: { max: 20, duration: 1000 }
+      }));
+    });
+
+    it('should only enqueue orders when started without a worker', async () => {
+      const { Worker } = require('bullmq');
+      (Worker as jest.Mock).mockClear();
+
+      const apiProcessor = new OrderProcessor(mockEventBus, undefined, null);
+
+      expect(Worker).not.toHaveBeenCalled();
+      await expect(apiProcessor.close()).resolves.toBeUndefined();
+    });
   });
 
   describe('close', () => {
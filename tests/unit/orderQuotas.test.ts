@@ -0,0 +1,144 @@
+import { OrderQuotas } from '../../src/services/orderQuotas';
+
+// Mock dependencies
+jest.mock('../../src/utils/logger');
+
+describe('OrderQuotas', () => {
+  let client: { query: jest.Mock; release: jest.Mock };
+  let pgPool: { query: jest.Mock; connect: jest.Mock };
+  let valueOf: jest.Mock;
+  let orderQuotas: OrderQuotas;
+  let open: { orders: number; notional: number };
+
+  const openOrders = (count: number, notional: number) => {
+    open = { orders: count, notional };
+  };
+
+  const statements = () => client.query.mock.calls.map(([sql]) => sql as string);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    openOrders(0, 0);
+    client = {
+      query: jest.fn(async (sql: string) => {
+        if (sql.includes('COUNT(*)')) {
+          return { rows: [{ open_orders: String(open.orders), open_notional: String(open.notional) }] };
+        }
+        if (sql.includes('INSERT INTO order_quota_reservations')) {
+          return { rows: [{ id: 7 }] };
+        }
+        return { rows: [] };
+      }),
+      release: jest.fn()
+    };
+    pgPool = { query: jest.fn().mockResolvedValue({ rows: [] }), connect: jest.fn().mockResolvedValue(client) };
+    valueOf = jest.fn().mockResolvedValue(150);
+    orderQuotas = new OrderQuotas(valueOf, pgPool, { maxOpenOrders: 3, maxOpenNotional: 1000, notionalToken: 'USDC' });
+  });
+
+  describe('reserve', () => {
+    it('should reserve orders within quota and return their notional', async () => {
+      const reservation = await orderQuotas.reserve('user123', 'SOL', 1.5);
+
+      expect(reservation).toEqual({ allowed: true, notional: 150, reservationId: 7 });
+      expect(valueOf).toHaveBeenCalledWith('SOL', 'USDC', 1.5);
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('FROM orders WHERE user_id = $1'), [
+        'user123',
+        ['confirmed', 'failed', 'cancelled', 'expired']
+      ]);
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO order_quota_reservations'), ['user123', 150, 60000]);
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should count the user\'s open orders under a lock together with in-flight reservations', async () => {
+      await orderQuotas.reserve('user123', 'SOL', 1.5);
+
+      const sql = statements();
+      const lock = sql.findIndex(statement => statement.includes('pg_advisory_xact_lock'));
+      const count = sql.findIndex(statement => statement.includes('COUNT(*)'));
+
+      expect(sql[0]).toBe('BEGIN');
+      expect(lock).toBeGreaterThan(0);
+      expect(count).toBeGreaterThan(lock);
+      expect(sql[count]).toContain('FROM order_quota_reservations WHERE user_id = $1 AND expires_at > NOW()');
+      expect(sql[sql.length - 1]).toBe('COMMIT');
+    });
+
+    it('should value orders in the notional token at face value', async () => {
+      const reservation = await orderQuotas.reserve('user123', 'USDC', 250);
+
+      expect(reservation).toEqual(expect.objectContaining({ allowed: true, notional: 250 }));
+      expect(valueOf).not.toHaveBeenCalled();
+    });
+
+    it('should reject once the open order limit is reached', async () => {
+      openOrders(3, 300);
+
+      const reservation = await orderQuotas.reserve('user123', 'SOL', 1.5);
+
+      expect(reservation).toEqual(expect.objectContaining({ allowed: false, limit: 'max_open_orders', max: 3, current: 3 }));
+      expect(statements().some(sql => sql.includes('INSERT'))).toBe(false);
+    });
+
+    it('should reject orders that would exceed the open notional limit', async () => {
+      openOrders(1, 900);
+
+      const reservation = await orderQuotas.reserve('user123', 'SOL', 1.5);
+
+      expect(reservation).toEqual(expect.objectContaining({ allowed: false, limit: 'max_open_notional', max: 1000, current: 900 }));
+      expect(statements().some(sql => sql.includes('INSERT'))).toBe(false);
+    });
+
+    it('should only count orders without a route towards open orders', async () => {
+      valueOf.mockRejectedValue(new Error('No route found for NEW/USDC'));
+      openOrders(1, 999);
+
+      const reservation = await orderQuotas.reserve('user123', 'NEW', 1000000);
+
+      expect(reservation).toEqual({ allowed: true, notional: undefined, reservationId: 7 });
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO order_quota_reservations'), ['user123', null, 60000]);
+    });
+
+    it('should skip the lookup when both limits are disabled', async () => {
+      orderQuotas = new OrderQuotas(valueOf, pgPool, { maxOpenOrders: 0, maxOpenNotional: 0, notionalToken: 'USDC' });
+
+      const reservation = await orderQuotas.reserve('user123', 'SOL', 1.5);
+
+      expect(reservation).toEqual({ allowed: true, notional: 150 });
+      expect(pgPool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should roll back when the reservation cannot be recorded', async () => {
+      const count = client.query.getMockImplementation()!;
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('INSERT')) throw new Error('connection reset');
+        return count(sql);
+      });
+
+      await expect(orderQuotas.reserve('user123', 'SOL', 1.5)).rejects.toThrow('connection reset');
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(client.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('release', () => {
+    it('should delete the reservation', async () => {
+      await orderQuotas.release(7);
+
+      expect(pgPool.query).toHaveBeenCalledWith('DELETE FROM order_quota_reservations WHERE id = $1', [7]);
+    });
+
+    it('should do nothing without a reservation', async () => {
+      await orderQuotas.release(undefined);
+
+      expect(pgPool.query).not.toHaveBeenCalled();
+    });
+
+    it('should leave reservations it cannot delete to lapse', async () => {
+      pgPool.query.mockRejectedValue(new Error('connection reset'));
+
+      await expect(orderQuotas.release(7)).resolves.toBeUndefined();
+    });
+  });
+});
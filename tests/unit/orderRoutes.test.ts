@@ -0,0 +1,197 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { orderRoutes } from '../../src/routes/orders';
+import { createAuthHook } from '../../src/utils/auth';
+
+// Route tests run against a real Fastify instance
+jest.unmock('fastify');
+
+// Mock dependencies
+jest.mock('../../src/utils/logger');
+
+describe('order routes', () => {
+  let app: FastifyInstance;
+  let orderProcessor: { submitOrder: jest.Mock; getOrder: jest.Mock; cancelOrder: jest.Mock };
+  let idempotencyStore: { reserve: jest.Mock; complete: jest.Mock; release: jest.Mock };
+  let rateLimiter: { consume: jest.Mock };
+  let orderQuotas: { reserve: jest.Mock; release: jest.Mock };
+  let riskEngine: { evaluate: jest.Mock };
+  let quoteService: { redeem: jest.Mock };
+
+  const marketOrder = { type: 'market', tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1.5, slippage: 0.01 };
+
+  const execute = (body: Record<string, unknown>, headers: Record<string, string> = {}) =>
+    app.inject({ method: 'POST', url: '/api/orders/execute', headers: { authorization: 'Bearer oek_1', ...headers }, payload: body });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    orderProcessor = {
+      submitOrder: jest.fn().mockResolvedValue(undefined),
+      getOrder: jest.fn().mockResolvedValue({ id: 'order-1', userId: 'user123', status: 'routing' }),
+      cancelOrder: jest.fn().mockResolvedValue({ outcome: 'cancelled', status: 'cancelled' })
+    };
+    idempotencyStore = {
+      reserve: jest.fn().mockResolvedValue({ outcome: 'reserved' }),
+      complete: jest.fn().mockResolvedValue(undefined),
+      release: jest.fn().mockResolvedValue(undefined)
+    };
+    rateLimiter = { consume: jest.fn().mockResolvedValue({ allowed: true, remaining: 19, retryAfterMs: 0 }) };
+    orderQuotas = {
+      reserve: jest.fn().mockResolvedValue({ allowed: true, notional: 150, reservationId: 7 }),
+      release: jest.fn().mockResolvedValue(undefined)
+    };
+    riskEngine = { evaluate: jest.fn().mockResolvedValue({ approved: true, rejections: [] }) };
+    quoteService = { redeem: jest.fn().mockResolvedValue(null) };
+
+    app = Fastify();
+    app.addHook('onRequest', createAuthHook({ authenticate: jest.fn().mockResolvedValue({ userId: 'user123', keyId: 1 }) } as any));
+    await app.register(orderRoutes, {
+      prefix: '/api/orders',
+      orderProcessor: orderProcessor as any,
+      idempotencyStore: idempotencyStore as any,
+      rateLimiter: rateLimiter as any,
+      orderQuotas: orderQuotas as any,
+      riskEngine: riskEngine as any,
+      quoteService: quoteService as any
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('POST /api/orders/execute', () => {
+    it('should submit new orders and take a rate-limit token', async () => {
+      const response = await execute(marketOrder);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual(expect.objectContaining({ status: 'pending', websocketUrl: '/ws' }));
+      expect(rateLimiter.consume).toHaveBeenCalledWith('key:1');
+      expect(orderProcessor.submitOrder).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user123', type: 'market' }));
+    });
+
+    it('should replay a completed submission without taking a rate-limit token', async () => {
+      const original = { orderId: 'order-1', status: 'pending', message: 'Order submitted successfully' };
+      idempotencyStore.reserve.mockResolvedValue({ outcome: 'completed', response: original });
+
+      const response = await execute(marketOrder, { 'idempotency-key': 'retry-1' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['idempotent-replayed']).toBe('true');
+      expect(response.json()).toEqual(original);
+      expect(rateLimiter.consume).not.toHaveBeenCalled();
+      expect(orderProcessor.submitOrder).not.toHaveBeenCalled();
+    });
+
+    it('should answer retries of an in-flight submission without taking a rate-limit token', async () => {
+      idempotencyStore.reserve.mockResolvedValue({ outcome: 'in_progress' });
+
+      const response = await execute(marketOrder, { 'idempotency-key': 'retry-1' });
+
+      expect(response.statusCode).toBe(409);
+      expect(rateLimiter.consume).not.toHaveBeenCalled();
+    });
+
+    it('should free the idempotency key of a rate-limited submission', async () => {
+      rateLimiter.consume.mockResolvedValue({ allowed: false, remaining: 0, retryAfterMs: 1500 });
+
+      const response = await execute(marketOrder, { 'idempotency-key': 'retry-1' });
+
+      expect(response.statusCode).toBe(429);
+      expect(response.headers['retry-after']).toBe('2');
+      expect(idempotencyStore.release).toHaveBeenCalledWith('retry-1', 'user123');
+      expect(orderProcessor.submitOrder).not.toHaveBeenCalled();
+    });
+
+    it('should reject orders for another user', async () => {
+      const response = await execute({ ...marketOrder, userId: 'someone-else' });
+
+      expect(response.statusCode).toBe(403);
+      expect(rateLimiter.consume).not.toHaveBeenCalled();
+    });
+
+    it('should not execute a quote issued to another user', async () => {
+      const quoteId = '5f0c6f7e-8a4b-4f7e-9a3c-2b1d0e9f8a7b';
+
+      const response = await execute({ ...marketOrder, quoteId });
+
+      // Quotes are redeemed for the authenticated user, so another user's quote is not found
+      expect(response.statusCode).toBe(422);
+      expect(response.json()).toEqual(expect.objectContaining({ code: 'QUOTE_EXPIRED' }));
+      expect(quoteService.redeem).toHaveBeenCalledWith(quoteId, 'user123');
+      expect(orderProcessor.submitOrder).not.toHaveBeenCalled();
+      expect(orderQuotas.release).toHaveBeenCalledWith(7);
+    });
+
+    it('should hold the quota reservation until the order is persisted', async () => {
+      orderProcessor.submitOrder.mockImplementation(async () => {
+        expect(orderQuotas.release).not.toHaveBeenCalled();
+      });
+
+      const response = await execute(marketOrder);
+
+      expect(response.statusCode).toBe(200);
+      expect(orderQuotas.reserve).toHaveBeenCalledWith('user123', 'SOL', 1.5);
+      expect(orderQuotas.release).toHaveBeenCalledWith(7);
+    });
+
+    it('should reject orders over quota without submitting them', async () => {
+      orderQuotas.reserve.mockResolvedValue({
+        allowed: false, limit: 'max_open_orders', max: 3, current: 3, message: 'Open order limit of 3 reached'
+      });
+
+      const response = await execute(marketOrder);
+
+      expect(response.statusCode).toBe(429);
+      expect(response.json()).toEqual(expect.objectContaining({ error: 'Quota exceeded', limit: 'max_open_orders' }));
+      expect(orderProcessor.submitOrder).not.toHaveBeenCalled();
+    });
+
+    it('should release the quota reservation of orders rejected by a risk check', async () => {
+      riskEngine.evaluate.mockResolvedValue({ approved: false, rejections: [{ code: 'MAX_ORDER_SIZE_EXCEEDED', message: 'Order too large' }] });
+
+      const response = await execute(marketOrder);
+
+      expect(response.statusCode).toBe(422);
+      expect(orderQuotas.release).toHaveBeenCalledWith(7);
+    });
+
+    it('should release the quota reservation when submission fails', async () => {
+      orderProcessor.submitOrder.mockRejectedValue(new Error('Database unavailable'));
+
+      const response = await execute(marketOrder);
+
+      expect(response.statusCode).toBe(500);
+      expect(orderQuotas.release).toHaveBeenCalledWith(7);
+    });
+
+    it('should require an API key', async () => {
+      const response = await app.inject({ method: 'POST', url: '/api/orders/execute', payload: marketOrder });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe('DELETE /api/orders/:orderId', () => {
+    const orderId = '5f0c6f7e-8a4b-4f7e-9a3c-2b1d0e9f8a7b';
+
+    it('should warn that an order a worker holds may still fill', async () => {
+      orderProcessor.cancelOrder.mockResolvedValue({ outcome: 'cancelling', status: 'routing' });
+
+      const response = await app.inject({ method: 'DELETE', url: `/api/orders/${orderId}`, headers: { authorization: 'Bearer oek_1' } });
+
+      expect(response.statusCode).toBe(202);
+      expect(response.json()).toEqual(expect.objectContaining({ orderId, status: 'routing' }));
+      expect(response.json().message).toContain('may still fill');
+    });
+
+    it('should not cancel another user\'s order', async () => {
+      orderProcessor.getOrder.mockResolvedValue({ id: orderId, userId: 'someone-else', status: 'pending' });
+
+      const response = await app.inject({ method: 'DELETE', url: `/api/orders/${orderId}`, headers: { authorization: 'Bearer oek_1' } });
+
+      expect(response.statusCode).toBe(404);
+      expect(orderProcessor.cancelOrder).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { PoolStateSync } from '../../src/services/poolStateSync';
+import { PoolLaunchFeed } from '../../src/services/poolLaunchFeed';
+import { DexRegistry } from '../../src/services/dexRegistry';
+import { RaydiumAdapter } from '../../src/services/adapters/raydiumAdapter';
+import { Order } from '../../src/types/order';
+
+// Mock dependencies
+jest.mock('../../src/config/database');
+jest.mock('../../src/utils/logger');
+
+/**
+ * In-memory stand-in for the Redis commands the sync uses, shared by every simulated process
+ */
+class FakeRedis {
+  public hashes: Map<string, Map<string, string>> = new Map();
+  public keys: Map<string, string> = new Map();
+  public subscribers: Array<(channel: string, message: string) => void> = [];
+
+  public async hsetnx(key: string, field: string, value: string): Promise<number> {
+    if (this.hash(key).has(field)) {
+      return 0;
+    }
+    this.hash(key).set(field, value);
+    return 1;
+  }
+
+  public async hset(key: string, field: string, value: string): Promise<number> {
+    this.hash(key).set(field, value);
+    return 1;
+  }
+
+  public async hget(key: string, field: string): Promise<string | null> {
+    return this.hash(key).get(field) ?? null;
+  }
+
+  public async hgetall(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries(this.hash(key));
+  }
+
+  public async set(key: string, value: string): Promise<string | null> {
+    if (this.keys.has(key)) {
+      return null;
+    }
+    this.keys.set(key, value);
+    return 'OK';
+  }
+
+  public async eval(script: string, numKeys: number, key: string, token: string): Promise<number> {
+    return this.keys.get(key) === token && this.keys.delete(key) ? 1 : 0;
+  }
+
+  public async publish(channel: string, message: string): Promise<number> {
+    this.subscribers.forEach(deliver => deliver(channel, message));
+    return this.subscribers.length;
+  }
+
+  public subscriber() {
+    return {
+      on: jest.fn((event: string, deliver: (channel: string, message: string) => void) => this.subscribers.push(deliver)),
+      subscribe: jest.fn().mockResolvedValue(1),
+      unsubscribe: jest.fn().mockResolvedValue(1)
+    };
+  }
+
+  private hash(key: string): Map<string, string> {
+    if (!this.hashes.has(key)) {
+      this.hashes.set(key, new Map());
+    }
+    return this.hashes.get(key)!;
+  }
+}
+
+/**
+ * One API or worker process: its own venues, launch feed and sync
+ */
+const startProcess = async (redis: FakeRedis) => {
+  const adapter = new RaydiumAdapter();
+  const registry = new DexRegistry();
+  registry.register(adapter);
+  const feed = new PoolLaunchFeed();
+  feed.onPoolCreated(pool => adapter.addPool(pool));
+  const sync = new PoolStateSync(feed, registry, redis as any, () => redis.subscriber() as any, 'test-pool-events', 200);
+  await sync.start();
+
+  return { adapter, feed, sync };
+};
+
+describe('PoolStateSync', () => {
+  let redis: FakeRedis;
+  let order: Order;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    redis = new FakeRedis();
+    order = {
+      id: 'test-order-123',
+      type: 'market',
+      tokenIn: 'SOL',
+      tokenOut: 'USDC',
+      amountIn: 100,
+      slippage: 0.01,
+      status: 'pending',
+      createdAt: new Date()
+    };
+  });
+
+  it('should launch a pool in every process', async () => {
+    const api = await startProcess(redis);
+    const worker = await startProcess(redis);
+
+    const pool = await api.sync.launchPool({ dex: 'raydium', tokenIn: 'NEW', tokenOut: 'USDC', reserveIn: 1000, reserveOut: 1000, poolId: 'new-usdc' });
+
+    expect(pool).toEqual(expect.objectContaining({ poolId: 'new-usdc' }));
+    expect(worker.feed.findPools('NEW', 'USDC')).toHaveLength(1);
+    expect(worker.adapter.getPool('new-usdc')).toBeDefined();
+  });
+
+  it('should reject a pool ID another process already launched', async () => {
+    const api = await startProcess(redis);
+    const otherApi = await startProcess(redis);
+    const params = { dex: 'raydium' as const, tokenIn: 'NEW', tokenOut: 'USDC', reserveIn: 1000, reserveOut: 1000, poolId: 'new-usdc' };
+
+    await api.sync.launchPool(params);
+
+    await expect(otherApi.sync.launchPool(params)).resolves.toBeNull();
+  });
+
+  it('should load pools launched before the process started', async () => {
+    const api = await startProcess(redis);
+    await api.sync.launchPool({ dex: 'raydium', tokenIn: 'NEW', tokenOut: 'USDC', reserveIn: 1000, reserveOut: 1000, poolId: 'new-usdc' });
+
+    const worker = await startProcess(redis);
+
+    expect(worker.adapter.getPool('new-usdc')).toBeDefined();
+  });
+
+  it('should move the pool in every process when a swap executes', async () => {
+    const api = await startProcess(redis);
+    const worker = await startProcess(redis);
+    jest.spyOn(worker.adapter as any, 'sleep').mockResolvedValue(undefined);
+
+    await worker.adapter.executeSwap(order);
+
+    expect(api.adapter.getPool('raydium-sol-usdc')!.getPoolInfo().reserveIn)
+      .toBe(worker.adapter.getPool('raydium-sol-usdc')!.getPoolInfo().reserveIn);
+    expect(api.adapter.getPool('raydium-sol-usdc')!.getPoolInfo().reserveIn).toBeGreaterThan(50000);
+  });
+
+  it('should swap against the latest shared state rather than a stale local copy', async () => {
+    const first = await startProcess(redis);
+    const second = await startProcess(redis);
+    jest.spyOn(first.adapter as any, 'sleep').mockResolvedValue(undefined);
+    jest.spyOn(second.adapter as any, 'sleep').mockResolvedValue(undefined);
+    await first.sync.close();
+    redis.subscribers = [];
+
+    const firstFill = await first.adapter.executeSwap(order);
+    const secondFill = await second.adapter.executeSwap(order);
+
+    // The second swap saw the reserves the first one left, even without receiving its message
+    expect(secondFill.amountOut).toBeLessThan(firstFill.amountOut);
+  });
+
+  it('should fail a swap when the pool stays locked', async () => {
+    const worker = await startProcess(redis);
+    jest.spyOn(worker.adapter as any, 'sleep').mockResolvedValue(undefined);
+    redis.keys.set('pool-lock:raydium:raydium-sol-usdc', 'other-worker');
+
+    await expect(worker.adapter.executeSwap(order)).rejects.toThrow('Pool raydium-sol-usdc is locked by another swap');
+    expect(worker.adapter.getPool('raydium-sol-usdc')!.getPoolInfo().reserveIn).toBe(50000);
+  });
+
+  it('should release the lock when the swap is rejected', async () => {
+    const worker = await startProcess(redis);
+    jest.spyOn(worker.adapter as any, 'sleep').mockResolvedValue(undefined);
+
+    await expect(worker.adapter.executeSwap(order, { quotedAmountOut: 10000, minAmountOut: 1000000 })).rejects.toThrow('Slippage tolerance exceeded');
+    expect(redis.keys.size).toBe(0);
+  });
+});
@@ -0,0 +1,119 @@
+import { PositionService } from '../../src/services/positionService';
+
+// Mock dependencies
+jest.mock('../../src/utils/logger');
+
+describe('PositionService', () => {
+  let pgPool: { query: jest.Mock };
+  let quote: jest.Mock;
+  let positionService: PositionService;
+
+  const fill = (tokenIn: string, tokenOut: string, amountIn: number, amountOut: number, gasUsed: number = 0.0001) => ({
+    token_in: tokenIn,
+    token_out: tokenOut,
+    amount_in: String(amountIn),
+    execution_data: { amountOut, executedPrice: amountOut / amountIn, gasUsed, dex: 'raydium' }
+  });
+
+  const confirmedOrders = (...rows: any[]) => pgPool.query.mockResolvedValue({ rows });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    pgPool = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+    // SOL marks at 110 USDC, ETH at 3000 USDC
+    quote = jest.fn(async (tokenIn: string, _tokenOut: string, amount: number) => amount * (tokenIn === 'SOL' ? 110 : 3000));
+    positionService = new PositionService(quote, pgPool, 'USDC');
+  });
+
+  it('should average the entry price across buys and mark against current quotes', async () => {
+    confirmedOrders(fill('USDC', 'SOL', 1000, 10), fill('USDC', 'SOL', 1200, 10));
+
+    const summary = await positionService.getPositions('user123');
+
+    expect(pgPool.query).toHaveBeenCalledWith(expect.stringContaining("status = 'confirmed'"), ['user123']);
+    expect(summary.positions).toEqual([expect.objectContaining({
+      token: 'SOL',
+      quantity: 20,
+      costBasis: 2200,
+      averageEntryPrice: 110,
+      markPrice: 110,
+      marketValue: 2200,
+      realizedPnl: 0,
+      unrealizedPnl: 0,
+      trades: 2
+    })]);
+    expect(quote).toHaveBeenCalledWith('SOL', 'USDC', 20);
+  });
+
+  it('should realize P&L against the average entry when selling', async () => {
+    confirmedOrders(fill('USDC', 'SOL', 1000, 10), fill('SOL', 'USDC', 4, 480));
+
+    const summary = await positionService.getPositions('user123');
+    const [sol] = summary.positions;
+
+    expect(sol.quantity).toBeCloseTo(6, 9);
+    expect(sol.costBasis).toBeCloseTo(600, 9);
+    expect(sol.realizedPnl).toBeCloseTo(80, 9);
+    expect(sol.unrealizedPnl).toBeCloseTo(60, 9);
+    expect(summary.totals.realizedPnl).toBeCloseTo(80, 9);
+    expect(summary.totals.unrealizedPnl).toBeCloseTo(60, 9);
+  });
+
+  it('should only count the filled part of partially filled IOC orders', async () => {
+    const partial = fill('USDC', 'SOL', 1000, 6);
+    partial.execution_data = { ...partial.execution_data, filledAmountIn: 600 } as any;
+    confirmedOrders(partial);
+
+    const summary = await positionService.getPositions('user123');
+
+    expect(summary.positions).toEqual([expect.objectContaining({ token: 'SOL', quantity: 6, costBasis: 600, averageEntryPrice: 100 })]);
+  });
+
+  it('should keep closed positions that realized P&L', async () => {
+    confirmedOrders(fill('USDC', 'SOL', 1000, 10), fill('SOL', 'USDC', 10, 900));
+
+    const summary = await positionService.getPositions('user123');
+
+    expect(summary.positions).toEqual([expect.objectContaining({ token: 'SOL', quantity: 0, realizedPnl: -100 })]);
+    expect(quote).not.toHaveBeenCalled();
+  });
+
+  it('should carry the cost basis over on swaps between non-quote tokens', async () => {
+    confirmedOrders(fill('USDC', 'SOL', 1000, 10), fill('SOL', 'ETH', 5, 0.2));
+
+    const summary = await positionService.getPositions('user123');
+    const eth = summary.positions.find(position => position.token === 'ETH')!;
+    const sol = summary.positions.find(position => position.token === 'SOL')!;
+
+    expect(eth).toEqual(expect.objectContaining({ quantity: 0.2, costBasis: 500, averageEntryPrice: 2500, realizedPnl: 0 }));
+    expect(sol).toEqual(expect.objectContaining({ quantity: 5, costBasis: 500, realizedPnl: 0 }));
+  });
+
+  it('should ignore tokens sold without a cost basis', async () => {
+    confirmedOrders(fill('SOL', 'USDC', 5, 500));
+
+    const summary = await positionService.getPositions('user123');
+
+    expect(summary.positions).toEqual([]);
+  });
+
+  it('should leave positions unmarked when no quote is available', async () => {
+    quote.mockRejectedValue(new Error('No route found for SOL/USDC'));
+    confirmedOrders(fill('USDC', 'SOL', 1000, 10));
+
+    const summary = await positionService.getPositions('user123');
+
+    expect(summary.positions[0]).toEqual(expect.objectContaining({ quantity: 10, averageEntryPrice: 100 }));
+    expect(summary.positions[0].unrealizedPnl).toBeUndefined();
+    expect(summary.totals.marketValue).toBe(0);
+  });
+
+  it('should total gas across fills', async () => {
+    confirmedOrders(fill('USDC', 'SOL', 1000, 10, 0.0002), fill('SOL', 'USDC', 5, 550, 0.0003));
+
+    const summary = await positionService.getPositions('user123');
+
+    expect(summary.totals.gasUsed).toBeCloseTo(0.0005, 12);
+  });
+});
@@ -0,0 +1,179 @@
+import { PriceWatcher } from '../../src/services/priceWatcher';
+import { MockDexRouter } from '../../src/services/mockDexRouter';
+import { Order } from '../../src/types/order';
+import { RoutingDecision } from '../../src/types/dex';
+
+// Mock dependencies
+jest.mock('../../src/services/mockDexRouter');
+jest.mock('../../src/utils/logger');
+
+const buildRoute = (expectedAmountOut: number, path?: RoutingDecision['path']): RoutingDecision => ({
+  dex: 'raydium',
+  price: expectedAmountOut,
+  fee: 0.0025,
+  estimatedGas: 0.0001,
+  reason: 'Best price',
+  alternatives: [],
+  expectedAmountOut,
+  ...(path && { path })
+});
+
+const flushChecks = () => new Promise(resolve => setTimeout(resolve, 50));
+
+describe('PriceWatcher', () => {
+  let dexRouter: jest.Mocked<MockDexRouter>;
+  let priceWatcher: PriceWatcher;
+  let limitOrder: Order;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    dexRouter = new MockDexRouter() as jest.Mocked<MockDexRouter>;
+    dexRouter.routeOrder.mockResolvedValue(buildRoute(99));
+
+    priceWatcher = new PriceWatcher(dexRouter, 10);
+
+    limitOrder = {
+      id: 'limit-order-123',
+      type: 'limit',
+      tokenIn: 'SOL',
+      tokenOut: 'USDC',
+      amountIn: 1,
+      slippage: 0.01,
+      status: 'waiting',
+      createdAt: new Date(),
+      userId: 'user123',
+      limitPrice: 100
+    };
+  });
+
+  afterEach(() => {
+    priceWatcher.stop();
+  });
+
+  describe('shouldTrigger', () => {
+    it('should trigger limit orders at or above the limit price', () => {
+      expect(priceWatcher.shouldTrigger(limitOrder, 100)).toBe(true);
+      expect(priceWatcher.shouldTrigger(limitOrder, 101)).toBe(true);
+      expect(priceWatcher.shouldTrigger(limitOrder, 99.99)).toBe(false);
+    });
+
+    it('should trigger stop-loss orders at or below the trigger price', () => {
+      const stopLoss: Order = { ...limitOrder, type: 'stop_loss', limitPrice: undefined, triggerPrice: 95 };
+
+      expect(priceWatcher.shouldTrigger(stopLoss, 95)).toBe(true);
+      expect(priceWatcher.shouldTrigger(stopLoss, 90)).toBe(true);
+      expect(priceWatcher.shouldTrigger(stopLoss, 95.01)).toBe(false);
+    });
+
+    it('should trigger take-profit orders at or above the trigger price', () => {
+      const takeProfit: Order = { ...limitOrder, type: 'take_profit', limitPrice: undefined, triggerPrice: 110 };
+
+      expect(priceWatcher.shouldTrigger(takeProfit, 110)).toBe(true);
+      expect(priceWatcher.shouldTrigger(takeProfit, 109.99)).toBe(false);
+    });
+
+    it('should never trigger market orders', () => {
+      expect(priceWatcher.shouldTrigger({ ...limitOrder, type: 'market' }, 1000)).toBe(false);
+    });
+  });
+
+  describe('getEffectivePrice', () => {
+    it('should price the order along its execution route', async () => {
+      dexRouter.routeOrder.mockResolvedValue(buildRoute(201));
+
+      await expect(priceWatcher.getEffectivePrice({ ...limitOrder, amountIn: 2 })).resolves.toBeCloseTo(100.5, 6);
+      expect(dexRouter.routeOrder).toHaveBeenCalledWith('SOL', 'USDC', 2, true);
+    });
+
+    it('should price pairs that only trade through intermediate tokens', async () => {
+      const bonkOrder: Order = { ...limitOrder, tokenIn: 'BONK', amountIn: 1000000, limitPrice: 0.00002 };
+      dexRouter.routeOrder.mockResolvedValue(buildRoute(21, [
+        { dex: 'raydium', tokenIn: 'BONK', tokenOut: 'SOL', amountIn: 1000000, expectedAmountOut: 0.21 },
+        { dex: 'meteora', tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 0.21, expectedAmountOut: 21 }
+      ]));
+      const onTrigger = jest.fn().mockResolvedValue(undefined);
+
+      priceWatcher.watch(bonkOrder, onTrigger);
+      await flushChecks();
+
+      expect(dexRouter.getQuotes).not.toHaveBeenCalled();
+      expect(onTrigger).toHaveBeenCalledWith(bonkOrder, 0.000021);
+    });
+  });
+
+  describe('watch', () => {
+    it('should keep polling while the limit is not crossed', async () => {
+      const onTrigger = jest.fn().mockResolvedValue(undefined);
+
+      priceWatcher.watch(limitOrder, onTrigger);
+      await flushChecks();
+
+      expect(onTrigger).not.toHaveBeenCalled();
+      expect(priceWatcher.isWatching(limitOrder.id)).toBe(true);
+      expect(dexRouter.routeOrder.mock.calls.length).toBeGreaterThan(1);
+    });
+
+    it('should trigger once the best effective price crosses the limit', async () => {
+      const onTrigger = jest.fn().mockResolvedValue(undefined);
+
+      priceWatcher.watch(limitOrder, onTrigger);
+      await flushChecks();
+
+      dexRouter.routeOrder.mockResolvedValue(buildRoute(100.5));
+      await flushChecks();
+
+      expect(onTrigger).toHaveBeenCalledTimes(1);
+      expect(onTrigger).toHaveBeenCalledWith(limitOrder, 100.5);
+      expect(priceWatcher.isWatching(limitOrder.id)).toBe(false);
+    });
+
+    it('should trigger a stop-loss once the best effective price falls to its trigger', async () => {
+      const stopLoss: Order = { ...limitOrder, type: 'stop_loss', limitPrice: undefined, triggerPrice: 95 };
+      const onTrigger = jest.fn().mockResolvedValue(undefined);
+
+      priceWatcher.watch(stopLoss, onTrigger);
+      await flushChecks();
+      expect(onTrigger).not.toHaveBeenCalled();
+
+      dexRouter.routeOrder.mockResolvedValue(buildRoute(94));
+      await flushChecks();
+
+      expect(onTrigger).toHaveBeenCalledWith(stopLoss, 94);
+      expect(priceWatcher.isWatching(stopLoss.id)).toBe(false);
+    });
+
+    it('should keep watching when quotes fail', async () => {
+      const onTrigger = jest.fn().mockResolvedValue(undefined);
+      dexRouter.routeOrder.mockRejectedValue(new Error('No route found for SOL/USDC'));
+
+      priceWatcher.watch(limitOrder, onTrigger);
+      await flushChecks();
+
+      expect(onTrigger).not.toHaveBeenCalled();
+      expect(priceWatcher.isWatching(limitOrder.id)).toBe(true);
+    });
+
+    it('should ignore duplicate watch requests', () => {
+      priceWatcher.watch(limitOrder, jest.fn());
+      priceWatcher.watch(limitOrder, jest.fn());
+
+      expect(priceWatcher.getWatchedCount()).toBe(1);
+    });
+  });
+
+  describe('unwatch', () => {
+    it('should stop polling an order', async () => {
+      const onTrigger = jest.fn().mockResolvedValue(undefined);
+
+      priceWatcher.watch(limitOrder, onTrigger);
+      expect(priceWatcher.unwatch(limitOrder.id)).toBe(true);
+
+      dexRouter.routeOrder.mockResolvedValue(buildRoute(150));
+      await flushChecks();
+
+      expect(onTrigger).not.toHaveBeenCalled();
+      expect(priceWatcher.unwatch(limitOrder.id)).toBe(false);
+    });
+  });
+});
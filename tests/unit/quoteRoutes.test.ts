@@ -0,0 +1,90 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { quoteRoutes } from '../../src/routes/quotes';
+import { createAuthHook } from '../../src/utils/auth';
+import { QuoteUnavailableError } from '../../src/utils/errors';
+
+// Route tests run against a real Fastify instance
+jest.unmock('fastify');
+
+// Mock dependencies
+jest.mock('../../src/utils/logger');
+
+describe('quote routes', () => {
+  let app: FastifyInstance;
+  let apiKeyService: { authenticate: jest.Mock };
+  let quoteService: { getQuote: jest.Mock };
+
+  const quoteRequest = { tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1.5, slippage: 0.01 };
+
+  const requestQuote = (payload: Record<string, unknown>) =>
+    app.inject({ method: 'POST', url: '/api/quotes', headers: { authorization: 'Bearer oek_1' }, payload });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    apiKeyService = { authenticate: jest.fn().mockResolvedValue({ userId: 'user123', keyId: 1 }) };
+    quoteService = {
+      getQuote: jest.fn().mockResolvedValue({ quoteId: 'quote-1', userId: 'user123', expectedAmountOut: 150 })
+    };
+
+    app = Fastify();
+    app.addHook('onRequest', createAuthHook(apiKeyService as any));
+    await app.register(quoteRoutes, { prefix: '/api/quotes', quoteService: quoteService as any });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should require an API key', async () => {
+    const response = await app.inject({ method: 'POST', url: '/api/quotes', payload: quoteRequest });
+
+    expect(response.statusCode).toBe(401);
+    expect(quoteService.getQuote).not.toHaveBeenCalled();
+  });
+
+  it('should reject revoked API keys', async () => {
+    apiKeyService.authenticate.mockResolvedValue(null);
+
+    const response = await requestQuote(quoteRequest);
+
+    expect(response.statusCode).toBe(401);
+    expect(quoteService.getQuote).not.toHaveBeenCalled();
+  });
+
+  it('should issue quotes that only the authenticated user can execute', async () => {
+    const response = await requestQuote(quoteRequest);
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual(expect.objectContaining({ quoteId: 'quote-1' }));
+    expect(quoteService.getQuote).toHaveBeenCalledWith(quoteRequest, 'user123');
+  });
+
+  it.each([
+    [{ tokenIn: 'SOL', tokenOut: 'USDC' }],
+    [{ tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 0 }],
+    [{ tokenIn: '', tokenOut: 'USDC', amountIn: 1.5 }],
+    [{ tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1.5, slippage: 0.9 }]
+  ])('should reject the invalid request %j', async (payload) => {
+    const response = await requestQuote(payload);
+
+    expect(response.statusCode).toBe(400);
+    expect(quoteService.getQuote).not.toHaveBeenCalled();
+  });
+
+  it('should reject quotes for a token against itself', async () => {
+    const response = await requestQuote({ ...quoteRequest, tokenOut: 'SOL' });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json()).toEqual(expect.objectContaining({ error: 'Invalid pair' }));
+  });
+
+  it('should report pairs no venue can route', async () => {
+    quoteService.getQuote.mockRejectedValue(new QuoteUnavailableError('SOL', 'XYZ', 'No route found'));
+
+    const response = await requestQuote({ ...quoteRequest, tokenOut: 'XYZ' });
+
+    expect(response.statusCode).toBe(422);
+    expect(response.json()).toEqual(expect.objectContaining({ error: 'No route' }));
+  });
+});
@@ -0,0 +1,144 @@
+import { QuoteService } from '../../src/services/quoteService';
+import { RoutingDecision } from '../../src/types/dex';
+import { QuoteUnavailableError } from '../../src/utils/errors';
+
+// Mock dependencies
+jest.mock('../../src/utils/logger');
+
+describe('QuoteService', () => {
+  let planRoute: jest.Mock;
+  let mockRedis: { set: jest.Mock; get: jest.Mock; del: jest.Mock };
+  let quoteService: QuoteService;
+
+  const alternatives = [
+    { dex: 'meteora', price: 100.3, fee: 0.002, liquidity: 3000000, estimatedGas: 0.00008, timestamp: new Date(), amountOut: 995, priceImpact: 0.003 },
+    { dex: 'raydium', price: 100, fee: 0.0025, liquidity: 5000000, estimatedGas: 0.0001, timestamp: new Date(), amountOut: 990, priceImpact: 0.002 }
+  ];
+
+  const decision = (amount: number): RoutingDecision => ({
+    dex: 'meteora',
+    price: 100.3,
+    fee: 0.002,
+    estimatedGas: 0.00008,
+    reason: 'Meteora offers better output net of gas',
+    alternatives,
+    // 100 USDC/SOL for tiny sizes, 99.5 for the full order
+    expectedAmountOut: amount >= 10 ? amount * 99.5 : amount * 100
+  });
+
+  beforeEach(() => {
+    planRoute = jest.fn(async (_tokenIn: string, _tokenOut: string, amount: number) => decision(amount));
+    // In-memory stand-in for SET/GET/DEL; expiry is checked by the service itself
+    const store = new Map<string, string>();
+    mockRedis = {
+      set: jest.fn(async (key: string, value: string) => { store.set(key, value); return 'OK'; }),
+      get: jest.fn(async (key: string) => store.get(key) ?? null),
+      del: jest.fn(async (key: string) => (store.delete(key) ? 1 : 0))
+    };
+    quoteService = new QuoteService(planRoute, mockRedis as any, 30);
+  });
+
+  it('should return the routing decision with every alternative', async () => {
+    const quote = await quoteService.getQuote({ tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 10 });
+
+    expect(planRoute).toHaveBeenCalledWith('SOL', 'USDC', 10);
+    expect(quote).toEqual(expect.objectContaining({
+      tokenIn: 'SOL',
+      tokenOut: 'USDC',
+      amountIn: 10,
+      dex: 'meteora',
+      reason: 'Meteora offers better output net of gas',
+      expectedAmountOut: 995,
+      price: 99.5,
+      fee: 0.002,
+      estimatedGas: 0.00008,
+      alternatives
+    }));
+  });
+
+  it('should measure price impact against a reference quote', async () => {
+    const quote = await quoteService.getQuote({ tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 10 });
+
+    expect(planRoute).toHaveBeenCalledWith('SOL', 'USDC', 0.01);
+    expect(quote.referencePrice).toBeCloseTo(100, 9);
+    expect(quote.priceImpact).toBeCloseTo(0.005, 9);
+  });
+
+  it('should report the minimum fill for a slippage tolerance', async () => {
+    const quote = await quoteService.getQuote({ tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 10, slippage: 0.01 });
+
+    expect(quote.slippage).toBe(0.01);
+    expect(quote.minAmountOut).toBeCloseTo(985.05, 9);
+  });
+
+  it('should still quote when the reference size cannot be routed', async () => {
+    planRoute.mockImplementation(async (_tokenIn: string, _tokenOut: string, amount: number) => {
+      if (amount < 1) {
+        throw new Error('Amount too small');
+      }
+      return decision(amount);
+    });
+
+    const quote = await quoteService.getQuote({ tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 10 });
+
+    expect(quote.expectedAmountOut).toBe(995);
+    expect(quote.priceImpact).toBeUndefined();
+  });
+
+  it('should report pairs without a route', async () => {
+    planRoute.mockRejectedValue(new Error('No route found for FOO/BAR'));
+
+    await expect(quoteService.getQuote({ tokenIn: 'FOO', tokenOut: 'BAR', amountIn: 1 }))
+      .rejects.toThrow(QuoteUnavailableError);
+  });
+
+  it('should store the quote under its id for the quote TTL', async () => {
+    const quote = await quoteService.getQuote({ tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 10 }, 'user-1');
+
+    expect(quote.quoteId).toEqual(expect.any(String));
+    expect(quote.userId).toBe('user-1');
+    expect(quote.expiresAt.getTime() - quote.quotedAt.getTime()).toBe(30000);
+    expect(mockRedis.set).toHaveBeenCalledWith(`quote:${quote.quoteId}`, expect.any(String), 'EX', 30);
+  });
+
+  describe('redeem', () => {
+    it('should return the stored quote to its owner once', async () => {
+      const quote = await quoteService.getQuote({ tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 10 }, 'user-1');
+
+      const redeemed = await quoteService.redeem(quote.quoteId, 'user-1');
+
+      expect(redeemed).toEqual(expect.objectContaining({ quoteId: quote.quoteId, expectedAmountOut: 995 }));
+      expect(redeemed!.expiresAt).toEqual(quote.expiresAt);
+      expect(await quoteService.redeem(quote.quoteId, 'user-1')).toBeNull();
+    });
+
+    it('should not let another user redeem the quote', async () => {
+      const quote = await quoteService.getQuote({ tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 10 }, 'user-1');
+
+      expect(await quoteService.redeem(quote.quoteId, 'user-2')).toBeNull();
+      expect(mockRedis.del).not.toHaveBeenCalled();
+      expect(await quoteService.redeem(quote.quoteId, 'user-1')).not.toBeNull();
+    });
+
+    it('should reject unknown or expired quotes', async () => {
+      expect(await quoteService.redeem('missing', 'user-1')).toBeNull();
+
+      const quote = await quoteService.getQuote({ tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 10 }, 'user-1');
+      const expired = { ...quote, expiresAt: new Date(Date.now() - 1000) };
+      mockRedis.get.mockResolvedValueOnce(JSON.stringify(expired));
+
+      expect(await quoteService.redeem(quote.quoteId, 'user-1')).toBeNull();
+    });
+
+    it('should give the quote to only one of two concurrent redemptions', async () => {
+      const quote = await quoteService.getQuote({ tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 10 }, 'user-1');
+
+      const results = await Promise.all([
+        quoteService.redeem(quote.quoteId, 'user-1'),
+        quoteService.redeem(quote.quoteId, 'user-1')
+      ]);
+
+      expect(results.filter(result => result !== null)).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { RateLimiter } from '../../src/services/rateLimiter';
+import { logger } from '../../src/utils/logger';
+
+// Mock dependencies
+jest.mock('../../src/utils/logger');
+
+describe('RateLimiter', () => {
+  let redis: { eval: jest.Mock };
+  let rateLimiter: RateLimiter;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    redis = { eval: jest.fn().mockResolvedValue([1, 19, 0]) };
+    rateLimiter = new RateLimiter(redis as any, 20, 5);
+  });
+
+  it('should take tokens from the bucket of the given key', async () => {
+    const result = await rateLimiter.consume('key:7');
+
+    expect(result).toEqual({ allowed: true, remaining: 19, retryAfterMs: 0 });
+    expect(redis.eval).toHaveBeenCalledWith(expect.any(String), 1, 'ratelimit:key:7', 20, 5, 1);
+  });
+
+  it('should report when to retry once the bucket is empty', async () => {
+    redis.eval.mockResolvedValue([0, 0, 200]);
+
+    const result = await rateLimiter.consume('key:7');
+
+    expect(result).toEqual({ allowed: false, remaining: 0, retryAfterMs: 200 });
+  });
+
+  it('should keep buckets of different keys apart', async () => {
+    await rateLimiter.consume('key:1');
+    await rateLimiter.consume('key:2');
+
+    expect(redis.eval.mock.calls.map(call => call[2])).toEqual(['ratelimit:key:1', 'ratelimit:key:2']);
+  });
+
+  it('should allow requests when Redis is unavailable', async () => {
+    redis.eval.mockRejectedValue(new Error('Connection lost'));
+
+    const result = await rateLimiter.consume('key:7');
+
+    expect(result.allowed).toBe(true);
+    expect(logger.logError).toHaveBeenCalledWith(null, expect.any(Error), expect.objectContaining({
+      context: 'Rate limit check'
+    }));
+  });
+});
@@ -0,0 +1,209 @@
+import { RiskEngine } from '../../src/services/riskEngine';
+import { RiskLimits, getRiskLimits } from '../../src/config/risk';
+import { Order } from '../../src/types/order';
+
+// Mock dependencies
+jest.mock('../../src/utils/logger');
+
+describe('RiskEngine', () => {
+  let pgPool: { query: jest.Mock };
+  let quote: jest.Mock;
+
+  const limits: RiskLimits = {
+    allowedTokens: [],
+    maxOrderSize: {},
+    maxPriceImpact: 0,
+    maxDailyNotional: 0,
+    maxPriceDeviation: 0
+  };
+
+  const order: Order = {
+    id: 'test-order-123',
+    type: 'market',
+    tokenIn: 'SOL',
+    tokenOut: 'USDC',
+    amountIn: 10,
+    slippage: 0.01,
+    status: 'pending',
+    createdAt: new Date(),
+    userId: 'user123',
+    notional: 1000
+  };
+
+  const buildEngine = (overrides: Partial<RiskLimits>) => new RiskEngine(quote, pgPool, { ...limits, ...overrides });
+
+  // Reference price 100 USDC/SOL; the full order fills at `fullPrice`
+  const quotePrices = (fullPrice: number) =>
+    quote.mockImplementation(async (_tokenIn: string, _tokenOut: string, amount: number) =>
+      amount === order.amountIn ? amount * fullPrice : amount * 100
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    pgPool = { query: jest.fn().mockResolvedValue({ rows: [{ daily_notional: '0' }] }) };
+    quote = jest.fn();
+    quotePrices(99);
+  });
+
+  it('should approve orders when every check passes', async () => {
+    const assessment = await buildEngine({ allowedTokens: ['SOL', 'USDC'], maxOrderSize: { SOL: 100 }, maxPriceImpact: 0.05 })
+      .evaluate(order);
+
+    expect(assessment).toEqual({ approved: true, rejections: [] });
+  });
+
+  it('should reject tokens outside the allow list', async () => {
+    const assessment = await buildEngine({ allowedTokens: ['SOL'] }).evaluate(order);
+
+    expect(assessment.approved).toBe(false);
+    expect(assessment.rejections).toEqual([
+      expect.objectContaining({ code: 'TOKEN_NOT_ALLOWED', details: expect.objectContaining({ token: 'USDC' }) })
+    ]);
+  });
+
+  it('should reject orders above the maximum size for the token', async () => {
+    const assessment = await buildEngine({ maxOrderSize: { SOL: 5 } }).evaluate(order);
+
+    expect(assessment.rejections).toEqual([
+      expect.objectContaining({ code: 'MAX_ORDER_SIZE_EXCEEDED', details: { token: 'SOL', amountIn: 10, maxSize: 5 } })
+    ]);
+  });
+
+  it('should reject orders whose price impact is too high', async () => {
+    quotePrices(90);
+
+    const assessment = await buildEngine({ maxPriceImpact: 0.05 }).evaluate(order);
+
+    expect(assessment.rejections).toEqual([
+      expect.objectContaining({ code: 'PRICE_IMPACT_EXCEEDED', details: expect.objectContaining({ referencePrice: 100, expectedPrice: 90 }) })
+    ]);
+  });
+
+  it('should reject fat-fingered limit prices', async () => {
+    const limitOrder: Order = { ...order, type: 'limit', limitPrice: 1000 };
+
+    const assessment = await buildEngine({ maxPriceDeviation: 0.5 }).evaluate(limitOrder);
+
+    expect(assessment.rejections).toEqual([
+      expect.objectContaining({ code: 'PRICE_DEVIATION_EXCEEDED', details: expect.objectContaining({ limitPrice: 1000, referencePrice: 100 }) })
+    ]);
+  });
+
+  it('should reject fat-fingered trigger prices', async () => {
+    const stopLoss: Order = { ...order, type: 'stop_loss', triggerPrice: 10 };
+
+    const assessment = await buildEngine({ maxPriceDeviation: 0.5 }).evaluate(stopLoss);
+
+    expect(assessment.rejections).toEqual([
+      expect.objectContaining({ code: 'PRICE_DEVIATION_EXCEEDED', details: expect.objectContaining({ triggerPrice: 10, referencePrice: 100 }) })
+    ]);
+  });
+
+  describe('evaluateBracketExits', () => {
+    beforeEach(() => {
+      // 100 USDC/SOL, so exits selling USDC for SOL trade at 0.01 SOL/USDC
+      quote.mockImplementation(async (tokenIn: string, _tokenOut: string, amount: number) =>
+        tokenIn === 'SOL' ? amount * 100 : amount / 100
+      );
+    });
+
+    it('should approve exit prices near the reversed reference price', async () => {
+      const assessment = await buildEngine({ maxPriceDeviation: 0.5 }).evaluateBracketExits(order, 0.0105, 0.0095);
+
+      expect(assessment).toEqual({ approved: true, rejections: [] });
+      expect(quote).toHaveBeenCalledWith('USDC', 'SOL', expect.any(Number));
+    });
+
+    it('should reject fat-fingered exit prices', async () => {
+      const assessment = await buildEngine({ maxPriceDeviation: 0.5 }).evaluateBracketExits(order, 105, 0.0095);
+
+      expect(assessment.rejections).toEqual([
+        expect.objectContaining({ code: 'PRICE_DEVIATION_EXCEEDED', details: expect.objectContaining({ takeProfitPrice: 105 }) })
+      ]);
+      expect(assessment.rejections[0].message).toContain('Take-profit price 105');
+    });
+
+    it('should not check exit prices when the deviation check is disabled', async () => {
+      const assessment = await buildEngine({}).evaluateBracketExits(order, 105, 0.0095);
+
+      expect(assessment.approved).toBe(true);
+      expect(quote).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should skip price checks when the pair cannot be quoted', async () => {
+    quote.mockRejectedValue(new Error('No route found for SOL/USDC'));
+
+    const assessment = await buildEngine({ maxPriceImpact: 0.05 }).evaluate(order);
+
+    expect(assessment.approved).toBe(true);
+  });
+
+  it('should skip price checks for sniper orders', async () => {
+    await buildEngine({ maxPriceImpact: 0.05 }).evaluate({ ...order, type: 'sniper' });
+
+    expect(quote).not.toHaveBeenCalled();
+  });
+
+  it('should reject orders above the daily notional', async () => {
+    pgPool.query.mockResolvedValue({ rows: [{ daily_notional: '9500' }] });
+
+    const assessment = await buildEngine({ maxDailyNotional: 10000 }).evaluate(order);
+
+    expect(assessment.rejections).toEqual([
+      expect.objectContaining({ code: 'DAILY_NOTIONAL_EXCEEDED', details: { dailyNotional: 9500, orderNotional: 1000, maxDailyNotional: 10000 } })
+    ]);
+    expect(pgPool.query).toHaveBeenCalledWith(expect.stringContaining('created_at >= $2'), [
+      'user123',
+      expect.any(Date),
+      ['failed', 'cancelled', 'expired']
+    ]);
+  });
+
+  it('should report every failed check', async () => {
+    quotePrices(90);
+
+    const assessment = await buildEngine({ allowedTokens: ['SOL'], maxOrderSize: { SOL: 5 }, maxPriceImpact: 0.05 })
+      .evaluate(order);
+
+    expect(assessment.rejections.map(rejection => rejection.code)).toEqual([
+      'TOKEN_NOT_ALLOWED',
+      'MAX_ORDER_SIZE_EXCEEDED',
+      'PRICE_IMPACT_EXCEEDED'
+    ]);
+  });
+
+  describe('getRiskLimits', () => {
+    it('should parse limits from the environment', () => {
+      expect(getRiskLimits({
+        RISK_ALLOWED_TOKENS: 'SOL, USDC',
+        RISK_MAX_ORDER_SIZE: 'SOL:1000,ETH:50',
+        RISK_MAX_PRICE_IMPACT: '0.02',
+        RISK_MAX_DAILY_NOTIONAL: '250000',
+        RISK_MAX_PRICE_DEVIATION: '0.2'
+      })).toEqual({
+        allowedTokens: ['SOL', 'USDC'],
+        maxOrderSize: { SOL: 1000, ETH: 50 },
+        maxPriceImpact: 0.02,
+        maxDailyNotional: 250000,
+        maxPriceDeviation: 0.2
+      });
+    });
+
+    it('should fall back to defaults', () => {
+      expect(getRiskLimits({})).toEqual({
+        allowedTokens: [],
+        maxOrderSize: {},
+        maxPriceImpact: 0.1,
+        maxDailyNotional: 0,
+        maxPriceDeviation: 0.5
+      });
+    });
+
+    it('should reject malformed values', () => {
+      expect(() => getRiskLimits({ RISK_MAX_ORDER_SIZE: 'SOL' })).toThrow('Invalid RISK_MAX_ORDER_SIZE entry "SOL"');
+      expect(() => getRiskLimits({ RISK_MAX_PRICE_IMPACT: 'high' })).toThrow('Invalid RISK_MAX_PRICE_IMPACT "high"');
+    });
+  });
+});
@@ -0,0 +1,24 @@
+import { getRunMode } from '../../src/config/runMode';
+
+describe('getRunMode', () => {
+  it('should accept api, worker and all', () => {
+    expect(getRunMode('api')).toBe('api');
+    expect(getRunMode('worker')).toBe('worker');
+    expect(getRunMode(' ALL ')).toBe('all');
+  });
+
+  it('should default to all', () => {
+    const previous = process.env.MODE;
+    delete process.env.MODE;
+
+    expect(getRunMode()).toBe('all');
+
+    if (previous !== undefined) {
+      process.env.MODE = previous;
+    }
+  });
+
+  it('should reject unknown modes', () => {
+    expect(() => getRunMode('scheduler')).toThrow('Invalid MODE "scheduler" (expected one of: api, worker, all)');
+  });
+});
@@ -0,0 +1,154 @@
+import { ConstantProductPool } from '../../src/services/pools/constantProductPool';
+import { BinPool } from '../../src/services/pools/binPool';
+import { PoolInfo } from '../../src/types/dex';
+
+const buildPoolInfo = (overrides: Partial<PoolInfo> = {}): PoolInfo => ({
+  dex: 'raydium',
+  poolId: 'sol-usdc',
+  tokenIn: 'SOL',
+  tokenOut: 'USDC',
+  reserveIn: 1000,
+  reserveOut: 100000,
+  fee: 0.0025,
+  lastUpdate: new Date(),
+  ...overrides
+});
+
+describe('ConstantProductPool', () => {
+  let pool: ConstantProductPool;
+
+  beforeEach(() => {
+    pool = new ConstantProductPool(buildPoolInfo());
+  });
+
+  it('should price swaps with x * y = k', () => {
+    const result = pool.quote('SOL', 10);
+    const amountInAfterFee = 10 * (1 - 0.0025);
+
+    expect(result.spotPrice).toBeCloseTo(100, 8);
+    expect(result.amountOut).toBeCloseTo((100000 * amountInAfterFee) / (1000 + amountInAfterFee), 8);
+    expect(result.priceImpact).toBeGreaterThan(0);
+  });
+
+  it('should grow price impact with trade size', () => {
+    expect(pool.quote('SOL', 100).priceImpact).toBeGreaterThan(pool.quote('SOL', 10).priceImpact);
+  });
+
+  it('should not move reserves on quote', () => {
+    pool.quote('SOL', 10);
+
+    expect(pool.getPoolInfo()).toEqual(expect.objectContaining({ reserveIn: 1000, reserveOut: 100000 }));
+  });
+
+  it('should move reserves on swap and keep k (fees excluded)', () => {
+    const result = pool.swap('SOL', 10);
+    const info = pool.getPoolInfo();
+
+    expect(info.reserveIn).toBeCloseTo(1000 + 10 * (1 - 0.0025), 8);
+    expect(info.reserveOut).toBeCloseTo(100000 - result.amountOut, 8);
+    expect(info.reserveIn * info.reserveOut).toBeCloseTo(1000 * 100000, 2);
+    expect(pool.getSpotPrice('SOL')).toBeLessThan(100);
+  });
+
+  it('should swap in the reverse direction', () => {
+    const result = pool.swap('USDC', 1000);
+
+    expect(result.spotPrice).toBeCloseTo(0.01, 10);
+    expect(result.amountOut).toBeLessThan(10);
+    expect(pool.getSpotPrice('SOL')).toBeGreaterThan(100);
+  });
+
+  it('should reject tokens the pool does not trade', () => {
+    expect(() => pool.quote('ETH', 1)).toThrow('Token ETH is not traded by pool sol-usdc');
+    expect(pool.hasPair('USDC', 'SOL')).toBe(true);
+    expect(pool.hasPair('SOL', 'ETH')).toBe(false);
+  });
+
+  it('should reject non-positive amounts', () => {
+    expect(() => pool.quote('SOL', 0)).toThrow('Swap amount must be positive');
+  });
+});
+
+describe('pool state', () => {
+  it('should restore constant-product reserves exported by another copy of the pool', () => {
+    const pool = new ConstantProductPool(buildPoolInfo());
+    const copy = new ConstantProductPool(buildPoolInfo());
+    pool.swap('SOL', 10);
+
+    copy.setState(JSON.parse(JSON.stringify(pool.getState())));
+
+    expect(copy.getPoolInfo()).toEqual(expect.objectContaining({
+      reserveIn: pool.getPoolInfo().reserveIn,
+      reserveOut: pool.getPoolInfo().reserveOut
+    }));
+  });
+});
+
+describe('BinPool', () => {
+  let pool: BinPool;
+
+  beforeEach(() => {
+    pool = new BinPool(buildPoolInfo({ dex: 'meteora', fee: 0.002 }), { binStep: 0.01, binsPerSide: 10 });
+  });
+
+  it('should fill small swaps inside the active bin at a fixed price', () => {
+    const result = pool.quote('SOL', 1);
+
+    expect(result.spotPrice).toBeCloseTo(100, 8);
+    expect(result.amountOut).toBeCloseTo(1 * (1 - 0.002) * 100, 8);
+    expect(result.priceImpact).toBeCloseTo(0, 10);
+  });
+
+  it('should cross bins and incur impact on large swaps', () => {
+    // Each bin below the active one holds 100000 / 11 USDC (~90.9 SOL at ~100)
+    const result = pool.quote('SOL', 200);
+
+    expect(result.priceImpact).toBeGreaterThan(0);
+    expect(result.executionPrice).toBeLessThan(100 * (1 - 0.002));
+  });
+
+  it('should move the active bin after draining it', () => {
+    pool.swap('SOL', 200);
+
+    expect(pool.getSpotPrice('SOL')).toBeLessThan(100);
+  });
+
+  it('should conserve value across bins on swap', () => {
+    const before = pool.getPoolInfo();
+    const result = pool.swap('SOL', 50);
+    const after = pool.getPoolInfo();
+
+    expect(after.reserveIn).toBeCloseTo(before.reserveIn + 50 * (1 - 0.002), 8);
+    expect(after.reserveOut).toBeCloseTo(before.reserveOut - result.amountOut, 8);
+  });
+
+  it('should not move bins on quote', () => {
+    const before = pool.quote('SOL', 200);
+    const again = pool.quote('SOL', 200);
+
+    expect(again.amountOut).toBe(before.amountOut);
+    expect(pool.getSpotPrice('SOL')).toBeCloseTo(100, 8);
+  });
+
+  it('should trade back through liquidity added by earlier swaps', () => {
+    const sold = pool.swap('SOL', 50);
+    const bought = pool.swap('USDC', sold.amountOut);
+
+    // Round trip only loses the two LP fees while staying in the active bin
+    expect(bought.amountOut).toBeCloseTo(50 * (1 - 0.002) * (1 - 0.002), 6);
+  });
+
+  it('should restore bins exported by another copy of the pool', () => {
+    const copy = new BinPool(buildPoolInfo({ dex: 'meteora', fee: 0.002 }), { binStep: 0.01, binsPerSide: 10 });
+    pool.swap('SOL', 200);
+
+    copy.setState(pool.getState());
+
+    expect(copy.getSpotPrice('SOL')).toBe(pool.getSpotPrice('SOL'));
+    expect(copy.quote('SOL', 50).amountOut).toBe(pool.quote('SOL', 50).amountOut);
+  });
+
+  it('should throw when a swap exhausts every bin', () => {
+    expect(() => pool.quote('SOL', 100000)).toThrow('Insufficient liquidity in pool sol-usdc');
+  });
+});
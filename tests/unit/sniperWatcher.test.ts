@@ -0,0 +1,184 @@
+import { SniperWatcher } from '../../src/services/sniperWatcher';
+import { PoolLaunchFeed } from '../../src/services/poolLaunchFeed';
+import { DexRegistry } from '../../src/services/dexRegistry';
+import { RaydiumAdapter } from '../../src/services/adapters/raydiumAdapter';
+import { MeteoraAdapter } from '../../src/services/adapters/meteoraAdapter';
+import { BinPool } from '../../src/services/pools/binPool';
+import { Order } from '../../src/types/order';
+
+// Mock dependencies
+jest.mock('../../src/utils/logger');
+
+const flushEvents = () => new Promise(resolve => setImmediate(resolve));
+
+describe('SniperWatcher', () => {
+  let poolLaunchFeed: PoolLaunchFeed;
+  let registry: DexRegistry;
+  let sniperWatcher: SniperWatcher;
+  let sniperOrder: Order;
+  let onTrigger: jest.Mock;
+  let onExpire: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    poolLaunchFeed = new PoolLaunchFeed();
+    registry = new DexRegistry();
+    registry.register(new RaydiumAdapter());
+    registry.register(new MeteoraAdapter());
+    // Launches reach their venue before the watcher, as in the order processor
+    poolLaunchFeed.onPoolCreated(pool => registry.get(pool.dex).addPool!(pool));
+    sniperWatcher = new SniperWatcher(poolLaunchFeed, registry);
+    onTrigger = jest.fn().mockResolvedValue(undefined);
+    onExpire = jest.fn().mockResolvedValue(undefined);
+
+    sniperOrder = {
+      id: 'sniper-order-123',
+      type: 'sniper',
+      tokenIn: 'USDC',
+      tokenOut: 'NEWTOKEN',
+      amountIn: 100,
+      slippage: 0.05,
+      status: 'waiting',
+      createdAt: new Date(),
+      userId: 'user123',
+      maxEntryPrice: 50,
+      expiresAt: new Date(Date.now() + 60000)
+    };
+  });
+
+  afterEach(() => {
+    sniperWatcher.stop();
+  });
+
+  describe('getEntryPrice', () => {
+    it('should price entry on raydium pools with the constant-product formula', () => {
+      const pool = poolLaunchFeed.launchPool({
+        dex: 'raydium',
+        tokenIn: 'USDC',
+        tokenOut: 'NEWTOKEN',
+        reserveIn: 10000,
+        reserveOut: 1000000,
+        fee: 0
+      });
+
+      // 100 USDC into 10k/1M pool returns ~9900.99 tokens
+      expect(sniperWatcher.getEntryPrice(sniperOrder, pool)).toBeCloseTo((1000000 * 100 / 10100) / 100, 8);
+    });
+
+    it('should handle pools listed in the reverse direction', () => {
+      const pool = poolLaunchFeed.launchPool({
+        dex: 'raydium',
+        tokenIn: 'NEWTOKEN',
+        tokenOut: 'USDC',
+        reserveIn: 1000000,
+        reserveOut: 10000,
+        fee: 0
+      });
+
+      expect(sniperWatcher.getEntryPrice(sniperOrder, pool)).toBeCloseTo((1000000 * 100 / 10100) / 100, 8);
+    });
+
+    it('should price entry on meteora pools along their bins', () => {
+      const seed = { dex: 'meteora' as const, tokenIn: 'USDC', tokenOut: 'NEWTOKEN', reserveIn: 10000, reserveOut: 1000000, fee: 0 };
+      const pool = poolLaunchFeed.launchPool(seed);
+      const binQuote = new BinPool(pool).quote('USDC', 100).amountOut / 100;
+
+      expect(sniperWatcher.getEntryPrice(sniperOrder, pool)).toBeCloseTo(binQuote, 8);
+      expect(binQuote).not.toBeCloseTo((1000000 * 100 / 10100) / 100, 2);
+    });
+
+    it('should not price pools its venue does not have', () => {
+      const pool = new PoolLaunchFeed().launchPool({ dex: 'raydium', tokenIn: 'USDC', tokenOut: 'NEWTOKEN', reserveIn: 10000, reserveOut: 1000000 });
+
+      expect(sniperWatcher.getEntryPrice(sniperOrder, pool)).toBeUndefined();
+    });
+  });
+
+  describe('arm', () => {
+    it('should stay armed until a matching pool launches', async () => {
+      await sniperWatcher.arm(sniperOrder, onTrigger, onExpire);
+
+      poolLaunchFeed.launchPool({ dex: 'raydium', tokenIn: 'USDC', tokenOut: 'OTHER', reserveIn: 1000, reserveOut: 1000 });
+      await flushEvents();
+
+      expect(onTrigger).not.toHaveBeenCalled();
+      expect(sniperWatcher.isArmed(sniperOrder.id)).toBe(true);
+    });
+
+    it('should fire when a matching pool launches within the entry cap', async () => {
+      await sniperWatcher.arm(sniperOrder, onTrigger, onExpire);
+
+      const pool = poolLaunchFeed.launchPool({
+        dex: 'raydium',
+        tokenIn: 'USDC',
+        tokenOut: 'NEWTOKEN',
+        reserveIn: 10000,
+        reserveOut: 1000000
+      });
+      await flushEvents();
+
+      expect(onTrigger).toHaveBeenCalledTimes(1);
+      expect(onTrigger).toHaveBeenCalledWith(sniperOrder, pool, expect.any(Number));
+      expect(sniperWatcher.isArmed(sniperOrder.id)).toBe(false);
+    });
+
+    it('should stay armed when the launch price exceeds the entry cap', async () => {
+      await sniperWatcher.arm(sniperOrder, onTrigger, onExpire);
+
+      // ~1 token per USDC is far more expensive than the 50 per USDC cap
+      poolLaunchFeed.launchPool({ dex: 'raydium', tokenIn: 'USDC', tokenOut: 'NEWTOKEN', reserveIn: 10000, reserveOut: 10000 });
+      await flushEvents();
+
+      expect(onTrigger).not.toHaveBeenCalled();
+      expect(sniperWatcher.isArmed(sniperOrder.id)).toBe(true);
+
+      poolLaunchFeed.launchPool({ dex: 'meteora', tokenIn: 'USDC', tokenOut: 'NEWTOKEN', reserveIn: 10000, reserveOut: 1000000 });
+      await flushEvents();
+
+      expect(onTrigger).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fire immediately when the pool is already live', async () => {
+      poolLaunchFeed.launchPool({ dex: 'raydium', tokenIn: 'USDC', tokenOut: 'NEWTOKEN', reserveIn: 10000, reserveOut: 1000000 });
+
+      await sniperWatcher.arm(sniperOrder, onTrigger, onExpire);
+
+      expect(onTrigger).toHaveBeenCalledTimes(1);
+      expect(sniperWatcher.isArmed(sniperOrder.id)).toBe(false);
+    });
+
+    it('should fire without a cap when maxEntryPrice is not set', async () => {
+      await sniperWatcher.arm({ ...sniperOrder, maxEntryPrice: undefined }, onTrigger, onExpire);
+
+      poolLaunchFeed.launchPool({ dex: 'raydium', tokenIn: 'USDC', tokenOut: 'NEWTOKEN', reserveIn: 10000, reserveOut: 10 });
+      await flushEvents();
+
+      expect(onTrigger).toHaveBeenCalledTimes(1);
+    });
+
+    it('should expire orders that never trigger', async () => {
+      await sniperWatcher.arm({ ...sniperOrder, expiresAt: new Date(Date.now() + 20) }, onTrigger, onExpire);
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(onExpire).toHaveBeenCalledWith(expect.objectContaining({ id: sniperOrder.id }));
+      expect(onTrigger).not.toHaveBeenCalled();
+      expect(sniperWatcher.isArmed(sniperOrder.id)).toBe(false);
+    });
+  });
+
+  describe('disarm', () => {
+    it('should stop an armed order from firing', async () => {
+      await sniperWatcher.arm(sniperOrder, onTrigger, onExpire);
+
+      expect(sniperWatcher.disarm(sniperOrder.id)).toBe(true);
+
+      poolLaunchFeed.launchPool({ dex: 'raydium', tokenIn: 'USDC', tokenOut: 'NEWTOKEN', reserveIn: 10000, reserveOut: 1000000 });
+      await flushEvents();
+
+      expect(onTrigger).not.toHaveBeenCalled();
+      expect(sniperWatcher.getArmedCount()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { TokenGraph } from '../../src/services/tokenGraph';
+import { PoolInfo } from '../../src/types/dex';
+
+const buildPool = (dex: string, tokenIn: string, tokenOut: string): PoolInfo => ({
+  dex,
+  poolId: `${dex}-${tokenIn}-${tokenOut}`,
+  tokenIn,
+  tokenOut,
+  reserveIn: 1000,
+  reserveOut: 1000,
+  fee: 0.0025,
+  lastUpdate: new Date()
+});
+
+describe('TokenGraph', () => {
+  let graph: TokenGraph;
+
+  beforeEach(() => {
+    graph = new TokenGraph([
+      buildPool('raydium', 'BONK', 'SOL'),
+      buildPool('raydium', 'SOL', 'USDC'),
+      buildPool('meteora', 'SOL', 'USDC'),
+      buildPool('meteora', 'JUP', 'USDC'),
+      buildPool('raydium', 'USDC', 'USDT'),
+      buildPool('raydium', 'SOL', 'USDT')
+    ]);
+  });
+
+  it('should connect tokens in both directions', () => {
+    expect(graph.getNeighbors('SOL').sort()).toEqual(['BONK', 'USDC', 'USDT']);
+    expect(graph.getNeighbors('USDC')).toContain('SOL');
+  });
+
+  it('should track every venue with a pool for a pair', () => {
+    expect(graph.getVenues('USDC', 'SOL').sort()).toEqual(['meteora', 'raydium']);
+    expect(graph.getVenues('BONK', 'USDC')).toEqual([]);
+  });
+
+  it('should find multi-hop paths shortest first', () => {
+    const paths = graph.findPaths('BONK', 'USDC', 3);
+
+    expect(paths[0]).toEqual(['BONK', 'SOL', 'USDC']);
+    expect(paths).toContainEqual(['BONK', 'SOL', 'USDT', 'USDC']);
+  });
+
+  it('should respect the hop limit', () => {
+    expect(graph.findPaths('BONK', 'JUP', 2)).toEqual([]);
+    expect(graph.findPaths('BONK', 'JUP', 3)).toEqual([['BONK', 'SOL', 'USDC', 'JUP']]);
+  });
+
+  it('should include direct paths and never revisit tokens', () => {
+    const paths = graph.findPaths('SOL', 'USDC', 3);
+
+    expect(paths[0]).toEqual(['SOL', 'USDC']);
+    paths.forEach(path => expect(new Set(path).size).toBe(path.length));
+  });
+
+  it('should return no paths for unknown tokens', () => {
+    expect(graph.findPaths('NOPE', 'USDC', 3)).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { userRoutes } from '../../src/routes/users';
+import { createAuthHook } from '../../src/utils/auth';
+import { InsufficientBalanceError } from '../../src/utils/errors';
+
+// Route tests run against a real Fastify instance
+jest.unmock('fastify');
+
+// Mock dependencies
+jest.mock('../../src/utils/logger');
+
+describe('user routes', () => {
+  let app: FastifyInstance;
+  let apiKeyService: { authenticate: jest.Mock };
+  let balanceLedger: { getBalances: jest.Mock; deposit: jest.Mock; withdraw: jest.Mock; getLedger: jest.Mock };
+  let positionService: { getPositions: jest.Mock };
+
+  const request = (method: 'GET' | 'POST', url: string, payload?: Record<string, unknown>) =>
+    app.inject({ method, url, headers: { authorization: 'Bearer oek_1' }, ...(payload && { payload }) });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    apiKeyService = { authenticate: jest.fn().mockResolvedValue({ userId: 'user123', keyId: 1 }) };
+    balanceLedger = {
+      getBalances: jest.fn().mockResolvedValue([{ token: 'SOL', available: 10, reserved: 0 }]),
+      deposit: jest.fn().mockResolvedValue({ token: 'SOL', available: 15, reserved: 0 }),
+      withdraw: jest.fn().mockResolvedValue({ token: 'SOL', available: 5, reserved: 0 }),
+      getLedger: jest.fn().mockResolvedValue([])
+    };
+    positionService = { getPositions: jest.fn().mockResolvedValue({ userId: 'user123', positions: [] }) };
+
+    app = Fastify();
+    app.addHook('onRequest', createAuthHook(apiKeyService as any));
+    await app.register(userRoutes, {
+      prefix: '/api/users',
+      balanceLedger: balanceLedger as any,
+      positionService: positionService as any
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should require an API key', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/users/user123/balances' });
+
+    expect(response.statusCode).toBe(401);
+    expect(balanceLedger.getBalances).not.toHaveBeenCalled();
+  });
+
+  it('should reject revoked API keys', async () => {
+    apiKeyService.authenticate.mockResolvedValue(null);
+
+    const response = await request('GET', '/api/users/user123/positions');
+
+    expect(response.statusCode).toBe(401);
+    expect(positionService.getPositions).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['GET', '/api/users/other-user/balances', undefined],
+    ['POST', '/api/users/other-user/deposits', { token: 'SOL', amount: 5 }],
+    ['POST', '/api/users/other-user/withdrawals', { token: 'SOL', amount: 5 }],
+    ['GET', '/api/users/other-user/ledger', undefined],
+    ['GET', '/api/users/other-user/positions', undefined]
+  ] as const)('should forbid %s %s for another user', async (method, url, payload) => {
+    const response = await request(method, url, payload);
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json()).toEqual({ error: 'Forbidden', message: 'Cannot access resources of another user' });
+    expect(balanceLedger.getBalances).not.toHaveBeenCalled();
+    expect(balanceLedger.deposit).not.toHaveBeenCalled();
+    expect(balanceLedger.withdraw).not.toHaveBeenCalled();
+    expect(balanceLedger.getLedger).not.toHaveBeenCalled();
+    expect(positionService.getPositions).not.toHaveBeenCalled();
+  });
+
+  it('should return the authenticated user\'s balances and positions', async () => {
+    const balances = await request('GET', '/api/users/user123/balances');
+    const positions = await request('GET', '/api/users/user123/positions');
+
+    expect(balances.statusCode).toBe(200);
+    expect(balances.json()).toEqual({ userId: 'user123', balances: [{ token: 'SOL', available: 10, reserved: 0 }] });
+    expect(positions.statusCode).toBe(200);
+    expect(positionService.getPositions).toHaveBeenCalledWith('user123');
+  });
+
+  it('should credit deposits', async () => {
+    const response = await request('POST', '/api/users/user123/deposits', { token: 'SOL', amount: 5 });
+
+    expect(response.statusCode).toBe(200);
+    expect(balanceLedger.deposit).toHaveBeenCalledWith('user123', 'SOL', 5);
+  });
+
+  it.each([
+    [{ token: 'SOL', amount: 0 }],
+    [{ token: 'SOL', amount: -5 }],
+    [{ token: '', amount: 5 }],
+    [{ amount: 5 }]
+  ])('should reject the invalid balance change %j', async (payload) => {
+    const response = await request('POST', '/api/users/user123/deposits', payload);
+
+    expect(response.statusCode).toBe(400);
+    expect(balanceLedger.deposit).not.toHaveBeenCalled();
+  });
+
+  it('should reject withdrawals above the available balance', async () => {
+    balanceLedger.withdraw.mockRejectedValue(new InsufficientBalanceError('SOL', 50, 10));
+
+    const response = await request('POST', '/api/users/user123/withdrawals', { token: 'SOL', amount: 50 });
+
+    expect(response.statusCode).toBe(422);
+    expect(response.json()).toEqual(expect.objectContaining({ error: 'Insufficient balance', requested: 50, available: 10 }));
+  });
+
+  it('should validate the ledger page size', async () => {
+    const tooLarge = await request('GET', '/api/users/user123/ledger?limit=5000');
+    const defaulted = await request('GET', '/api/users/user123/ledger');
+
+    expect(tooLarge.statusCode).toBe(400);
+    expect(defaulted.statusCode).toBe(200);
+    expect(balanceLedger.getLedger).toHaveBeenCalledTimes(1);
+    expect(balanceLedger.getLedger).toHaveBeenCalledWith('user123', 100);
+  });
+});
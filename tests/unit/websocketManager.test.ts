@@ -1,365 +1,465 @@
 import { WebSocketManager } from '../../src/services/websocketManager';
-import { FastifyInstance } from 'fastify';
 
 // Mock dependencies
 jest.mock('../../src/utils/logger');
 
+const createMockSocket = (send: jest.Mock = jest.fn()) => ({
+  socket: {
+    on: jest.fn(),
+    send,
+    close: jest.fn(),
+  },
+}) as any;
+
+const mockRequest = {
+  ip: '127.0.0.1',
+  headers: { 'user-agent': 'test-agent' },
+} as any;
+
+const getHandler = (mockSocket: any, event: string) =>
+  mockSocket.socket.on.mock.calls.find((call: any) => call[0] === event)?.[1];
+
+const sendClientMessage = (mockSocket: any, message: any) =>
+  getHandler(mockSocket, 'message')(Buffer.from(typeof message === 'string' ? message : JSON.stringify(message)));
+
+const sentMessages = (mockSocket: any) =>
+  mockSocket.socket.send.mock.calls.map((call: any) => JSON.parse(call[0]));
+
 describe('WebSocketManager', () => {
   let wsManager: WebSocketManager;
-  let mockFastify: jest.Mocked<FastifyInstance>;
 
   beforeEach(() => {
     jest.clearAllMocks();
 
-    // Create mock Fastify instance
-    mockFastify = {
-      get: jest.fn(),
-      register: jest.fn().mockResolvedValue(undefined),
-      listen: jest.fn().mockResolvedValue(undefined),
-      close: jest.fn().mockResolvedValue(undefined),
-      setErrorHandler: jest.fn(),
-      log: {
-        error: jest.fn(),
-        info: jest.fn(),
-        warn: jest.fn(),
-      },
-    } as any;
-
     wsManager = new WebSocketManager();
   });
 
-  describe('setFastifyInstance', () => {
-    it('should set the Fastify instance', () => {
-      wsManager.setFastifyInstance(mockFastify);
+  describe('handleConnection', () => {
+    it('should send a connected message with a connection id', () => {
+      const mockSocket = createMockSocket();
+
+      wsManager.handleConnection(mockSocket, mockRequest);
+
+      const [connected] = sentMessages(mockSocket);
+      expect(connected.type).toBe('connected');
+      expect(typeof connected.connectionId).toBe('string');
+      expect(typeof connected.timestamp).toBe('string');
+      expect(wsManager['connections'].size).toBe(1);
+    });
+
+    it('should subscribe to initial orders (compatibility route)', () => {
+      const mockSocket = createMockSocket();
+
+      wsManager.handleConnection(mockSocket, mockRequest, ['test-order-123']);
+
+      expect(wsManager.hasConnection('test-order-123')).toBe(true);
+      expect(sentMessages(mockSocket)[1]).toEqual(expect.objectContaining({
+        type: 'subscribed',
+        orderIds: ['test-order-123'],
+        userIds: []
+      }));
+    });
+
+    it('should remove the connection and its subscriptions on close', () => {
+      const mockSocket = createMockSocket();
+
+      wsManager.handleConnection(mockSocket, mockRequest, ['test-order-123']);
+      getHandler(mockSocket, 'close')();
+
+      expect(wsManager['connections'].size).toBe(0);
+      expect(wsManager.hasConnection('test-order-123')).toBe(false);
+    });
+
+    it('should remove the connection on errors', () => {
+      const mockSocket = createMockSocket();
+
+      wsManager.handleConnection(mockSocket, mockRequest, ['test-order-123']);
+      getHandler(mockSocket, 'error')(new Error('Connection error'));
 
-      expect(wsManager['fastifyInstance']).toBe(mockFastify);
+      expect(wsManager['connections'].size).toBe(0);
+      expect(wsManager.hasConnection('test-order-123')).toBe(false);
     });
   });
 
-  describe('registerWebSocketRoute', () => {
-    it('should register WebSocket route for order', () => {
-      wsManager.setFastifyInstance(mockFastify);
+  describe('client messages', () => {
+    it('should subscribe to many orders at once', () => {
+      const mockSocket = createMockSocket();
+      wsManager.handleConnection(mockSocket, mockRequest);
 
-      wsManager.registerWebSocketRoute('test-order-123');
+      sendClientMessage(mockSocket, { type: 'subscribe', orderIds: ['order-1', 'order-2', 'order-3'] });
 
-      expect(mockFastify.get).toHaveBeenCalledWith(
-        '/ws/orders/test-order-123',
-        { websocket: true },
-        expect.any(Function)
-      );
+      expect(wsManager.hasConnection('order-1')).toBe(true);
+      expect(wsManager.hasConnection('order-3')).toBe(true);
+      expect(sentMessages(mockSocket).pop()).toEqual(expect.objectContaining({
+        type: 'subscribed',
+        orderIds: ['order-1', 'order-2', 'order-3']
+      }));
     });
 
-    it('should throw error if Fastify instance not set', () => {
-      expect(() => {
-        wsManager.registerWebSocketRoute('test-order-123');
-      }).toThrow('Fastify instance not set');
+    it('should unsubscribe from orders', () => {
+      const mockSocket = createMockSocket();
+      wsManager.handleConnection(mockSocket, mockRequest, ['order-1', 'order-2']);
+
+      sendClientMessage(mockSocket, { type: 'unsubscribe', orderIds: ['order-1'] });
+
+      expect(wsManager.hasConnection('order-1')).toBe(false);
+      expect(wsManager.hasConnection('order-2')).toBe(true);
+      expect(sentMessages(mockSocket).pop()).toEqual(expect.objectContaining({
+        type: 'unsubscribed',
+        orderIds: ['order-2']
+      }));
+    });
+
+    it('should answer pings', () => {
+      const mockSocket = createMockSocket();
+      wsManager.handleConnection(mockSocket, mockRequest);
+
+      sendClientMessage(mockSocket, { type: 'ping' });
+
+      expect(sentMessages(mockSocket).pop().type).toBe('pong');
+    });
+
+    it.each([
+      ['not json', 'Message must be valid JSON'],
+      [{ type: 'shout' }, 'Unknown message type: shout'],
+      [{ type: 'subscribe' }, 'subscribe requires orderIds or userId'],
+      [{ type: 'subscribe', orderIds: 'order-1' }, 'orderIds must be an array of non-empty strings'],
+      [{ type: 'subscribe', userId: 42 }, 'userId must be a non-empty string']
+    ])('should reject invalid message %p', (message, expectedError) => {
+      const mockSocket = createMockSocket();
+      wsManager.handleConnection(mockSocket, mockRequest);
+
+      sendClientMessage(mockSocket, message);
+
+      expect(sentMessages(mockSocket).pop()).toEqual(expect.objectContaining({
+        type: 'error',
+        message: expectedError
+      }));
+    });
+
+    it('should enforce the per-connection subscription limit', () => {
+      wsManager = new WebSocketManager(2);
+      const mockSocket = createMockSocket();
+      wsManager.handleConnection(mockSocket, mockRequest);
+
+      sendClientMessage(mockSocket, { type: 'subscribe', orderIds: ['order-1', 'order-2', 'order-3'] });
+
+      expect(sentMessages(mockSocket).pop()).toEqual(expect.objectContaining({
+        type: 'error',
+        message: 'Subscription limit of 2 reached'
+      }));
+      expect(wsManager.hasConnection('order-1')).toBe(false);
     });
   });
 
-  describe('handleWebSocketConnection', () => {
-    it('should handle new WebSocket connection', () => {
-      const mockSocket = {
-        socket: {
-          on: jest.fn(),
-          send: jest.fn(),
-          close: jest.fn(),
-        },
-      } as any;
-
-      const mockRequest = {
-        ip: '127.0.0.1',
-        headers: { 'user-agent': 'test-agent' },
-      } as any;
-
-      wsManager.setFastifyInstance(mockFastify);
-      wsManager.registerWebSocketRoute('test-order-123');
-
-      // Get the registered handler
-      const registeredHandler = mockFastify.get.mock.calls[0]?.[2] as Function;
-      expect(typeof registeredHandler).toBe('function');
-      if (typeof registeredHandler === 'function') {
-        registeredHandler.call(mockFastify, mockSocket, mockRequest);
-      }
-
-      // Verify connection is stored
-      expect(wsManager['connections'].has('test-order-123')).toBe(true);
-
-      // Verify initial message is sent
-      const sent = mockSocket.socket.send.mock.calls[0][0];
-      const parsed = JSON.parse(sent);
+  describe('emitToOrder', () => {
+    it('should emit status update to order subscribers', () => {
+      const mockSocket = createMockSocket();
+      wsManager.handleConnection(mockSocket, mockRequest, ['test-order-123']);
+
+      wsManager.emitToOrder('test-order-123', 'confirmed', { txHash: '0x123' });
+
+      const parsed = sentMessages(mockSocket).pop();
+      expect(parsed.type).toBe('order_update');
       expect(parsed.orderId).toBe('test-order-123');
-      expect(parsed.status).toBe('connected');
+      expect(parsed.status).toBe('confirmed');
+      expect(parsed.data).toEqual({ txHash: '0x123' });
       expect(typeof parsed.timestamp).toBe('string');
     });
 
-    it('should handle connection close', () => {
-      const mockSocket = {
-        socket: {
-          on: jest.fn(),
-          send: jest.fn(),
-          close: jest.fn(),
-        },
-      } as any;
-
-      const mockRequest = {
-        ip: '127.0.0.1',
-        headers: { 'user-agent': 'test-agent' },
-      } as any;
-
-      wsManager.setFastifyInstance(mockFastify);
-      wsManager.registerWebSocketRoute('test-order-123');
-
-      const registeredHandler = mockFastify.get.mock.calls[0]?.[2] as Function;
-      expect(typeof registeredHandler).toBe('function');
-      if (typeof registeredHandler === 'function') {
-        registeredHandler.call(mockFastify, mockSocket, mockRequest);
-      }
-
-      // Simulate connection close
-      const closeHandler = mockSocket.socket.on.mock.calls.find(
-        (call: any) => call[0] === 'close'
-      )?.[1];
-      if (closeHandler) closeHandler();
-
-      // Verify connection is removed
-      expect(wsManager['connections'].has('test-order-123')).toBe(false);
-    });
-
-    it('should handle connection errors', () => {
-      const mockSocket = {
-        socket: {
-          on: jest.fn(),
-          send: jest.fn(),
-          close: jest.fn(),
-        },
-      } as any;
-
-      const mockRequest = {
-        ip: '127.0.0.1',
-        headers: { 'user-agent': 'test-agent' },
-      } as any;
-
-      wsManager.setFastifyInstance(mockFastify);
-      wsManager.registerWebSocketRoute('test-order-123');
-
-      const registeredHandler = mockFastify.get.mock.calls[0]?.[2] as Function;
-      expect(typeof registeredHandler).toBe('function');
-      if (typeof registeredHandler === 'function') {
-        registeredHandler.call(mockFastify, mockSocket, mockRequest);
-      }
-
-      // Simulate connection error
-      const errorHandler = mockSocket.socket.on.mock.calls.find(
-        (call: any) => call[0] === 'error'
-      )?.[1];
-      if (errorHandler) errorHandler(new Error('Connection error'));
-
-      // Verify connection is removed
-      expect(wsManager['connections'].has('test-order-123')).toBe(false);
-    });
-
-    it('should handle incoming messages', () => {
-      const mockSocket = {
-        socket: {
-          on: jest.fn(),
-          send: jest.fn(),
-          close: jest.fn(),
-        },
-      } as any;
-
-      const mockRequest = {
-        ip: '127.0.0.1',
-        headers: { 'user-agent': 'test-agent' },
-      } as any;
-
-      wsManager.setFastifyInstance(mockFastify);
-      wsManager.registerWebSocketRoute('test-order-123');
-
-      const registeredHandler = mockFastify.get.mock.calls[0]?.[2] as Function;
-      expect(typeof registeredHandler).toBe('function');
-      if (typeof registeredHandler === 'function') {
-        registeredHandler.call(mockFastify, mockSocket, mockRequest);
-      }
-
-      // Simulate incoming message
-      const messageHandler = mockSocket.socket.on.mock.calls.find(
-        (call: any) => call[0] === 'message'
-      )?.[1];
-      if (messageHandler) {
-        const testMessage = JSON.stringify({ type: 'ping' });
-        messageHandler(Buffer.from(testMessage));
-      }
-
-      // Verify message is processed (no errors thrown)
-      expect(mockSocket.socket.send).toHaveBeenCalled();
+    it('should deliver updates to user subscribers', () => {
+      const mockSocket = createMockSocket();
+      wsManager.handleConnection(mockSocket, mockRequest);
+      sendClientMessage(mockSocket, { type: 'subscribe', userId: 'user123' });
+
+      wsManager.emitToOrder('order-1', 'routing', undefined, 'user123');
+      wsManager.emitToOrder('order-2', 'routing', undefined, 'other-user');
+
+      const updates = sentMessages(mockSocket).filter((message: any) => message.type === 'order_update');
+      expect(updates).toHaveLength(1);
+      expect(updates[0]).toEqual(expect.objectContaining({ orderId: 'order-1', userId: 'user123' }));
+    });
+
+    it('should send once when subscribed to both the order and its user', () => {
+      const mockSocket = createMockSocket();
+      wsManager.handleConnection(mockSocket, mockRequest);
+      sendClientMessage(mockSocket, { type: 'subscribe', orderIds: ['order-1'], userId: 'user123' });
+
+      wsManager.emitToOrder('order-1', 'confirmed', undefined, 'user123');
+
+      const updates = sentMessages(mockSocket).filter((message: any) => message.type === 'order_update');
+      expect(updates).toHaveLength(1);
+    });
+
+    it('should handle orders without subscribers gracefully', () => {
+      expect(() => {
+        wsManager.emitToOrder('non-existent', 'confirmed');
+      }).not.toThrow();
+    });
+
+    it('should remove connections whose send fails', () => {
+      const send = jest.fn();
+      const mockSocket = createMockSocket(send);
+      wsManager.handleConnection(mockSocket, mockRequest, ['test-order-123']);
+
+      send.mockImplementation(() => {
+        throw new Error('Send error');
+      });
+      wsManager.emitToOrder('test-order-123', 'confirmed');
+
+      expect(wsManager['connections'].size).toBe(0);
+      expect(wsManager.hasConnection('test-order-123')).toBe(false);
     });
   });
 
-  describe('sendMessage', () => {
-    it('should send message to specific order connection', () => {
-      const mockSocket = {
-        socket: {
-          on: jest.fn(),
-          send: jest.fn(),
-          close: jest.fn(),
-        },
-      } as any;
-
-      const mockRequest = {
-        ip: '127.0.0.1',
-        headers: { 'user-agent': 'test-agent' },
-      } as any;
-
-      wsManager.setFastifyInstance(mockFastify);
-      wsManager.registerWebSocketRoute('test-order-123');
-
-      const registeredHandler = mockFastify.get.mock.calls[0]?.[2] as Function;
-      expect(typeof registeredHandler).toBe('function');
-      if (typeof registeredHandler === 'function') {
-        registeredHandler.call(mockFastify, mockSocket, mockRequest);
-      }
+  describe('multiple subscribers', () => {
+    it('should fan out order updates to every subscribed connection', () => {
+      const uiSocket = createMockSocket();
+      const botSocket = createMockSocket();
+      wsManager.handleConnection(uiSocket, mockRequest, ['test-order-123']);
+      wsManager.handleConnection(botSocket, mockRequest, ['test-order-123']);
 
-      const testMessage = {
-        orderId: 'test-order-123',
-        status: 'confirmed',
-        data: { txHash: '0x123' },
-        timestamp: new Date(),
-      };
+      wsManager.emitToOrder('test-order-123', 'confirmed');
 
-      wsManager.sendMessage('test-order-123', testMessage);
+      expect(wsManager.getSubscriberCount('test-order-123')).toBe(2);
+      expect(sentMessages(uiSocket).pop()).toEqual(expect.objectContaining({ type: 'order_update', status: 'confirmed' }));
+      expect(sentMessages(botSocket).pop()).toEqual(expect.objectContaining({ type: 'order_update', status: 'confirmed' }));
+    });
+
+    it('should keep other subscribers when one connection closes', () => {
+      const firstSocket = createMockSocket();
+      const secondSocket = createMockSocket();
+      wsManager.handleConnection(firstSocket, mockRequest, ['test-order-123']);
+      wsManager.handleConnection(secondSocket, mockRequest, ['test-order-123']);
+
+      getHandler(firstSocket, 'close')();
+      wsManager.emitToOrder('test-order-123', 'routing');
+
+      expect(wsManager.getSubscriberCount('test-order-123')).toBe(1);
+      expect(firstSocket.socket.send.mock.calls.some((call: any) => call[0].includes('order_update'))).toBe(false);
+      expect(sentMessages(secondSocket).pop()).toEqual(expect.objectContaining({ type: 'order_update', status: 'routing' }));
+    });
+
+    it('should keep other subscribers when one connection fails to send', () => {
+      const failingSend = jest.fn();
+      const failingSocket = createMockSocket(failingSend);
+      const healthySocket = createMockSocket();
+      wsManager.handleConnection(failingSocket, mockRequest, ['test-order-123']);
+      wsManager.handleConnection(healthySocket, mockRequest, ['test-order-123']);
+
+      failingSend.mockImplementation(() => {
+        throw new Error('Send error');
+      });
+      wsManager.emitToOrder('test-order-123', 'confirmed');
+
+      expect(wsManager.getSubscriberCount('test-order-123')).toBe(1);
+      expect(wsManager['connections'].size).toBe(1);
+      expect(sentMessages(healthySocket).pop()).toEqual(expect.objectContaining({ status: 'confirmed' }));
+    });
 
-      expect(mockSocket.socket.send).toHaveBeenCalledWith(
-        JSON.stringify(testMessage)
+    it('should only drop the unsubscribing connection', () => {
+      const firstSocket = createMockSocket();
+      const secondSocket = createMockSocket();
+      wsManager.handleConnection(firstSocket, mockRequest, ['test-order-123']);
+      wsManager.handleConnection(secondSocket, mockRequest, ['test-order-123']);
+
+      sendClientMessage(firstSocket, { type: 'unsubscribe', orderIds: ['test-order-123'] });
+
+      expect(wsManager.getSubscriberCount('test-order-123')).toBe(1);
+      expect(wsManager.hasConnection('test-order-123')).toBe(true);
+    });
+
+    it('should fan out user updates to every connection following the user', () => {
+      const firstSocket = createMockSocket();
+      const secondSocket = createMockSocket();
+      wsManager.handleConnection(firstSocket, mockRequest);
+      wsManager.handleConnection(secondSocket, mockRequest);
+      sendClientMessage(firstSocket, { type: 'subscribe', userId: 'user123' });
+      sendClientMessage(secondSocket, { type: 'subscribe', userId: 'user123' });
+
+      wsManager.emitToOrder('order-1', 'confirmed', undefined, 'user123');
+
+      expect(sentMessages(firstSocket).pop()).toEqual(expect.objectContaining({ orderId: 'order-1' }));
+      expect(sentMessages(secondSocket).pop()).toEqual(expect.objectContaining({ orderId: 'order-1' }));
+    });
+  });
+
+  describe('history replay', () => {
+    const flushReplay = () => new Promise(resolve => setImmediate(resolve));
+    const history = [
+      { sequence: 1, status: 'pending', timestamp: new Date() },
+      { sequence: 2, status: 'routing', timestamp: new Date() },
+      { sequence: 3, status: 'confirmed', data: { txHash: '0x123' }, timestamp: new Date() }
+    ];
+    let historyProvider: jest.Mock;
+
+    beforeEach(() => {
+      historyProvider = jest.fn().mockImplementation(async (_orderId: string, afterSequence: number) =>
+        history.filter(event => event.sequence > afterSequence)
       );
+      wsManager.setHistoryProvider(historyProvider);
     });
 
-    it('should handle missing connection gracefully', () => {
-      const testMessage = {
-        orderId: 'non-existent',
-        status: 'confirmed',
-        timestamp: new Date(),
-      };
+    it('should replay the full history to late subscribers', async () => {
+      const mockSocket = createMockSocket();
+      wsManager.handleConnection(mockSocket, mockRequest, ['test-order-123']);
+      await flushReplay();
+
+      const messages = sentMessages(mockSocket);
+      const replayed = messages.filter((message: any) => message.replayed);
+      expect(historyProvider).toHaveBeenCalledWith('test-order-123', 0);
+      expect(replayed.map((message: any) => message.sequence)).toEqual([1, 2, 3]);
+      expect(replayed[2]).toEqual(expect.objectContaining({ status: 'confirmed', data: { txHash: '0x123' } }));
+      expect(messages.pop()).toEqual(expect.objectContaining({ type: 'replay_complete', orderId: 'test-order-123', lastSequence: 3 }));
+    });
 
-      // Should not throw error
-      expect(() => {
-        wsManager.sendMessage('non-existent', testMessage);
-      }).not.toThrow();
+    it('should resume after the last seen sequence', async () => {
+      const mockSocket = createMockSocket();
+      wsManager.handleConnection(mockSocket, mockRequest);
+
+      sendClientMessage(mockSocket, { type: 'subscribe', orderIds: ['test-order-123'], lastSequences: { 'test-order-123': 2 } });
+      await flushReplay();
+
+      const replayed = sentMessages(mockSocket).filter((message: any) => message.replayed);
+      expect(historyProvider).toHaveBeenCalledWith('test-order-123', 2);
+      expect(replayed.map((message: any) => message.sequence)).toEqual([3]);
+    });
+
+    it('should hold live updates until the replay finishes and drop duplicates', async () => {
+      let resolveHistory: (events: any[]) => void = () => undefined;
+      historyProvider.mockReturnValue(new Promise(resolve => { resolveHistory = resolve; }));
+      const mockSocket = createMockSocket();
+      wsManager.handleConnection(mockSocket, mockRequest, ['test-order-123']);
+
+      // Sequence 2 is already in the history, 4 is new
+      wsManager.emitToOrder('test-order-123', 'routing', undefined, undefined, 2);
+      wsManager.emitToOrder('test-order-123', 'submitted', undefined, undefined, 4);
+      expect(sentMessages(mockSocket).some((message: any) => message.type === 'order_update')).toBe(false);
+
+      resolveHistory(history);
+      await flushReplay();
+
+      const updates = sentMessages(mockSocket).filter((message: any) => message.type === 'order_update');
+      expect(updates.map((message: any) => message.sequence)).toEqual([1, 2, 3, 4]);
+      expect(updates[3].replayed).toBeUndefined();
+    });
+
+    it('should report replay failures and keep the subscription', async () => {
+      historyProvider.mockRejectedValue(new Error('Database unavailable'));
+      const mockSocket = createMockSocket();
+      wsManager.handleConnection(mockSocket, mockRequest, ['test-order-123']);
+      await flushReplay();
+
+      expect(sentMessages(mockSocket)).toEqual(expect.arrayContaining([
+        expect.objectContaining({ type: 'error', message: 'Failed to replay history for order test-order-123' })
+      ]));
+      expect(wsManager.hasConnection('test-order-123')).toBe(true);
     });
 
-    it('should handle send errors and remove connection', () => {
-      const mockSocket = {
-        socket: {
-          on: jest.fn(),
-          send: jest.fn().mockImplementation(() => {
-            throw new Error('Send error');
-          }),
-          close: jest.fn(),
-        },
-      } as any;
+    it('should reject malformed lastSequences', () => {
+      const mockSocket = createMockSocket();
+      wsManager.handleConnection(mockSocket, mockRequest);
+
+      sendClientMessage(mockSocket, { type: 'subscribe', orderIds: ['test-order-123'], lastSequences: { 'test-order-123': -1 } });
 
-      const mockRequest = {
-        ip: '127.0.0.1',
-        headers: { 'user-agent': 'test-agent' },
-      } as any;
+      expect(sentMessages(mockSocket).pop()).toEqual(expect.objectContaining({
+        type: 'error',
+        message: 'lastSequences must map orderIds to non-negative integers'
+      }));
+    });
+  });
+
+  describe('ownership', () => {
+    const flushChecks = () => new Promise(resolve => setImmediate(resolve));
+    const authenticatedRequest = { ...mockRequest, auth: { userId: 'user123', keyId: 1 } };
+    let accessChecker: jest.Mock;
+
+    beforeEach(() => {
+      accessChecker = jest.fn().mockImplementation(async (_userId: string, orderIds: string[]) =>
+        orderIds.filter(orderId => orderId.startsWith('own-'))
+      );
+      wsManager.setAccessChecker(accessChecker);
+    });
 
-      wsManager.setFastifyInstance(mockFastify);
-      wsManager.registerWebSocketRoute('test-order-123');
+    it('should only subscribe authenticated connections to orders they own', async () => {
+      const mockSocket = createMockSocket();
+      wsManager.handleConnection(mockSocket, authenticatedRequest);
 
-      const registeredHandler = mockFastify.get.mock.calls[0]?.[2] as Function;
-      expect(typeof registeredHandler).toBe('function');
-      if (typeof registeredHandler === 'function') {
-        registeredHandler.call(mockFastify, mockSocket, mockRequest);
-      }
+      sendClientMessage(mockSocket, { type: 'subscribe', orderIds: ['own-1', 'other-1'] });
+      await flushChecks();
+
+      expect(accessChecker).toHaveBeenCalledWith('user123', ['own-1', 'other-1']);
+      expect(wsManager.hasConnection('own-1')).toBe(true);
+      expect(wsManager.hasConnection('other-1')).toBe(false);
+      expect(sentMessages(mockSocket)).toEqual(expect.arrayContaining([
+        expect.objectContaining({ type: 'error', message: 'Orders not found: other-1' })
+      ]));
+    });
+
+    it('should check the order of the compatibility route', async () => {
+      const mockSocket = createMockSocket();
+      wsManager.handleConnection(mockSocket, authenticatedRequest, ['other-1']);
+      await flushChecks();
+
+      expect(wsManager.hasConnection('other-1')).toBe(false);
+    });
+
+    it('should reject subscriptions to another user', () => {
+      const mockSocket = createMockSocket();
+      wsManager.handleConnection(mockSocket, authenticatedRequest);
+
+      sendClientMessage(mockSocket, { type: 'subscribe', userId: 'someone-else' });
+
+      expect(sentMessages(mockSocket).pop()).toEqual(expect.objectContaining({
+        type: 'error',
+        message: 'Cannot subscribe to orders of another user'
+      }));
+    });
+
+    it('should allow subscribing to the authenticated user', () => {
+      const mockSocket = createMockSocket();
+      wsManager.handleConnection(mockSocket, authenticatedRequest);
+
+      sendClientMessage(mockSocket, { type: 'subscribe', userId: 'user123' });
+
+      expect(sentMessages(mockSocket).pop()).toEqual(expect.objectContaining({ type: 'subscribed', userIds: ['user123'] }));
+    });
+  });
+
+  describe('sendMessage', () => {
+    it('should send message to the order subscriber', () => {
+      const mockSocket = createMockSocket();
+      wsManager.handleConnection(mockSocket, mockRequest, ['test-order-123']);
 
       const testMessage = {
+        type: 'order_update' as const,
         orderId: 'test-order-123',
         status: 'confirmed',
+        data: { txHash: '0x123' },
         timestamp: new Date(),
       };
 
       wsManager.sendMessage('test-order-123', testMessage);
 
-      // Verify connection is removed due to error
-      expect(wsManager['connections'].has('test-order-123')).toBe(false);
+      expect(mockSocket.socket.send).toHaveBeenCalledWith(JSON.stringify(testMessage));
     });
-  });
 
-  describe('emitToOrder', () => {
-    it('should emit status update to order', () => {
-      const mockSocket = {
-        socket: {
-          on: jest.fn(),
-          send: jest.fn(),
-          close: jest.fn(),
-        },
-      } as any;
-
-      const mockRequest = {
-        ip: '127.0.0.1',
-        headers: { 'user-agent': 'test-agent' },
-      } as any;
-
-      wsManager.setFastifyInstance(mockFastify);
-      wsManager.registerWebSocketRoute('test-order-123');
-
-      const registeredHandler = mockFastify.get.mock.calls[0]?.[2] as Function;
-      expect(typeof registeredHandler).toBe('function');
-      if (typeof registeredHandler === 'function') {
-        registeredHandler.call(mockFastify, mockSocket, mockRequest);
-      }
-
-      wsManager.emitToOrder('test-order-123', 'confirmed', { txHash: '0x123' });
-
-      // Find the last call to send (should be the confirmed status)
-      const sent = mockSocket.socket.send.mock.calls.find((call: any) => call[0].includes('confirmed'))[0];
-      const parsed = JSON.parse(sent);
-      expect(parsed.orderId).toBe('test-order-123');
-      expect(parsed.status).toBe('confirmed');
-      expect(parsed.data).toEqual({ txHash: '0x123' });
-      expect(typeof parsed.timestamp).toBe('string');
+    it('should handle missing connection gracefully', () => {
+      expect(() => {
+        wsManager.sendMessage('non-existent', { type: 'pong', timestamp: new Date() });
+      }).not.toThrow();
     });
   });
 
   describe('broadcast', () => {
     it('should broadcast message to all connections', () => {
-      const mockSocket1 = {
-        socket: {
-          on: jest.fn(),
-          send: jest.fn(),
-          close: jest.fn(),
-        },
-      } as any;
-
-      const mockSocket2 = {
-        socket: {
-          on: jest.fn(),
-          send: jest.fn(),
-          close: jest.fn(),
-        },
-      } as any;
-
-      const mockRequest = {
-        ip: '127.0.0.1',
-        headers: { 'user-agent': 'test-agent' },
-      } as any;
-
-      wsManager.setFastifyInstance(mockFastify);
-      wsManager.registerWebSocketRoute('order-1');
-      wsManager.registerWebSocketRoute('order-2');
-
-      const registeredHandler = mockFastify.get.mock.calls[0]?.[2] as Function;
-      expect(typeof registeredHandler).toBe('function');
-      if (typeof registeredHandler === 'function') {
-        registeredHandler.call(mockFastify, mockSocket1, mockRequest);
-      }
-
-      const registeredHandler2 = mockFastify.get.mock.calls[1]?.[2] as Function;
-      expect(typeof registeredHandler2).toBe('function');
-      if (typeof registeredHandler2 === 'function') {
-        registeredHandler2.call(mockFastify, mockSocket2, mockRequest);
-      }
+      const mockSocket1 = createMockSocket();
+      const mockSocket2 = createMockSocket();
+      wsManager.handleConnection(mockSocket1, mockRequest);
+      wsManager.handleConnection(mockSocket2, mockRequest);
 
       const broadcastMessage = {
+        type: 'system' as const,
         status: 'system_maintenance',
         data: { message: 'Scheduled maintenance' },
         timestamp: new Date(),
@@ -367,119 +467,49 @@ describe('WebSocketManager', () => {
 
       wsManager.broadcast(broadcastMessage);
 
-      expect(mockSocket1.socket.send).toHaveBeenCalledWith(
-        JSON.stringify(broadcastMessage)
-      );
-      expect(mockSocket2.socket.send).toHaveBeenCalledWith(
-        JSON.stringify(broadcastMessage)
-      );
+      expect(mockSocket1.socket.send).toHaveBeenCalledWith(JSON.stringify(broadcastMessage));
+      expect(mockSocket2.socket.send).toHaveBeenCalledWith(JSON.stringify(broadcastMessage));
     });
 
     it('should handle broadcast errors gracefully', () => {
-      const mockSocket1 = {
-        socket: {
-          on: jest.fn(),
-          send: jest.fn().mockImplementation(() => {
-            throw new Error('Send error');
-          }),
-          close: jest.fn(),
-        },
-      } as any;
-
-      const mockSocket2 = {
-        socket: {
-          on: jest.fn(),
-          send: jest.fn(),
-          close: jest.fn(),
-        },
-      } as any;
-
-      const mockRequest = {
-        ip: '127.0.0.1',
-        headers: { 'user-agent': 'test-agent' },
-      } as any;
-
-      wsManager.setFastifyInstance(mockFastify);
-      wsManager.registerWebSocketRoute('order-1');
-      wsManager.registerWebSocketRoute('order-2');
-
-      const registeredHandler = mockFastify.get.mock.calls[0]?.[2] as Function;
-      expect(typeof registeredHandler).toBe('function');
-      if (typeof registeredHandler === 'function') {
-        registeredHandler.call(mockFastify, mockSocket1, mockRequest);
-      }
-
-      const registeredHandler2 = mockFastify.get.mock.calls[1]?.[2] as Function;
-      expect(typeof registeredHandler2).toBe('function');
-      if (typeof registeredHandler2 === 'function') {
-        registeredHandler2.call(mockFastify, mockSocket2, mockRequest);
-      }
+      const failingSend = jest.fn();
+      const mockSocket1 = createMockSocket(failingSend);
+      const mockSocket2 = createMockSocket();
+      wsManager.handleConnection(mockSocket1, mockRequest);
+      wsManager.handleConnection(mockSocket2, mockRequest);
+
+      failingSend.mockImplementation(() => {
+        throw new Error('Send error');
+      });
 
       const broadcastMessage = {
+        type: 'system' as const,
         status: 'system_maintenance',
         timestamp: new Date(),
       };
 
-      // Should not throw error
       expect(() => {
         wsManager.broadcast(broadcastMessage);
       }).not.toThrow();
 
-      // Verify working connection still receives message
-      expect(mockSocket2.socket.send).toHaveBeenCalledWith(
-        JSON.stringify(broadcastMessage)
-      );
-
-      // Verify failed connection is removed
-      expect(wsManager['connections'].has('order-1')).toBe(false);
+      expect(mockSocket2.socket.send).toHaveBeenCalledWith(JSON.stringify(broadcastMessage));
+      expect(wsManager['connections'].size).toBe(1);
     });
   });
 
   describe('getConnectionStats', () => {
     it('should return connection statistics', () => {
-      const mockSocket1 = {
-        socket: {
-          on: jest.fn(),
-          send: jest.fn(),
-          close: jest.fn(),
-        },
-      } as any;
-
-      const mockSocket2 = {
-        socket: {
-          on: jest.fn(),
-          send: jest.fn(),
-          close: jest.fn(),
-        },
-      } as any;
-
-      const mockRequest = {
-        ip: '127.0.0.1',
-        headers: { 'user-agent': 'test-agent' },
-      } as any;
-
-      wsManager.setFastifyInstance(mockFastify);
-      wsManager.registerWebSocketRoute('order-1');
-      wsManager.registerWebSocketRoute('order-2');
-
-      const registeredHandler = mockFastify.get.mock.calls[0]?.[2] as Function;
-      expect(typeof registeredHandler).toBe('function');
-      if (typeof registeredHandler === 'function') {
-        registeredHandler.call(mockFastify, mockSocket1, mockRequest);
-      }
-
-      const registeredHandler2 = mockFastify.get.mock.calls[1]?.[2] as Function;
-      expect(typeof registeredHandler2).toBe('function');
-      if (typeof registeredHandler2 === 'function') {
-        registeredHandler2.call(mockFastify, mockSocket2, mockRequest);
-      }
+      wsManager.handleConnection(createMockSocket(), mockRequest, ['order-1']);
+      wsManager.handleConnection(createMockSocket(), mockRequest, ['order-2']);
 
       const stats = wsManager.getConnectionStats();
 
       expect(stats.totalConnections).toBe(2);
+      expect(stats.subscribedOrders).toBe(2);
       expect(stats.connections).toHaveLength(2);
-      expect(stats.connections[0]).toHaveProperty('orderId');
+      expect(stats.connections[0]).toHaveProperty('connectionId');
       expect(stats.connections[0]).toHaveProperty('connectedAt');
+      expect(stats.connections[0].orderIds).toEqual(['order-1']);
     });
 
     it('should return empty stats when no connections', () => {
@@ -492,76 +522,26 @@ describe('WebSocketManager', () => {
 
   describe('closeAllConnections', () => {
     it('should close all WebSocket connections', () => {
-      const mockSocket1 = {
-        socket: {
-          on: jest.fn(),
-          send: jest.fn(),
-          close: jest.fn(),
-        },
-      } as any;
-
-      const mockSocket2 = {
-        socket: {
-          on: jest.fn(),
-          send: jest.fn(),
-          close: jest.fn(),
-        },
-      } as any;
-
-      const mockRequest = {
-        ip: '127.0.0.1',
-        headers: { 'user-agent': 'test-agent' },
-      } as any;
-
-      wsManager.setFastifyInstance(mockFastify);
-      wsManager.registerWebSocketRoute('order-1');
-      wsManager.registerWebSocketRoute('order-2');
-
-      const registeredHandler = mockFastify.get.mock.calls[0]?.[2] as Function;
-      expect(typeof registeredHandler).toBe('function');
-      if (typeof registeredHandler === 'function') {
-        registeredHandler.call(mockFastify, mockSocket1, mockRequest);
-      }
-
-      const registeredHandler2 = mockFastify.get.mock.calls[1]?.[2] as Function;
-      expect(typeof registeredHandler2).toBe('function');
-      if (typeof registeredHandler2 === 'function') {
-        registeredHandler2.call(mockFastify, mockSocket2, mockRequest);
-      }
+      const mockSocket1 = createMockSocket();
+      const mockSocket2 = createMockSocket();
+      wsManager.handleConnection(mockSocket1, mockRequest, ['order-1']);
+      wsManager.handleConnection(mockSocket2, mockRequest, ['order-2']);
 
       wsManager.closeAllConnections();
 
       expect(mockSocket1.socket.close).toHaveBeenCalled();
       expect(mockSocket2.socket.close).toHaveBeenCalled();
       expect(wsManager['connections'].size).toBe(0);
+      expect(wsManager.hasConnection('order-1')).toBe(false);
     });
 
     it('should handle close errors gracefully', () => {
-      const mockSocket = {
-        socket: {
-          on: jest.fn(),
-          send: jest.fn(),
-          close: jest.fn().mockImplementation(() => {
-            throw new Error('Close error');
-          }),
-        },
-      } as any;
-
-      const mockRequest = {
-        ip: '127.0.0.1',
-        headers: { 'user-agent': 'test-agent' },
-      } as any;
-
-      wsManager.setFastifyInstance(mockFastify);
-      wsManager.registerWebSocketRoute('order-1');
-
-      const registeredHandler = mockFastify.get.mock.calls[0]?.[2] as Function;
-      expect(typeof registeredHandler).toBe('function');
-      if (typeof registeredHandler === 'function') {
-        registeredHandler.call(mockFastify, mockSocket, mockRequest);
-      }
-
-      // Should not throw error
+      const mockSocket = createMockSocket();
+      mockSocket.socket.close.mockImplementation(() => {
+        throw new Error('Close error');
+      });
+      wsManager.handleConnection(mockSocket, mockRequest);
+
       expect(() => {
         wsManager.closeAllConnections();
       }).not.toThrow();
@@ -571,28 +551,8 @@ describe('WebSocketManager', () => {
   });
 
   describe('hasConnection', () => {
-    it('should return true for existing connection', () => {
-      const mockSocket = {
-        socket: {
-          on: jest.fn(),
-          send: jest.fn(),
-          close: jest.fn(),
-        },
-      } as any;
-
-      const mockRequest = {
-        ip: '127.0.0.1',
-        headers: { 'user-agent': 'test-agent' },
-      } as any;
-
-      wsManager.setFastifyInstance(mockFastify);
-      wsManager.registerWebSocketRoute('test-order-123');
-
-      const registeredHandler = mockFastify.get.mock.calls[0]?.[2] as Function;
-      expect(typeof registeredHandler).toBe('function');
-      if (typeof registeredHandler === 'function') {
-        registeredHandler.call(mockFastify, mockSocket, mockRequest);
-      }
+    it('should return true for subscribed orders', () => {
+      wsManager.handleConnection(createMockSocket(), mockRequest, ['test-order-123']);
 
       expect(wsManager.hasConnection('test-order-123')).toBe(true);
     });
@@ -601,4 +561,4 @@ describe('WebSocketManager', () => {
       expect(wsManager.hasConnection('non-existent')).toBe(false);
     });
   });
-}); 
\ No newline at end of file
+});